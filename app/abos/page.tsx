@@ -0,0 +1,238 @@
+'use client';
+
+/**
+ * Abos-Seite:
+ * - Listet erkannte Abos und wiederkehrende Zahlungen (wöchentlich, monatlich, jährlich) mit Monats- und Jahreskosten.
+ * - Zeigt nächste erwartete Belastung, Preisänderungen und ausgebliebene Belastungen; Zahlungen, die mehrere Perioden
+ *   ausbleiben, gelten als beendet und zählen nicht mehr zu den Kosten.
+ * - Abos lassen sich als erwartet bestätigen oder als gekündigt markieren; Belastungen nach der Kündigung werden hervorgehoben.
+ */
+
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Check, Repeat, RotateCcw, TrendingDown, TrendingUp, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import CategoryIcon from '@/components/CategoryIcon';
+import type { Subscription, SubscriptionPeriod } from '@/lib/types';
+import { isActiveSubscription } from '@/lib/subscriptions';
+import { useI18n } from '@/hooks/useI18n';
+import { useCategories } from '@/hooks/useCategories';
+
+const PERIOD_LABELS: Record<SubscriptionPeriod, [string, string]> = {
+  weekly: ['abos.period.weekly', 'Wöchentlich'],
+  monthly: ['abos.period.monthly', 'Monatlich'],
+  yearly: ['abos.period.yearly', 'Jährlich'],
+};
+
+const formatChf = (value: number) => `${value.toFixed(2)} CHF`;
+const formatDate = (value: string) => new Date(value).toLocaleDateString('de-CH');
+
+export default function AbosPage() {
+  const { t } = useI18n();
+  const { label: categoryLabel, lookup: lookupCategory } = useCategories();
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+  const [totals, setTotals] = useState({ monthly: 0, annual: 0 });
+  const [loading, setLoading] = useState(true);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSubscriptions();
+  }, []);
+
+  const fetchSubscriptions = async () => {
+    try {
+      const res = await fetch('/api/subscriptions');
+      const data = await res.json();
+      if (data.success) {
+        setSubscriptions(data.subscriptions);
+        setTotals(data.totals);
+      }
+    } catch (err) {
+      console.error('Error fetching subscriptions:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setStatus = async (subscription: Subscription, status: 'expected' | 'cancelled' | null) => {
+    setSavingKey(subscription.merchantKey);
+    try {
+      const res = await fetch('/api/subscriptions', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ merchantKey: subscription.merchantKey, status }),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error || 'Update failed');
+      await fetchSubscriptions();
+    } catch (err) {
+      console.error('Error updating subscription:', err);
+      alert(t('abos.error', 'Status konnte nicht gespeichert werden.'));
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const activeCount = subscriptions.filter(isActiveSubscription).length;
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">{t('abos.title', 'Abos')}</h1>
+        <p className="text-gray-600 dark:text-gray-300 mt-1">
+          {t('abos.subtitle', 'Wiederkehrende Zahlungen aus deinem Verlauf – mit nächster Belastung, Preisänderungen und Ausreissern.')}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm text-gray-600 dark:text-gray-300">{t('abos.monthly', 'Pro Monat')}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-2xl font-bold text-gray-900 dark:text-gray-100">{formatChf(totals.monthly)}</CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm text-gray-600 dark:text-gray-300">{t('abos.annual', 'Pro Jahr')}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-2xl font-bold text-gray-900 dark:text-gray-100">{formatChf(totals.annual)}</CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm text-gray-600 dark:text-gray-300">{t('abos.active', 'Aktive Abos')}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-2xl font-bold text-gray-900 dark:text-gray-100">{activeCount}</CardContent>
+        </Card>
+      </div>
+
+      {loading ? (
+        <p className="text-gray-500">{t('abos.loading', 'Lade Abos...')}</p>
+      ) : subscriptions.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6 text-center py-12 text-gray-600 dark:text-gray-300">
+            <Repeat className="w-10 h-10 mx-auto mb-3 text-gray-400" />
+            <p>{t('abos.empty', 'Noch keine wiederkehrenden Zahlungen erkannt.')}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {subscriptions.map((subscription) => {
+            const categoryInfo = lookupCategory(subscription.category);
+            const [periodKey, periodFallback] = PERIOD_LABELS[subscription.period];
+            const cancelled = subscription.status === 'cancelled';
+            const ended = subscription.status === 'ended';
+            const saving = savingKey === subscription.merchantKey;
+
+            return (
+              <Card key={subscription.merchantKey} className={cancelled || ended ? 'opacity-70' : ''}>
+                <CardContent className="pt-6">
+                  <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+                    <div className="space-y-2 flex-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-semibold text-gray-900 dark:text-gray-100">{subscription.merchant}</span>
+                        <Badge variant="secondary" className="text-xs flex items-center gap-1">
+                          <CategoryIcon icon={categoryInfo?.icon} color={categoryInfo?.color} className="w-3 h-3" />
+                          {categoryLabel(subscription.category)}
+                        </Badge>
+                        <Badge variant="outline" className="text-xs">
+                          {t(periodKey, periodFallback)}
+                        </Badge>
+                        {subscription.status === 'expected' && (
+                          <Badge className="text-xs bg-green-600 text-white">{t('abos.status.expected', 'Erwartet')}</Badge>
+                        )}
+                        {cancelled && (
+                          <Badge variant="secondary" className="text-xs">{t('abos.status.cancelled', 'Gekündigt')}</Badge>
+                        )}
+                        {ended && (
+                          <Badge variant="secondary" className="text-xs">{t('abos.status.ended', 'Beendet')}</Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-700 dark:text-gray-200">
+                        {formatChf(subscription.amount)} · {formatChf(subscription.monthlyCost)} {t('abos.perMonth', 'pro Monat')} ·{' '}
+                        {formatChf(subscription.annualCost)} {t('abos.perYear', 'pro Jahr')}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {subscription.chargeCount} {t('abos.charges', 'Belastungen')} · {t('abos.last', 'Zuletzt')}{' '}
+                        {formatDate(subscription.lastCharge)}
+                        {subscription.nextCharge && (
+                          <>
+                            {' '}
+                            · {t('abos.next', 'Nächste erwartet')} {formatDate(subscription.nextCharge)}
+                          </>
+                        )}
+                      </p>
+                      <div className="flex flex-wrap gap-2">
+                        {subscription.priceChanges.map((change) => (
+                          <Badge
+                            key={change.date}
+                            variant="outline"
+                            className={`text-xs flex items-center gap-1 ${change.to > change.from ? 'text-red-700 border-red-300' : 'text-green-700 border-green-300'}`}
+                          >
+                            {change.to > change.from ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
+                            {t('abos.priceChange', 'Preisänderung')} {formatDate(change.date)}: {change.from.toFixed(2)} →{' '}
+                            {change.to.toFixed(2)}
+                          </Badge>
+                        ))}
+                        {subscription.missedCharges > 0 && !ended && (
+                          <Badge variant="outline" className="text-xs flex items-center gap-1 text-amber-700 border-amber-300">
+                            <AlertTriangle className="w-3 h-3" />
+                            {subscription.missedCharges} {t('abos.missed', 'Belastung(en) ausgeblieben')}
+                          </Badge>
+                        )}
+                        {subscription.chargedAfterCancel && (
+                          <Badge variant="destructive" className="text-xs flex items-center gap-1">
+                            <AlertTriangle className="w-3 h-3" />
+                            {t('abos.chargedAfterCancel', 'Belastung nach Kündigung')}
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      {subscription.status === 'detected' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={saving}
+                          onClick={() => setStatus(subscription, 'expected')}
+                          className="flex items-center gap-1"
+                        >
+                          <Check className="w-4 h-4" />
+                          {t('abos.markExpected', 'Als erwartet markieren')}
+                        </Button>
+                      )}
+                      {!cancelled && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={saving}
+                          onClick={() => setStatus(subscription, 'cancelled')}
+                          className="flex items-center gap-1"
+                        >
+                          <XCircle className="w-4 h-4" />
+                          {t('abos.markCancelled', 'Gekündigt')}
+                        </Button>
+                      )}
+                      {(subscription.status === 'expected' || cancelled) && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={saving}
+                          onClick={() => setStatus(subscription, null)}
+                          className="flex items-center gap-1"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                          {t('abos.reset', 'Zurücksetzen')}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,12 +3,15 @@
 /**
  * Analyse-Seite:
  * - Lädt Budget-Analyse (Budget, Kategorien, Muster, Impulskäufe) für wählbaren Zeitraum.
- * - Ermöglicht Umschalten zwischen Monat/Jahr/Custom + Budgetquelle (auto/manuell).
+ * - Ermöglicht Umschalten zwischen Monat/Jahr/Custom + Budgetquelle (auto/manuell); «Monat» ist die
+ *   Budgetperiode (Kalendermonat oder ab Zahltag, siehe Budgetprofil).
+ * - Zeigt Budget vs. Ist je Kategorie (Envelopes) mit Übertrag aus Vormonaten.
+ * - Zeigt die Cashflow-Prognose (Kontostand Tag für Tag bis drei Perioden voraus).
  * - Zeigt Sparziele, Impulskäufe und erkannte Muster.
  */
 
 import { useState, useEffect } from 'react';
-import { ShoppingBag, Truck, Utensils, Tv, Package, AlertCircle, Target, TrendingUp, Trash2, Plus } from 'lucide-react';
+import { AlertCircle, Target, TrendingUp, Trash2, Plus, FileDown } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
@@ -16,42 +19,17 @@ import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import type { BudgetSummary, Transaction, SavingsGoal } from '@/lib/types';
+import CategoryIcon from '@/components/CategoryIcon';
+import CashFlowForecastCard from '@/components/CashFlowForecastCard';
+import { rootCategory } from '@/lib/categories';
 import { useI18n } from '@/hooks/useI18n';
+import { useCategories } from '@/hooks/useCategories';
 
-const CATEGORY_ICONS: Record<string, any> = {
-  Shopping: ShoppingBag,
-  'Food Delivery': Utensils,
-  Transport: Truck,
-  Unterhaltung: Tv,
-  Lebensmittel: Package,
-  Gesundheit: AlertCircle,
-  Sonstiges: Package,
-};
-
-const CATEGORY_LABELS: Record<string, { de: string; en: string }> = {
-  Abos: { de: 'Abos', en: 'Subscriptions' },
-  Allgemeines: { de: 'Allgemeines', en: 'General' },
-  Bargeldbezug: { de: 'Bargeldbezug', en: 'Cash withdrawal' },
-  Gastronomie: { de: 'Gastronomie', en: 'Dining' },
-  Shopping: { de: 'Shopping', en: 'Shopping' },
-  'Food Delivery': { de: 'Food Delivery', en: 'Food delivery' },
-  'Mobilität - Auto': { de: 'Mobilität - Auto', en: 'Transport - Car' },
-  'Mobilität - Öffentlicher Verkehr': { de: 'Mobilität - Öffentlicher Verkehr', en: 'Transport - Public' },
-  Reisen: { de: 'Reisen', en: 'Travel' },
-  Sparen: { de: 'Sparen', en: 'Saving' },
-  'Sparen & Anlegen': { de: 'Sparen & Anlegen', en: 'Saving & Investing' },
-  Steuern: { de: 'Steuern', en: 'Taxes' },
-  Transport: { de: 'Transport', en: 'Transport' },
-  Zahlungen: { de: 'Zahlungen', en: 'Payments' },
-  Wohnen: { de: 'Wohnen', en: 'Housing' },
-  Unterhaltung: { de: 'Unterhaltung', en: 'Entertainment' },
-  Lebensmittel: { de: 'Lebensmittel', en: 'Groceries' },
-  Gesundheit: { de: 'Gesundheit', en: 'Health' },
-  Sonstiges: { de: 'Sonstiges', en: 'Other' },
-};
+const formatPeriodDate = (value: string) => new Date(`${value}T00:00:00`).toLocaleDateString('de-CH');
 
 export default function AnalysePage() {
   const { t, lang } = useI18n();
+  const { categories, label: translateCategory, lookup: lookupCategory } = useCategories();
   const [budgetSummary, setBudgetSummary] = useState<BudgetSummary | null>(null);
   const [impulseTransactions, setImpulseTransactions] = useState<Transaction[]>([]);
   const [goals, setGoals] = useState<SavingsGoal[]>([]);
@@ -71,6 +49,10 @@ export default function AnalysePage() {
   const [endDate, setEndDate] = useState('');
   const [appliedStartDate, setAppliedStartDate] = useState('');
   const [appliedEndDate, setAppliedEndDate] = useState('');
+  const [showReportDialog, setShowReportDialog] = useState(false);
+  const [reportMonth, setReportMonth] = useState(() => new Date().toISOString().slice(0, 7));
+  const [reportLang, setReportLang] = useState<'de' | 'en'>('de');
+  const [downloadingReport, setDownloadingReport] = useState(false);
 
   useEffect(() => {
     // Lokale Präferenzen (Zeitraum/Budgetquelle) beim Laden wiederherstellen
@@ -235,6 +217,43 @@ export default function AnalysePage() {
     }
   };
 
+  // PDF-Bericht: gewählter Monat oder der angewendete eigene Zeitraum
+  const reportUsesRange = timeframe === 'custom' && Boolean(appliedStartDate && appliedEndDate);
+
+  const openReportDialog = () => {
+    setReportLang(lang === 'en' ? 'en' : 'de');
+    setShowReportDialog(true);
+  };
+
+  const downloadReport = async () => {
+    const params = new URLSearchParams({ lang: reportLang, budgetMode });
+    if (reportUsesRange) {
+      params.set('startDate', appliedStartDate);
+      params.set('endDate', appliedEndDate);
+    } else {
+      params.set('month', reportMonth);
+    }
+    setDownloadingReport(true);
+    try {
+      const response = await fetch(`/api/report?${params.toString()}`);
+      if (!response.ok) throw new Error(`Report failed: ${response.status}`);
+      const fileName =
+        response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? 'smartbudget-bericht.pdf';
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+      setShowReportDialog(false);
+    } catch (error) {
+      console.error('Error downloading report:', error);
+      alert(t('analyse.report.error', 'Bericht konnte nicht erstellt werden.'));
+    } finally {
+      setDownloadingReport(false);
+    }
+  };
+
   const openDepositDialog = (goal: SavingsGoal) => {
     setSelectedGoal(goal);
     setDepositAmount('');
@@ -323,11 +342,22 @@ export default function AnalysePage() {
     }
   };
 
-  const translateCategory = (category: string) => {
-    const entry = CATEGORY_LABELS[category];
-    if (!entry) return category;
-    return lang === 'en' ? entry.en : entry.de;
-  };
+  // Ausgaben je Hauptkategorie (Unterkategorien zählen zur Oberkategorie) für die Verteilungsleiste
+  const categoryGroups = (() => {
+    const totals = new Map<string, { amount: number; color: string }>();
+    budgetSummary?.byCategory.forEach((cat) => {
+      const root = rootCategory(categories, cat.category);
+      const name = root?.name ?? cat.category;
+      const entry = totals.get(name) ?? { amount: 0, color: root?.color ?? '#9ca3af' };
+      entry.amount += cat.amount;
+      totals.set(name, entry);
+    });
+    const total = Array.from(totals.values()).reduce((sum, entry) => sum + entry.amount, 0);
+    return Array.from(totals.entries())
+      .map(([name, entry]) => ({ name, ...entry, share: total > 0 ? entry.amount / total : 0 }))
+      .filter((group) => group.amount > 0)
+      .sort((a, b) => b.amount - a.amount);
+  })();
 
   const translatePattern = (pattern: string) => {
     if (lang !== 'en') return pattern;
@@ -473,6 +503,10 @@ export default function AnalysePage() {
               <option value="manual">{t('analyse.budgetMode.manual', 'Manuell (Budget-Dialog)')}</option>
             </select>
           </div>
+          <Button className="self-start sm:self-end" variant="outline" size="sm" onClick={openReportDialog}>
+            <FileDown className="h-4 w-4 mr-2" />
+            {t('analyse.report.button', 'PDF-Bericht')}
+          </Button>
           {timeframe === 'custom' && (
             <div className="flex flex-col sm:flex-row sm:items-center gap-3">
               <div className="flex flex-col text-sm text-gray-700">
@@ -532,6 +566,11 @@ export default function AnalysePage() {
               ? t('analyse.timeframe.custom', 'Zeitraum')
               : t('analyse.timeframe.month', 'Monat')}
           </CardTitle>
+          {budgetSummary && (
+            <p className="text-sm text-gray-500">
+              {formatPeriodDate(budgetSummary.periodStart)} – {formatPeriodDate(budgetSummary.periodEnd)}
+            </p>
+          )}
         </CardHeader>
         <CardContent>
           <div className="space-y-2">
@@ -565,17 +604,86 @@ export default function AnalysePage() {
         </CardContent>
       </Card>
 
+      <CashFlowForecastCard />
+
+      {budgetSummary && budgetSummary.envelopes.length > 0 && (
+        <div>
+          <h2 className="text-xl font-bold text-gray-900 mb-4">{t('analyse.envelopes', 'Budgets nach Kategorie')}</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {budgetSummary.envelopes.map((envelope) => {
+              const category = lookupCategory(envelope.category);
+              const color = category?.color ?? '#2563eb';
+              const over = envelope.remaining < 0;
+              const percent =
+                envelope.available > 0 ? Math.min(100, (envelope.spent / envelope.available) * 100) : envelope.spent > 0 ? 100 : 0;
+              return (
+                <Card key={envelope.category}>
+                  <CardContent className="pt-6 space-y-2">
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="flex items-center space-x-2">
+                        <CategoryIcon icon={category?.icon} color={color} className="w-5 h-5" />
+                        <span className="font-medium text-gray-900">{translateCategory(envelope.category)}</span>
+                      </div>
+                      <span className="text-sm font-bold">
+                        {envelope.spent.toFixed(2)} CHF / {envelope.available.toFixed(2)} CHF
+                      </span>
+                    </div>
+                    <Progress value={percent} className="h-2" indicatorClassName={over ? 'bg-red-500' : 'bg-primary'} />
+                    <div className="text-xs text-gray-700 flex items-center justify-between">
+                      <span className={over ? 'text-red-600' : ''}>
+                        {over
+                          ? `${t('analyse.budget.over', 'Budgetüberzug')}: ${Math.abs(envelope.remaining).toFixed(2)} CHF`
+                          : `${t('analyse.budget.remaining', 'Restbudget')}: ${envelope.remaining.toFixed(2)} CHF`}
+                      </span>
+                      {envelope.carriedOver !== 0 && (
+                        <span className="text-gray-500">
+                          {t('analyse.envelope.carriedOver', 'Übertrag')}: {envelope.carriedOver > 0 ? '+' : ''}
+                          {envelope.carriedOver.toFixed(2)} CHF
+                        </span>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       <div>
         <h2 className="text-xl font-bold text-gray-900 mb-4">{t('analyse.byCategory', 'Ausgaben nach Kategorie')}</h2>
+        {categoryGroups.length > 0 && (
+          <div className="mb-4 space-y-2">
+            <div className="flex h-3 w-full overflow-hidden rounded-full bg-gray-100">
+              {categoryGroups.map((group) => (
+                <div
+                  key={group.name}
+                  className="h-full"
+                  style={{ width: `${group.share * 100}%`, backgroundColor: group.color }}
+                  title={`${translateCategory(group.name)}: ${group.amount.toFixed(2)} CHF`}
+                />
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+              {categoryGroups.map((group) => (
+                <span key={group.name} className="flex items-center gap-1">
+                  <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: group.color }} />
+                  {translateCategory(group.name)} {Math.round(group.share * 100)}%
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
         <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-4">
           {budgetSummary?.byCategory.map((cat) => {
-            const Icon = CATEGORY_ICONS[cat.category] || Package;
+            const category = lookupCategory(cat.category);
+            const color = category?.color ?? '#2563eb';
             return (
               <Card key={cat.category}>
                 <CardContent className="pt-6">
                   <div className="flex items-center space-x-3">
-                    <div className="p-3 bg-blue-50 rounded-lg">
-                      <Icon className="w-6 h-6 text-blue-600" />
+                    <div className="p-3 rounded-lg" style={{ backgroundColor: `${color}1a` }}>
+                      <CategoryIcon icon={category?.icon} color={color} className="w-6 h-6" />
                     </div>
                     <div>
                       <p className="text-sm text-gray-600">{translateCategory(cat.category)}</p>
@@ -734,6 +842,50 @@ export default function AnalysePage() {
         </div>
       )}
 
+      <Dialog open={showReportDialog} onOpenChange={setShowReportDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('analyse.report.title', 'Budgetbericht als PDF')}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3 text-sm text-gray-700 dark:text-gray-300">
+            {reportUsesRange ? (
+              <p>
+                {t('analyse.report.range', 'Zeitraum')}: <span className="font-semibold">{appliedStartDate} – {appliedEndDate}</span>
+              </p>
+            ) : (
+              <div className="space-y-1">
+                <span>{t('analyse.report.month', 'Monat')}</span>
+                <Input type="month" value={reportMonth} onChange={(e) => setReportMonth(e.target.value)} />
+              </div>
+            )}
+            <div className="flex flex-col space-y-1">
+              <span>{t('analyse.report.language', 'Sprache')}</span>
+              <select
+                className="border rounded px-2 py-1 text-sm"
+                value={reportLang}
+                onChange={(e) => setReportLang(e.target.value === 'en' ? 'en' : 'de')}
+              >
+                <option value="de">Deutsch</option>
+                <option value="en">English</option>
+              </select>
+            </div>
+            <p className="text-xs text-gray-500">
+              {t('analyse.report.hint', 'Enthält Budget, Ausgaben nach Kategorie, Muster, Impulskäufe und Sparziele.')}
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowReportDialog(false)}>
+              {t('analyse.cancel', 'Abbrechen')}
+            </Button>
+            <Button onClick={downloadReport} disabled={downloadingReport || (!reportUsesRange && !reportMonth)}>
+              {downloadingReport
+                ? t('analyse.report.generating', 'Erstelle Bericht...')
+                : t('analyse.report.download', 'Herunterladen')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={showDepositDialog} onOpenChange={setShowDepositDialog}>
         <DialogContent>
           <DialogHeader>
@@ -0,0 +1,127 @@
+/**
+ * API Route: /api/accounts
+ * The user's accounts (GET, POST, PUT, DELETE); GET returns them with their current balance
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { createAccount, deleteAccount, getAccounts, getTransactions, updateAccount } from '@/lib/repository';
+import { getCategoryTaxonomy } from '@/lib/categoryTaxonomy';
+import { accountBalances, AccountValidationError, parseAccountInput, spendingBalance } from '@/lib/accounts';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth';
+
+const validationResponse = (error: AccountValidationError) =>
+  NextResponse.json({ success: false, error: error.message }, { status: 400 });
+
+/**
+ * GET /api/accounts
+ * Returns { accounts, totals: { balance, spending } } — accounts with balance and number of
+ * bookings; `spending` sums the bank, card and cash accounts
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const [accounts, transactions, categories] = await Promise.all([
+      getAccounts(userId),
+      getTransactions(userId),
+      getCategoryTaxonomy(userId),
+    ]);
+
+    const balances = accountBalances(accounts, transactions, categories);
+    const total = balances.reduce((sum, account) => sum + account.balance, 0);
+
+    return NextResponse.json({
+      success: true,
+      accounts: balances,
+      totals: { balance: Math.round(total * 100) / 100, spending: spendingBalance(balances) },
+    });
+  } catch (error) {
+    console.error('Error fetching accounts:', error);
+    return NextResponse.json({ success: false, error: 'Failed to fetch accounts' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/accounts
+ * Body: { name: string, type?: 'bank' | 'card' | 'cash' | 'savings' | 'pillar3a', openingBalance?: number }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const body = await request.json();
+
+    const input = parseAccountInput(body, await getAccounts(userId));
+    const account = await createAccount({
+      id: randomUUID(),
+      userId,
+      ...input,
+      createdAt: new Date().toISOString(),
+    });
+
+    return NextResponse.json({ success: true, account });
+  } catch (error) {
+    if (error instanceof AccountValidationError) return validationResponse(error);
+    console.error('Error creating account:', error);
+    return NextResponse.json({ success: false, error: 'Failed to create account' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/accounts
+ * Body: { id: string, name?, type?, openingBalance? }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const body = await request.json();
+    if (!body.id) {
+      return NextResponse.json({ success: false, error: 'id ist erforderlich' }, { status: 400 });
+    }
+
+    const accounts = await getAccounts(userId);
+    const existing = accounts.find((account) => account.id === body.id);
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Account not found' }, { status: 404 });
+    }
+
+    const account = await updateAccount(userId, existing.id, parseAccountInput(body, accounts, existing));
+
+    return NextResponse.json({ success: true, account });
+  } catch (error) {
+    if (error instanceof AccountValidationError) return validationResponse(error);
+    console.error('Error updating account:', error);
+    return NextResponse.json({ success: false, error: 'Failed to update account' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/accounts
+ * Body: { id: string } — only accounts without transactions or transfers can be deleted
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const { id } = await request.json();
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'id ist erforderlich' }, { status: 400 });
+    }
+
+    const transactions = await getTransactions(userId);
+    if (transactions.some((t) => t.accountId === id || t.transferAccountId === id)) {
+      return NextResponse.json(
+        { success: false, error: 'Konto hat noch Buchungen und kann nicht gelöscht werden' },
+        { status: 409 }
+      );
+    }
+    await deleteAccount(userId, id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting account:', error);
+    return NextResponse.json({ success: false, error: 'Failed to delete account' }, { status: 500 });
+  }
+}
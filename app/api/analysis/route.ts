@@ -4,8 +4,10 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getUser, getTransactions, getSavingsGoals } from '@/lib/supabase';
+import { getUser, getTransactions, getSavingsGoals } from '@/lib/repository';
 import { budgetPlannerAgent } from '@/lib/agents';
+import { getCategoryTaxonomy } from '@/lib/categoryTaxonomy';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth';
 
 /**
  * GET /api/analysis
@@ -13,6 +15,9 @@ import { budgetPlannerAgent } from '@/lib/agents';
  */
 export async function GET(request: NextRequest) {
   try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+
     const { searchParams } = new URL(request.url);
     const timeframeParam = searchParams.get('scope');
     const budgetModeParam = searchParams.get('budgetMode');
@@ -21,7 +26,6 @@ export async function GET(request: NextRequest) {
     const hasCustomRange = Boolean(startDateParam && endDateParam);
     const timeframe = hasCustomRange ? 'custom' : timeframeParam === 'year' ? 'year' : 'month';
     const budgetMode = budgetModeParam === 'manual' ? 'manual' : 'auto';
-    const userId = 'demoUser';
 
     // Nutzer und Daten laden
     const user = await getUser(userId);
@@ -35,35 +39,33 @@ export async function GET(request: NextRequest) {
     // Fetch transactions and goals
     const transactions = await getTransactions(userId);
     const goals = await getSavingsGoals(userId);
+    const categories = await getCategoryTaxonomy(userId);
 
     // Get current month
     const now = new Date();
     const currentMonth = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
-    const currentYearPrefix = `${now.getFullYear()}`;
 
     // Run budget planner agent mit passendem Zeitraum
     const budgetSummary = await budgetPlannerAgent({
       userId,
       monthlyNetIncome: user.monthlyNetIncome,
+      budgetProfile: user.budgetProfile,
+      monthlyFlexibleBudget: user.monthlyFlexibleBudget,
+      budgetPeriod: user.budgetPeriod,
       transactions,
       month: currentMonth,
       timeframe,
       budgetMode,
       startDate: startDateParam,
       endDate: endDateParam,
+      categories,
     });
 
-    // Impulskäufe für gewählten Zeitraum filtern
-    const impulseTransactions = transactions.filter((t) => {
-      if (!t.isImpulse) return false;
-      if (timeframe === 'year') {
-        return t.date.startsWith(currentYearPrefix);
-      }
-      if (timeframe === 'custom' && startDateParam && endDateParam) {
-        return t.date >= startDateParam && t.date <= endDateParam;
-      }
-      return t.date.startsWith(currentMonth);
-    });
+    // Impulskäufe für den analysierten Zeitraum (Budgetperiode, Jahr oder Custom) filtern
+    const { start, end } = budgetSummary.period;
+    const impulseTransactions = transactions.filter(
+      (t) => t.isImpulse && t.date.slice(0, 10) >= start && t.date.slice(0, 10) <= end
+    );
 
     return NextResponse.json({
       success: true,
@@ -73,6 +75,9 @@ export async function GET(request: NextRequest) {
         monthlyBudget: budgetSummary.monthlyBudget,
         usedBudget: budgetSummary.usedBudget,
         byCategory: budgetSummary.byCategory,
+        envelopes: budgetSummary.envelopes,
+        periodStart: start,
+        periodEnd: end,
         timeframe: budgetSummary.timeframe,
       },
       impulseTransactions,
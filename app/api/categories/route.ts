@@ -0,0 +1,144 @@
+/**
+ * API Route: /api/categories
+ * Manages the user's category taxonomy (GET, POST, PUT, DELETE). The default taxonomy is
+ * created on first access; see lib/categories.ts and lib/categoryTaxonomy.ts.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { createCategories, updateCategory } from '@/lib/repository';
+import { categoryWithDescendants, CategoryValidationError, parseCategoryInput } from '@/lib/categories';
+import { deleteCategoryAndReassign, getCategoryTaxonomy, renameCategory } from '@/lib/categoryTaxonomy';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth';
+
+function validationResponse(error: unknown) {
+  if (error instanceof CategoryValidationError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+  }
+  return null;
+}
+
+/**
+ * GET /api/categories
+ * Returns the taxonomy ordered by sortOrder
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const categories = await getCategoryTaxonomy(userId);
+
+    return NextResponse.json({ success: true, categories });
+  } catch (error) {
+    console.error('Error fetching categories:', error);
+    return NextResponse.json({ success: false, error: 'Failed to fetch categories' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/categories
+ * Body: { name, parentId?, kind?, color?, icon?, labelDe?, labelEn?, sortOrder?, budgetLimit?, budgetRollover? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const categories = await getCategoryTaxonomy(userId);
+    const input = parseCategoryInput(await request.json(), categories);
+
+    const [category] = await createCategories([
+      { ...input, id: randomUUID(), userId, createdAt: new Date().toISOString() },
+    ]);
+
+    return NextResponse.json({ success: true, category });
+  } catch (error) {
+    const invalid = validationResponse(error);
+    if (invalid) return invalid;
+    console.error('Error creating category:', error);
+    return NextResponse.json({ success: false, error: 'Failed to create category' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/categories
+ * Body: { id: string, ...fields to change } — parentId null moves the category to the top level,
+ * budgetLimit null removes its budget.
+ * Renaming also renames the category on transactions, rules and merchant defaults.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const body = await request.json();
+    if (!body.id) {
+      return NextResponse.json({ success: false, error: 'id ist erforderlich' }, { status: 400 });
+    }
+
+    const categories = await getCategoryTaxonomy(userId);
+    const existing = categories.find((category) => category.id === body.id);
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Category not found' }, { status: 404 });
+    }
+
+    const { name, ...input } = parseCategoryInput(body, categories, existing);
+    await updateCategory(userId, existing.id, {
+      ...input,
+      parentId: input.parentId ?? null,
+      budgetLimit: input.budgetLimit ?? null,
+    });
+
+    // Subcategories always share the kind of their parent
+    if (input.kind !== existing.kind) {
+      const descendants = categoryWithDescendants(categories, existing.name).slice(1);
+      for (const child of categories.filter((category) => descendants.includes(category.name))) {
+        await updateCategory(userId, child.id, { kind: input.kind });
+      }
+    }
+
+    const moved = await renameCategory(userId, existing, name);
+    const category = (await getCategoryTaxonomy(userId)).find((entry) => entry.id === existing.id);
+
+    return NextResponse.json({ success: true, category, moved });
+  } catch (error) {
+    const invalid = validationResponse(error);
+    if (invalid) return invalid;
+    console.error('Error updating category:', error);
+    return NextResponse.json({ success: false, error: 'Failed to update category' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/categories
+ * Body: { id: string, replaceWith?: string } — transactions, rules and merchant defaults move to
+ * `replaceWith` (default: the parent category, else Allgemeines)
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const { id, replaceWith } = await request.json();
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'id ist erforderlich' }, { status: 400 });
+    }
+
+    const categories = await getCategoryTaxonomy(userId);
+    const category = categories.find((entry) => entry.id === id);
+    if (!category) {
+      return NextResponse.json({ success: false, error: 'Category not found' }, { status: 404 });
+    }
+
+    const result = await deleteCategoryAndReassign(
+      userId,
+      categories,
+      category,
+      typeof replaceWith === 'string' && replaceWith ? replaceWith : undefined
+    );
+
+    return NextResponse.json({ success: true, id, ...result });
+  } catch (error) {
+    const invalid = validationResponse(error);
+    if (invalid) return invalid;
+    console.error('Error deleting category:', error);
+    return NextResponse.json({ success: false, error: 'Failed to delete category' }, { status: 500 });
+  }
+}
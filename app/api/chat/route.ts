@@ -17,7 +17,8 @@ import {
   updateSavingsGoalRules,
   markSavingsGoalComplete,
   updateSavingsGoal,
-} from '@/lib/supabase';
+} from '@/lib/repository';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth';
 import type { ChatMessage, SavingsGoal } from '@/lib/types';
 
 /**
@@ -26,8 +27,11 @@ import type { ChatMessage, SavingsGoal } from '@/lib/types';
  */
 export async function POST(request: NextRequest) {
   try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+
     const body = await request.json();
-    const { conversation, userId = 'demoUser', lang: bodyLang } = body;
+    const { conversation, lang: bodyLang } = body;
     const lang = bodyLang === 'en' ? 'en' : 'de';
     const tr = (de: string, en: string) => (lang === 'en' ? en : de);
 
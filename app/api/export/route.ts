@@ -0,0 +1,86 @@
+/**
+ * API Route: /api/export
+ * Downloads the user's data.
+ * - `scope=transactions` (default): the filtered transaction list as `format=csv|json|xlsx`.
+ *   Filters mirror the history page: `search`, `category`, `type` (all|income|expense),
+ *   `from`, `to` (YYYY-MM-DD) and `sort`.
+ * - `scope=account`: full-account JSON (profile, transactions, savings goals with rules, imports,
+ *   rules, merchants, categories)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTransactions } from '@/lib/repository';
+import { buildAccountExport, transactionsToCsv, transactionsToXlsx, type ExportFormat } from '@/lib/exports';
+import { getCategoryTaxonomy } from '@/lib/categoryTaxonomy';
+import { filterTransactions, type TransactionSort, type TransactionTypeFilter } from '@/lib/transactionFilters';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth';
+
+const FORMATS: ExportFormat[] = ['csv', 'json', 'xlsx'];
+const TYPES: TransactionTypeFilter[] = ['all', 'income', 'expense'];
+const SORTS: TransactionSort[] = ['date-desc', 'date-asc', 'amount-desc', 'amount-asc'];
+
+function download(body: string | Buffer, fileName: string, contentType: string) {
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+
+    const params = request.nextUrl.searchParams;
+    const scope = params.get('scope') ?? 'transactions';
+    const today = new Date().toISOString().split('T')[0];
+
+    if (scope === 'account') {
+      const data = await buildAccountExport(userId);
+      return download(JSON.stringify(data, null, 2), `smartbudget-konto-${today}.json`, 'application/json');
+    }
+    if (scope !== 'transactions') {
+      return NextResponse.json({ success: false, error: 'scope muss transactions oder account sein' }, { status: 400 });
+    }
+
+    const format = (params.get('format') ?? 'csv') as ExportFormat;
+    const type = (params.get('type') ?? 'all') as TransactionTypeFilter;
+    const sortBy = (params.get('sort') ?? 'date-desc') as TransactionSort;
+    if (!FORMATS.includes(format) || !TYPES.includes(type) || !SORTS.includes(sortBy)) {
+      return NextResponse.json({ success: false, error: 'Ungültiges Format oder ungültiger Filter' }, { status: 400 });
+    }
+
+    const categories = await getCategoryTaxonomy(userId);
+    const transactions = filterTransactions(
+      await getTransactions(userId),
+      {
+        search: params.get('search') ?? undefined,
+        category: params.get('category') ?? undefined,
+        type,
+        startDate: params.get('from') ?? undefined,
+        endDate: params.get('to') ?? undefined,
+        sortBy,
+      },
+      categories
+    );
+    const fileName = `smartbudget-transaktionen-${today}.${format}`;
+
+    if (format === 'json') {
+      return download(JSON.stringify({ transactions }, null, 2), fileName, 'application/json');
+    }
+    if (format === 'xlsx') {
+      return download(
+        transactionsToXlsx(transactions, categories),
+        fileName,
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      );
+    }
+    return download(transactionsToCsv(transactions, categories), fileName, 'text/csv; charset=utf-8');
+  } catch (error) {
+    console.error('Error exporting data:', error);
+    return NextResponse.json({ success: false, error: 'Failed to export data' }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * API Route: /api/forecast
+ * Cash-flow forecast for the rest of the budget period and the following periods
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAccounts, getSubscriptionMarks, getTransactions, getUser } from '@/lib/repository';
+import { getCategoryTaxonomy } from '@/lib/categoryTaxonomy';
+import { accountBalances, spendingBalance } from '@/lib/accounts';
+import { budgetPeriodOf } from '@/lib/budgetPeriod';
+import { forecastCashFlow } from '@/lib/forecast';
+import { detectSubscriptions } from '@/lib/subscriptions';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth';
+
+/**
+ * GET /api/forecast?balance=<CHF>&periods=<1-12>
+ * Returns { forecast } (see CashFlowForecast); without `balance` the forecast starts from the
+ * balance of the bank, card and cash accounts (without accounts: booked income minus booked
+ * expenses), `periods` defaults to 3 following budget periods
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+
+    const { searchParams } = new URL(request.url);
+    const balanceParam = searchParams.get('balance');
+    const startBalance = balanceParam !== null && balanceParam !== '' ? Number(balanceParam) : undefined;
+    if (startBalance !== undefined && !Number.isFinite(startBalance)) {
+      return NextResponse.json({ success: false, error: 'balance muss ein Betrag sein' }, { status: 400 });
+    }
+    const periodsAhead = Number(searchParams.get('periods') ?? 3);
+    if (!Number.isInteger(periodsAhead) || periodsAhead < 1 || periodsAhead > 12) {
+      return NextResponse.json({ success: false, error: 'periods muss zwischen 1 und 12 liegen' }, { status: 400 });
+    }
+
+    const user = await getUser(userId);
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+    const [transactions, categories, marks, accounts] = await Promise.all([
+      getTransactions(userId),
+      getCategoryTaxonomy(userId),
+      getSubscriptionMarks(userId),
+      getAccounts(userId),
+    ]);
+
+    const forecast = forecastCashFlow({
+      transactions,
+      categories,
+      subscriptions: detectSubscriptions(transactions, categories, marks),
+      budgetPeriod: budgetPeriodOf(user),
+      monthlyNetIncome: user.monthlyNetIncome,
+      startBalance:
+        startBalance ?? (accounts.length ? spendingBalance(accountBalances(accounts, transactions, categories)) : undefined),
+      periodsAhead,
+    });
+
+    return NextResponse.json({ success: true, forecast });
+  } catch (error) {
+    console.error('Error forecasting cash flow:', error);
+    return NextResponse.json({ success: false, error: 'Failed to forecast cash flow' }, { status: 500 });
+  }
+}
@@ -4,15 +4,17 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getSavingsGoals, updateSavingsGoalAmount, deleteSavingsGoal } from '@/lib/supabase';
+import { getSavingsGoals, updateSavingsGoalAmount, deleteSavingsGoal } from '@/lib/repository';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth';
 
 /**
  * GET /api/goals
- * Returns all savings goals for the demo user
+ * Returns all savings goals for the signed-in user
  */
 export async function GET(request: NextRequest) {
   try {
-    const userId = 'demoUser';
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
     const goals = await getSavingsGoals(userId);
 
     return NextResponse.json({
@@ -34,8 +36,9 @@ export async function GET(request: NextRequest) {
  */
 export async function PATCH(request: NextRequest) {
   try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
     const { goalId, amount, mode } = await request.json();
-    const userId = 'demoUser';
 
     if (!goalId || typeof amount !== 'number' || mode !== 'deposit') {
       return NextResponse.json({ success: false, error: 'Invalid payload' }, { status: 400 });
@@ -64,13 +67,20 @@ export async function PATCH(request: NextRequest) {
  */
 export async function DELETE(request: NextRequest) {
   try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
     const { goalId } = await request.json();
     if (!goalId) {
       return NextResponse.json({ success: false, error: 'goalId required' }, { status: 400 });
     }
 
+    const ownedGoals = await getSavingsGoals(userId);
+    if (!ownedGoals.some((g) => g.id === goalId)) {
+      return NextResponse.json({ success: false, error: 'Goal not found' }, { status: 404 });
+    }
+
     await deleteSavingsGoal(goalId);
-    const goals = await getSavingsGoals('demoUser');
+    const goals = await getSavingsGoals(userId);
 
     return NextResponse.json({ success: true, goals });
   } catch (error) {
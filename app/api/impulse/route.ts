@@ -3,11 +3,15 @@ import { callOpenAI } from '@/lib/openai';
 import {
   getTransactions,
   updateTransactionCategory,
-} from '@/lib/supabase';
+} from '@/lib/repository';
 import { translateToEnglish } from '@/lib/translate';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth';
 
 export async function POST(request: NextRequest) {
   try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+
     const body = await request.json();
     const { transactionId, justification } = body || {};
 
@@ -15,7 +19,6 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: false, error: 'transactionId is required' }, { status: 400 });
     }
 
-    const userId = 'demoUser';
     const transactions = await getTransactions(userId);
     const tx = transactions.find((t) => t.id === transactionId);
     if (!tx) {
@@ -62,6 +65,7 @@ Bitte klassifiziere neu.`;
     }
 
     const updated = await updateTransactionCategory({
+      userId,
       transactionId: tx.id,
       category: aiResult.category || tx.category,
       decisionLabel: aiResult.decisionLabel || tx.decisionLabel,
@@ -0,0 +1,46 @@
+/**
+ * API Route: /api/merchants/merge
+ * Folds several merchant names into one canonical directory entry and renames the
+ * stored transactions accordingly.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { mergeMerchants } from '@/lib/merchantDirectory';
+import { resolveCategoryName } from '@/lib/categories';
+import { getCategoryTaxonomy } from '@/lib/categoryTaxonomy';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth';
+
+/**
+ * POST /api/merchants/merge
+ * Body: { name: string, merchants: string[], defaultCategory?: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const body = await request.json();
+    const name = String(body.name ?? '').trim();
+    const sources = Array.isArray(body.merchants)
+      ? body.merchants.map((merchant: unknown) => String(merchant).trim()).filter(Boolean)
+      : [];
+
+    if (!name || sources.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'name und mindestens ein Händler sind erforderlich' },
+        { status: 400 }
+      );
+    }
+
+    const categoryText = typeof body.defaultCategory === 'string' ? body.defaultCategory.trim() : '';
+    const defaultCategory = categoryText ? resolveCategoryName(await getCategoryTaxonomy(userId), categoryText) : undefined;
+    if (defaultCategory === null) {
+      return NextResponse.json({ success: false, error: 'Unbekannte Kategorie' }, { status: 400 });
+    }
+    const result = await mergeMerchants(userId, name, sources, defaultCategory);
+
+    return NextResponse.json({ success: true, merchant: result.merchant, renamed: result.renamed });
+  } catch (error) {
+    console.error('Error merging merchants:', error);
+    return NextResponse.json({ success: false, error: 'Failed to merge merchants' }, { status: 500 });
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * API Route: /api/merchants
+ * Merchant directory (GET, POST, PUT, DELETE). GET also lists the merchant names used on
+ * transactions so the UI can offer them for merging (see /api/merchants/merge).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import {
+  getMerchants,
+  createMerchant,
+  updateMerchant,
+  deleteMerchant,
+  getTransactions,
+  renameTransactionMerchant,
+} from '@/lib/repository';
+import { merchantKey } from '@/lib/merchants';
+import { resolveCategoryName } from '@/lib/categories';
+import { getCategoryTaxonomy } from '@/lib/categoryTaxonomy';
+import { summarizeMerchantNames } from '@/lib/merchantDirectory';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth';
+
+const parseAliases = (value: unknown): string[] | undefined =>
+  Array.isArray(value) ? value.map((alias) => String(alias).trim()).filter(Boolean) : undefined;
+
+const unknownCategoryResponse = () =>
+  NextResponse.json({ success: false, error: 'Unbekannte Kategorie' }, { status: 400 });
+
+/**
+ * GET /api/merchants
+ * Returns { merchants, names } — directory entries and merchant names with usage counts
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const [merchants, transactions] = await Promise.all([getMerchants(userId), getTransactions(userId)]);
+
+    return NextResponse.json({
+      success: true,
+      merchants,
+      names: summarizeMerchantNames(transactions, merchants),
+    });
+  } catch (error) {
+    console.error('Error fetching merchants:', error);
+    return NextResponse.json({ success: false, error: 'Failed to fetch merchants' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/merchants
+ * Body: { name: string, aliases?: string[], defaultCategory?: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const body = await request.json();
+    const name = String(body.name ?? '').trim();
+    if (!name) {
+      return NextResponse.json({ success: false, error: 'Name ist erforderlich' }, { status: 400 });
+    }
+
+    const directory = await getMerchants(userId);
+    if (directory.some((m) => merchantKey(m.name) === merchantKey(name))) {
+      return NextResponse.json({ success: false, error: 'Händler existiert bereits' }, { status: 409 });
+    }
+    const categoryText = String(body.defaultCategory ?? '').trim();
+    const defaultCategory = categoryText ? resolveCategoryName(await getCategoryTaxonomy(userId), categoryText) : undefined;
+    if (defaultCategory === null) return unknownCategoryResponse();
+
+    const merchant = await createMerchant({
+      id: randomUUID(),
+      userId,
+      name,
+      aliases: parseAliases(body.aliases) ?? [],
+      defaultCategory,
+      createdAt: new Date().toISOString(),
+    });
+
+    return NextResponse.json({ success: true, merchant });
+  } catch (error) {
+    console.error('Error creating merchant:', error);
+    return NextResponse.json({ success: false, error: 'Failed to create merchant' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/merchants
+ * Body: { id: string, name?, aliases?, defaultCategory? } — an empty defaultCategory removes it.
+ * Renaming also renames the stored transactions and keeps the old name as alias.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const body = await request.json();
+    if (!body.id) {
+      return NextResponse.json({ success: false, error: 'id ist erforderlich' }, { status: 400 });
+    }
+
+    const directory = await getMerchants(userId);
+    const existing = directory.find((m) => m.id === body.id);
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Merchant not found' }, { status: 404 });
+    }
+
+    const name = body.name !== undefined ? String(body.name).trim() : existing.name;
+    if (!name) {
+      return NextResponse.json({ success: false, error: 'Name darf nicht leer sein' }, { status: 400 });
+    }
+    if (directory.some((m) => m.id !== existing.id && merchantKey(m.name) === merchantKey(name))) {
+      return NextResponse.json({ success: false, error: 'Händler existiert bereits' }, { status: 409 });
+    }
+
+    let defaultCategory: string | null | undefined;
+    if (body.defaultCategory !== undefined) {
+      const categoryText = String(body.defaultCategory ?? '').trim();
+      defaultCategory = categoryText ? resolveCategoryName(await getCategoryTaxonomy(userId), categoryText) : null;
+      if (categoryText && !defaultCategory) return unknownCategoryResponse();
+    }
+
+    const renamed = name !== existing.name;
+    const aliases = parseAliases(body.aliases) ?? existing.aliases;
+    const merchant = await updateMerchant(userId, existing.id, {
+      name,
+      aliases: renamed && !aliases.includes(existing.name) ? [...aliases, existing.name] : aliases,
+      defaultCategory,
+    });
+    if (renamed) {
+      await renameTransactionMerchant(userId, [existing.name], name);
+    }
+
+    return NextResponse.json({ success: true, merchant });
+  } catch (error) {
+    console.error('Error updating merchant:', error);
+    return NextResponse.json({ success: false, error: 'Failed to update merchant' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/merchants
+ * Body: { id: string } — transactions keep their merchant name
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const { id } = await request.json();
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'id ist erforderlich' }, { status: 400 });
+    }
+
+    const directory = await getMerchants(userId);
+    if (!directory.some((m) => m.id === id)) {
+      return NextResponse.json({ success: false, error: 'Merchant not found' }, { status: 404 });
+    }
+
+    await deleteMerchant(userId, id);
+
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    console.error('Error deleting merchant:', error);
+    return NextResponse.json({ success: false, error: 'Failed to delete merchant' }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * API Route: /api/report
+ * Downloads the budget report as a printable PDF.
+ * - `month=YYYY-MM` (default: current month) or `startDate`/`endDate` (YYYY-MM-DD) for a custom range
+ * - `lang=de|en`, `budgetMode=auto|manual` (same meaning as on /api/analysis)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { buildBudgetReport } from '@/lib/report';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth';
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+
+    const params = request.nextUrl.searchParams;
+    const month = params.get('month') || undefined;
+    const startDate = params.get('startDate') || undefined;
+    const endDate = params.get('endDate') || undefined;
+    const lang = params.get('lang') === 'en' ? 'en' : 'de';
+    const budgetMode = params.get('budgetMode') === 'manual' ? 'manual' : 'auto';
+
+    if (month && !MONTH_PATTERN.test(month)) {
+      return NextResponse.json({ success: false, error: 'month muss im Format YYYY-MM sein' }, { status: 400 });
+    }
+    if (startDate || endDate) {
+      if (!startDate || !endDate || !DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate) || startDate > endDate) {
+        return NextResponse.json({ success: false, error: 'Ungültiger Zeitraum' }, { status: 400 });
+      }
+    }
+
+    const pdf = await buildBudgetReport({ userId, lang, budgetMode, month, startDate, endDate });
+    const period = startDate && endDate ? `${startDate}_${endDate}` : month ?? new Date().toISOString().slice(0, 7);
+    const fileName = `${lang === 'en' ? 'smartbudget-report' : 'smartbudget-bericht'}-${period}.pdf`;
+
+    return new NextResponse(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error building report:', error);
+    return NextResponse.json({ success: false, error: 'Failed to build report' }, { status: 500 });
+  }
+}
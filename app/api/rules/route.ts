@@ -0,0 +1,131 @@
+/**
+ * API Route: /api/rules
+ * Manages the user's categorisation rules (GET, POST, PUT, DELETE).
+ * Rules are evaluated before the AI classification; see lib/rules.ts.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import {
+  getCategorizationRules,
+  createCategorizationRule,
+  updateCategorizationRule,
+  deleteCategorizationRule,
+} from '@/lib/repository';
+import { parseRuleInput, RuleValidationError } from '@/lib/rules';
+import { getCategoryTaxonomy } from '@/lib/categoryTaxonomy';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth';
+
+function validationResponse(error: unknown) {
+  if (error instanceof RuleValidationError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+  }
+  return null;
+}
+
+/**
+ * GET /api/rules
+ * Returns the rules in evaluation order
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const rules = await getCategorizationRules(userId);
+
+    return NextResponse.json({ success: true, rules });
+  } catch (error) {
+    console.error('Error fetching rules:', error);
+    return NextResponse.json({ success: false, error: 'Failed to fetch rules' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/rules
+ * Body: { name, category, merchantPattern?, merchantMatch?, minAmount?, maxAmount?,
+ *         rawCategoryPattern?, isImpulse?, decisionLabel?, priority?, enabled? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const input = parseRuleInput(await request.json(), undefined, await getCategoryTaxonomy(userId));
+
+    const rule = await createCategorizationRule({
+      ...input,
+      id: randomUUID(),
+      userId,
+      createdAt: new Date().toISOString(),
+    });
+
+    return NextResponse.json({ success: true, rule });
+  } catch (error) {
+    const invalid = validationResponse(error);
+    if (invalid) return invalid;
+    console.error('Error creating rule:', error);
+    return NextResponse.json({ success: false, error: 'Failed to create rule' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/rules
+ * Body: { id: string, ...fields to change } — empty strings/null clear optional conditions
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const body = await request.json();
+    if (!body.id) {
+      return NextResponse.json({ success: false, error: 'id ist erforderlich' }, { status: 400 });
+    }
+
+    const existing = (await getCategorizationRules(userId)).find((rule) => rule.id === body.id);
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Rule not found' }, { status: 404 });
+    }
+
+    const input = parseRuleInput(body, existing, await getCategoryTaxonomy(userId));
+    const rule = await updateCategorizationRule(userId, existing.id, {
+      ...input,
+      merchantPattern: input.merchantPattern ?? null,
+      minAmount: input.minAmount ?? null,
+      maxAmount: input.maxAmount ?? null,
+      rawCategoryPattern: input.rawCategoryPattern ?? null,
+    });
+
+    return NextResponse.json({ success: true, rule });
+  } catch (error) {
+    const invalid = validationResponse(error);
+    if (invalid) return invalid;
+    console.error('Error updating rule:', error);
+    return NextResponse.json({ success: false, error: 'Failed to update rule' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/rules
+ * Body: { id: string }
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const { id } = await request.json();
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'id ist erforderlich' }, { status: 400 });
+    }
+
+    const rules = await getCategorizationRules(userId);
+    if (!rules.some((rule) => rule.id === id)) {
+      return NextResponse.json({ success: false, error: 'Rule not found' }, { status: 404 });
+    }
+
+    await deleteCategorizationRule(userId, id);
+
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    console.error('Error deleting rule:', error);
+    return NextResponse.json({ success: false, error: 'Failed to delete rule' }, { status: 500 });
+  }
+}
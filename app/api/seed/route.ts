@@ -1,26 +1,29 @@
 /**
  * API Route: /api/seed
- * Seeds the database with demo data for MVP testing
+ * Seeds the signed-in user's account with demo data for MVP testing
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { randomUUID } from 'crypto';
-import { supabase } from '@/lib/supabase';
+import { getTransactions, createTransaction, createSavingsGoal, updateUserBudget } from '@/lib/repository';
+import { DEFAULT_BUDGET_PROFILE, deriveBudget } from '@/lib/budgetProfile';
+import { DEFAULT_BUDGET_PERIOD } from '@/lib/budgetPeriod';
+import type { Transaction } from '@/lib/types';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth';
 
 /**
  * POST /api/seed
- * Seeds demo user, transactions, and goals
+ * Seeds demo transactions and goals for the current user
  */
 export async function POST(request: NextRequest) {
   try {
-    // Check if demo user already exists
-    const { data: existingUser } = await supabase
-      .from('users')
-      .select('id')
-      .eq('id', 'demoUser')
-      .maybeSingle();
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
 
-    if (existingUser) {
+    // Only seed empty accounts so repeated calls don't duplicate the demo data
+    const existingTransactions = await getTransactions(userId);
+
+    if (existingTransactions.length > 0) {
       return NextResponse.json({
         success: true,
         message: 'Demo data already exists',
@@ -28,110 +31,113 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Create demo user
-    await supabase.from('users').insert({
-      id: 'demoUser',
-      name: 'Demo User',
-      monthly_net_income: 5500,
+    // Demo income with the default budget profile (profile row is created by the session resolver)
+    await updateUserBudget(userId, {
+      monthlyNetIncome: 5500,
+      budgetProfile: DEFAULT_BUDGET_PROFILE,
+      monthlyFlexibleBudget: deriveBudget(5500, DEFAULT_BUDGET_PROFILE).flexibleBudget,
+      budgetPeriod: DEFAULT_BUDGET_PERIOD,
     });
 
     // Create demo transactions
     const now = new Date();
     const currentMonth = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
 
-    const demoTransactions = [
+    const demoTransactions: Transaction[] = [
       {
         id: randomUUID(),
-        user_id: 'demoUser',
+        userId,
         date: `${currentMonth}-05`,
         merchant: 'Coop',
         amount: 87.5,
         category: 'Lebensmittel',
-        is_impulse: false,
-        decision_label: 'useful',
-        decision_explanation: 'Regelmässiger Lebensmitteleinkauf für die Woche.',
+        isImpulse: false,
+        decisionLabel: 'useful',
+        decisionExplanation: 'Regelmässiger Lebensmitteleinkauf für die Woche.',
       },
       {
         id: randomUUID(),
-        user_id: 'demoUser',
+        userId,
         date: `${currentMonth}-06`,
         merchant: 'Zalando',
         amount: 129.9,
         category: 'Shopping',
-        is_impulse: true,
-        decision_label: 'unnecessary',
-        decision_explanation: 'Spontaner Online-Kauf ohne konkreten Bedarf. Klassischer Impulskauf.',
+        isImpulse: true,
+        decisionLabel: 'unnecessary',
+        decisionExplanation: 'Spontaner Online-Kauf ohne konkreten Bedarf. Klassischer Impulskauf.',
       },
       {
         id: randomUUID(),
-        user_id: 'demoUser',
+        userId,
         date: `${currentMonth}-07`,
         merchant: 'SBB',
         amount: 85.0,
-        category: 'Transport',
-        is_impulse: false,
-        decision_label: 'useful',
-        decision_explanation: 'Monatliches Bahnabo für den Arbeitsweg.',
+        category: 'Mobilität - Öffentlicher Verkehr',
+        isImpulse: false,
+        decisionLabel: 'useful',
+        decisionExplanation: 'Monatliches Bahnabo für den Arbeitsweg.',
       },
       {
         id: randomUUID(),
-        user_id: 'demoUser',
+        userId,
         date: `${currentMonth}-08`,
         merchant: 'Uber Eats',
         amount: 42.5,
-        category: 'Food Delivery',
-        is_impulse: true,
-        decision_label: 'unnecessary',
-        decision_explanation: 'Späte Essensbestellung aus Bequemlichkeit.',
+        category: 'Gastronomie',
+        isImpulse: true,
+        decisionLabel: 'unnecessary',
+        decisionExplanation: 'Späte Essensbestellung aus Bequemlichkeit.',
       },
       {
         id: randomUUID(),
-        user_id: 'demoUser',
+        userId,
         date: `${currentMonth}-09`,
         merchant: 'Migros',
         amount: 65.3,
         category: 'Lebensmittel',
-        is_impulse: false,
-        decision_label: 'useful',
-        decision_explanation: 'Wocheneinkauf mit Haushaltsprodukten.',
+        isImpulse: false,
+        decisionLabel: 'useful',
+        decisionExplanation: 'Wocheneinkauf mit Haushaltsprodukten.',
       },
       {
         id: randomUUID(),
-        user_id: 'demoUser',
+        userId,
         date: `${currentMonth}-10`,
         merchant: 'Netflix',
         amount: 19.9,
         category: 'Unterhaltung',
-        is_impulse: false,
-        decision_label: 'useful',
-        decision_explanation: 'Monatliches Streaming-Abo.',
+        isImpulse: false,
+        decisionLabel: 'useful',
+        decisionExplanation: 'Monatliches Streaming-Abo.',
       },
       {
         id: randomUUID(),
-        user_id: 'demoUser',
+        userId,
         date: `${currentMonth}-11`,
         merchant: 'H&M',
         amount: 89.5,
         category: 'Shopping',
-        is_impulse: true,
-        decision_label: 'unnecessary',
-        decision_explanation: 'Spontaner Kleiderkauf ohne Planung.',
+        isImpulse: true,
+        decisionLabel: 'unnecessary',
+        decisionExplanation: 'Spontaner Kleiderkauf ohne Planung.',
       },
     ];
 
-    await supabase.from('transactions').insert(demoTransactions);
+    for (const transaction of demoTransactions) {
+      await createTransaction(transaction);
+    }
 
     // Create demo savings goal
     const targetDate = new Date();
     targetDate.setMonth(targetDate.getMonth() + 10);
 
-    await supabase.from('savings_goals').insert({
+    await createSavingsGoal({
       id: randomUUID(),
-      user_id: 'demoUser',
+      userId,
       title: 'Thailand Ferien',
-      target_amount: 2500,
-      target_date: targetDate.toISOString().split('T')[0],
-      current_saved_amount: 450,
+      targetAmount: 2500,
+      targetDate: targetDate.toISOString().split('T')[0],
+      currentSavedAmount: 450,
       rules: [
         'Shopping maximal 300 CHF pro Monat',
         'Food Delivery maximal 2x pro Woche',
@@ -144,7 +150,6 @@ export async function POST(request: NextRequest) {
       success: true,
       message: 'Demo data seeded successfully',
       seeded: {
-        users: 1,
         transactions: demoTransactions.length,
         goals: 1,
       },
@@ -0,0 +1,77 @@
+/**
+ * API Route: /api/subscriptions
+ * Subscriptions detected from the transaction history (GET) and the user's marks (PUT)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import {
+  deleteSubscriptionMark,
+  getSubscriptionMarks,
+  getTransactions,
+  saveSubscriptionMark,
+} from '@/lib/repository';
+import { getCategoryTaxonomy } from '@/lib/categoryTaxonomy';
+import { detectSubscriptions, subscriptionTotals } from '@/lib/subscriptions';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth';
+
+/**
+ * GET /api/subscriptions
+ * Returns { subscriptions, totals: { monthly, annual } } (totals without cancelled or ended ones)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const [transactions, categories, marks] = await Promise.all([
+      getTransactions(userId),
+      getCategoryTaxonomy(userId),
+      getSubscriptionMarks(userId),
+    ]);
+
+    const subscriptions = detectSubscriptions(transactions, categories, marks);
+
+    return NextResponse.json({ success: true, subscriptions, totals: subscriptionTotals(subscriptions) });
+  } catch (error) {
+    console.error('Error fetching subscriptions:', error);
+    return NextResponse.json({ success: false, error: 'Failed to fetch subscriptions' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/subscriptions
+ * Body: { merchantKey: string, status: 'expected' | 'cancelled' | null }
+ * null removes the mark (back to "detected")
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const { merchantKey, status } = await request.json();
+
+    if (typeof merchantKey !== 'string' || !merchantKey) {
+      return NextResponse.json({ success: false, error: 'merchantKey ist erforderlich' }, { status: 400 });
+    }
+    if (status !== null && status !== 'expected' && status !== 'cancelled') {
+      return NextResponse.json({ success: false, error: 'Ungültiger Status' }, { status: 400 });
+    }
+
+    if (status === null) {
+      await deleteSubscriptionMark(userId, merchantKey);
+      return NextResponse.json({ success: true, mark: null });
+    }
+
+    const mark = await saveSubscriptionMark({
+      id: randomUUID(),
+      userId,
+      merchantKey,
+      status,
+      updatedAt: new Date().toISOString(),
+    });
+
+    return NextResponse.json({ success: true, mark });
+  } catch (error) {
+    console.error('Error updating subscription:', error);
+    return NextResponse.json({ success: false, error: 'Failed to update subscription' }, { status: 500 });
+  }
+}
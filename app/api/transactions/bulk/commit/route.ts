@@ -0,0 +1,91 @@
+/**
+ * API Route: /api/transactions/bulk/commit
+ * Second phase of the CSV import: stores the rows the user accepted in the preview
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { commitImportRows, verifyPreviewRows, type ImportProgressListener } from '@/lib/imports';
+import { getAccounts } from '@/lib/repository';
+import { AccountValidationError, parseAccountRefs } from '@/lib/accounts';
+import { eventStreamResponse } from '@/lib/eventStream';
+import type { ImportPreviewRow } from '@/lib/types';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth';
+
+/**
+ * POST /api/transactions/bulk/commit
+ * Body: { fileName: string, rows: ImportPreviewRow[], stream?: boolean, accountId?: string }
+ * With `stream: true` every stored row is sent as a `progress` event, followed by `done`.
+ * All rows are booked on `accountId` (no account without it). Categories, rules and confidences are
+ * checked again on the server; rows already stored since the preview are skipped as duplicates.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const { fileName, rows, stream, accountId } = await request.json();
+
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return NextResponse.json({ success: false, error: 'Keine Zeilen zum Importieren.' }, { status: 400 });
+    }
+
+    const invalid = rows.find((row: any) => !isPreviewRow(row));
+    if (invalid) {
+      return NextResponse.json(
+        { success: false, error: `Ungültige Zeile ${invalid?.line ?? ''}`.trim() },
+        { status: 400 }
+      );
+    }
+
+    // Account references from the client are replaced, imported rows are never transfers
+    const accountRefs = parseAccountRefs({ accountId: accountId ?? null }, await getAccounts(userId));
+    const verifiedRows = await verifyPreviewRows(userId, rows);
+    const bookedRows: ImportPreviewRow[] = verifiedRows.map((row) => ({
+      ...row,
+      transaction: { ...row.transaction, ...accountRefs },
+    }));
+
+    const runCommit = async (onProgress?: ImportProgressListener) => {
+      const result = await commitImportRows(userId, typeof fileName === 'string' ? fileName : '', bookedRows, onProgress);
+      return {
+        success: result.errors.length === 0,
+        processed: rows.length,
+        succeeded: result.succeeded,
+        failed: result.errors.length,
+        duplicates: result.duplicates,
+        batchId: result.batch?.id,
+        errors: result.errors,
+      };
+    };
+
+    if (stream === true) {
+      return eventStreamResponse(async (send) => {
+        send('done', await runCommit((progress) => send('progress', progress)));
+      }, 'Failed to commit import');
+    }
+    return NextResponse.json(await runCommit());
+  } catch (error) {
+    if (error instanceof AccountValidationError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    console.error('Error committing import:', error);
+    return NextResponse.json({ success: false, error: 'Failed to commit import' }, { status: 500 });
+  }
+}
+
+// The preview round-trips through the client, so check the shape before writing it
+function isPreviewRow(row: any): row is ImportPreviewRow {
+  const t = row?.transaction;
+  return (
+    typeof row?.line === 'number' &&
+    (row.paysBill === undefined || typeof row.paysBill === 'string') &&
+    typeof t?.id === 'string' &&
+    typeof t.date === 'string' &&
+    typeof t.merchant === 'string' &&
+    t.merchant.trim().length > 0 &&
+    typeof t.amount === 'number' &&
+    typeof t.category === 'string' &&
+    typeof t.isImpulse === 'boolean' &&
+    (t.decisionLabel === 'useful' || t.decisionLabel === 'unnecessary') &&
+    typeof t.decisionExplanation === 'string'
+  );
+}
@@ -0,0 +1,55 @@
+/**
+ * API Route: /api/transactions/bulk/mapping
+ * Built-in bank presets and the user's saved CSV column mapping
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUser, updateUserCsvMapping } from '@/lib/repository';
+import { CSV_BANK_PRESETS, isValidCsvMapping } from '@/lib/csvImport';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth';
+
+/**
+ * GET /api/transactions/bulk/mapping
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const user = await getUser(userId);
+
+    return NextResponse.json({
+      success: true,
+      presets: CSV_BANK_PRESETS.map(({ id, label }) => ({ id, label })),
+      mapping: user?.csvMapping ?? null,
+    });
+  } catch (error) {
+    console.error('Error fetching CSV mapping:', error);
+    return NextResponse.json({ success: false, error: 'Failed to fetch CSV mapping' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/transactions/bulk/mapping
+ * Body: { mapping: CsvColumnMapping | null }  // null removes the saved mapping
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const { mapping } = await request.json();
+
+    if (mapping !== null && !isValidCsvMapping(mapping)) {
+      return NextResponse.json(
+        { success: false, error: 'merchantColumns und eine Betragsspalte sind erforderlich' },
+        { status: 400 }
+      );
+    }
+
+    const user = await updateUserCsvMapping(userId, mapping);
+
+    return NextResponse.json({ success: true, mapping: user.csvMapping ?? null });
+  } catch (error) {
+    console.error('Error saving CSV mapping:', error);
+    return NextResponse.json({ success: false, error: 'Failed to save CSV mapping' }, { status: 500 });
+  }
+}
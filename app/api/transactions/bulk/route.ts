@@ -1,89 +1,130 @@
 /**
  * API Route: /api/transactions/bulk
- * Accepts CSV uploads and creates transactions with AI classification
+ * Accepts CSV, camt.053/camt.054, OFX, QIF or MT940 uploads, classifies them and stores them as a rollback-able import batch.
+ * Multipart fields: `file`, optional `preset` (bank id), `mapping` (JSON CsvColumnMapping),
+ * `saveMapping=true` to store the mapping on the profile, `dryRun=true`, `stream=true`.
+ * With `stream=true` the answer is a Server-Sent Events stream: one `progress` event per row
+ * (ImportProgress), then `done` with the usual JSON body, or `error`.
+ * - POST (multipart, `dryRun=true`): preview only, nothing is written
+ * - POST (multipart): imports all rows that are not duplicates in one go
+ * - GET: lists the user's import batches
+ * - DELETE: rolls back an import batch
+ * Previewed rows are stored via /api/transactions/bulk/commit.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { dataExtractionAgent, impulseClassificationAgent } from '@/lib/agents';
-import { createTransaction } from '@/lib/supabase';
-import type { DataExtractionInput, Transaction } from '@/lib/types';
-import { translateToEnglish } from '@/lib/translate';
-
-type CsvRow = Partial<DataExtractionInput>;
+import { getImportBatch, getImportBatches, getUser, updateUserCsvMapping } from '@/lib/repository';
+import {
+  buildImportPreview,
+  commitImportRows,
+  rollbackImportBatch,
+  type ImportError,
+  type ImportProgressListener,
+  type ImportRow,
+} from '@/lib/imports';
+import { eventStreamResponse } from '@/lib/eventStream';
+import { decodeCsv, isValidCsvMapping, parseCsvStatement } from '@/lib/csvImport';
+import { parseStatementFile } from '@/lib/statementImport';
+import type { CsvColumnMapping } from '@/lib/types';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth';
 
 export async function POST(request: NextRequest) {
   try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+
     const formData = await request.formData();
     const file = formData.get('file');
+    const dryRun = formData.get('dryRun') === 'true';
+    const stream = formData.get('stream') === 'true';
+    const preset = formData.get('preset');
+    const mappingField = formData.get('mapping');
 
     if (!file || typeof file === 'string') {
       return NextResponse.json({ success: false, error: 'Keine Datei erhalten.' }, { status: 400 });
     }
 
-    const text = await file.text();
-    const rows = parseCsv(text);
-
-    if (rows.length === 0) {
-      return NextResponse.json({ success: false, error: 'CSV ist leer.' }, { status: 400 });
+    let mapping: CsvColumnMapping | undefined;
+    if (typeof mappingField === 'string' && mappingField) {
+      mapping = parseMapping(mappingField);
+      if (!mapping) {
+        return NextResponse.json({ success: false, error: 'Ungültige Spaltenzuordnung.' }, { status: 400 });
+      }
+      if (formData.get('saveMapping') === 'true') {
+        await updateUserCsvMapping(userId, mapping);
+      }
     }
 
-    const userId = 'demoUser';
-    let succeeded = 0;
-    const errors: { line: number; message: string }[] = [];
-
-    for (let i = 0; i < rows.length; i++) {
-      const row = rows[i];
+    const { text, encoding } = decodeCsv(await file.arrayBuffer());
+    let parsed: { rows: ImportRow[]; errors: ImportError[] };
+    let format: { preset: string | null; encoding: string; delimiter?: string; headers: string[] };
+
+    const statement = parseStatementFile(text);
+    if (statement) {
+      parsed = statement;
+      format = { preset: statement.format, encoding, headers: [] };
+    } else {
+      const user = await getUser(userId);
+      const csv = parseCsvStatement(text, {
+        mapping,
+        preset: typeof preset === 'string' && preset !== 'auto' ? preset : undefined,
+        savedMapping: user?.csvMapping,
+        encoding,
+      });
+      parsed = csv;
+      format = { preset: csv.preset, delimiter: csv.delimiter, encoding: csv.encoding, headers: csv.headers };
+    }
+    const rows = parsed.rows;
 
-      if (!row.merchant || row.amount === undefined) {
-        errors.push({ line: row.__line || i + 1, message: 'merchant und amount sind Pflichtfelder.' });
-        continue;
-      }
+    if (rows.length === 0 && parsed.errors.length === 0) {
+      return NextResponse.json({ success: false, error: 'Datei enthält keine Buchungen.' }, { status: 400 });
+    }
 
-      try {
-        const extracted = await dataExtractionAgent(
-          {
-            date: row.date,
-            merchant: row.merchant,
-            amount: row.amount,
-            rawCategory: row.rawCategory,
-            justification: row.justification,
-          },
-          userId
-        );
-
-        const classification = await impulseClassificationAgent({ transaction: extracted });
-
-        let decisionExplanationEn: string | undefined;
-        try {
-          decisionExplanationEn = await translateToEnglish(classification.decisionExplanation);
-        } catch (err) {
-          console.error('Bulk translation failed:', err);
-        }
-
-        const finalTransaction: Transaction = {
-          ...extracted,
-          category: classification.category,
-          isImpulse: classification.isImpulse,
-          decisionLabel: classification.decisionLabel,
-          decisionExplanation: classification.decisionExplanation,
-          decisionExplanationEn,
+    const runImport = async (onProgress?: ImportProgressListener) => {
+      const preview = await buildImportPreview(rows, userId, onProgress);
+      preview.errors = [...parsed.errors, ...preview.errors].sort((a, b) => a.line - b.line);
+      const duplicates = preview.rows.filter((row) => row.duplicateOf).length;
+
+      if (dryRun) {
+        return {
+          success: preview.errors.length === 0,
+          dryRun: true,
+          fileName: file.name,
+          format,
+          processed: rows.length + parsed.errors.length,
+          duplicates,
+          rows: preview.rows,
+          errors: preview.errors,
         };
-
-        await createTransaction(finalTransaction);
-        succeeded += 1;
-      } catch (error: any) {
-        console.error('Bulk row error:', error);
-        errors.push({ line: row.__line || i + 1, message: error?.message || 'Unbekannter Fehler.' });
       }
-    }
 
-    return NextResponse.json({
-      success: errors.length === 0,
-      processed: rows.length,
-      succeeded,
-      failed: errors.length,
-      errors,
-    });
+      // Direct import: duplicates are skipped, everything else becomes one batch
+      const result = await commitImportRows(
+        userId,
+        file.name,
+        preview.rows.filter((row) => !row.duplicateOf),
+        onProgress
+      );
+      const errors = [...preview.errors, ...result.errors].sort((a, b) => a.line - b.line);
+
+      return {
+        success: errors.length === 0,
+        format,
+        processed: rows.length + parsed.errors.length,
+        succeeded: result.succeeded,
+        failed: errors.length,
+        duplicates: duplicates + result.duplicates,
+        batchId: result.batch?.id,
+        errors,
+      };
+    };
+
+    if (stream) {
+      return eventStreamResponse(async (send) => {
+        send('done', await runImport((progress) => send('progress', progress)));
+      }, 'Fehler beim Verarbeiten der Datei.');
+    }
+    return NextResponse.json(await runImport());
   } catch (error) {
     console.error('Bulk upload error:', error);
     return NextResponse.json(
@@ -94,97 +135,58 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * CSV Parser (comma-separated, optional header)
- * Behandelt auch Zeilenumbrüche innerhalb von Anführungszeichen.
- * Expected columns: date, merchant, amount, rawCategory?, justification?
+ * GET /api/transactions/bulk
+ * Returns the import batches of the signed-in user (newest first)
  */
-function parseCsv(text: string): (CsvRow & { __line: number })[] {
-  const delimiter = ',';
-  const rowsRaw: { fields: string[]; line: number }[] = [];
-
-  let field = '';
-  let row: string[] = [];
-  let inQuotes = false;
-  let lineNumber = 1;
-  let rowStartLine = 1;
-
-  for (let i = 0; i < text.length; i++) {
-    const char = text[i];
-    const nextChar = text[i + 1];
-
-    if (char === '"') {
-      // Escape doppeltes Anführungszeichen
-      if (inQuotes && nextChar === '"') {
-        field += '"';
-        i++; // skip next
-        continue;
-      }
-      inQuotes = !inQuotes;
-      continue;
-    }
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const batches = await getImportBatches(userId);
 
-    if (char === delimiter && !inQuotes) {
-      row.push(field);
-      field = '';
-      continue;
-    }
+    return NextResponse.json({ success: true, batches });
+  } catch (error) {
+    console.error('Error fetching import batches:', error);
+    return NextResponse.json({ success: false, error: 'Failed to fetch import batches' }, { status: 500 });
+  }
+}
 
-    if ((char === '\n' || char === '\r') && !inQuotes) {
-      // Zeilenende
-      if (char === '\r' && nextChar === '\n') {
-        i++; // skip LF in CRLF
-      }
-      row.push(field);
-      if (row.some((cell) => cell.trim().length > 0)) {
-        rowsRaw.push({ fields: row, line: rowStartLine });
-      }
-      field = '';
-      row = [];
-      lineNumber += 1;
-      rowStartLine = lineNumber;
-      continue;
+/**
+ * DELETE /api/transactions/bulk
+ * Body: { batchId: string }
+ * Removes every transaction of the batch; the batch itself is kept as rolled back.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const { batchId } = await request.json();
+    if (!batchId) {
+      return NextResponse.json({ success: false, error: 'batchId ist erforderlich' }, { status: 400 });
     }
 
-    field += char;
-    if (char === '\n') {
-      lineNumber += 1;
+    const batch = await getImportBatch(userId, batchId);
+    if (!batch) {
+      return NextResponse.json({ success: false, error: 'Import batch not found' }, { status: 404 });
     }
-  }
-
-  // Reste hinzufügen
-  if (field.length > 0 || row.length > 0) {
-    row.push(field);
-    if (row.some((cell) => cell.trim().length > 0)) {
-      rowsRaw.push({ fields: row, line: rowStartLine });
+    if (batch.status === 'rolled_back') {
+      return NextResponse.json({ success: false, error: 'Import wurde bereits rückgängig gemacht' }, { status: 409 });
     }
+
+    const deleted = await rollbackImportBatch(userId, batchId);
+
+    return NextResponse.json({ success: true, batchId, deleted });
+  } catch (error) {
+    console.error('Error rolling back import batch:', error);
+    return NextResponse.json({ success: false, error: 'Failed to roll back import' }, { status: 500 });
   }
+}
 
-  if (rowsRaw.length === 0) return [];
-
-  const headerParts = rowsRaw[0].fields.map((h) => h.trim());
-  const hasHeader = headerParts.some((h) =>
-    ['merchant', 'amount', 'date', 'rawcategory', 'justification'].includes(h.toLowerCase())
-  );
-  const headers = hasHeader
-    ? headerParts
-    : ['date', 'merchant', 'amount', 'rawCategory', 'justification'];
-
-  const dataRows = hasHeader ? rowsRaw.slice(1) : rowsRaw;
-  const rows: (CsvRow & { __line: number })[] = [];
-
-  dataRows.forEach(({ fields, line }) => {
-    const rowObj: CsvRow & { __line: number } = { __line: line };
-    headers.forEach((header, idx) => {
-      const key = header.trim();
-      const value = fields[idx] ? fields[idx].trim() : '';
-      if (key.toLowerCase() === 'merchant') rowObj.merchant = value;
-      if (key.toLowerCase() === 'amount') rowObj.amount = value ? Number(value.replace(',', '.')) : undefined;
-      if (key.toLowerCase() === 'date') rowObj.date = value || undefined;
-      if (key.toLowerCase() === 'rawcategory') rowObj.rawCategory = value || undefined;
-      if (key.toLowerCase() === 'justification') rowObj.justification = value || undefined;
-    });
-    rows.push(rowObj);
-  });
-
-  return rows;
+function parseMapping(value: string): CsvColumnMapping | undefined {
+  try {
+    const mapping = JSON.parse(value);
+    return isValidCsvMapping(mapping) ? mapping : undefined;
+  } catch {
+    return undefined;
+  }
 }
@@ -0,0 +1,108 @@
+/**
+ * API Route: /api/transactions/qr-bill
+ * Turns the decoded text of a Swiss QR-bill into a pending transaction (open bill).
+ * The creditor becomes the merchant, the bill is classified like a manual entry and
+ * counts towards the month of its due date until it is marked as paid.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createTransaction, getMerchantCategoryHint, getTransactions } from '@/lib/repository';
+import { dataExtractionAgent } from '@/lib/agents';
+import { classifyTransaction } from '@/lib/classification';
+import { parseQrBillPayload, QrBillError, type QrBill } from '@/lib/qrBill';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Date.parse accepts days like 2024-02-30, so the parsed date must round-trip to the input
+const isCalendarDate = (value: string) =>
+  DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value)) && new Date(value).toISOString().startsWith(value);
+
+/**
+ * POST /api/transactions/qr-bill
+ * Body: { payload: string, amount?: number, dueDate?: string }
+ * `amount` is only needed for bills without a printed amount, `dueDate` overrides the
+ * due date derived from the billing information (default: today).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const body = await request.json();
+
+    if (typeof body.payload !== 'string' || !body.payload.trim()) {
+      return NextResponse.json({ success: false, error: 'payload ist erforderlich' }, { status: 400 });
+    }
+
+    if (body.dueDate && (typeof body.dueDate !== 'string' || !isCalendarDate(body.dueDate))) {
+      return NextResponse.json(
+        { success: false, error: 'Fälligkeitsdatum muss im Format YYYY-MM-DD sein' },
+        { status: 400 }
+      );
+    }
+
+    let bill: QrBill;
+    try {
+      bill = parseQrBillPayload(body.payload);
+    } catch (error) {
+      if (error instanceof QrBillError) {
+        return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    if (bill.currency !== 'CHF') {
+      return NextResponse.json({ success: false, error: 'Nur CHF-Rechnungen werden unterstützt.' }, { status: 400 });
+    }
+
+    const amount = bill.amount ?? Number(body.amount);
+    if (!amount || Number.isNaN(amount) || amount <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Die Rechnung enthält keinen Betrag, bitte Betrag angeben.', bill },
+        { status: 400 }
+      );
+    }
+
+    // The same bill scanned twice must not be booked twice
+    if (bill.reference) {
+      const existing = (await getTransactions(userId)).find((t) => t.paymentReference === bill.reference);
+      if (existing) {
+        return NextResponse.json(
+          { success: false, error: 'Diese Rechnung wurde bereits erfasst.', transaction: existing, bill },
+          { status: 409 }
+        );
+      }
+    }
+
+    const justification = [bill.message, bill.invoiceNumber ? `Rechnung ${bill.invoiceNumber}` : undefined]
+      .filter(Boolean)
+      .join(' · ');
+
+    const extracted = await dataExtractionAgent(
+      {
+        date: body.dueDate || bill.dueDate,
+        merchant: bill.creditor.name,
+        amount,
+        justification: justification || undefined,
+      },
+      userId
+    );
+
+    const hint = await getMerchantCategoryHint(userId, extracted.merchant);
+    if (hint) {
+      extracted.rawCategory = hint;
+    }
+
+    const classified = await classifyTransaction(extracted);
+    const transaction = await createTransaction({
+      ...classified,
+      status: 'pending',
+      paymentReference: bill.reference,
+    });
+
+    return NextResponse.json({ success: true, transaction, bill });
+  } catch (error) {
+    console.error('Error creating transaction from QR-bill:', error);
+    return NextResponse.json({ success: false, error: 'Failed to create bill' }, { status: 500 });
+  }
+}
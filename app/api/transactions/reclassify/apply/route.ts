@@ -0,0 +1,55 @@
+/**
+ * API Route: /api/transactions/reclassify/apply
+ * Second phase of the re-classification: stores the proposals the user accepted in the diff
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { applyReclassification } from '@/lib/reclassify';
+import type { ClassificationSource, ReclassifyProposal } from '@/lib/types';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth';
+
+/**
+ * POST /api/transactions/reclassify/apply
+ * Body: { changes: { id: string, proposed: ReclassifyProposal }[] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const { changes } = await request.json();
+
+    if (!Array.isArray(changes) || changes.length === 0) {
+      return NextResponse.json({ success: false, error: 'Keine Änderungen ausgewählt.' }, { status: 400 });
+    }
+    if (!changes.every((change: any) => typeof change?.id === 'string' && isProposal(change.proposed))) {
+      return NextResponse.json({ success: false, error: 'Ungültige Änderung.' }, { status: 400 });
+    }
+
+    const result = await applyReclassification(userId, changes);
+
+    return NextResponse.json({
+      success: result.errors.length === 0,
+      updated: result.updated,
+      failed: result.errors.length,
+      errors: result.errors,
+    });
+  } catch (error) {
+    console.error('Error applying reclassification:', error);
+    return NextResponse.json({ success: false, error: 'Failed to apply reclassification' }, { status: 500 });
+  }
+}
+
+// A re-run never produces a user decision
+const PROPOSED_SOURCES: ClassificationSource[] = ['rule', 'local', 'llm', 'fallback'];
+
+// The proposals round-trip through the client, so check the shape before writing them
+function isProposal(proposed: any): proposed is ReclassifyProposal {
+  return (
+    typeof proposed?.category === 'string' &&
+    typeof proposed.isImpulse === 'boolean' &&
+    (proposed.decisionLabel === 'useful' || proposed.decisionLabel === 'unnecessary') &&
+    typeof proposed.decisionExplanation === 'string' &&
+    (proposed.classificationSource === undefined || PROPOSED_SOURCES.includes(proposed.classificationSource)) &&
+    (proposed.confidence === undefined || typeof proposed.confidence === 'number')
+  );
+}
@@ -0,0 +1,44 @@
+/**
+ * API Route: /api/transactions/reclassify
+ * Re-runs the classification over stored transactions after rules, categories or the prompt
+ * changed. Only previews the differences; accepted proposals are stored via
+ * /api/transactions/reclassify/apply.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { previewReclassification } from '@/lib/reclassify';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * POST /api/transactions/reclassify
+ * Body: { from?: 'YYYY-MM-DD', to?: 'YYYY-MM-DD', category?: string, includeOverrides?: boolean }
+ * Rows with a manual override are skipped unless `includeOverrides` is true.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const { from, to, category, includeOverrides } = await request.json();
+
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      return NextResponse.json({ success: false, error: 'Datum im Format JJJJ-MM-TT angeben.' }, { status: 400 });
+    }
+    if (from && to && from > to) {
+      return NextResponse.json({ success: false, error: 'Startdatum liegt nach dem Enddatum.' }, { status: 400 });
+    }
+
+    const preview = await previewReclassification(userId, {
+      from: from || undefined,
+      to: to || undefined,
+      category: typeof category === 'string' && category ? category : undefined,
+      includeOverrides: includeOverrides === true,
+    });
+
+    return NextResponse.json({ success: true, ...preview });
+  } catch (error) {
+    console.error('Error previewing reclassification:', error);
+    return NextResponse.json({ success: false, error: 'Failed to reclassify transactions' }, { status: 500 });
+  }
+}
@@ -1,28 +1,39 @@
 /**
  * API Route: /api/transactions
- * Handles transaction management (GET, POST)
+ * Handles transaction management (GET, POST, PATCH, PUT, DELETE)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import {
   getTransactions,
+  getTransaction,
   createTransaction,
+  updateTransaction,
+  deleteTransaction,
   getSavingsGoals,
   updateSavingsGoalAmount,
   updateTransactionCategory,
   getMerchantCategoryHint,
-} from '@/lib/supabase';
-import { dataExtractionAgent, impulseClassificationAgent } from '@/lib/agents';
-import type { DataExtractionInput, Transaction } from '@/lib/types';
-import { translateTexts, translateToEnglish } from '@/lib/translate';
+  getAccounts,
+} from '@/lib/repository';
+import { dataExtractionAgent } from '@/lib/agents';
+import { classifyTransaction } from '@/lib/classification';
+import { resolveCategoryName } from '@/lib/categories';
+import { getCategoryTaxonomy } from '@/lib/categoryTaxonomy';
+import { AccountValidationError, parseAccountRefs } from '@/lib/accounts';
+import type { DataExtractionInput } from '@/lib/types';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
 /**
  * GET /api/transactions
- * Returns all transactions for the demo user
+ * Returns all transactions for the signed-in user
  */
 export async function GET(request: NextRequest) {
   try {
-    const userId = 'demoUser';
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
     const transactions = await getTransactions(userId);
 
     return NextResponse.json({
@@ -41,11 +52,13 @@ export async function GET(request: NextRequest) {
 /**
  * POST /api/transactions
  * Creates a new transaction with AI classification
+ * Optional: accountId (account it is booked on), transferAccountId (transfer to that account)
  */
 export async function POST(request: NextRequest) {
   try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
     const body = await request.json();
-    const userId = 'demoUser';
     const { savingsGoalId, allocateAmount } = body;
 
     // Validate input
@@ -55,6 +68,7 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
+    const accountRefs = parseAccountRefs(body, await getAccounts(userId));
 
     // Step 1: Extract structured data
     const input: DataExtractionInput = {
@@ -75,39 +89,11 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Step 2: Classify with AI (category, impulse, decision)
-    const classification = await impulseClassificationAgent({
-      transaction: extractedTransaction,
-    });
-
-    let decisionExplanationEn: string | undefined;
-    try {
-      decisionExplanationEn = await translateToEnglish(classification.decisionExplanation);
-    } catch (err) {
-      console.error('Translation failed for decision explanation:', err);
-    }
-
-    // Step 3: Combine and create final transaction
-    const finalTransaction: Transaction = {
-      ...extractedTransaction,
-      category: classification.category,
-      isImpulse: classification.isImpulse,
-      decisionLabel: classification.decisionLabel,
-      decisionExplanation: classification.decisionExplanation,
-      decisionExplanationEn,
-    };
-
-    // Override for income-like transactions: treat as Einnahmen (positive inflow)
-    if (isIncomeTransaction(finalTransaction)) {
-      finalTransaction.category = 'Einnahmen';
-      finalTransaction.isImpulse = false;
-      finalTransaction.decisionLabel = 'useful';
-      finalTransaction.decisionExplanation = 'Einnahme verbucht (z.B. Lohn/Salär).';
-      finalTransaction.decisionExplanationEn = 'Income recorded (e.g., salary).';
-    }
+    // Step 2 + 3: Classify with AI (category, impulse, decision) and combine
+    const finalTransaction = await classifyTransaction(extractedTransaction);
 
     // Step 4: Store in database (Strapi would handle this in the future)
-    const savedTransaction = await createTransaction(finalTransaction);
+    const savedTransaction = await createTransaction({ ...finalTransaction, ...accountRefs });
 
     // Optional: allocate amount to savings goal
     if (savingsGoalId && typeof allocateAmount === 'number' && allocateAmount > 0) {
@@ -119,6 +105,9 @@ export async function POST(request: NextRequest) {
       transaction: savedTransaction,
     });
   } catch (error) {
+    if (error instanceof AccountValidationError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
     console.error('Error creating transaction:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to create transaction' },
@@ -133,19 +122,28 @@ export async function POST(request: NextRequest) {
  */
 export async function PATCH(request: NextRequest) {
   try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
     const body = await request.json();
-    const { id, category, decisionLabel, decisionExplanation, isImpulse } = body;
-    if (!id || !category) {
+    const { id, decisionLabel, decisionExplanation, isImpulse } = body;
+    if (!id || !body.category) {
       return NextResponse.json({ success: false, error: 'id und category sind erforderlich' }, { status: 400 });
     }
+    const category = resolveCategoryName(await getCategoryTaxonomy(userId), body.category);
+    if (!category) {
+      return NextResponse.json({ success: false, error: 'Unbekannte Kategorie' }, { status: 400 });
+    }
 
     const updated = await updateTransactionCategory({
+      userId,
       transactionId: id,
       category,
       decisionLabel,
       decisionExplanation,
       isImpulse,
       rawCategory: category, // store user override as hint
+      classificationSource: 'user',
+      confidence: 1,
     });
 
     return NextResponse.json({ success: true, transaction: updated });
@@ -155,6 +153,147 @@ export async function PATCH(request: NextRequest) {
   }
 }
 
+/**
+ * PUT /api/transactions
+ * Body: { id: string, date?, merchant?, amount?, rawCategory?, justification?, status?, accountId?, transferAccountId? }
+ * Corrects the booked data of a transaction. An edited merchant is normalised like on POST (known
+ * merchants and aliases) and re-runs the classification. A changed amount only re-evaluates the
+ * impulse verdict: the category, its source and confidence stay (a category the user chose is kept).
+ * `status: 'booked'` marks an open bill as paid. A transferAccountId turns the row into a transfer
+ * between two accounts; null removes an account reference.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const body = await request.json();
+    const { id } = body;
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'id ist erforderlich' }, { status: 400 });
+    }
+
+    const existing = await getTransaction(userId, id);
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Transaction not found' }, { status: 404 });
+    }
+
+    if (body.merchant !== undefined && !String(body.merchant).trim()) {
+      return NextResponse.json({ success: false, error: 'Merchant darf nicht leer sein' }, { status: 400 });
+    }
+    if (
+      body.date !== undefined &&
+      body.date !== '' &&
+      (typeof body.date !== 'string' || !DATE_PATTERN.test(body.date) || Number.isNaN(Date.parse(body.date)))
+    ) {
+      return NextResponse.json({ success: false, error: 'Datum muss im Format YYYY-MM-DD sein' }, { status: 400 });
+    }
+    if (body.amount !== undefined && Number.isNaN(Number(body.amount))) {
+      return NextResponse.json({ success: false, error: 'Amount muss eine Zahl sein' }, { status: 400 });
+    }
+    if (body.status !== undefined && body.status !== 'booked' && body.status !== 'pending') {
+      return NextResponse.json({ success: false, error: 'Status muss booked oder pending sein' }, { status: 400 });
+    }
+    const accountRefs = parseAccountRefs(body, await getAccounts(userId), existing);
+
+    // A changed merchant goes through the same normalisation as a new transaction
+    const merchantText = body.merchant !== undefined ? String(body.merchant).trim() : existing.merchant;
+    const normalised =
+      merchantText !== existing.merchant
+        ? await dataExtractionAgent({ merchant: merchantText, amount: existing.amount }, userId)
+        : existing;
+
+    const edited = {
+      id: existing.id,
+      userId,
+      date: body.date || existing.date,
+      merchant: normalised.merchant,
+      // Overwrites the bank text of the previous merchant (the repositories skip undefined fields)
+      rawMerchant: normalised === existing ? existing.rawMerchant : normalised.rawMerchant ?? merchantText,
+      amount: body.amount !== undefined ? Number(body.amount) : existing.amount,
+      // Empty strings clear the optional fields
+      rawCategory: body.rawCategory !== undefined ? String(body.rawCategory).trim() : existing.rawCategory,
+      justification: body.justification !== undefined ? String(body.justification).trim() : existing.justification,
+    };
+
+    const needsReclassification = edited.merchant !== existing.merchant;
+    const amountChanged = edited.amount !== existing.amount;
+    let classified = existing;
+    if (needsReclassification) {
+      classified = await classifyTransaction(edited);
+    } else if (amountChanged) {
+      // The stored category is the hint, so the verdict is judged for that category
+      const verdict = await classifyTransaction({ ...edited, rawCategory: edited.rawCategory || existing.category });
+      classified = {
+        ...existing,
+        isImpulse: verdict.isImpulse,
+        decisionLabel: verdict.decisionLabel,
+        decisionExplanation: verdict.decisionExplanation,
+        decisionExplanationEn: verdict.decisionExplanationEn,
+      };
+    }
+
+    const updated = await updateTransaction(userId, id, {
+      date: edited.date,
+      merchant: edited.merchant,
+      rawMerchant: edited.rawMerchant,
+      amount: edited.amount,
+      rawCategory: edited.rawCategory,
+      justification: edited.justification,
+      category: classified.category,
+      isImpulse: classified.isImpulse,
+      decisionLabel: classified.decisionLabel,
+      decisionExplanation: classified.decisionExplanation,
+      decisionExplanationEn: classified.decisionExplanationEn,
+      ruleId: classified.ruleId,
+      ruleName: classified.ruleName,
+      classificationSource: classified.classificationSource,
+      confidence: classified.confidence,
+      status: body.status,
+      ...accountRefs,
+    });
+
+    return NextResponse.json({
+      success: true,
+      transaction: updated,
+      reclassified: needsReclassification,
+      verdictUpdated: !needsReclassification && amountChanged,
+    });
+  } catch (error) {
+    if (error instanceof AccountValidationError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    console.error('Error updating transaction:', error);
+    return NextResponse.json({ success: false, error: 'Failed to update transaction' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/transactions
+ * Body: { id: string }
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const { id } = await request.json();
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'id ist erforderlich' }, { status: 400 });
+    }
+
+    const existing = await getTransaction(userId, id);
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Transaction not found' }, { status: 404 });
+    }
+
+    await deleteTransaction(userId, id);
+
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    console.error('Error deleting transaction:', error);
+    return NextResponse.json({ success: false, error: 'Failed to delete transaction' }, { status: 500 });
+  }
+}
+
 async function allocateToGoal(goalId: string, amount: number, userId: string) {
   const goals = await getSavingsGoals(userId);
   const goal = goals.find((g) => g.id === goalId);
@@ -163,15 +302,3 @@ async function allocateToGoal(goalId: string, amount: number, userId: string) {
   const newAmount = Math.max(0, goal.currentSavedAmount + amount);
   await updateSavingsGoalAmount(goalId, newAmount);
 }
-
-function isIncomeTransaction(transaction: Transaction): boolean {
-  const fields = [
-    transaction.merchant,
-    transaction.rawCategory || '',
-    transaction.justification || '',
-  ].join(' ').toLowerCase();
-
-  const incomeKeywords = ['lohn', 'salär', 'gehalt', 'salary', 'payroll', 'einkommen', 'bonus', 'wage'];
-
-  return incomeKeywords.some((kw) => fields.includes(kw));
-}
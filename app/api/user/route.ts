@@ -1,38 +1,87 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getUser, updateUserIncome } from '@/lib/supabase';
+import { getTransactions, getUser, updateUserBudget } from '@/lib/repository';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/auth';
+import { budgetProfileOf, BudgetProfileValidationError, deriveBudget, parseBudgetProfile } from '@/lib/budgetProfile';
+import { budgetPeriodOf, detectSalaryDay, parseBudgetPeriod } from '@/lib/budgetPeriod';
 
 /**
- * PATCH /api/user
- * Updates the user's monthly net income (used to derive the flexible monthly budget)
- * Body: { monthlyBudget: number }  // flexible budget amount
+ * GET /api/user
+ * Returns the user with the budget profile, how the flexible monthly budget is derived and the
+ * budget period setting with the detected payday (null without salary payments)
  */
-export async function PATCH(request: NextRequest) {
+export async function GET(request: NextRequest) {
   try {
-    const { monthlyBudget } = await request.json();
-    const userId = 'demoUser';
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
 
-    if (monthlyBudget === undefined || Number.isNaN(Number(monthlyBudget))) {
-      return NextResponse.json(
-        { success: false, error: 'monthlyBudget is required' },
-        { status: 400 }
-      );
+    const user = await getUser(userId);
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'User not found' }, { status: 404 });
     }
 
+    const budgetProfile = budgetProfileOf(user);
+    const budgetPeriod = budgetPeriodOf(user);
+    return NextResponse.json({
+      success: true,
+      user,
+      budgetProfile,
+      budget: deriveBudget(user.monthlyNetIncome, budgetProfile),
+      budgetPeriod,
+      salaryDay: detectSalaryDay(await getTransactions(userId)),
+    });
+  } catch (error) {
+    console.error('Error fetching user:', error);
+    return NextResponse.json({ success: false, error: 'Failed to fetch user' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/user
+ * Updates the user's budget profile; the flexible monthly budget is derived from it and stored
+ * next to the income
+ * Body: { monthlyNetIncome?, model?, fixedCosts?, savingsTarget?, flexibleShare?, periodMode?, periodDay? }
+ * Missing fields keep their value; periodMode is calendar, fixed (periodDay) or salary (detected payday)
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const userId = await getSessionUserId(request);
+    if (!userId) return unauthorizedResponse();
+    const body = await request.json();
+
     const user = await getUser(userId);
     if (!user) {
       return NextResponse.json({ success: false, error: 'User not found' }, { status: 404 });
     }
 
-    // The app uses 60% of net income as flexible budget. Convert back.
-    const monthlyNetIncome = Math.max(0, Number(monthlyBudget) / 0.6);
-    const updatedUser = await updateUserIncome(userId, monthlyNetIncome);
+    const monthlyNetIncome = body.monthlyNetIncome !== undefined ? Number(body.monthlyNetIncome) : user.monthlyNetIncome;
+    if (!Number.isFinite(monthlyNetIncome) || monthlyNetIncome < 0) {
+      return NextResponse.json(
+        { success: false, error: 'monthlyNetIncome muss ein Betrag ab 0 sein' },
+        { status: 400 }
+      );
+    }
+
+    const budgetProfile = parseBudgetProfile(body, budgetProfileOf(user));
+    const budgetPeriod = parseBudgetPeriod(body, budgetPeriodOf(user));
+    const budget = deriveBudget(monthlyNetIncome, budgetProfile);
+    const updatedUser = await updateUserBudget(userId, {
+      monthlyNetIncome,
+      budgetProfile,
+      monthlyFlexibleBudget: budget.flexibleBudget,
+      budgetPeriod,
+    });
 
     return NextResponse.json({
       success: true,
       user: updatedUser,
-      monthlyBudget: monthlyBudget,
+      budgetProfile,
+      budget,
+      budgetPeriod,
     });
   } catch (error) {
+    if (error instanceof BudgetProfileValidationError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
     console.error('Error updating user budget:', error);
     return NextResponse.json({ success: false, error: 'Failed to update budget' }, { status: 500 });
   }
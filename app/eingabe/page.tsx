@@ -3,24 +3,50 @@
 /**
  * Eingabe-Seite:
  * - Manuelle Transaktionserfassung (Form) + CSV-Upload mit KI-Klassifizierung.
- * - Upload-Statusanzeige für Bulk-Import.
+ * - Bank-Vorlagen (PostFinance, UBS, ZKB, Raiffeisen, Revolut) oder eigene Spaltenzuordnung.
+ * - ISO-20022-Kontoauszüge (camt.053/camt.054), OFX, QIF und MT940 werden automatisch erkannt.
+ * - Zweistufiger Import: Vorschau mit Duplikaterkennung, danach Übernahme als Import-Batch.
+ * - Echter Fortschritt je Zeile per Server-Sent Events, mit Live-Tabelle der verarbeiteten Zeilen.
+ * - Letzte Importe mit Rückgängig-Funktion.
+ * - Swiss QR-Rechnungen (eingefügter oder per Foto erkannter QR-Code) als offene Rechnung erfassen.
  * Hinweis: Demo-Seite, im finalen Produkt ggf. ausgeblendet.
  */
 
-import { useRef, useState } from 'react';
-import { Upload, FileText, CheckCircle2, AlertCircle } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { Upload, FileText, CheckCircle2, AlertCircle, History, Undo2 } from 'lucide-react';
 import TransactionForm from '@/components/TransactionForm';
+import ImportPreview from '@/components/ImportPreview';
+import ImportProgressPanel from '@/components/ImportProgressPanel';
+import QrBillCard from '@/components/QrBillCard';
+import CsvMappingForm, {
+  emptyCsvMapping,
+  toCsvColumnMapping,
+  toCsvMappingFormState,
+  type CsvMappingFormState,
+} from '@/components/CsvMappingForm';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import type { ImportBatch, ImportPreviewRow, ImportProgress, ImportRowResult } from '@/lib/types';
+import { isEventStream, readEventStream } from '@/lib/eventStream';
 import { useI18n } from '@/hooks/useI18n';
+import { useAccounts } from '@/hooks/useAccounts';
 
 type BulkUploadResult = {
   success: boolean;
   processed: number;
   succeeded: number;
   failed: number;
+  duplicates?: number;
   errors?: { line: number; message: string }[];
+  batchId?: string;
+};
+
+type ImportPreviewResult = {
+  fileName: string;
+  preset: string | null;
+  rows: ImportPreviewRow[];
+  errors: { line: number; message: string }[];
 };
 
 export default function EingabePage() {
@@ -30,7 +56,67 @@ export default function EingabePage() {
   const [fileName, setFileName] = useState('');
   const [manualSaved, setManualSaved] = useState(false);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
-  const [uploadProgress, setUploadProgress] = useState(0);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  const [liveRows, setLiveRows] = useState<ImportRowResult[]>([]);
+  const [preview, setPreview] = useState<ImportPreviewResult | null>(null);
+  const [selectedLines, setSelectedLines] = useState<Set<number>>(new Set());
+  const [committing, setCommitting] = useState(false);
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+  const [presets, setPresets] = useState<{ id: string; label: string }[]>([]);
+  const [preset, setPreset] = useState('auto');
+  const [mappingForm, setMappingForm] = useState<CsvMappingFormState>(emptyCsvMapping);
+  const [saveMapping, setSaveMapping] = useState(false);
+  const [detectedHeaders, setDetectedHeaders] = useState<string[]>([]);
+  const [lastFile, setLastFile] = useState<File | null>(null);
+  const { accounts } = useAccounts();
+  const [importAccountId, setImportAccountId] = useState('');
+
+  useEffect(() => {
+    fetchBatches();
+    fetchMappingSettings();
+  }, []);
+
+  const fetchMappingSettings = async () => {
+    try {
+      const res = await fetch('/api/transactions/bulk/mapping');
+      const data = await res.json();
+      if (data.success) {
+        setPresets(data.presets);
+        if (data.mapping) setMappingForm(toCsvMappingFormState(data.mapping));
+      }
+    } catch (error) {
+      console.error('Error fetching CSV mapping:', error);
+    }
+  };
+
+  const fetchBatches = async () => {
+    try {
+      const res = await fetch('/api/transactions/bulk');
+      const data = await res.json();
+      if (data.success) setBatches(data.batches);
+    } catch (error) {
+      console.error('Error fetching import batches:', error);
+    }
+  };
+
+  // Liest den SSE-Fortschritt des Imports mit; liefert die abschliessende Antwort
+  // (Validierungsfehler kommen weiterhin als normales JSON zurück)
+  const readImportResponse = async (res: Response): Promise<any> => {
+    if (!isEventStream(res)) return res.json();
+    let result: any = null;
+    await readEventStream(res, (event, data) => {
+      if (event === 'progress') {
+        setImportProgress(data);
+        setLiveRows((prev) => [...prev, data.row]);
+      } else if (event === 'done') {
+        result = data;
+      } else if (event === 'error') {
+        result = { success: false, error: data.error };
+      }
+    });
+    return result ?? { success: false, error: 'Verbindung unterbrochen.' };
+  };
 
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -38,27 +124,60 @@ export default function EingabePage() {
     // Input zurücksetzen, damit die gleiche Datei erneut gewählt werden kann, ohne zweimal klicken zu müssen
     event.target.value = '';
 
+    setLastFile(file);
+    await previewFile(file);
+  };
+
+  const previewFile = async (file: File) => {
     setFileName(file.name);
     setUploading(true);
     setUploadSummary(null);
+    setPreview(null);
     setManualSaved(false);
-    setUploadProgress(10);
-    const progressInterval = window.setInterval(() => {
-      setUploadProgress((p) => Math.min(90, p + 10));
-    }, 300);
+    setImportProgress(null);
+    setLiveRows([]);
 
     try {
       const formData = new FormData();
       formData.append('file', file);
+      formData.append('dryRun', 'true');
+      formData.append('stream', 'true');
+      if (preset === 'custom') {
+        formData.append('mapping', JSON.stringify(toCsvColumnMapping(mappingForm)));
+        if (saveMapping) formData.append('saveMapping', 'true');
+      } else {
+        formData.append('preset', preset);
+      }
 
       const res = await fetch('/api/transactions/bulk', {
         method: 'POST',
         body: formData,
       });
 
-      const data = await res.json();
-      setUploadSummary(data);
-      setUploadProgress(100);
+      const data = await readImportResponse(res);
+      if (Array.isArray(data.format?.headers)) setDetectedHeaders(data.format.headers);
+      if (Array.isArray(data.rows)) {
+        setPreview({
+          fileName: data.fileName || file.name,
+          preset: data.format?.preset ?? null,
+          rows: data.rows,
+          errors: data.errors || [],
+        });
+        // Likely duplicates start unselected so a re-uploaded export does not double the history
+        setSelectedLines(
+          new Set(data.rows.filter((row: ImportPreviewRow) => !row.duplicateOf).map((row: ImportPreviewRow) => row.line))
+        );
+        // Die Vorschau zeigt dieselben Zeilen vollständig
+        setLiveRows([]);
+      } else {
+        setUploadSummary({
+          success: false,
+          processed: 0,
+          succeeded: 0,
+          failed: 0,
+          errors: [{ line: 0, message: data.error || 'Upload fehlgeschlagen. Bitte erneut versuchen.' }],
+        });
+      }
     } catch (error) {
       console.error('Upload error:', error);
       setUploadSummary({
@@ -68,11 +187,79 @@ export default function EingabePage() {
         failed: 0,
         errors: [{ line: 0, message: 'Upload fehlgeschlagen. Bitte erneut versuchen.' }],
       });
-      setUploadProgress(0);
     } finally {
-      window.clearInterval(progressInterval);
       setUploading(false);
-      setTimeout(() => setUploadProgress(0), 600);
+    }
+  };
+
+  const toggleLine = (line: number) => {
+    setSelectedLines((prev) => {
+      const next = new Set(prev);
+      if (next.has(line)) next.delete(line);
+      else next.add(line);
+      return next;
+    });
+  };
+
+  const toggleAllLines = (checked: boolean) => {
+    setSelectedLines(checked && preview ? new Set(preview.rows.map((row) => row.line)) : new Set());
+  };
+
+  const commitPreview = async () => {
+    if (!preview) return;
+    setCommitting(true);
+    setImportProgress(null);
+    setLiveRows([]);
+
+    try {
+      const res = await fetch('/api/transactions/bulk/commit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          fileName: preview.fileName,
+          rows: preview.rows.filter((row) => selectedLines.has(row.line)),
+          accountId: importAccountId || null,
+          stream: true,
+        }),
+      });
+      const data = await readImportResponse(res);
+      setUploadSummary({
+        ...data,
+        errors: [...preview.errors, ...(data.errors || [])],
+        success: data.success && preview.errors.length === 0,
+      });
+      setPreview(null);
+      fetchBatches();
+    } catch (error) {
+      console.error('Commit error:', error);
+      alert('Fehler beim Importieren der Transaktionen');
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  const rollbackBatch = async (batch: ImportBatch) => {
+    const confirmed = window.confirm(
+      `${t('eingabe.import.undoConfirm', 'Alle Transaktionen dieses Imports löschen?')} (${batch.fileName})`
+    );
+    if (!confirmed) return;
+
+    setRollingBackId(batch.id);
+    try {
+      const res = await fetch('/api/transactions/bulk', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ batchId: batch.id }),
+      });
+      const data = await res.json();
+      if (data.success) {
+        if (uploadSummary?.batchId === batch.id) setUploadSummary(null);
+        fetchBatches();
+      }
+    } catch (error) {
+      console.error('Rollback error:', error);
+    } finally {
+      setRollingBackId(null);
     }
   };
 
@@ -111,6 +298,65 @@ export default function EingabePage() {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
+            <div className="space-y-1">
+              <label htmlFor="csv-preset" className="text-sm text-gray-700 dark:text-gray-200">
+                {t('eingabe.mapping.preset', 'Bank / Format')}
+              </label>
+              <select
+                id="csv-preset"
+                className="border rounded px-2 py-2 text-sm w-full bg-white dark:bg-gray-900 dark:text-gray-100 border-gray-300 dark:border-gray-700"
+                value={preset}
+                onChange={(e) => setPreset(e.target.value)}
+                disabled={uploading}
+              >
+                <option value="auto">{t('eingabe.mapping.autoDetect', 'Automatisch erkennen')}</option>
+                {presets.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.label}
+                  </option>
+                ))}
+                <option value="custom">{t('eingabe.mapping.custom', 'Eigene Spaltenzuordnung')}</option>
+              </select>
+            </div>
+
+            {accounts.length > 0 && (
+              <div className="space-y-1">
+                <label htmlFor="csv-account" className="text-sm text-gray-700 dark:text-gray-200">
+                  {t('eingabe.import.account', 'Konto')}
+                </label>
+                <select
+                  id="csv-account"
+                  className="border rounded px-2 py-2 text-sm w-full bg-white dark:bg-gray-900 dark:text-gray-100 border-gray-300 dark:border-gray-700"
+                  value={importAccountId}
+                  onChange={(e) => setImportAccountId(e.target.value)}
+                  disabled={uploading || committing}
+                >
+                  <option value="">{t('eingabe.import.noAccount', 'Kein Konto zuordnen')}</option>
+                  {accounts.map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {preset === 'custom' && (
+              <CsvMappingForm
+                value={mappingForm}
+                onChange={setMappingForm}
+                headers={detectedHeaders}
+                saveMapping={saveMapping}
+                onSaveMappingChange={setSaveMapping}
+              />
+            )}
+
+            {lastFile && !uploading && (
+              <Button variant="ghost" size="sm" onClick={() => previewFile(lastFile)}>
+                {t('eingabe.mapping.reparse', 'Datei mit dieser Einstellung neu einlesen')}
+              </Button>
+            )}
+
             <div
               className="border border-dashed border-gray-300 dark:border-gray-700 rounded-lg p-4 bg-gray-50 dark:bg-gray-800"
               onClick={() => {
@@ -140,7 +386,7 @@ export default function EingabePage() {
                 </div>
                 <input
                   type="file"
-                  accept=".csv,text/csv"
+                  accept=".csv,.txt,.xml,.ofx,.qfx,.qif,.sta,.mt940,text/csv,application/xml,text/xml"
                   className="hidden"
                   ref={fileInputRef}
                   onChange={handleFileChange}
@@ -160,9 +406,9 @@ export default function EingabePage() {
               </div>
             </div>
 
-            {uploadProgress > 0 && (
+            {(uploading || committing || liveRows.length > 0) && (
               <div className="mt-2">
-                <Progress value={uploadProgress} className="h-2" />
+                <ImportProgressPanel progress={importProgress} rows={liveRows} />
               </div>
             )}
 
@@ -189,8 +435,29 @@ export default function EingabePage() {
                 <p className="text-sm text-black mt-1">
                   {uploadSummary.succeeded} {t('eingabe.csv.success', 'erfolgreich')} / {uploadSummary.processed}{' '}
                   {t('eingabe.csv.processed', 'verarbeitet')}, {uploadSummary.failed}{' '}
-                  {t('eingabe.csv.failed', 'fehlgeschlagen')}.
+                  {t('eingabe.csv.failed', 'fehlgeschlagen')}
+                  {uploadSummary.duplicates ? (
+                    <>
+                      , {uploadSummary.duplicates} {t('eingabe.csv.duplicatesSkipped', 'Duplikate übersprungen')}
+                    </>
+                  ) : null}
+                  .
                 </p>
+                {uploadSummary.batchId && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="mt-2"
+                    disabled={rollingBackId === uploadSummary.batchId}
+                    onClick={() => {
+                      const batch = batches.find((b) => b.id === uploadSummary.batchId);
+                      if (batch) rollbackBatch(batch);
+                    }}
+                  >
+                    <Undo2 className="w-4 h-4 mr-2" />
+                    {t('eingabe.import.undo', 'Import rückgängig machen')}
+                  </Button>
+                )}
                 {uploadSummary.errors && uploadSummary.errors.length > 0 && (
                   <ul className="mt-2 space-y-1 text-xs text-gray-600 list-disc list-inside">
                     {uploadSummary.errors.slice(0, 3).map((err, idx) => (
@@ -216,6 +483,66 @@ date,merchant,amount,rawCategory,justification
         </Card>
       </div>
 
+      <QrBillCard />
+
+      {preview && (
+        <ImportPreview
+          fileName={preview.fileName}
+          formatLabel={
+            preview.preset === 'custom'
+              ? t('eingabe.mapping.custom', 'Eigene Spaltenzuordnung')
+              : presets.find((p) => p.id === preview.preset)?.label ?? preview.preset ?? undefined
+          }
+          rows={preview.rows}
+          errors={preview.errors}
+          selectedLines={selectedLines}
+          committing={committing}
+          onToggle={toggleLine}
+          onToggleAll={toggleAllLines}
+          onCommit={commitPreview}
+          onCancel={() => setPreview(null)}
+        />
+      )}
+
+      {batches.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2 text-gray-900 dark:text-gray-100">
+              <History className="w-5 h-5 text-blue-600" />
+              <span>{t('eingabe.import.recent', 'Letzte Importe')}</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {batches.slice(0, 5).map((batch) => (
+                <li key={batch.id} className="flex items-center justify-between py-2 text-sm">
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-gray-100">{batch.fileName || '–'}</p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(batch.createdAt).toLocaleString('de-CH')} · {batch.transactionCount}{' '}
+                      {t('eingabe.import.transactions', 'Transaktionen')}
+                    </p>
+                  </div>
+                  {batch.status === 'rolled_back' ? (
+                    <Badge variant="secondary">{t('eingabe.import.rolledBack', 'Rückgängig gemacht')}</Badge>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={rollingBackId === batch.id}
+                      onClick={() => rollbackBatch(batch)}
+                    >
+                      <Undo2 className="w-4 h-4 mr-1" />
+                      {t('eingabe.import.undoShort', 'Rückgängig')}
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
       {manualSaved && (
         <div className="p-3 bg-green-50 border border-green-200 rounded text-sm text-green-800">
           {t('eingabe.manual.saved', 'Transaktion gespeichert und klassifiziert.')}
@@ -0,0 +1,359 @@
+'use client';
+
+/**
+ * Händler-Seite:
+ * - Listet alle Händlernamen aus dem Verlauf mit Anzahl Buchungen.
+ * - Mehrere Namen auswählen und zu einem Händler zusammenführen (Transaktionen werden umbenannt).
+ * - Händlerverzeichnis mit kanonischem Namen, Aliassen und optionaler Standardkategorie.
+ */
+
+import { useEffect, useState } from 'react';
+import { Merge, Pencil, Store, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { Merchant } from '@/lib/types';
+import { useI18n } from '@/hooks/useI18n';
+import { useCategories } from '@/hooks/useCategories';
+
+type MerchantNameUsage = { name: string; count: number; merchantId?: string };
+
+export default function HaendlerPage() {
+  const { t } = useI18n();
+  const { options: categoryOptions, label: categoryLabel } = useCategories();
+  const [merchants, setMerchants] = useState<Merchant[]>([]);
+  const [names, setNames] = useState<MerchantNameUsage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [showMerge, setShowMerge] = useState(false);
+  const [mergeName, setMergeName] = useState('');
+  const [mergeCategory, setMergeCategory] = useState('');
+  const [editing, setEditing] = useState<Merchant | null>(null);
+  const [editForm, setEditForm] = useState({ name: '', aliases: '', defaultCategory: '' });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchMerchants();
+  }, []);
+
+  const fetchMerchants = async () => {
+    try {
+      const res = await fetch('/api/merchants');
+      const data = await res.json();
+      if (data.success) {
+        setMerchants(data.merchants);
+        setNames(data.names);
+      }
+    } catch (err) {
+      console.error('Error fetching merchants:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleSelected = (name: string) =>
+    setSelected((prev) => (prev.includes(name) ? prev.filter((n) => n !== name) : [...prev, name]));
+
+  const openMerge = () => {
+    // Vorschlag: Name mit den meisten Buchungen
+    const top = names.filter((n) => selected.includes(n.name)).sort((a, b) => b.count - a.count)[0];
+    setMergeName(top?.name ?? selected[0] ?? '');
+    setMergeCategory('');
+    setShowMerge(true);
+  };
+
+  const handleMerge = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/merchants/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: mergeName, merchants: selected, defaultCategory: mergeCategory }),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error);
+      setSelected([]);
+      setShowMerge(false);
+      await fetchMerchants();
+    } catch (err) {
+      console.error('Error merging merchants:', err);
+      alert(t('haendler.error.merge', 'Zusammenführen fehlgeschlagen.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openEdit = (merchant: Merchant) => {
+    setEditing(merchant);
+    setEditForm({
+      name: merchant.name,
+      aliases: merchant.aliases.join(', '),
+      defaultCategory: merchant.defaultCategory ?? '',
+    });
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editing) return;
+    setSaving(true);
+    try {
+      const res = await fetch('/api/merchants', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: editing.id,
+          name: editForm.name,
+          aliases: editForm.aliases.split(',').map((alias) => alias.trim()).filter(Boolean),
+          defaultCategory: editForm.defaultCategory,
+        }),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        alert(data.error || t('haendler.error.save', 'Speichern fehlgeschlagen.'));
+        return;
+      }
+      setEditing(null);
+      await fetchMerchants();
+    } catch (err) {
+      console.error('Error updating merchant:', err);
+      alert(t('haendler.error.save', 'Speichern fehlgeschlagen.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (merchant: Merchant) => {
+    if (!window.confirm(t('haendler.deleteConfirm', 'Händler aus dem Verzeichnis entfernen? Buchungen bleiben unverändert.'))) return;
+    try {
+      const res = await fetch('/api/merchants', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: merchant.id }),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error);
+      await fetchMerchants();
+    } catch (err) {
+      console.error('Error deleting merchant:', err);
+      alert(t('haendler.error.delete', 'Löschen fehlgeschlagen.'));
+    }
+  };
+
+  const term = search.trim().toLowerCase();
+  const visibleNames = term ? names.filter((n) => n.name.toLowerCase().includes(term)) : names;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">{t('haendler.title', 'Händler')}</h1>
+          <p className="text-gray-600 dark:text-gray-300 mt-1">
+            {t('haendler.subtitle', 'Fasse Schreibweisen wie «COOP-1234 ZUERICH» und «Coop» zu einem Händler zusammen.')}
+          </p>
+        </div>
+        <Button
+          onClick={openMerge}
+          disabled={selected.length < 1}
+          className="flex items-center space-x-2 bg-blue-600 text-white hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600"
+        >
+          <Merge className="w-4 h-4" />
+          <span>
+            {t('haendler.merge', 'Zusammenführen')} ({selected.length})
+          </span>
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className="text-gray-500">{t('haendler.loading', 'Lade Händler...')}</p>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('haendler.names', 'Händler im Verlauf')}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Input
+                placeholder={t('haendler.search', 'Händler suchen...')}
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+              {visibleNames.length === 0 ? (
+                <p className="text-sm text-gray-500">{t('haendler.names.empty', 'Keine Händler gefunden.')}</p>
+              ) : (
+                <div className="divide-y dark:divide-gray-800 max-h-[32rem] overflow-y-auto">
+                  {visibleNames.map((entry) => (
+                    <label key={entry.name} className="flex items-center justify-between gap-3 py-2 cursor-pointer">
+                      <span className="flex items-center gap-3">
+                        <Checkbox
+                          checked={selected.includes(entry.name)}
+                          onCheckedChange={() => toggleSelected(entry.name)}
+                        />
+                        <span className="text-sm text-gray-900 dark:text-gray-100">{entry.name}</span>
+                        {entry.merchantId && (
+                          <Badge variant="outline" className="text-xs">
+                            {t('haendler.inDirectory', 'Verzeichnis')}
+                          </Badge>
+                        )}
+                      </span>
+                      <span className="text-xs text-gray-500">
+                        {entry.count} {t('haendler.bookings', 'Buchungen')}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('haendler.directory', 'Händlerverzeichnis')}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {merchants.length === 0 ? (
+                <div className="text-center text-sm text-gray-600 dark:text-gray-300 py-6">
+                  <Store className="w-10 h-10 mx-auto mb-3 text-gray-400" />
+                  {t('haendler.directory.empty', 'Noch keine Einträge. Wähle links Händler aus und führe sie zusammen.')}
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {merchants.map((merchant) => (
+                    <div key={merchant.id} className="flex items-start justify-between gap-3 border rounded-lg p-3 dark:border-gray-800">
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-semibold text-gray-900 dark:text-gray-100">{merchant.name}</span>
+                          {merchant.defaultCategory && (
+                            <Badge className="text-xs">{categoryLabel(merchant.defaultCategory)}</Badge>
+                          )}
+                        </div>
+                        {merchant.aliases.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {merchant.aliases.map((alias) => (
+                              <Badge key={alias} variant="secondary" className="text-xs font-normal">
+                                {alias}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex items-center">
+                        <Button size="icon" variant="ghost" onClick={() => openEdit(merchant)} title={t('haendler.edit', 'Bearbeiten')}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" onClick={() => handleDelete(merchant)} title={t('haendler.delete', 'Löschen')}>
+                          <Trash2 className="w-4 h-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Dialog open={showMerge} onOpenChange={setShowMerge}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('haendler.merge.title', 'Händler zusammenführen')}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-1">
+              {selected.map((name) => (
+                <Badge key={name} variant="secondary" className="text-xs font-normal">
+                  {name}
+                </Badge>
+              ))}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="merge-name">{t('haendler.merge.name', 'Kanonischer Name')}</Label>
+              <Input id="merge-name" value={mergeName} onChange={(e) => setMergeName(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="merge-category">{t('haendler.defaultCategory', 'Standardkategorie (optional)')}</Label>
+              <select
+                id="merge-category"
+                className="border rounded px-2 py-2 text-sm w-full bg-white dark:bg-gray-900 dark:text-gray-100 border-gray-300 dark:border-gray-700"
+                value={mergeCategory}
+                onChange={(e) => setMergeCategory(e.target.value)}
+              >
+                <option value="">{t('haendler.noCategory', 'Keine')}</option>
+                {categoryOptions.map(({ category, depth }) => (
+                  <option key={category.id} value={category.name}>
+                    {`${'\u00a0\u00a0'.repeat(depth)}${categoryLabel(category.name)}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <p className="text-xs text-gray-500">
+              {t('haendler.merge.hint', 'Alle Buchungen der ausgewählten Namen werden umbenannt; künftige Importe werden automatisch zugeordnet.')}
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowMerge(false)}>
+              {t('haendler.cancel', 'Abbrechen')}
+            </Button>
+            <Button onClick={handleMerge} disabled={saving || !mergeName.trim()}>
+              {t('haendler.merge', 'Zusammenführen')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(editing)} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('haendler.editTitle', 'Händler bearbeiten')}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="merchant-name">{t('haendler.merge.name', 'Kanonischer Name')}</Label>
+              <Input
+                id="merchant-name"
+                value={editForm.name}
+                onChange={(e) => setEditForm((prev) => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="merchant-aliases">{t('haendler.aliases', 'Aliasse (kommagetrennt)')}</Label>
+              <Input
+                id="merchant-aliases"
+                value={editForm.aliases}
+                onChange={(e) => setEditForm((prev) => ({ ...prev, aliases: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="merchant-category">{t('haendler.defaultCategory', 'Standardkategorie (optional)')}</Label>
+              <select
+                id="merchant-category"
+                className="border rounded px-2 py-2 text-sm w-full bg-white dark:bg-gray-900 dark:text-gray-100 border-gray-300 dark:border-gray-700"
+                value={editForm.defaultCategory}
+                onChange={(e) => setEditForm((prev) => ({ ...prev, defaultCategory: e.target.value }))}
+              >
+                <option value="">{t('haendler.noCategory', 'Keine')}</option>
+                {categoryOptions.map(({ category, depth }) => (
+                  <option key={category.id} value={category.name}>
+                    {`${'\u00a0\u00a0'.repeat(depth)}${categoryLabel(category.name)}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              {t('haendler.cancel', 'Abbrechen')}
+            </Button>
+            <Button onClick={handleSaveEdit} disabled={saving || !editForm.name.trim()}>
+              {t('haendler.save', 'Speichern')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,370 @@
+'use client';
+
+/**
+ * Kategorien-Seite:
+ * - Zeigt die Kategorie-Taxonomie als Baum (Ober-/Unterkategorien) mit Farbe, Icon und DE/EN-Bezeichnung.
+ * - Kategorien anlegen, bearbeiten (Umbenennen übernimmt Buchungen, Regeln und Händler) und löschen.
+ * - Ausgaben-Kategorien erhalten optional ein Monatsbudget mit Übertrag in den Folgemonat.
+ * - Beim Löschen wandern Buchungen in die Oberkategorie bzw. nach «Allgemeines».
+ */
+
+import { useState } from 'react';
+import { Pencil, Plus, Tags, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import CategoryIcon, { CATEGORY_ICONS } from '@/components/CategoryIcon';
+import type { Category } from '@/lib/types';
+import { useI18n } from '@/hooks/useI18n';
+import { useCategories } from '@/hooks/useCategories';
+
+type CategoryFormState = {
+  name: string;
+  parentId: string;
+  kind: Category['kind'];
+  color: string;
+  icon: string;
+  labelDe: string;
+  labelEn: string;
+  sortOrder: string;
+  budgetLimit: string;
+  budgetRollover: boolean;
+};
+
+const toFormState = (category?: Category | null): CategoryFormState => ({
+  name: category?.name ?? '',
+  parentId: category?.parentId ?? '',
+  kind: category?.kind ?? 'expense',
+  color: category?.color ?? '#9ca3af',
+  icon: category?.icon ?? 'tag',
+  labelDe: category?.labelDe ?? '',
+  labelEn: category?.labelEn ?? '',
+  sortOrder: category ? String(category.sortOrder) : '',
+  budgetLimit: category?.budgetLimit !== undefined ? String(category.budgetLimit) : '',
+  budgetRollover: category?.budgetRollover ?? false,
+});
+
+const selectClassName =
+  'border rounded px-2 py-2 text-sm w-full bg-white dark:bg-gray-900 dark:text-gray-100 border-gray-300 dark:border-gray-700';
+
+export default function KategorienPage() {
+  const { t } = useI18n();
+  const { categories, options, loaded, label, refresh } = useCategories();
+  const [editing, setEditing] = useState<Category | null>(null);
+  const [showDialog, setShowDialog] = useState(false);
+  const [formData, setFormData] = useState<CategoryFormState>(toFormState());
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const update = <K extends keyof CategoryFormState>(key: K, value: CategoryFormState[K]) =>
+    setFormData((prev) => ({ ...prev, [key]: value }));
+
+  const openDialog = (category: Category | null) => {
+    setEditing(category);
+    setFormData(toFormState(category));
+    setError('');
+    setShowDialog(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const payload = {
+        name: formData.name,
+        parentId: formData.parentId || null,
+        kind: formData.kind,
+        color: formData.color,
+        icon: formData.icon,
+        labelDe: formData.labelDe,
+        labelEn: formData.labelEn,
+        sortOrder: formData.sortOrder === '' ? undefined : Number(formData.sortOrder),
+        // Budgets gibt es nur für Ausgaben-Kategorien
+        budgetLimit: isExpense && formData.budgetLimit !== '' ? Number(formData.budgetLimit) : null,
+        budgetRollover: formData.budgetRollover,
+      };
+      const res = await fetch('/api/categories', {
+        method: editing ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(editing ? { id: editing.id, ...payload } : payload),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        setError(data.error || t('kategorien.error.save', 'Kategorie konnte nicht gespeichert werden.'));
+        return;
+      }
+      setShowDialog(false);
+      await refresh();
+    } catch (err) {
+      console.error('Error saving category:', err);
+      setError(t('kategorien.error.save', 'Kategorie konnte nicht gespeichert werden.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (category: Category) => {
+    const confirmText = t(
+      'kategorien.deleteConfirm',
+      'Kategorie löschen? Buchungen, Regeln und Händler wandern in die Oberkategorie bzw. nach «Allgemeines».'
+    );
+    if (!window.confirm(confirmText)) return;
+    try {
+      const res = await fetch('/api/categories', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: category.id }),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        alert(data.error || t('kategorien.error.delete', 'Kategorie konnte nicht gelöscht werden.'));
+        return;
+      }
+      await refresh();
+    } catch (err) {
+      console.error('Error deleting category:', err);
+      alert(t('kategorien.error.delete', 'Kategorie konnte nicht gelöscht werden.'));
+    }
+  };
+
+  // Eine Kategorie kann nicht unter sich selbst oder ihren Unterkategorien stehen
+  const parentOptions = options.filter(({ category }) => {
+    if (!editing) return true;
+    let current: Category | undefined = category;
+    while (current) {
+      if (current.id === editing.id) return false;
+      const parentId: string | undefined = current.parentId;
+      current = parentId ? categories.find((entry) => entry.id === parentId) : undefined;
+    }
+    return true;
+  });
+  const parent = categories.find((category) => category.id === formData.parentId);
+  const isExpense = (parent?.kind ?? formData.kind) === 'expense';
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">{t('kategorien.title', 'Kategorien')}</h1>
+          <p className="text-gray-600 dark:text-gray-300 mt-1">
+            {t(
+              'kategorien.subtitle',
+              'Die Kategorien steuern KI-Einordnung, Filter im Verlauf und die Auswertungen in der Analyse.'
+            )}
+          </p>
+        </div>
+        <Button
+          onClick={() => openDialog(null)}
+          className="flex items-center space-x-2 bg-blue-600 text-white hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600"
+        >
+          <Plus className="w-4 h-4" />
+          <span>{t('kategorien.new', 'Neue Kategorie')}</span>
+        </Button>
+      </div>
+
+      {!loaded ? (
+        <p className="text-gray-500">{t('kategorien.loading', 'Lade Kategorien...')}</p>
+      ) : options.length === 0 ? (
+        <Card>
+          <CardContent className="py-10 text-center text-gray-600 dark:text-gray-300">
+            <Tags className="w-10 h-10 mx-auto mb-3 text-gray-400" />
+            {t('kategorien.empty', 'Keine Kategorien vorhanden.')}
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="divide-y dark:divide-gray-800 p-0">
+            {options.map(({ category, depth }) => (
+              <div
+                key={category.id}
+                className="flex items-center justify-between gap-3 px-4 py-3"
+                style={{ paddingLeft: `${1 + depth * 1.75}rem` }}
+              >
+                <div className="flex items-center gap-3">
+                  <div className="p-2 rounded-lg" style={{ backgroundColor: `${category.color}1a` }}>
+                    <CategoryIcon icon={category.icon} color={category.color} className="w-4 h-4" />
+                  </div>
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-gray-100">{label(category.name)}</p>
+                    <p className="text-xs text-gray-500">
+                      {category.labelDe} · {category.labelEn}
+                    </p>
+                  </div>
+                  <Badge variant={category.kind === 'income' ? 'default' : 'secondary'} className="text-xs">
+                    {category.kind === 'income'
+                      ? t('kategorien.kind.income', 'Einnahme')
+                      : t('kategorien.kind.expense', 'Ausgabe')}
+                  </Badge>
+                  {category.budgetLimit !== undefined && (
+                    <Badge variant="outline" className="text-xs">
+                      {category.budgetLimit.toFixed(2)} CHF / {t('kategorien.budget.month', 'Monat')}
+                      {category.budgetRollover ? ` · ${t('kategorien.budget.rollover.short', 'Übertrag')}` : ''}
+                    </Badge>
+                  )}
+                </div>
+                <div className="flex items-center">
+                  <Button size="icon" variant="ghost" onClick={() => openDialog(category)} title={t('kategorien.edit', 'Bearbeiten')}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" onClick={() => handleDelete(category)} title={t('kategorien.delete', 'Löschen')}>
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editing ? t('kategorien.editTitle', 'Kategorie bearbeiten') : t('kategorien.new', 'Neue Kategorie')}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="category-name">{t('kategorien.name', 'Name')}</Label>
+              <Input id="category-name" value={formData.name} onChange={(e) => update('name', e.target.value)} />
+              {editing && (
+                <p className="text-xs text-gray-500">
+                  {t('kategorien.name.hint', 'Umbenennen übernimmt alle Buchungen, Regeln und Händler dieser Kategorie.')}
+                </p>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="category-parent">{t('kategorien.parent', 'Oberkategorie')}</Label>
+                <select
+                  id="category-parent"
+                  className={selectClassName}
+                  value={formData.parentId}
+                  onChange={(e) => update('parentId', e.target.value)}
+                >
+                  <option value="">{t('kategorien.parent.none', 'Keine (Hauptkategorie)')}</option>
+                  {parentOptions.map(({ category, depth }) => (
+                    <option key={category.id} value={category.id}>
+                      {`${'\u00a0\u00a0'.repeat(depth)}${label(category.name)}`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="category-kind">{t('kategorien.kind', 'Art')}</Label>
+                <select
+                  id="category-kind"
+                  className={selectClassName}
+                  value={parent?.kind ?? formData.kind}
+                  disabled={Boolean(parent)}
+                  onChange={(e) => update('kind', e.target.value as Category['kind'])}
+                >
+                  <option value="expense">{t('kategorien.kind.expense', 'Ausgabe')}</option>
+                  <option value="income">{t('kategorien.kind.income', 'Einnahme')}</option>
+                </select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="category-label-de">{t('kategorien.labelDe', 'Bezeichnung (DE)')}</Label>
+                <Input
+                  id="category-label-de"
+                  placeholder={formData.name}
+                  value={formData.labelDe}
+                  onChange={(e) => update('labelDe', e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="category-label-en">{t('kategorien.labelEn', 'Bezeichnung (EN)')}</Label>
+                <Input
+                  id="category-label-en"
+                  placeholder={formData.name}
+                  value={formData.labelEn}
+                  onChange={(e) => update('labelEn', e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="category-color">{t('kategorien.color', 'Farbe')}</Label>
+                <Input
+                  id="category-color"
+                  type="color"
+                  className="h-10 p-1"
+                  value={formData.color}
+                  onChange={(e) => update('color', e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="category-icon">{t('kategorien.icon', 'Icon')}</Label>
+                <select
+                  id="category-icon"
+                  className={selectClassName}
+                  value={formData.icon}
+                  onChange={(e) => update('icon', e.target.value)}
+                >
+                  {Object.keys(CATEGORY_ICONS).map((icon) => (
+                    <option key={icon} value={icon}>
+                      {icon}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="category-sort">{t('kategorien.sortOrder', 'Reihenfolge')}</Label>
+                <Input
+                  id="category-sort"
+                  type="number"
+                  step="1"
+                  value={formData.sortOrder}
+                  onChange={(e) => update('sortOrder', e.target.value)}
+                />
+              </div>
+            </div>
+            {isExpense && (
+              <div className="grid grid-cols-2 gap-2 items-end">
+                <div className="space-y-1">
+                  <Label htmlFor="category-budget">{t('kategorien.budget', 'Monatsbudget (CHF)')}</Label>
+                  <Input
+                    id="category-budget"
+                    type="number"
+                    min="0"
+                    step="0.05"
+                    placeholder={t('kategorien.budget.none', 'Kein Budget')}
+                    value={formData.budgetLimit}
+                    onChange={(e) => update('budgetLimit', e.target.value)}
+                  />
+                </div>
+                <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-200 pb-2">
+                  <Checkbox
+                    checked={formData.budgetRollover}
+                    disabled={formData.budgetLimit === ''}
+                    onCheckedChange={(checked) => update('budgetRollover', checked === true)}
+                  />
+                  <span>{t('kategorien.budget.rollover', 'Rest/Überzug in den Folgemonat übertragen')}</span>
+                </label>
+              </div>
+            )}
+            <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+              <CategoryIcon icon={formData.icon} color={formData.color} className="w-5 h-5" />
+              <span>{formData.labelDe || formData.name || t('kategorien.preview', 'Vorschau')}</span>
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDialog(false)}>
+              {t('kategorien.cancel', 'Abbrechen')}
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !formData.name.trim()}>
+              {saving ? t('kategorien.saving', 'Speichere...') : t('kategorien.save', 'Speichern')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+'use client';
+
+/**
+ * Konten-Seite:
+ * - Listet Konten (Bank, Karte, Bargeld, Sparkonto, Säule 3a) mit aktuellem Saldo
+ *   (Anfangssaldo plus gebuchte Einnahmen, Ausgaben und Umbuchungen).
+ * - Konten anlegen, bearbeiten und löschen (nur ohne Buchungen).
+ * - Umbuchungen zwischen Konten werden im Verlauf erfasst und zählen weder als Ausgabe noch als Einnahme.
+ */
+
+import { useState } from 'react';
+import { Banknote, CreditCard, Landmark, Pencil, PiggyBank, Plus, ShieldCheck, Trash2, Wallet } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ACCOUNT_TYPES } from '@/lib/accounts';
+import type { AccountBalance, AccountType } from '@/lib/types';
+import { useI18n } from '@/hooks/useI18n';
+import { useAccounts } from '@/hooks/useAccounts';
+
+const TYPE_LABELS: Record<AccountType, [string, string]> = {
+  bank: ['konten.type.bank', 'Bankkonto'],
+  card: ['konten.type.card', 'Kreditkarte'],
+  cash: ['konten.type.cash', 'Bargeld'],
+  savings: ['konten.type.savings', 'Sparkonto'],
+  pillar3a: ['konten.type.pillar3a', 'Säule 3a'],
+};
+
+const TYPE_ICONS: Record<AccountType, typeof Landmark> = {
+  bank: Landmark,
+  card: CreditCard,
+  cash: Banknote,
+  savings: PiggyBank,
+  pillar3a: ShieldCheck,
+};
+
+type AccountFormState = { name: string; type: AccountType; openingBalance: string };
+
+const emptyForm: AccountFormState = { name: '', type: 'bank', openingBalance: '' };
+
+const formatChf = (value: number) => `${value.toFixed(2)} CHF`;
+
+export default function KontenPage() {
+  const { t } = useI18n();
+  const { accounts, totals, loaded, refresh } = useAccounts();
+  const [editing, setEditing] = useState<AccountBalance | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<AccountFormState>(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setShowForm(true);
+  };
+
+  const openEdit = (account: AccountBalance) => {
+    setEditing(account);
+    setForm({ name: account.name, type: account.type, openingBalance: String(account.openingBalance) });
+    setShowForm(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/accounts', {
+        method: editing ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(editing ? { id: editing.id } : {}),
+          name: form.name,
+          type: form.type,
+          openingBalance: form.openingBalance === '' ? 0 : Number(form.openingBalance),
+        }),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        alert(data.error || t('konten.error.save', 'Speichern fehlgeschlagen.'));
+        return;
+      }
+      setShowForm(false);
+      await refresh();
+    } catch (err) {
+      console.error('Error saving account:', err);
+      alert(t('konten.error.save', 'Speichern fehlgeschlagen.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (account: AccountBalance) => {
+    if (!window.confirm(t('konten.deleteConfirm', 'Konto löschen?'))) return;
+    try {
+      const res = await fetch('/api/accounts', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: account.id }),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        alert(data.error || t('konten.error.delete', 'Löschen fehlgeschlagen.'));
+        return;
+      }
+      await refresh();
+    } catch (err) {
+      console.error('Error deleting account:', err);
+      alert(t('konten.error.delete', 'Löschen fehlgeschlagen.'));
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">{t('konten.title', 'Konten')}</h1>
+          <p className="text-gray-600 dark:text-gray-300 mt-1">
+            {t(
+              'konten.subtitle',
+              'Salden deiner Konten. Umbuchungen zwischen Konten (z.B. aufs Sparkonto) zählen nicht als Ausgabe.'
+            )}
+          </p>
+        </div>
+        <Button
+          onClick={openCreate}
+          className="flex items-center space-x-2 bg-blue-600 text-white hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600"
+        >
+          <Plus className="w-4 h-4" />
+          <span>{t('konten.add', 'Konto hinzufügen')}</span>
+        </Button>
+      </div>
+
+      {!loaded ? (
+        <p className="text-gray-500">{t('konten.loading', 'Lade Konten...')}</p>
+      ) : accounts.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6 text-center text-sm text-gray-600 dark:text-gray-300">
+            <Wallet className="w-10 h-10 mx-auto mb-3 text-gray-400" />
+            {t('konten.empty', 'Noch keine Konten. Lege dein Bankkonto, Karten, Bargeld und Sparkonten an.')}
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-gray-600">{t('konten.total', 'Gesamtsaldo')}</p>
+                <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">{formatChf(totals.balance)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-gray-600">{t('konten.spending', 'Verfügbar (Bank, Karte, Bargeld)')}</p>
+                <p className={`text-2xl font-bold ${totals.spending < 0 ? 'text-red-600' : 'text-gray-900 dark:text-gray-100'}`}>
+                  {formatChf(totals.spending)}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('konten.list', 'Deine Konten')}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {accounts.map((account) => {
+                const Icon = TYPE_ICONS[account.type];
+                return (
+                  <div key={account.id} className="flex items-center justify-between gap-3 border rounded-lg p-3 dark:border-gray-800">
+                    <div className="flex items-center gap-3">
+                      <div className="p-2 rounded-lg bg-blue-50 dark:bg-blue-950">
+                        <Icon className="w-5 h-5 text-blue-600" />
+                      </div>
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-semibold text-gray-900 dark:text-gray-100">{account.name}</span>
+                          <Badge variant="secondary" className="text-xs font-normal">
+                            {t(TYPE_LABELS[account.type][0], TYPE_LABELS[account.type][1])}
+                          </Badge>
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          {t('konten.opening', 'Anfangssaldo')} {formatChf(account.openingBalance)} · {account.transactionCount}{' '}
+                          {t('konten.bookings', 'Buchungen')}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className={`font-bold ${account.balance < 0 ? 'text-red-600' : 'text-gray-900 dark:text-gray-100'}`}>
+                        {formatChf(account.balance)}
+                      </span>
+                      <Button size="icon" variant="ghost" onClick={() => openEdit(account)} title={t('konten.edit', 'Bearbeiten')}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => handleDelete(account)} title={t('konten.delete', 'Löschen')}>
+                        <Trash2 className="w-4 h-4 text-red-600" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editing ? t('konten.editTitle', 'Konto bearbeiten') : t('konten.add', 'Konto hinzufügen')}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="account-name">{t('konten.name', 'Name')}</Label>
+              <Input
+                id="account-name"
+                value={form.name}
+                onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="account-type">{t('konten.type', 'Kontoart')}</Label>
+              <select
+                id="account-type"
+                className="border rounded px-2 py-2 text-sm w-full bg-white dark:bg-gray-900 dark:text-gray-100 border-gray-300 dark:border-gray-700"
+                value={form.type}
+                onChange={(e) => setForm((prev) => ({ ...prev, type: e.target.value as AccountType }))}
+              >
+                {ACCOUNT_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {t(TYPE_LABELS[type][0], TYPE_LABELS[type][1])}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="account-opening">{t('konten.openingBalance', 'Anfangssaldo (CHF)')}</Label>
+              <Input
+                id="account-opening"
+                type="number"
+                step="0.01"
+                value={form.openingBalance}
+                onChange={(e) => setForm((prev) => ({ ...prev, openingBalance: e.target.value }))}
+              />
+              <p className="text-xs text-gray-500">
+                {t('konten.openingBalance.hint', 'Saldo vor der ersten erfassten Buchung auf diesem Konto.')}
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowForm(false)}>
+              {t('konten.cancel', 'Abbrechen')}
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !form.name.trim()}>
+              {t('konten.save', 'Speichern')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
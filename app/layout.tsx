@@ -3,6 +3,7 @@ import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import Navigation from "@/components/Navigation";
 import { I18nProvider } from "@/hooks/useI18n";
+import { AuthProvider } from "@/hooks/useAuth";
 
 const inter = Inter({ subsets: ["latin"] });
 
@@ -20,8 +21,10 @@ export default function RootLayout({
     <html lang="de">
       <body className={`${inter.className} bg-gray-50 dark:bg-gray-900 text-gray-900 dark:text-gray-50`}>
         <I18nProvider>
-          <Navigation />
-          <main className="min-h-screen bg-gray-50 dark:bg-gray-900">{children}</main>
+          <AuthProvider>
+            <Navigation />
+            <main className="min-h-screen bg-gray-50 dark:bg-gray-900">{children}</main>
+          </AuthProvider>
         </I18nProvider>
       </body>
     </html>
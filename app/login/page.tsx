@@ -0,0 +1,133 @@
+'use client';
+
+/**
+ * Login-Seite:
+ * - Anmeldung bzw. Registrierung per E-Mail/Passwort über Supabase Auth.
+ * - Nach erfolgreicher Anmeldung Weiterleitung zum Finanzcoach.
+ */
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, LogIn } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { supabaseBrowser } from '@/lib/supabase-browser';
+import { useAuth } from '@/hooks/useAuth';
+import { useI18n } from '@/hooks/useI18n';
+
+export default function LoginPage() {
+  const { t } = useI18n();
+  const { session, localMode } = useAuth();
+  const router = useRouter();
+  const [mode, setMode] = useState<'signIn' | 'signUp'>('signIn');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [info, setInfo] = useState('');
+
+  useEffect(() => {
+    if (session || localMode) router.replace('/');
+  }, [session, localMode, router]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    setInfo('');
+
+    try {
+      if (!supabaseBrowser) {
+        setError(t('login.notConfigured', 'Anmeldung ist nicht konfiguriert (Supabase-Variablen fehlen).'));
+        return;
+      }
+      if (mode === 'signIn') {
+        const { error: signInError } = await supabaseBrowser.auth.signInWithPassword({ email, password });
+        if (signInError) throw signInError;
+      } else {
+        const { data, error: signUpError } = await supabaseBrowser.auth.signUp({ email, password });
+        if (signUpError) throw signUpError;
+        if (!data.session) {
+          setInfo(t('login.confirmEmail', 'Bitte bestätige deine E-Mail-Adresse und melde dich danach an.'));
+          setMode('signIn');
+        }
+      }
+    } catch (err: any) {
+      console.error('Auth error:', err);
+      setError(err?.message || t('login.error', 'Anmeldung fehlgeschlagen.'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-16">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2 text-gray-900 dark:text-gray-100">
+            <LogIn className="w-5 h-5 text-blue-600" />
+            <span>
+              {mode === 'signIn' ? t('login.title', 'Anmelden') : t('login.signUpTitle', 'Konto erstellen')}
+            </span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="email">{t('login.email', 'E-Mail')}</Label>
+              <Input
+                id="email"
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="password">{t('login.password', 'Passwort')}</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete={mode === 'signIn' ? 'current-password' : 'new-password'}
+                minLength={6}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            {info && <p className="text-sm text-green-700">{info}</p>}
+
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : mode === 'signIn' ? (
+                t('login.submit', 'Anmelden')
+              ) : (
+                t('login.signUpSubmit', 'Registrieren')
+              )}
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              className="w-full"
+              onClick={() => {
+                setMode(mode === 'signIn' ? 'signUp' : 'signIn');
+                setError('');
+                setInfo('');
+              }}
+            >
+              {mode === 'signIn'
+                ? t('login.switchToSignUp', 'Noch kein Konto? Registrieren')
+                : t('login.switchToSignIn', 'Bereits registriert? Anmelden')}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
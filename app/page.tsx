@@ -133,7 +133,6 @@ export default function SparzieleChat() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           conversation: updatedMessages,
-          userId: 'demoUser',
           lang,
         }),
       });
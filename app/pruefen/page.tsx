@@ -0,0 +1,214 @@
+'use client';
+
+/**
+ * Prüfen-Seite (Review-Queue):
+ * - Listet Transaktionen mit unsicherer Einordnung (niedrige Konfidenz), unsicherste zuerst.
+ * - Ein Klick bestätigt die Kategorie oder setzt eine andere; beides trainiert den lokalen Klassifikator.
+ * - Zeigt Quelle (KI, lokales Modell, Fallback) und Konfidenz je Eintrag.
+ */
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Check, CheckCheck, ClipboardCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import CategoryIcon from '@/components/CategoryIcon';
+import type { ClassificationSource, Transaction } from '@/lib/types';
+import { REVIEW_CONFIDENCE_THRESHOLD, reviewQueue } from '@/lib/review';
+import { isIncomeTransaction } from '@/lib/transactionFilters';
+import { useI18n } from '@/hooks/useI18n';
+import { useCategories } from '@/hooks/useCategories';
+
+const SOURCE_LABELS: Record<ClassificationSource, [string, string]> = {
+  llm: ['pruefen.source.llm', 'KI'],
+  local: ['pruefen.source.local', 'Lokales Modell'],
+  fallback: ['pruefen.source.fallback', 'Stichwort-Fallback'],
+  rule: ['pruefen.source.rule', 'Regel'],
+  user: ['pruefen.source.user', 'Von dir'],
+};
+
+export default function PruefenPage() {
+  const { t, lang } = useI18n();
+  const { categories, options: categoryOptions, label: categoryLabel, lookup: lookupCategory } = useCategories();
+  const [queue, setQueue] = useState<Transaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [corrections, setCorrections] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [confirmingAll, setConfirmingAll] = useState(false);
+
+  useEffect(() => {
+    fetchQueue();
+  }, []);
+
+  const fetchQueue = async () => {
+    try {
+      const res = await fetch('/api/transactions');
+      const data = await res.json();
+      if (data.success) setQueue(reviewQueue(data.transactions));
+    } catch (err) {
+      console.error('Error fetching transactions:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Bestätigen = dieselbe Kategorie als Nutzerentscheid speichern
+  const saveCategory = async (transaction: Transaction, category: string): Promise<boolean> => {
+    const res = await fetch('/api/transactions', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        id: transaction.id,
+        category,
+        decisionLabel: transaction.decisionLabel,
+        decisionExplanation:
+          category === transaction.category ? transaction.decisionExplanation : `Manuell gesetzt auf ${category}`,
+        isImpulse: transaction.isImpulse,
+      }),
+    });
+    const data = await res.json();
+    return Boolean(data.success);
+  };
+
+  const handleSave = async (transaction: Transaction) => {
+    const category = corrections[transaction.id] || transaction.category;
+    setSavingId(transaction.id);
+    try {
+      if (!(await saveCategory(transaction, category))) throw new Error('Review failed');
+      setQueue((prev) => prev.filter((entry) => entry.id !== transaction.id));
+    } catch (err) {
+      console.error('Error reviewing transaction:', err);
+      alert(t('pruefen.error', 'Speichern fehlgeschlagen.'));
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleConfirmAll = async () => {
+    if (!window.confirm(t('pruefen.confirmAll.confirm', 'Alle angezeigten Kategorien unverändert bestätigen?'))) return;
+    setConfirmingAll(true);
+    try {
+      for (const transaction of queue) {
+        if (!(await saveCategory(transaction, transaction.category))) throw new Error('Review failed');
+        setQueue((prev) => prev.filter((entry) => entry.id !== transaction.id));
+      }
+    } catch (err) {
+      console.error('Error confirming transactions:', err);
+      alert(t('pruefen.error', 'Speichern fehlgeschlagen.'));
+    } finally {
+      setConfirmingAll(false);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">{t('pruefen.title', 'Prüfen')}</h1>
+          <p className="text-gray-600 dark:text-gray-300 mt-1">
+            {t('pruefen.subtitle', 'Unsichere Einordnungen bestätigen oder korrigieren – das lokale Modell lernt daraus.')}{' '}
+            ({t('pruefen.threshold', 'Konfidenz unter')} {Math.round(REVIEW_CONFIDENCE_THRESHOLD * 100)} %)
+          </p>
+        </div>
+        <Button
+          onClick={handleConfirmAll}
+          disabled={queue.length === 0 || confirmingAll || savingId !== null}
+          className="flex items-center space-x-2 bg-blue-600 text-white hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600"
+        >
+          <CheckCheck className="w-4 h-4" />
+          <span>
+            {t('pruefen.confirmAll', 'Alle bestätigen')} ({queue.length})
+          </span>
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className="text-gray-500">{t('pruefen.loading', 'Lade Transaktionen...')}</p>
+      ) : queue.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6 text-center py-12 text-gray-600 dark:text-gray-300">
+            <ClipboardCheck className="w-10 h-10 mx-auto mb-3 text-green-500" />
+            <p className="mb-4">{t('pruefen.empty', 'Alles geprüft – keine unsicheren Einordnungen.')}</p>
+            <Button asChild variant="outline">
+              <Link href="/verlauf">{t('pruefen.toHistory', 'Zum Verlauf')}</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {queue.map((transaction) => {
+            const categoryInfo = lookupCategory(transaction.category);
+            const isIncome = isIncomeTransaction(transaction, categories);
+            const selected = corrections[transaction.id] || transaction.category;
+            const source = transaction.classificationSource ? SOURCE_LABELS[transaction.classificationSource] : null;
+
+            return (
+              <Card key={transaction.id}>
+                <CardContent className="pt-6">
+                  <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+                    <div className="space-y-1 flex-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-semibold text-gray-900 dark:text-gray-100">{transaction.merchant}</span>
+                        <span className={`text-sm font-medium ${isIncome ? 'text-green-600' : 'text-gray-700 dark:text-gray-200'}`}>
+                          {`${isIncome ? '+' : '-'}${Math.abs(transaction.amount).toFixed(2)} CHF`}
+                        </span>
+                        <span className="text-sm text-gray-500">
+                          {new Date(transaction.date).toLocaleDateString('de-CH')}
+                        </span>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant="secondary" className="text-xs flex items-center gap-1">
+                          <CategoryIcon icon={categoryInfo?.icon} color={categoryInfo?.color} className="w-3 h-3" />
+                          {categoryLabel(transaction.category)}
+                        </Badge>
+                        {source && (
+                          <Badge variant="outline" className="text-xs">
+                            {t(source[0], source[1])}
+                          </Badge>
+                        )}
+                        <Badge variant="outline" className="text-xs text-amber-700 border-amber-300 dark:text-amber-300">
+                          {t('pruefen.confidence', 'Konfidenz')}: {Math.round((transaction.confidence ?? 0) * 100)} %
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-gray-600 dark:text-gray-300">
+                        {lang === 'en' && transaction.decisionExplanationEn
+                          ? transaction.decisionExplanationEn
+                          : transaction.decisionExplanation}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <select
+                        className="border rounded px-2 py-2 text-sm bg-white dark:bg-gray-900 dark:text-gray-100 border-gray-300 dark:border-gray-700"
+                        value={selected}
+                        onChange={(e) => setCorrections((prev) => ({ ...prev, [transaction.id]: e.target.value }))}
+                        aria-label={t('pruefen.category', 'Kategorie')}
+                      >
+                        {categoryOptions.map(({ category, depth }) => (
+                          <option key={category.id} value={category.name}>
+                            {`${'\u00a0\u00a0'.repeat(depth)}${categoryLabel(category.name)}`}
+                          </option>
+                        ))}
+                      </select>
+                      <Button
+                        size="sm"
+                        onClick={() => handleSave(transaction)}
+                        disabled={savingId === transaction.id || confirmingAll}
+                        className="flex items-center gap-1"
+                      >
+                        <Check className="w-4 h-4" />
+                        {selected === transaction.category
+                          ? t('pruefen.confirm', 'Bestätigen')
+                          : t('pruefen.correct', 'Korrigieren')}
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,383 @@
+'use client';
+
+/**
+ * Regeln-Seite:
+ * - Eigene Kategorisierungsregeln (Händler enthält/Regex, Betragsbereich, Kategorie-Text).
+ * - Treffer setzen Kategorie, Impuls-Flag und Bewertung ohne KI-Aufruf.
+ * - Reihenfolge über die Priorität (kleiner zuerst), Regeln lassen sich deaktivieren.
+ */
+
+import { useEffect, useState } from 'react';
+import { ListFilter, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { CategorizationRule } from '@/lib/types';
+import { useI18n } from '@/hooks/useI18n';
+import { useCategories } from '@/hooks/useCategories';
+
+type RuleFormState = {
+  name: string;
+  merchantPattern: string;
+  merchantMatch: 'contains' | 'regex';
+  minAmount: string;
+  maxAmount: string;
+  rawCategoryPattern: string;
+  category: string;
+  isImpulse: boolean;
+  decisionLabel: 'useful' | 'unnecessary';
+  priority: string;
+  enabled: boolean;
+};
+
+const toFormState = (rule?: CategorizationRule | null): RuleFormState => ({
+  name: rule?.name ?? '',
+  merchantPattern: rule?.merchantPattern ?? '',
+  merchantMatch: rule?.merchantMatch ?? 'contains',
+  minAmount: rule?.minAmount !== undefined ? String(rule.minAmount) : '',
+  maxAmount: rule?.maxAmount !== undefined ? String(rule.maxAmount) : '',
+  rawCategoryPattern: rule?.rawCategoryPattern ?? '',
+  category: rule?.category ?? '',
+  isImpulse: rule?.isImpulse ?? false,
+  decisionLabel: rule?.decisionLabel ?? 'useful',
+  priority: String(rule?.priority ?? 100),
+  enabled: rule?.enabled ?? true,
+});
+
+export default function RegelnPage() {
+  const { t } = useI18n();
+  const { options: categoryOptions, label: categoryLabel } = useCategories();
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<CategorizationRule | null>(null);
+  const [showDialog, setShowDialog] = useState(false);
+  const [formData, setFormData] = useState<RuleFormState>(toFormState());
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      const res = await fetch('/api/rules');
+      const data = await res.json();
+      if (data.success) setRules(data.rules);
+    } catch (err) {
+      console.error('Error fetching rules:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDialog = (rule: CategorizationRule | null) => {
+    setEditing(rule);
+    setFormData(toFormState(rule));
+    setError('');
+    setShowDialog(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const payload = {
+        ...formData,
+        id: editing?.id,
+        minAmount: formData.minAmount === '' ? null : Number(formData.minAmount),
+        maxAmount: formData.maxAmount === '' ? null : Number(formData.maxAmount),
+        priority: Number(formData.priority || 100),
+      };
+      const res = await fetch('/api/rules', {
+        method: editing ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        setError(data.error || t('regeln.error.save', 'Regel konnte nicht gespeichert werden.'));
+        return;
+      }
+      await fetchRules();
+      setShowDialog(false);
+    } catch (err) {
+      console.error('Error saving rule:', err);
+      setError(t('regeln.error.save', 'Regel konnte nicht gespeichert werden.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleEnabled = async (rule: CategorizationRule) => {
+    try {
+      const res = await fetch('/api/rules', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: rule.id, enabled: !rule.enabled }),
+      });
+      const data = await res.json();
+      if (data.success) setRules((prev) => prev.map((r) => (r.id === rule.id ? data.rule : r)));
+    } catch (err) {
+      console.error('Error toggling rule:', err);
+    }
+  };
+
+  const handleDelete = async (rule: CategorizationRule) => {
+    if (!window.confirm(t('regeln.deleteConfirm', 'Regel wirklich löschen?'))) return;
+    try {
+      const res = await fetch('/api/rules', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: rule.id }),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error);
+      setRules((prev) => prev.filter((r) => r.id !== rule.id));
+    } catch (err) {
+      console.error('Error deleting rule:', err);
+      alert(t('regeln.error.delete', 'Regel konnte nicht gelöscht werden.'));
+    }
+  };
+
+  const describeConditions = (rule: CategorizationRule) => {
+    const parts: string[] = [];
+    if (rule.merchantPattern) {
+      parts.push(
+        rule.merchantMatch === 'regex'
+          ? `${t('regeln.merchant', 'Händler')} ~ /${rule.merchantPattern}/`
+          : `${t('regeln.merchant', 'Händler')} ${t('regeln.contains', 'enthält')} «${rule.merchantPattern}»`
+      );
+    }
+    if (rule.minAmount !== undefined || rule.maxAmount !== undefined) {
+      parts.push(`${rule.minAmount ?? 0} – ${rule.maxAmount ?? '∞'} CHF`);
+    }
+    if (rule.rawCategoryPattern) {
+      parts.push(`${t('regeln.rawCategory', 'Kategorie-Text')} ${t('regeln.contains', 'enthält')} «${rule.rawCategoryPattern}»`);
+    }
+    return parts.join(' · ');
+  };
+
+  const update = <K extends keyof RuleFormState>(key: K, value: RuleFormState[K]) =>
+    setFormData((prev) => ({ ...prev, [key]: value }));
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+            {t('regeln.title', 'Kategorisierungsregeln')}
+          </h1>
+          <p className="text-gray-600 dark:text-gray-300 mt-1">
+            {t('regeln.subtitle', 'Regeln greifen vor der KI – wiederkehrende Zahlungen werden immer gleich eingeordnet.')}
+          </p>
+        </div>
+        <Button
+          onClick={() => openDialog(null)}
+          className="flex items-center space-x-2 bg-blue-600 text-white hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600"
+        >
+          <Plus className="w-5 h-5" />
+          <span>{t('regeln.new', 'Neue Regel')}</span>
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className="text-gray-500">{t('regeln.loading', 'Lade Regeln...')}</p>
+      ) : rules.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6 text-center text-gray-600 dark:text-gray-300">
+            <ListFilter className="w-10 h-10 mx-auto mb-3 text-gray-400" />
+            {t('regeln.empty', 'Noch keine Regeln. Lege z.B. eine Regel für Miete oder Krankenkasse an.')}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {rules.map((rule) => (
+            <Card key={rule.id} className={rule.enabled ? '' : 'opacity-60'}>
+              <CardContent className="pt-6">
+                <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-gray-500">#{rule.priority}</span>
+                      <h3 className="font-semibold text-gray-900 dark:text-gray-100">{rule.name}</h3>
+                      {!rule.enabled && (
+                        <Badge variant="outline" className="text-xs">
+                          {t('regeln.disabled', 'Deaktiviert')}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600 dark:text-gray-300">{describeConditions(rule)}</p>
+                    <div className="flex items-center gap-2">
+                      <Badge className="text-xs">{categoryLabel(rule.category)}</Badge>
+                      {rule.isImpulse && (
+                        <Badge variant="destructive" className="text-xs">
+                          {t('regeln.impulse', 'Impulskauf')}
+                        </Badge>
+                      )}
+                      <Badge variant="secondary" className="text-xs">
+                        {rule.decisionLabel === 'useful'
+                          ? t('regeln.useful', 'Sinnvoll')
+                          : t('regeln.unnecessary', 'Eher unnötig')}
+                      </Badge>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" size="sm" onClick={() => toggleEnabled(rule)}>
+                      {rule.enabled ? t('regeln.disable', 'Deaktivieren') : t('regeln.enable', 'Aktivieren')}
+                    </Button>
+                    <Button size="icon" variant="ghost" onClick={() => openDialog(rule)} title={t('regeln.edit', 'Bearbeiten')}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" onClick={() => handleDelete(rule)} title={t('regeln.delete', 'Löschen')}>
+                      <Trash2 className="w-4 h-4 text-red-600" />
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? t('regeln.editTitle', 'Regel bearbeiten') : t('regeln.new', 'Neue Regel')}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="rule-name">{t('regeln.name', 'Name')}</Label>
+              <Input
+                id="rule-name"
+                placeholder={t('regeln.name.placeholder', 'z.B. Miete')}
+                value={formData.name}
+                onChange={(e) => update('name', e.target.value)}
+              />
+            </div>
+
+            <p className="text-sm font-medium text-gray-900 dark:text-gray-100">{t('regeln.conditions', 'Bedingungen')}</p>
+            <div className="grid grid-cols-3 gap-2">
+              <select
+                className="border rounded px-2 py-1 text-sm"
+                value={formData.merchantMatch}
+                onChange={(e) => update('merchantMatch', e.target.value === 'regex' ? 'regex' : 'contains')}
+              >
+                <option value="contains">{t('regeln.match.contains', 'Händler enthält')}</option>
+                <option value="regex">{t('regeln.match.regex', 'Händler (Regex)')}</option>
+              </select>
+              <Input
+                className="col-span-2"
+                placeholder={formData.merchantMatch === 'regex' ? '^(CSS|Helsana)' : 'Verwaltung AG'}
+                value={formData.merchantPattern}
+                onChange={(e) => update('merchantPattern', e.target.value)}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="rule-min" className="text-xs">{t('regeln.minAmount', 'Betrag ab (CHF)')}</Label>
+                <Input
+                  id="rule-min"
+                  type="number"
+                  step="0.01"
+                  value={formData.minAmount}
+                  onChange={(e) => update('minAmount', e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="rule-max" className="text-xs">{t('regeln.maxAmount', 'Betrag bis (CHF)')}</Label>
+                <Input
+                  id="rule-max"
+                  type="number"
+                  step="0.01"
+                  value={formData.maxAmount}
+                  onChange={(e) => update('maxAmount', e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rule-raw" className="text-xs">{t('regeln.rawCategory.label', 'Kategorie-Text enthält (optional)')}</Label>
+              <Input
+                id="rule-raw"
+                value={formData.rawCategoryPattern}
+                onChange={(e) => update('rawCategoryPattern', e.target.value)}
+              />
+            </div>
+
+            <p className="text-sm font-medium text-gray-900 dark:text-gray-100">{t('regeln.actions', 'Ergebnis')}</p>
+            <div className="space-y-1">
+              <Label htmlFor="rule-category" className="text-xs">{t('regeln.category', 'Kategorie')}</Label>
+              <select
+                id="rule-category"
+                className="border rounded px-2 py-2 text-sm w-full bg-white dark:bg-gray-900 dark:text-gray-100 border-gray-300 dark:border-gray-700"
+                value={formData.category}
+                onChange={(e) => update('category', e.target.value)}
+              >
+                <option value="">{t('regeln.category.choose', 'Kategorie wählen')}</option>
+                {categoryOptions.map(({ category, depth }) => (
+                  <option key={category.id} value={category.name}>
+                    {`${'\u00a0\u00a0'.repeat(depth)}${categoryLabel(category.name)}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="rule-label" className="text-xs">{t('regeln.decision', 'Bewertung')}</Label>
+                <select
+                  id="rule-label"
+                  className="border rounded px-2 py-1 text-sm w-full"
+                  value={formData.decisionLabel}
+                  onChange={(e) => update('decisionLabel', e.target.value === 'unnecessary' ? 'unnecessary' : 'useful')}
+                >
+                  <option value="useful">{t('regeln.useful', 'Sinnvoll')}</option>
+                  <option value="unnecessary">{t('regeln.unnecessary', 'Eher unnötig')}</option>
+                </select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="rule-priority" className="text-xs">{t('regeln.priority', 'Priorität (kleiner zuerst)')}</Label>
+                <Input
+                  id="rule-priority"
+                  type="number"
+                  step="1"
+                  value={formData.priority}
+                  onChange={(e) => update('priority', e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="rule-impulse"
+                  checked={formData.isImpulse}
+                  onCheckedChange={(checked) => update('isImpulse', checked === true)}
+                />
+                <Label htmlFor="rule-impulse" className="text-sm">{t('regeln.impulse', 'Impulskauf')}</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="rule-enabled"
+                  checked={formData.enabled}
+                  onCheckedChange={(checked) => update('enabled', checked === true)}
+                />
+                <Label htmlFor="rule-enabled" className="text-sm">{t('regeln.enabled', 'Aktiv')}</Label>
+              </div>
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDialog(false)}>
+              {t('regeln.cancel', 'Abbrechen')}
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !formData.name.trim() || !formData.category.trim()}>
+              {saving ? t('regeln.saving', 'Speichere...') : t('regeln.save', 'Speichern')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+'use client';
+
+/**
+ * Neu-einordnen-Seite:
+ * - Klassifiziert gespeicherte Transaktionen eines Zeitraums oder einer Kategorie mit den aktuellen
+ *   Regeln, Kategorien und dem aktuellen Prompt neu.
+ * - Manuell gesetzte Kategorien bleiben standardmässig unangetastet.
+ * - Zeigt vorher/nachher als Diff; nur ausgewählte Vorschläge werden übernommen.
+ */
+
+import { useState } from 'react';
+import { ArrowRight, Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { ReclassifyChange } from '@/lib/types';
+import { useI18n } from '@/hooks/useI18n';
+import { useCategories } from '@/hooks/useCategories';
+
+type ReclassifyResult = {
+  scanned: number;
+  skippedOverrides: number;
+  changes: ReclassifyChange[];
+};
+
+export default function ReklassifizierenPage() {
+  const { t, lang } = useI18n();
+  const { options: categoryOptions, label: categoryLabel } = useCategories();
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [category, setCategory] = useState('');
+  const [includeOverrides, setIncludeOverrides] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [result, setResult] = useState<ReclassifyResult | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [applied, setApplied] = useState<number | null>(null);
+
+  const runPreview = async () => {
+    setRunning(true);
+    setResult(null);
+    setApplied(null);
+    try {
+      const res = await fetch('/api/transactions/reclassify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from, to, category, includeOverrides }),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        alert(data.error || t('reklassifizieren.error', 'Neu-Einordnung fehlgeschlagen.'));
+        return;
+      }
+      setResult({ scanned: data.scanned, skippedOverrides: data.skippedOverrides, changes: data.changes });
+      setSelectedIds(new Set(data.changes.map((change: ReclassifyChange) => change.transaction.id)));
+    } catch (err) {
+      console.error('Error previewing reclassification:', err);
+      alert(t('reklassifizieren.error', 'Neu-Einordnung fehlgeschlagen.'));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const applyChanges = async () => {
+    if (!result) return;
+    const accepted = result.changes.filter((change) => selectedIds.has(change.transaction.id));
+    setApplying(true);
+    try {
+      const res = await fetch('/api/transactions/reclassify/apply', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          changes: accepted.map((change) => ({ id: change.transaction.id, proposed: change.proposed })),
+        }),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        alert(data.error || `${data.failed ?? 0} ${t('reklassifizieren.failed', 'Änderungen konnten nicht gespeichert werden.')}`);
+      }
+      const failedIds = new Set((data.errors ?? []).map((err: { id: string }) => err.id));
+      setResult({
+        ...result,
+        changes: result.changes.filter((change) => !selectedIds.has(change.transaction.id) || failedIds.has(change.transaction.id)),
+      });
+      setSelectedIds(new Set());
+      setApplied(data.updated ?? 0);
+    } catch (err) {
+      console.error('Error applying reclassification:', err);
+      alert(t('reklassifizieren.error', 'Neu-Einordnung fehlgeschlagen.'));
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const toggle = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const changes = result?.changes ?? [];
+  const allSelected = changes.length > 0 && selectedIds.size === changes.length;
+  const impulseBadge = (isImpulse: boolean) =>
+    isImpulse ? <Badge variant="destructive">{lang === 'en' ? 'Impulse buy' : 'Impulskauf'}</Badge> : null;
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+          {t('reklassifizieren.title', 'Neu einordnen')}
+        </h1>
+        <p className="text-gray-600 dark:text-gray-300 mt-1">
+          {t(
+            'reklassifizieren.subtitle',
+            'Bestehende Transaktionen mit den aktuellen Regeln und Kategorien neu klassifizieren und die Änderungen vor dem Übernehmen prüfen.'
+          )}
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="reclassify-from">{t('reklassifizieren.from', 'Von')}</Label>
+              <Input id="reclassify-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="reclassify-to">{t('reklassifizieren.to', 'Bis')}</Label>
+              <Input id="reclassify-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="reclassify-category">{t('verlauf.category', 'Kategorie')}</Label>
+              <select
+                id="reclassify-category"
+                className="border rounded px-2 py-2 text-sm w-full bg-white dark:bg-gray-900 dark:text-gray-100 border-gray-300 dark:border-gray-700"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+              >
+                <option value="">{t('reklassifizieren.allCategories', 'Alle Kategorien')}</option>
+                {categoryOptions.map(({ category: option, depth }) => (
+                  <option key={option.id} value={option.name}>
+                    {`${'\u00a0\u00a0'.repeat(depth)}${categoryLabel(option.name)}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-200">
+              <Checkbox checked={includeOverrides} onCheckedChange={(checked) => setIncludeOverrides(checked === true)} />
+              <span>
+                {t('reklassifizieren.includeOverrides', 'Auch manuell gesetzte Kategorien neu einordnen')}
+              </span>
+            </label>
+            <Button onClick={runPreview} disabled={running || applying} className="flex items-center space-x-2">
+              {running ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+              <span>
+                {running
+                  ? t('reklassifizieren.running', 'Klassifiziere...')
+                  : t('reklassifizieren.preview', 'Änderungen berechnen')}
+              </span>
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {applied !== null && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded text-sm text-green-800">
+          {applied} {t('reklassifizieren.applied', 'Transaktionen neu eingeordnet.')}
+        </div>
+      )}
+
+      {result && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-gray-900 dark:text-gray-100">
+              {changes.length} {t('reklassifizieren.changes', 'vorgeschlagene Änderungen')}
+            </CardTitle>
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              {result.scanned} {t('reklassifizieren.scanned', 'Transaktionen geprüft')}, {result.skippedOverrides}{' '}
+              {t('reklassifizieren.skipped', 'mit manueller Kategorie übersprungen')}.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {changes.length === 0 ? (
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                {t('reklassifizieren.none', 'Keine Änderungen – alle Einordnungen sind aktuell.')}
+              </p>
+            ) : (
+              <>
+                <div className="max-h-[32rem] overflow-y-auto border rounded">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-10">
+                          <Checkbox
+                            checked={allSelected}
+                            onCheckedChange={(checked) =>
+                              setSelectedIds(
+                                checked === true ? new Set(changes.map((change) => change.transaction.id)) : new Set()
+                              )
+                            }
+                            aria-label={t('eingabe.import.selectAll', 'Alle auswählen')}
+                          />
+                        </TableHead>
+                        <TableHead>{t('eingabe.form.date', 'Datum')}</TableHead>
+                        <TableHead>{t('eingabe.import.merchant', 'Händler')}</TableHead>
+                        <TableHead className="text-right">{t('verlauf.amount', 'Betrag')}</TableHead>
+                        <TableHead>{t('reklassifizieren.before', 'Bisher')}</TableHead>
+                        <TableHead />
+                        <TableHead>{t('reklassifizieren.after', 'Neu')}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {changes.map(({ transaction, proposed }) => (
+                        <TableRow key={transaction.id}>
+                          <TableCell>
+                            <Checkbox
+                              checked={selectedIds.has(transaction.id)}
+                              onCheckedChange={() => toggle(transaction.id)}
+                              aria-label={transaction.merchant}
+                            />
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">{transaction.date.slice(0, 10)}</TableCell>
+                          <TableCell>{transaction.merchant}</TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            {Math.abs(transaction.amount).toFixed(2)} CHF
+                          </TableCell>
+                          <TableCell className="space-x-1">
+                            <span className={proposed.category !== transaction.category ? 'line-through text-gray-500' : ''}>
+                              {categoryLabel(transaction.category)}
+                            </span>
+                            {impulseBadge(transaction.isImpulse)}
+                          </TableCell>
+                          <TableCell>
+                            <ArrowRight className="w-4 h-4 text-gray-400" />
+                          </TableCell>
+                          <TableCell className="space-y-1">
+                            <div className="space-x-1">
+                              <span className="font-medium">{categoryLabel(proposed.category)}</span>
+                              {impulseBadge(proposed.isImpulse)}
+                            </div>
+                            <p className="text-xs text-gray-500">
+                              {lang === 'en' && proposed.decisionExplanationEn
+                                ? proposed.decisionExplanationEn
+                                : proposed.decisionExplanation}
+                            </p>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                <div className="flex justify-end">
+                  <Button onClick={applyChanges} disabled={applying || selectedIds.size === 0}>
+                    {applying ? (
+                      <>
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        {t('reklassifizieren.applying', 'Übernehme...')}
+                      </>
+                    ) : (
+                      `${t('reklassifizieren.apply', 'Änderungen übernehmen')} (${selectedIds.size})`
+                    )}
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -4,93 +4,68 @@
  * Verlauf-Seite:
  * - Listet alle Transaktionen mit KI-Erläuterung.
  * - Filter (Suche, Kategorie, Typ, Zeitraum) und Sortierung.
- * - Budgetkarte (auto/manuell) + Kategorieanpassung je Eintrag.
+ * - Budgetkarte (auto/manuell, Budgetprofil mit Einkommen, Fixkosten, Sparziel und Modell) + Kategorieanpassung je Eintrag.
+ * - Bearbeiten/Löschen einzelner Transaktionen über eine Seitenleiste.
+ * - Export der gefilterten Liste (CSV, Excel, JSON) oder des ganzen Kontos (JSON).
  */
 
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
-import { Plus } from 'lucide-react';
+import { Download, Pencil, Plus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import TransactionEditDrawer from '@/components/TransactionEditDrawer';
+import BudgetProfileDialog from '@/components/BudgetProfileDialog';
+import CategoryIcon from '@/components/CategoryIcon';
 import type { Transaction } from '@/lib/types';
+import {
+  filterTransactions,
+  isIncomeTransaction,
+  isTransferTransaction,
+  type TransactionFilters,
+  type TransactionSort,
+  type TransactionTypeFilter,
+} from '@/lib/transactionFilters';
+import { needsReview } from '@/lib/review';
 import { useI18n } from '@/hooks/useI18n';
+import { useCategories } from '@/hooks/useCategories';
+import { useAccounts } from '@/hooks/useAccounts';
 
-const CATEGORY_LABELS: Record<string, { de: string; en: string }> = {
-  Abos: { de: 'Abos', en: 'Subscriptions' },
-  Allgemeines: { de: 'Allgemeines', en: 'General' },
-  Bargeldbezug: { de: 'Bargeldbezug', en: 'Cash withdrawal' },
-  Bildung: { de: 'Bildung', en: 'Education' },
-  Gastronomie: { de: 'Gastronomie', en: 'Dining' },
-  Gesundheit: { de: 'Gesundheit', en: 'Health' },
-  Lebensmittel: { de: 'Lebensmittel', en: 'Groceries' },
-  Lohn: { de: 'Lohn', en: 'Salary' },
-  'Mobilität - Auto': { de: 'Mobilität - Auto', en: 'Transport - Car' },
-  'Mobilität - Öffentlicher Verkehr': { de: 'Mobilität - Öffentlicher Verkehr', en: 'Transport - Public' },
-  Persönliches: { de: 'Persönliches', en: 'Personal' },
-  Reisen: { de: 'Reisen', en: 'Travel' },
-  Shopping: { de: 'Shopping', en: 'Shopping' },
-  'Sparen & Anlegen': { de: 'Sparen & Anlegen', en: 'Saving & Investing' },
-  Steuern: { de: 'Steuern', en: 'Taxes' },
-  Unterhaltung: { de: 'Unterhaltung', en: 'Entertainment' },
-  'Weitere Einnahmen': { de: 'Weitere Einnahmen', en: 'Other income' },
-  Wohnen: { de: 'Wohnen', en: 'Housing' },
-  Zahlungen: { de: 'Zahlungen', en: 'Payments' },
-};
-
-const BASE_CATEGORIES = [
-  'Abos',
-  'Allgemeines',
-  'Bargeldbezug',
-  'Bildung',
-  'Gastronomie',
-  'Gesundheit',
-  'Lebensmittel',
-  'Lohn',
-  'Mobilität - Auto',
-  'Mobilität - Öffentlicher Verkehr',
-  'Persönliches',
-  'Reisen',
-  'Shopping',
-  'Sparen & Anlegen',
-  'Steuern',
-  'Unterhaltung',
-  'Weitere Einnahmen',
-  'Wohnen',
-  'Zahlungen',
-];
-
-const CATEGORY_OPTIONS = Array.from(new Set(BASE_CATEGORIES)).sort((a, b) =>
-  a.localeCompare(b, 'de')
-);
-
-const INCOME_KEYWORDS = ['lohn', 'salär', 'salaer', 'gehalt', 'salary', 'payroll', 'einkommen', 'einnahme', 'bonus', 'wage'];
+const formatPeriodDate = (value: string) => new Date(`${value}T00:00:00`).toLocaleDateString('de-CH');
 
 export default function VerlaufPage() {
   const { t, lang } = useI18n();
+  const { categories, options: categoryOptions, label: translateCategory, lookup: lookupCategory } = useCategories();
+  const { accountName } = useAccounts();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
-  const [budgetInfo, setBudgetInfo] = useState({ used: 0, total: 0 });
+  const [budgetInfo, setBudgetInfo] = useState({ used: 0, total: 0, periodStart: '', periodEnd: '' });
   const [decisionTranslations, setDecisionTranslations] = useState<Record<string, string>>({});
   const [impulseNotes, setImpulseNotes] = useState<Record<string, string>>({});
   const [savingImpulseId, setSavingImpulseId] = useState<string | null>(null);
   const [showBudgetDialog, setShowBudgetDialog] = useState(false);
-  const [budgetInput, setBudgetInput] = useState('');
-  const [savingBudget, setSavingBudget] = useState(false);
   const [categoryEdits, setCategoryEdits] = useState<Record<string, string>>({});
   const [savingCategoryId, setSavingCategoryId] = useState<string | null>(null);
+  const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
   const [filterCategory, setFilterCategory] = useState('');
-  const [filterType, setFilterType] = useState<'all' | 'income' | 'expense'>('all');
+  const [filterType, setFilterType] = useState<TransactionTypeFilter>('all');
   const [searchTerm, setSearchTerm] = useState('');
   const [budgetMode, setBudgetMode] = useState<'auto' | 'manual'>('auto');
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
-  const [sortBy, setSortBy] = useState<
-    'date-desc' | 'date-asc' | 'amount-desc' | 'amount-asc'
-  >('date-desc');
+  const [sortBy, setSortBy] = useState<TransactionSort>('date-desc');
+  const [exporting, setExporting] = useState(false);
 
   useEffect(() => {
     fetchTransactions();
@@ -149,6 +124,8 @@ export default function VerlaufPage() {
           setBudgetInfo({
             used: data.budgetSummary.usedBudget,
             total: data.budgetSummary.monthlyBudget,
+            periodStart: data.budgetSummary.periodStart,
+            periodEnd: data.budgetSummary.periodEnd,
           });
         }
       } catch (error) {
@@ -177,84 +154,25 @@ export default function VerlaufPage() {
     }
   };
 
-  const isIncomeTransaction = (transaction: Transaction) => {
-    const text = `${transaction.merchant} ${transaction.rawCategory ?? ''} ${transaction.justification ?? ''} ${transaction.category}`.toLowerCase();
-    return (
-      INCOME_KEYWORDS.some((kw) => text.includes(kw)) ||
-      transaction.category === 'Lohn' ||
-      transaction.category === 'Weitere Einnahmen' ||
-      transaction.category === 'Einnahmen'
-    );
+  const filters: TransactionFilters = {
+    search: searchTerm,
+    category: filterCategory,
+    type: filterType,
+    startDate,
+    endDate,
+    sortBy,
   };
-
-  // Filter-Logik für die Verlaufsliste (Suche, Typ, Kategorie)
-  const filteredTransactions = transactions.filter((transaction) => {
-    const matchesCategory = filterCategory ? transaction.category === filterCategory : true;
-    const incomeFlag = isIncomeTransaction(transaction);
-    const matchesType =
-      filterType === 'all' ? true : filterType === 'income' ? incomeFlag : !incomeFlag;
-    const term = searchTerm.trim().toLowerCase();
-    const matchesSearch = term
-      ? `${transaction.merchant} ${transaction.category} ${transaction.justification ?? ''}`
-          .toLowerCase()
-          .includes(term)
-      : true;
-    const matchesStart = startDate ? transaction.date >= startDate : true;
-    const matchesEnd = endDate ? transaction.date <= endDate : true;
-    return matchesCategory && matchesType && matchesSearch && matchesStart && matchesEnd;
-  });
-
-  const sortedTransactions = [...filteredTransactions].sort((a, b) => {
-    const amountA = Math.abs(a.amount);
-    const amountB = Math.abs(b.amount);
-    switch (sortBy) {
-      case 'date-asc':
-        return a.date.localeCompare(b.date);
-      case 'date-desc':
-        return b.date.localeCompare(a.date);
-      case 'amount-asc':
-        return amountA - amountB;
-      case 'amount-desc':
-        return amountB - amountA;
-      default:
-        return 0;
-    }
-  });
+  const sortedTransactions = filterTransactions(transactions, filters, categories);
 
   const hasTransactions = transactions.length > 0;
   const hasFilteredResults = sortedTransactions.length > 0;
 
-  const openBudgetDialog = () => {
-    setBudgetInput(budgetInfo.total ? budgetInfo.total.toString() : '');
-    setShowBudgetDialog(true);
-  };
-
-  const saveBudget = async () => {
-    const parsed = Number(budgetInput);
-    if (Number.isNaN(parsed) || parsed < 0) return;
-
-    setSavingBudget(true);
-    try {
-      const response = await fetch('/api/user', {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ monthlyBudget: parsed }),
-      });
-
-      const data = await response.json();
-      if (data.success) {
-        setBudgetMode('manual');
-        if (typeof window !== 'undefined') {
-          localStorage.setItem('budgetMode', 'manual');
-        }
-        await fetchBudgetInfo('manual');
-        setShowBudgetDialog(false);
-      }
-    } catch (error) {
-      console.error('Error updating budget:', error);
-    } finally {
-      setSavingBudget(false);
+  const handleBudgetSaved = async () => {
+    setBudgetMode('manual');
+    if (typeof window !== 'undefined') {
+      localStorage.setItem('budgetMode', 'manual');
     }
+    await fetchBudgetInfo('manual');
   };
 
   if (loading) {
@@ -287,7 +205,7 @@ export default function VerlaufPage() {
       const data = await res.json();
       if (data.success) {
         setTransactions((prev) =>
-          prev.map((t) => (t.id === transaction.id ? { ...t, category: category, decisionExplanation: data.transaction.decisionExplanation } : t))
+          prev.map((t) => (t.id === transaction.id ? data.transaction : t))
         );
       }
     } catch (error) {
@@ -297,18 +215,61 @@ export default function VerlaufPage() {
     }
   };
 
+  const handleTransactionSaved = (updated: Transaction) => {
+    setTransactions((prev) => prev.map((t) => (t.id === updated.id ? updated : t)));
+    setCategoryEdits((prev) => {
+      const next = { ...prev };
+      delete next[updated.id];
+      return next;
+    });
+    fetchBudgetInfo();
+  };
+
+  const handleTransactionDeleted = (id: string) => {
+    setTransactions((prev) => prev.filter((t) => t.id !== id));
+    fetchBudgetInfo();
+  };
+
+  // Export: gefilterte Liste (gleiche Filter wie oben) oder ganzes Konto als JSON
+  const downloadExport = async (format: 'csv' | 'json' | 'xlsx' | 'account') => {
+    const params =
+      format === 'account'
+        ? new URLSearchParams({ scope: 'account' })
+        : new URLSearchParams({
+            format,
+            search: searchTerm,
+            category: filterCategory,
+            type: filterType,
+            from: startDate,
+            to: endDate,
+            sort: sortBy,
+          });
+    setExporting(true);
+    try {
+      const response = await fetch(`/api/export?${params.toString()}`);
+      if (!response.ok) throw new Error(`Export failed: ${response.status}`);
+      const fileName =
+        response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? `smartbudget.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      alert(t('verlauf.export.error', 'Export fehlgeschlagen.'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const budgetPercentage =
     budgetInfo.total > 0 ? Math.min(100, (budgetInfo.used / budgetInfo.total) * 100) : 0;
   const overBudget = budgetInfo.total > 0 ? budgetInfo.used > budgetInfo.total : false;
   const remaining = Math.max(0, budgetInfo.total - budgetInfo.used);
   const overrun = Math.max(0, budgetInfo.used - budgetInfo.total);
 
-  const translateCategory = (category: string) => {
-    const entry = CATEGORY_LABELS[category];
-    if (!entry) return category;
-    return lang === 'en' ? entry.en : entry.de;
-  };
-
   const translateDecision = (text: string) => {
     if (lang !== 'en') return text;
     if (text.includes('Kauf war nicht geplant') || text.includes('spontanen Wunsch')) {
@@ -348,15 +309,35 @@ export default function VerlaufPage() {
             {t('verlauf.subtitle', 'Alle deine Transaktionen mit KI-Analyse')}
           </p>
         </div>
-        <Button
-          asChild
-          className="flex items-center space-x-2 bg-blue-600 text-white hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600"
-        >
-          <Link href="/eingabe">
-            <Plus className="w-5 h-5" />
-            <span>{t('verlauf.newTransaction', 'Neue Transaktion')}</span>
-          </Link>
-        </Button>
+        <div className="flex items-center space-x-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" disabled={exporting} className="flex items-center space-x-2">
+                <Download className="w-4 h-4" />
+                <span>{t('verlauf.export', 'Exportieren')}</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>{t('verlauf.export.filtered', 'Gefilterte Liste')}</DropdownMenuLabel>
+              <DropdownMenuItem onSelect={() => downloadExport('csv')}>CSV</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => downloadExport('xlsx')}>Excel (XLSX)</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => downloadExport('json')}>JSON</DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => downloadExport('account')}>
+                {t('verlauf.export.account', 'Ganzes Konto (JSON)')}
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button
+            asChild
+            className="flex items-center space-x-2 bg-blue-600 text-white hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600"
+          >
+            <Link href="/eingabe">
+              <Plus className="w-5 h-5" />
+              <span>{t('verlauf.newTransaction', 'Neue Transaktion')}</span>
+            </Link>
+          </Button>
+        </div>
       </div>
 
       <Card>
@@ -369,6 +350,12 @@ export default function VerlaufPage() {
                   {budgetInfo.used.toFixed(2)} CHF / {budgetInfo.total.toFixed(2)} CHF
                 </span>
               </div>
+              {budgetInfo.periodStart && (
+                <p className="text-xs text-gray-500">
+                  {t('verlauf.budget.period', 'Periode')} {formatPeriodDate(budgetInfo.periodStart)} –{' '}
+                  {formatPeriodDate(budgetInfo.periodEnd)}
+                </p>
+              )}
               <Progress
                 value={budgetPercentage}
                 className="h-2"
@@ -381,12 +368,12 @@ export default function VerlaufPage() {
                     : `${t('verlauf.budget.remaining', 'Verbleibend')}: ${remaining.toFixed(2)} CHF`}
                 </span>
                 <span className="text-gray-500">
-                  {t('verlauf.basis', 'Basis')}: {budgetMode === 'manual' ? t('verlauf.manual', 'manuell') : t('verlauf.salary', 'Lohn (60%)')}
+                  {t('verlauf.basis', 'Basis')}: {budgetMode === 'manual' ? t('verlauf.manual', 'manuell') : t('verlauf.salary', 'Lohn (Budgetmodell)')}
                 </span>
               </div>
             </div>
             <div className="flex flex-col space-y-2 ml-4">
-              <Button variant="outline" size="sm" onClick={openBudgetDialog}>
+              <Button variant="outline" size="sm" onClick={() => setShowBudgetDialog(true)}>
                 {t('verlauf.budget.set', 'Budget anpassen')}
               </Button>
               <Button
@@ -425,9 +412,9 @@ export default function VerlaufPage() {
                   onChange={(e) => setFilterCategory(e.target.value)}
                 >
                   <option value="">{t('verlauf.category.all', 'Alle Kategorien')}</option>
-                  {CATEGORY_OPTIONS.map((opt) => (
-                    <option key={opt} value={opt}>
-                      {translateCategory(opt)}
+                  {categoryOptions.map(({ category, depth }) => (
+                    <option key={category.id} value={category.name}>
+                      {`${'\u00a0\u00a0'.repeat(depth)}${translateCategory(category.name)}`}
                     </option>
                   ))}
                 </select>
@@ -437,7 +424,7 @@ export default function VerlaufPage() {
                 <select
                   className="border rounded px-2 py-2 text-sm w-full bg-white dark:bg-gray-900 dark:text-gray-100 border-gray-300 dark:border-gray-700"
                   value={filterType}
-                  onChange={(e) => setFilterType(e.target.value as 'all' | 'income' | 'expense')}
+                  onChange={(e) => setFilterType(e.target.value as TransactionTypeFilter)}
                 >
                   <option value="all">{t('verlauf.type.all', 'Alle')}</option>
                   <option value="expense">{t('verlauf.type.expenseOnly', 'Nur Ausgaben (-)')}</option>
@@ -500,8 +487,10 @@ export default function VerlaufPage() {
         <div className="space-y-3">
           {sortedTransactions.map((transaction) => {
             const isUseful = transaction.decisionLabel === 'useful';
-            const isIncome = isIncomeTransaction(transaction);
-            const amountLabel = `${isIncome ? '+' : '-'}${Math.abs(transaction.amount).toFixed(2)} CHF`;
+            const isIncome = isIncomeTransaction(transaction, categories);
+            const isTransfer = isTransferTransaction(transaction);
+            const categoryInfo = lookupCategory(transaction.category);
+            const amountLabel = `${isTransfer ? '' : isIncome ? '+' : '-'}${Math.abs(transaction.amount).toFixed(2)} CHF`;
             const decisionLabel = isIncome
               ? 'Einnahme'
               : isUseful
@@ -515,7 +504,12 @@ export default function VerlaufPage() {
                       <div className="flex-1">
                         <div className="flex items-center space-x-3 mb-2">
                           <div>
-                            <h3 className="font-semibold text-gray-900 dark:text-gray-100">{transaction.merchant}</h3>
+                            <h3
+                              className="font-semibold text-gray-900 dark:text-gray-100"
+                              title={transaction.rawMerchant ? `${t('verlauf.rawMerchant', 'Buchungstext')}: ${transaction.rawMerchant}` : undefined}
+                            >
+                              {transaction.merchant}
+                            </h3>
                           <p className="text-sm text-gray-500 dark:text-gray-300">
                             {new Date(transaction.date).toLocaleDateString('de-CH', {
                               weekday: 'short',
@@ -525,7 +519,12 @@ export default function VerlaufPage() {
                             })}
                           </p>
                         </div>
-                        <Badge variant={isUseful ? 'default' : 'secondary'} className="text-xs">
+                        <Badge
+                          variant={isUseful ? 'default' : 'secondary'}
+                          className="text-xs flex items-center gap-1"
+                          style={categoryInfo ? { borderColor: categoryInfo.color } : undefined}
+                        >
+                          <CategoryIcon icon={categoryInfo?.icon} color={categoryInfo?.color} className="w-3 h-3" />
                           {translateCategory(transaction.category)}
                         </Badge>
                             {transaction.isImpulse && (
@@ -533,27 +532,57 @@ export default function VerlaufPage() {
                                 {lang === 'en' ? 'Impulse buy' : 'Impulskauf'}
                               </Badge>
                             )}
+                            {transaction.status === 'pending' && (
+                              <Badge variant="outline" className="text-xs">
+                                {t('verlauf.pendingBill', 'Offene Rechnung')}
+                              </Badge>
+                            )}
+                            {isTransfer ? (
+                              <Badge variant="outline" className="text-xs text-blue-700 border-blue-300 dark:text-blue-300">
+                                {t('verlauf.transfer', 'Umbuchung')}: {accountName(transaction.accountId)} → {accountName(transaction.transferAccountId)}
+                              </Badge>
+                            ) : (
+                              accountName(transaction.accountId) && (
+                                <Badge variant="outline" className="text-xs">
+                                  {accountName(transaction.accountId)}
+                                </Badge>
+                              )
+                            )}
+                            {needsReview(transaction) && (
+                              <Link href="/pruefen" title={t('verlauf.review.hint', 'Unsichere Einordnung – auf der Prüfen-Seite bestätigen oder korrigieren')}>
+                                <Badge variant="outline" className="text-xs text-amber-700 border-amber-300 dark:text-amber-300">
+                                  {t('verlauf.review', 'Zu prüfen')} · {Math.round((transaction.confidence ?? 0) * 100)} %
+                                </Badge>
+                              </Link>
+                            )}
+                            {transaction.ruleName && (
+                              <Badge variant="outline" className="text-xs" title={t('verlauf.rule.hint', 'Per Regel eingeordnet, ohne KI')}>
+                                {t('verlauf.rule', 'Regel')}: {transaction.ruleName}
+                              </Badge>
+                            )}
                           </div>
 
-                          <div className="flex items-start space-x-2 mb-2">
-                            <div
-                              className={`px-3 py-1 rounded-full text-xs font-medium ${
-                                isIncome
-                                  ? 'bg-green-100 text-green-700'
-                                  : isUseful
-                                  ? 'bg-green-100 text-green-700'
-                                  : 'bg-red-100 text-red-700'
-                              }`}
-                            >
-                              {lang === 'en'
-                                ? isIncome
-                                  ? 'Income'
-                                  : isUseful
-                                  ? 'Useful purchase'
-                                  : 'Non-essential purchase'
-                                : decisionLabel}
+                          {!isTransfer && (
+                            <div className="flex items-start space-x-2 mb-2">
+                              <div
+                                className={`px-3 py-1 rounded-full text-xs font-medium ${
+                                  isIncome
+                                    ? 'bg-green-100 text-green-700'
+                                    : isUseful
+                                    ? 'bg-green-100 text-green-700'
+                                    : 'bg-red-100 text-red-700'
+                                }`}
+                              >
+                                {lang === 'en'
+                                  ? isIncome
+                                    ? 'Income'
+                                    : isUseful
+                                    ? 'Useful purchase'
+                                    : 'Non-essential purchase'
+                                  : decisionLabel}
+                              </div>
                             </div>
-                          </div>
+                          )}
 
                           <p className="text-sm text-gray-700 dark:text-gray-200 leading-relaxed">
                             {lang === 'en' && transaction.decisionExplanationEn
@@ -608,11 +637,11 @@ export default function VerlaufPage() {
                             value={categoryEdits[transaction.id] ?? transaction.category}
                             onChange={(e) => handleCategoryChange(transaction.id, e.target.value)}
                           >
-                            {CATEGORY_OPTIONS.map((opt) => (
-                              <option key={opt} value={opt}>
-                                    {translateCategory(opt)}
-                                  </option>
-                                ))}
+                            {categoryOptions.map(({ category, depth }) => (
+                              <option key={category.id} value={category.name}>
+                                {`${'\u00a0\u00a0'.repeat(depth)}${translateCategory(category.name)}`}
+                              </option>
+                            ))}
                               </select>
                           <Button
                             size="sm"
@@ -630,9 +659,20 @@ export default function VerlaufPage() {
                         </div>
 
                         <div className="text-left sm:text-right sm:ml-6">
-                          <p className={`text-2xl font-bold break-words ${isIncome ? 'text-green-700' : 'text-red-600'}`}>
+                          <p className={`text-2xl font-bold break-words ${
+                            isTransfer ? 'text-gray-700 dark:text-gray-200' : isIncome ? 'text-green-700' : 'text-red-600'
+                          }`}>
                             {amountLabel}
                       </p>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="mt-2"
+                        onClick={() => setEditingTransaction(transaction)}
+                      >
+                        <Pencil className="w-4 h-4 mr-1" />
+                        {t('verlauf.edit.open', 'Bearbeiten')}
+                      </Button>
                     </div>
                   </div>
                 </CardContent>
@@ -642,35 +682,14 @@ export default function VerlaufPage() {
         </div>
       )}
 
-      <Dialog open={showBudgetDialog} onOpenChange={setShowBudgetDialog}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>{t('verlauf.budget.dialog.title', 'Budget anpassen')}</DialogTitle>
-          </DialogHeader>
-          <div className="space-y-2">
-            <label className="text-sm text-gray-700">{t('verlauf.budget.dialog.input', 'Monatliches Budget (CHF)')}</label>
-            <Input
-              type="number"
-              value={budgetInput}
-              onChange={(e) => setBudgetInput(e.target.value)}
-              min={0}
-            />
-            <p className="text-xs text-gray-500">
-              {lang === 'en'
-                ? 'This budget overrides the automatically calculated value (60% of your average salary).'
-                : 'Dieses Budget überschreibt den automatisch berechneten Wert (60% deines durchschnittlichen Lohnes).'}
-            </p>
-          </div>
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setShowBudgetDialog(false)}>
-              {t('verlauf.cancel', 'Abbrechen')}
-            </Button>
-            <Button onClick={saveBudget} disabled={savingBudget}>
-              {savingBudget ? t('verlauf.table.saving', 'Speichere...') : t('verlauf.save', 'Speichern')}
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <TransactionEditDrawer
+        transaction={editingTransaction}
+        onClose={() => setEditingTransaction(null)}
+        onSaved={handleTransactionSaved}
+        onDeleted={handleTransactionDeleted}
+      />
+
+      <BudgetProfileDialog open={showBudgetDialog} onOpenChange={setShowBudgetDialog} onSaved={handleBudgetSaved} />
     </div>
   );
 }
@@ -0,0 +1,317 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { BUDGET_MODELS, DEFAULT_BUDGET_PROFILE, deriveBudget } from '@/lib/budgetProfile';
+import { BUDGET_PERIOD_MODES, DEFAULT_BUDGET_PERIOD } from '@/lib/budgetPeriod';
+import type { BudgetModel, BudgetPeriodSetting, BudgetProfile } from '@/lib/types';
+import { useI18n } from '@/hooks/useI18n';
+
+interface BudgetProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after the profile was stored (the flexible budget changed) */
+  onSaved: () => void;
+}
+
+const MODEL_LABELS: Record<BudgetModel, [string, string, string, string]> = {
+  percentage: [
+    'budgetProfile.model.percentage',
+    'Prozent vom Einkommen',
+    'budgetProfile.model.percentage.hint',
+    'Ein fester Anteil des Nettoeinkommens steht für flexible Ausgaben zur Verfügung.',
+  ],
+  'zero-based': [
+    'budgetProfile.model.zeroBased',
+    'Nullbasiert',
+    'budgetProfile.model.zeroBased.hint',
+    'Jeder Franken wird verplant: Einkommen minus Fixkosten minus Sparziel ergibt das flexible Budget.',
+  ],
+  '50-30-20': [
+    'budgetProfile.model.fiftyThirtyTwenty',
+    '50/30/20',
+    'budgetProfile.model.fiftyThirtyTwenty.hint',
+    '50 % Fixkosten, 30 % flexible Ausgaben, mindestens 20 % Sparen. Fixkosten über 50 % verkleinern das flexible Budget.',
+  ],
+};
+
+const PERIOD_LABELS: Record<BudgetPeriodSetting['mode'], [string, string]> = {
+  calendar: ['budgetProfile.period.calendar', 'Kalendermonat (ab 1.)'],
+  fixed: ['budgetProfile.period.fixed', 'Fester Tag'],
+  salary: ['budgetProfile.period.salary', 'Ab Lohneingang (erkannt)'],
+};
+
+type ProfileFormState = {
+  monthlyNetIncome: string;
+  model: BudgetModel;
+  fixedCosts: string;
+  savingsTarget: string;
+  flexibleShare: string; // percent
+  periodMode: BudgetPeriodSetting['mode'];
+  periodDay: string;
+};
+
+const toFormState = (
+  monthlyNetIncome: number,
+  profile: BudgetProfile,
+  period: BudgetPeriodSetting
+): ProfileFormState => ({
+  monthlyNetIncome: monthlyNetIncome ? String(monthlyNetIncome) : '',
+  model: profile.model,
+  fixedCosts: profile.fixedCosts ? String(profile.fixedCosts) : '',
+  savingsTarget: profile.savingsTarget ? String(profile.savingsTarget) : '',
+  flexibleShare: String(Math.round(profile.flexibleShare * 100)),
+  periodMode: period.mode,
+  periodDay: String(period.day),
+});
+
+const toNumber = (value: string) => (value === '' ? 0 : Number(value));
+const formatChf = (value: number) => `${value.toFixed(2)} CHF`;
+
+export default function BudgetProfileDialog({ open, onOpenChange, onSaved }: BudgetProfileDialogProps) {
+  const { t } = useI18n();
+  const [formData, setFormData] = useState<ProfileFormState>(
+    toFormState(0, DEFAULT_BUDGET_PROFILE, DEFAULT_BUDGET_PERIOD)
+  );
+  const [salaryDay, setSalaryDay] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setError('');
+    setLoading(true);
+    (async () => {
+      try {
+        const res = await fetch('/api/user');
+        const data = await res.json();
+        if (data.success) {
+          setFormData(toFormState(data.user.monthlyNetIncome, data.budgetProfile, data.budgetPeriod));
+          setSalaryDay(data.salaryDay);
+        }
+      } catch (err) {
+        console.error('Error fetching budget profile:', err);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [open]);
+
+  const update = <K extends keyof ProfileFormState>(key: K, value: ProfileFormState[K]) =>
+    setFormData((prev) => ({ ...prev, [key]: value }));
+
+  const breakdown = deriveBudget(toNumber(formData.monthlyNetIncome), {
+    model: formData.model,
+    fixedCosts: toNumber(formData.fixedCosts),
+    savingsTarget: toNumber(formData.savingsTarget),
+    flexibleShare: toNumber(formData.flexibleShare) / 100,
+  });
+  const periodDay = Number(formData.periodDay);
+  const invalid =
+    [formData.monthlyNetIncome, formData.fixedCosts, formData.savingsTarget, formData.flexibleShare].some(
+      (value) => Number.isNaN(toNumber(value)) || toNumber(value) < 0
+    ) ||
+    (formData.periodMode !== 'calendar' && !(Number.isInteger(periodDay) && periodDay >= 1 && periodDay <= 28));
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const res = await fetch('/api/user', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          monthlyNetIncome: toNumber(formData.monthlyNetIncome),
+          model: formData.model,
+          fixedCosts: toNumber(formData.fixedCosts),
+          savingsTarget: toNumber(formData.savingsTarget),
+          flexibleShare: toNumber(formData.flexibleShare) / 100,
+          periodMode: formData.periodMode,
+          periodDay: formData.periodMode === 'calendar' ? 1 : periodDay,
+        }),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        setError(data.error || t('budgetProfile.error', 'Budgetprofil konnte nicht gespeichert werden.'));
+        return;
+      }
+      onOpenChange(false);
+      onSaved();
+    } catch (err) {
+      console.error('Error saving budget profile:', err);
+      setError(t('budgetProfile.error', 'Budgetprofil konnte nicht gespeichert werden.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const [, , hintKey, hintFallback] = MODEL_LABELS[formData.model];
+  const breakdownRows: [string, string, number][] = [
+    ['budgetProfile.income', 'Nettoeinkommen', breakdown.netIncome],
+    ['budgetProfile.fixedCosts', 'Fixkosten', -breakdown.fixedCosts],
+    ['budgetProfile.savings', 'Sparen', -breakdown.savings],
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('verlauf.budget.dialog.title', 'Budget anpassen')}</DialogTitle>
+        </DialogHeader>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-gray-500" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="budget-income">{t('budgetProfile.income', 'Nettoeinkommen')} (CHF)</Label>
+                <Input
+                  id="budget-income"
+                  type="number"
+                  min={0}
+                  value={formData.monthlyNetIncome}
+                  onChange={(e) => update('monthlyNetIncome', e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="budget-model">{t('budgetProfile.model', 'Budgetmodell')}</Label>
+                <select
+                  id="budget-model"
+                  className="border rounded px-2 py-2 text-sm w-full bg-white dark:bg-gray-900 dark:text-gray-100 border-gray-300 dark:border-gray-700"
+                  value={formData.model}
+                  onChange={(e) => update('model', e.target.value as BudgetModel)}
+                >
+                  {BUDGET_MODELS.map((model) => (
+                    <option key={model} value={model}>
+                      {t(MODEL_LABELS[model][0], MODEL_LABELS[model][1])}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">{t(hintKey, hintFallback)}</p>
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="budget-fixed">{t('budgetProfile.fixedCosts', 'Fixkosten')}</Label>
+                <Input
+                  id="budget-fixed"
+                  type="number"
+                  min={0}
+                  value={formData.fixedCosts}
+                  onChange={(e) => update('fixedCosts', e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="budget-savings">{t('budgetProfile.savingsTarget', 'Sparziel')}</Label>
+                <Input
+                  id="budget-savings"
+                  type="number"
+                  min={0}
+                  value={formData.savingsTarget}
+                  onChange={(e) => update('savingsTarget', e.target.value)}
+                />
+              </div>
+              {formData.model === 'percentage' && (
+                <div className="space-y-1">
+                  <Label htmlFor="budget-share">{t('budgetProfile.flexibleShare', 'Anteil flexibel (%)')}</Label>
+                  <Input
+                    id="budget-share"
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={formData.flexibleShare}
+                    onChange={(e) => update('flexibleShare', e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="rounded border border-gray-200 dark:border-gray-700 p-3 text-sm space-y-1">
+              {breakdownRows.map(([key, fallback, value]) => (
+                <div key={key} className="flex justify-between text-gray-600 dark:text-gray-300">
+                  <span>{t(key, fallback)}</span>
+                  <span>{formatChf(value)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between font-semibold border-t pt-1 text-gray-900 dark:text-gray-100">
+                <span>{t('budgetProfile.flexible', 'Flexibles Budget')}</span>
+                <span>{formatChf(breakdown.flexibleBudget)}</span>
+              </div>
+              {breakdown.unassigned !== 0 && (
+                <div
+                  className={`flex justify-between text-xs ${breakdown.unassigned < 0 ? 'text-red-600' : 'text-gray-500'}`}
+                >
+                  <span>
+                    {breakdown.unassigned < 0
+                      ? t('budgetProfile.overplanned', 'Mehr verplant als Einkommen')
+                      : t('budgetProfile.unassigned', 'Nicht verplant')}
+                  </span>
+                  <span>{formatChf(Math.abs(breakdown.unassigned))}</span>
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="budget-period">{t('budgetProfile.period', 'Budgetperiode')}</Label>
+                <select
+                  id="budget-period"
+                  className="border rounded px-2 py-2 text-sm w-full bg-white dark:bg-gray-900 dark:text-gray-100 border-gray-300 dark:border-gray-700"
+                  value={formData.periodMode}
+                  onChange={(e) => update('periodMode', e.target.value as BudgetPeriodSetting['mode'])}
+                >
+                  {BUDGET_PERIOD_MODES.map((mode) => (
+                    <option key={mode} value={mode}>
+                      {t(PERIOD_LABELS[mode][0], PERIOD_LABELS[mode][1])}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {formData.periodMode !== 'calendar' && (
+                <div className="space-y-1">
+                  <Label htmlFor="budget-period-day">
+                    {formData.periodMode === 'salary'
+                      ? t('budgetProfile.period.fallbackDay', 'Starttag ohne Lohneingang')
+                      : t('budgetProfile.period.day', 'Starttag (1–28)')}
+                  </Label>
+                  <Input
+                    id="budget-period-day"
+                    type="number"
+                    min={1}
+                    max={28}
+                    step={1}
+                    value={formData.periodDay}
+                    onChange={(e) => update('periodDay', e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+            {formData.periodMode === 'salary' && (
+              <p className="text-xs text-gray-500">
+                {salaryDay !== null
+                  ? `${t('budgetProfile.period.detected', 'Erkannter Zahltag')}: ${salaryDay}.`
+                  : t('budgetProfile.period.notDetected', 'Noch kein Lohneingang erkannt – es gilt der Starttag.')}
+              </p>
+            )}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t('verlauf.cancel', 'Abbrechen')}
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loading || invalid}>
+            {saving ? t('verlauf.table.saving', 'Speichere...') : t('verlauf.save', 'Speichern')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,181 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { Area, AreaChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Input } from '@/components/ui/input';
+import type { CashFlowEvent, CashFlowForecast } from '@/lib/types';
+import { useI18n } from '@/hooks/useI18n';
+
+// Balance the user entered last (the forecast otherwise starts from booked income minus expenses)
+const BALANCE_KEY = 'forecastBalance';
+// Upcoming payments listed below the chart
+const MAX_EVENTS = 8;
+
+const EVENT_LABELS: Record<CashFlowEvent['kind'], [string, string]> = {
+  salary: ['forecast.event.salary', 'Lohn'],
+  subscription: ['forecast.event.subscription', 'Abo'],
+  bill: ['forecast.event.bill', 'Rechnung'],
+};
+
+const formatDate = (value: string) => new Date(`${value}T00:00:00`).toLocaleDateString('de-CH');
+const formatShortDate = (value: string) =>
+  new Date(`${value}T00:00:00`).toLocaleDateString('de-CH', { day: '2-digit', month: '2-digit' });
+const formatChf = (value: number) => `${value.toFixed(2)} CHF`;
+
+export default function CashFlowForecastCard() {
+  const { t } = useI18n();
+  const [forecast, setForecast] = useState<CashFlowForecast | null>(null);
+  const [balance, setBalance] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  const fetchForecast = async (startBalance: string) => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (startBalance !== '') params.set('balance', startBalance);
+      const response = await fetch(`/api/forecast?${params.toString()}`);
+      const data = await response.json();
+      if (data.success) setForecast(data.forecast);
+    } catch (error) {
+      console.error('Error fetching forecast:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const saved = typeof window !== 'undefined' ? localStorage.getItem(BALANCE_KEY) ?? '' : '';
+    setBalance(saved);
+    fetchForecast(saved);
+  }, []);
+
+  const applyBalance = () => {
+    if (balance !== '' && !Number.isFinite(Number(balance))) return;
+    if (balance === '') localStorage.removeItem(BALANCE_KEY);
+    else localStorage.setItem(BALANCE_KEY, balance);
+    fetchForecast(balance);
+  };
+
+  const chartConfig: ChartConfig = {
+    balance: { label: t('forecast.balance', 'Kontostand'), color: '#2563eb' },
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('forecast.title', 'Cashflow-Prognose')}</CardTitle>
+        {forecast && (
+          <p className="text-sm text-gray-500">
+            {formatDate(forecast.today)} – {formatDate(forecast.end)} ·{' '}
+            {t('forecast.basis', 'Lohn, Abos, offene Rechnungen und durchschnittliche Ausgaben')}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <label className="text-xs text-gray-600" htmlFor="forecast-balance">
+              {t('forecast.startBalance', 'Aktueller Kontostand (CHF)')}
+            </label>
+            <Input
+              id="forecast-balance"
+              type="number"
+              step="0.01"
+              className="w-44"
+              placeholder={t('forecast.startBalance.auto', 'aus Buchungen')}
+              value={balance}
+              onChange={(e) => setBalance(e.target.value)}
+            />
+          </div>
+          <Button variant="outline" onClick={applyBalance} disabled={loading}>
+            {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {t('forecast.apply', 'Übernehmen')}
+          </Button>
+        </div>
+
+        {forecast && (
+          <>
+            {forecast.firstNegativeDate ? (
+              <div className="flex items-start gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+                <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                <span>
+                  {t('forecast.negative', 'Der Kontostand fällt voraussichtlich unter 0 CHF am')}{' '}
+                  {formatDate(forecast.firstNegativeDate)} ({t('forecast.lowest', 'Tiefster Stand')}:{' '}
+                  {formatChf(forecast.lowestBalance.balance)} {t('forecast.on', 'am')}{' '}
+                  {formatDate(forecast.lowestBalance.date)}).
+                </span>
+              </div>
+            ) : null}
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="text-gray-600">{t('forecast.today', 'Heute')}</p>
+                <p className="text-lg font-bold">{formatChf(forecast.startBalance)}</p>
+              </div>
+              <div>
+                <p className="text-gray-600">
+                  {t('forecast.periodEnd', 'Ende Budgetperiode')} ({formatDate(forecast.periodEnd)})
+                </p>
+                <p className={`text-lg font-bold ${forecast.periodEndBalance < 0 ? 'text-red-600' : ''}`}>
+                  {formatChf(forecast.periodEndBalance)}
+                </p>
+              </div>
+              <div>
+                <p className="text-gray-600">
+                  {t('forecast.lowest', 'Tiefster Stand')} ({formatDate(forecast.lowestBalance.date)})
+                </p>
+                <p className={`text-lg font-bold ${forecast.lowestBalance.balance < 0 ? 'text-red-600' : ''}`}>
+                  {formatChf(forecast.lowestBalance.balance)}
+                </p>
+              </div>
+            </div>
+
+            <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+              <AreaChart data={forecast.days} margin={{ left: 8, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickFormatter={formatShortDate} minTickGap={32} tickLine={false} />
+                <YAxis width={64} tickFormatter={(value: number) => value.toFixed(0)} tickLine={false} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent labelFormatter={(_, payload) => formatDate(payload[0]?.payload.date)} />
+                  }
+                />
+                <ReferenceLine y={0} stroke="#dc2626" strokeDasharray="4 4" />
+                <ReferenceLine x={forecast.periodEnd} stroke="#9ca3af" strokeDasharray="4 4" />
+                <Area
+                  dataKey="balance"
+                  type="stepAfter"
+                  stroke="var(--color-balance)"
+                  fill="var(--color-balance)"
+                  fillOpacity={0.15}
+                />
+              </AreaChart>
+            </ChartContainer>
+
+            {forecast.events.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium text-gray-900">{t('forecast.upcoming', 'Erwartete Zahlungen')}</p>
+                {forecast.events.slice(0, MAX_EVENTS).map((event, idx) => (
+                  <div key={`${event.date}-${event.label}-${idx}`} className="flex justify-between text-sm">
+                    <span className="text-gray-600">
+                      {formatDate(event.date)} · {t(EVENT_LABELS[event.kind][0], EVENT_LABELS[event.kind][1])} ·{' '}
+                      {event.label}
+                    </span>
+                    <span className={event.amount < 0 ? 'text-red-600' : 'text-green-600'}>
+                      {event.amount > 0 ? '+' : ''}
+                      {formatChf(event.amount)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import {
+  Banknote,
+  Bus,
+  Car,
+  Coins,
+  GraduationCap,
+  HandCoins,
+  HeartPulse,
+  Home,
+  Landmark,
+  Package,
+  PiggyBank,
+  Plane,
+  Receipt,
+  Repeat,
+  ShoppingBag,
+  ShoppingCart,
+  Tag,
+  Train,
+  Tv,
+  User,
+  Utensils,
+  Wallet,
+  type LucideIcon,
+} from 'lucide-react';
+
+/** Icon keys a category can use (stored in Category.icon) */
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  wallet: Wallet,
+  banknote: Banknote,
+  'hand-coins': HandCoins,
+  coins: Coins,
+  home: Home,
+  'shopping-cart': ShoppingCart,
+  'shopping-bag': ShoppingBag,
+  utensils: Utensils,
+  bus: Bus,
+  train: Train,
+  car: Car,
+  tv: Tv,
+  repeat: Repeat,
+  'heart-pulse': HeartPulse,
+  user: User,
+  plane: Plane,
+  'graduation-cap': GraduationCap,
+  landmark: Landmark,
+  receipt: Receipt,
+  'piggy-bank': PiggyBank,
+  package: Package,
+  tag: Tag,
+};
+
+interface CategoryIconProps {
+  icon?: string;
+  color?: string;
+  className?: string;
+}
+
+export default function CategoryIcon({ icon, color, className }: CategoryIconProps) {
+  const Icon = (icon && CATEGORY_ICONS[icon]) || Tag;
+  return <Icon className={className} style={color ? { color } : undefined} />;
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import type { CsvColumnMapping } from '@/lib/types';
+import { useI18n } from '@/hooks/useI18n';
+
+export type CsvMappingFormState = {
+  delimiter: '' | ',' | ';' | '\t';
+  dateColumn: string;
+  merchantColumns: string; // comma-separated list
+  amountColumn: string;
+  signedAmounts: boolean;
+  debitColumn: string;
+  creditColumn: string;
+  rawCategoryColumn: string;
+  justificationColumn: string;
+  dateFormat: 'auto' | 'dmy' | 'mdy';
+};
+
+export const emptyCsvMapping: CsvMappingFormState = {
+  delimiter: '',
+  dateColumn: '',
+  merchantColumns: '',
+  amountColumn: '',
+  signedAmounts: true,
+  debitColumn: '',
+  creditColumn: '',
+  rawCategoryColumn: '',
+  justificationColumn: '',
+  dateFormat: 'auto',
+};
+
+export function toCsvMappingFormState(mapping: CsvColumnMapping): CsvMappingFormState {
+  return {
+    delimiter: mapping.delimiter ?? '',
+    dateColumn: mapping.dateColumn ?? '',
+    merchantColumns: mapping.merchantColumns.join(', '),
+    amountColumn: mapping.amountColumn ?? '',
+    signedAmounts: mapping.signedAmounts ?? false,
+    debitColumn: mapping.debitColumn ?? '',
+    creditColumn: mapping.creditColumn ?? '',
+    rawCategoryColumn: mapping.rawCategoryColumn ?? '',
+    justificationColumn: mapping.justificationColumn ?? '',
+    dateFormat: mapping.dateFormat ?? 'auto',
+  };
+}
+
+export function toCsvColumnMapping(state: CsvMappingFormState): CsvColumnMapping {
+  const optional = (value: string) => value.trim() || undefined;
+  return {
+    delimiter: state.delimiter || undefined,
+    dateColumn: optional(state.dateColumn),
+    merchantColumns: state.merchantColumns
+      .split(',')
+      .map((column) => column.trim())
+      .filter(Boolean),
+    amountColumn: optional(state.amountColumn),
+    signedAmounts: state.amountColumn.trim() ? state.signedAmounts : undefined,
+    debitColumn: optional(state.debitColumn),
+    creditColumn: optional(state.creditColumn),
+    rawCategoryColumn: optional(state.rawCategoryColumn),
+    justificationColumn: optional(state.justificationColumn),
+    dateFormat: state.dateFormat,
+  };
+}
+
+interface CsvMappingFormProps {
+  value: CsvMappingFormState;
+  onChange: (value: CsvMappingFormState) => void;
+  /** Header cells of the last upload, offered as suggestions */
+  headers: string[];
+  saveMapping: boolean;
+  onSaveMappingChange: (checked: boolean) => void;
+}
+
+export default function CsvMappingForm({ value, onChange, headers, saveMapping, onSaveMappingChange }: CsvMappingFormProps) {
+  const { t } = useI18n();
+  const columnFields: { key: keyof CsvMappingFormState; label: string; placeholder: string }[] = [
+    { key: 'dateColumn', label: t('eingabe.mapping.date', 'Datum'), placeholder: 'Buchungsdatum' },
+    { key: 'merchantColumns', label: t('eingabe.mapping.merchant', 'Händler / Text *'), placeholder: 'Buchungstext' },
+    { key: 'amountColumn', label: t('eingabe.mapping.amount', 'Betrag (eine Spalte)'), placeholder: 'Betrag' },
+    { key: 'debitColumn', label: t('eingabe.mapping.debit', 'Belastung'), placeholder: 'Belastung CHF' },
+    { key: 'creditColumn', label: t('eingabe.mapping.credit', 'Gutschrift'), placeholder: 'Gutschrift CHF' },
+    { key: 'rawCategoryColumn', label: t('eingabe.mapping.rawCategory', 'Kategorie'), placeholder: 'Kategorie' },
+    { key: 'justificationColumn', label: t('eingabe.mapping.justification', 'Notiz'), placeholder: 'Zahlungszweck' },
+  ];
+
+  return (
+    <div className="space-y-3 rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+      <p className="text-xs text-gray-600 dark:text-gray-300">
+        {t(
+          'eingabe.mapping.hint',
+          'Spaltennamen wie in der Kopfzeile deiner Datei. Entweder eine Betragsspalte oder Belastung/Gutschrift angeben.'
+        )}
+      </p>
+      <datalist id="csv-headers">
+        {headers.filter(Boolean).map((header) => (
+          <option key={header} value={header} />
+        ))}
+      </datalist>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {columnFields.map((field) => (
+          <div key={field.key}>
+            <Label htmlFor={`mapping-${field.key}`} className="text-xs">
+              {field.label}
+            </Label>
+            <Input
+              id={`mapping-${field.key}`}
+              list="csv-headers"
+              placeholder={field.placeholder}
+              value={value[field.key] as string}
+              onChange={(e) => onChange({ ...value, [field.key]: e.target.value })}
+            />
+          </div>
+        ))}
+        <div>
+          <Label htmlFor="mapping-delimiter" className="text-xs">
+            {t('eingabe.mapping.delimiter', 'Trennzeichen')}
+          </Label>
+          <select
+            id="mapping-delimiter"
+            className="border rounded px-2 py-2 text-sm w-full bg-white dark:bg-gray-900 dark:text-gray-100 border-gray-300 dark:border-gray-700"
+            value={value.delimiter}
+            onChange={(e) => onChange({ ...value, delimiter: e.target.value as CsvMappingFormState['delimiter'] })}
+          >
+            <option value="">{t('eingabe.mapping.auto', 'Automatisch')}</option>
+            <option value=";">;</option>
+            <option value=",">,</option>
+            <option value={'\t'}>Tab</option>
+          </select>
+        </div>
+        <div>
+          <Label htmlFor="mapping-dateFormat" className="text-xs">
+            {t('eingabe.mapping.dateFormat', 'Datumsformat')}
+          </Label>
+          <select
+            id="mapping-dateFormat"
+            className="border rounded px-2 py-2 text-sm w-full bg-white dark:bg-gray-900 dark:text-gray-100 border-gray-300 dark:border-gray-700"
+            value={value.dateFormat}
+            onChange={(e) => onChange({ ...value, dateFormat: e.target.value as CsvMappingFormState['dateFormat'] })}
+          >
+            <option value="auto">{t('eingabe.mapping.auto', 'Automatisch')}</option>
+            <option value="dmy">TT.MM.JJJJ</option>
+            <option value="mdy">MM/DD/YYYY</option>
+          </select>
+        </div>
+      </div>
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="mapping-signed"
+          checked={value.signedAmounts}
+          onCheckedChange={(checked) => onChange({ ...value, signedAmounts: checked === true })}
+        />
+        <Label htmlFor="mapping-signed" className="text-xs">
+          {t('eingabe.mapping.signed', 'Betragsspalte mit Vorzeichen (negativ = Ausgabe)')}
+        </Label>
+      </div>
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="mapping-save"
+          checked={saveMapping}
+          onCheckedChange={(checked) => onSaveMappingChange(checked === true)}
+        />
+        <Label htmlFor="mapping-save" className="text-xs">
+          {t('eingabe.mapping.save', 'Zuordnung im Profil speichern')}
+        </Label>
+      </div>
+    </div>
+  );
+}
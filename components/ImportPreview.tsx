@@ -0,0 +1,144 @@
+'use client';
+
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { ImportPreviewRow } from '@/lib/types';
+import { useI18n } from '@/hooks/useI18n';
+
+interface ImportPreviewProps {
+  fileName: string;
+  /** Bank preset or mapping the file was read with */
+  formatLabel?: string;
+  rows: ImportPreviewRow[];
+  errors: { line: number; message: string }[];
+  selectedLines: Set<number>;
+  committing: boolean;
+  onToggle: (line: number) => void;
+  onToggleAll: (checked: boolean) => void;
+  onCommit: () => void;
+  onCancel: () => void;
+}
+
+export default function ImportPreview({
+  fileName,
+  formatLabel,
+  rows,
+  errors,
+  selectedLines,
+  committing,
+  onToggle,
+  onToggleAll,
+  onCommit,
+  onCancel,
+}: ImportPreviewProps) {
+  const { t, lang } = useI18n();
+  const duplicates = rows.filter((row) => row.duplicateOf).length;
+  const allSelected = rows.length > 0 && selectedLines.size === rows.length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-gray-900 dark:text-gray-100">
+          {t('eingabe.import.preview', 'Vorschau')}: {fileName}
+        </CardTitle>
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          {rows.length} {t('eingabe.import.rows', 'Zeilen erkannt')}, {duplicates}{' '}
+          {t('eingabe.import.duplicates', 'mögliche Duplikate (nicht ausgewählt)')}, {errors.length}{' '}
+          {t('eingabe.csv.failed', 'fehlgeschlagen')}.
+        </p>
+        {formatLabel && (
+          <p className="text-xs text-gray-500">
+            {t('eingabe.import.format', 'Erkanntes Format')}: {formatLabel}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="max-h-96 overflow-y-auto border rounded">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={(checked) => onToggleAll(checked === true)}
+                    aria-label={t('eingabe.import.selectAll', 'Alle auswählen')}
+                  />
+                </TableHead>
+                <TableHead>{t('eingabe.form.date', 'Datum')}</TableHead>
+                <TableHead>{t('eingabe.import.merchant', 'Händler')}</TableHead>
+                <TableHead className="text-right">{t('verlauf.amount', 'Betrag')}</TableHead>
+                <TableHead>{t('verlauf.category', 'Kategorie')}</TableHead>
+                <TableHead>{t('eingabe.import.status', 'Status')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.line} className={row.duplicateOf ? 'opacity-60' : ''}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedLines.has(row.line)}
+                      onCheckedChange={() => onToggle(row.line)}
+                      aria-label={`${t('eingabe.import.line', 'Zeile')} ${row.line}`}
+                    />
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{row.transaction.date}</TableCell>
+                  <TableCell>{row.transaction.merchant}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {row.transaction.amount.toFixed(2)} CHF
+                  </TableCell>
+                  <TableCell>{row.transaction.category}</TableCell>
+                  <TableCell className="space-x-1">
+                    {row.duplicateOf && (
+                      <Badge variant="secondary">{t('eingabe.import.duplicate', 'Duplikat')}</Badge>
+                    )}
+                    {row.paysBill && (
+                      <Badge
+                        variant="outline"
+                        title={t('eingabe.import.billPaid.hint', 'Beim Import wird die offene Rechnung als bezahlt verbucht.')}
+                      >
+                        {t('eingabe.import.billPaid', 'Bezahlt offene Rechnung')}
+                      </Badge>
+                    )}
+                    {row.transaction.isImpulse && (
+                      <Badge variant="destructive">{lang === 'en' ? 'Impulse buy' : 'Impulskauf'}</Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="space-y-1 text-xs text-red-700 list-disc list-inside">
+            {errors.map((err, idx) => (
+              <li key={idx}>
+                {t('eingabe.import.line', 'Zeile')} {err.line}: {err.message}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <Button variant="outline" onClick={onCancel} disabled={committing}>
+            {t('eingabe.form.cancel', 'Abbrechen')}
+          </Button>
+          <Button onClick={onCommit} disabled={committing || selectedLines.size === 0}>
+            {committing ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                {t('eingabe.import.committing', 'Importiere...')}
+              </>
+            ) : (
+              `${t('eingabe.import.commit', 'Importieren')} (${selectedLines.size})`
+            )}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,91 @@
+'use client';
+
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { ImportProgress, ImportRowResult } from '@/lib/types';
+import { useI18n } from '@/hooks/useI18n';
+
+interface ImportProgressPanelProps {
+  /** Last progress event of the running import (null before the first row) */
+  progress: ImportProgress | null;
+  /** Rows in the order the server reported them */
+  rows: ImportRowResult[];
+}
+
+// Only the newest rows are rendered so large imports keep the page responsive
+const VISIBLE_ROWS = 200;
+
+const STATUS_LABELS: Record<ImportRowResult['status'], [string, string]> = {
+  classified: ['eingabe.live.classified', 'Klassifiziert'],
+  duplicate: ['eingabe.import.duplicate', 'Duplikat'],
+  billPaid: ['eingabe.import.billPaid', 'Bezahlt offene Rechnung'],
+  created: ['eingabe.live.created', 'Gespeichert'],
+  error: ['eingabe.live.error', 'Fehler'],
+};
+
+const STATUS_VARIANTS: Record<ImportRowResult['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  classified: 'outline',
+  duplicate: 'secondary',
+  billPaid: 'outline',
+  created: 'default',
+  error: 'destructive',
+};
+
+export default function ImportProgressPanel({ progress, rows }: ImportProgressPanelProps) {
+  const { t } = useI18n();
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+  const visible = rows.slice(-VISIBLE_ROWS).reverse();
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-300">
+        <span>
+          {progress?.phase === 'store'
+            ? t('eingabe.progress.store', 'Speichere')
+            : t('eingabe.progress.classify', 'Klassifiziere')}
+          {progress ? ` ${progress.done} / ${progress.total}` : ' …'}
+        </span>
+        <span>{percent} %</span>
+      </div>
+      <Progress value={percent} className="h-2" />
+
+      {visible.length > 0 && (
+        <div className="max-h-64 overflow-y-auto border rounded">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">{t('eingabe.import.line', 'Zeile')}</TableHead>
+                <TableHead>{t('eingabe.import.merchant', 'Händler')}</TableHead>
+                <TableHead className="text-right">{t('verlauf.amount', 'Betrag')}</TableHead>
+                <TableHead>{t('verlauf.category', 'Kategorie')}</TableHead>
+                <TableHead>{t('eingabe.import.status', 'Status')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.map((row) => {
+                const [key, fallback] = STATUS_LABELS[row.status];
+                return (
+                  <TableRow key={`${row.status}-${row.line}`}>
+                    <TableCell>{row.line}</TableCell>
+                    <TableCell>{row.merchant ?? '–'}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {row.amount !== undefined ? `${row.amount.toFixed(2)} CHF` : '–'}
+                    </TableCell>
+                    <TableCell>{row.category ?? '–'}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[row.status]} title={row.message}>
+                        {t(key, fallback)}
+                      </Badge>
+                      {row.message && <p className="text-xs text-red-700 mt-1">{row.message}</p>}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,14 +3,16 @@
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { useEffect, useState } from 'react';
-import { Target, BarChart3, History, PlusSquare, Moon, Sun, Menu, X } from 'lucide-react';
+import { Target, BarChart3, History, PlusSquare, ClipboardCheck, RefreshCw, Repeat, ListFilter, Store, Tags, Wallet, Moon, Sun, Menu, X, LogOut } from 'lucide-react';
 import { useI18n } from '@/hooks/useI18n';
+import { useAuth } from '@/hooks/useAuth';
 
 export default function Navigation() {
   const pathname = usePathname();
   const [theme, setTheme] = useState<'light' | 'dark'>('light');
   const [mobileOpen, setMobileOpen] = useState(false);
   const { lang, toggleLanguage, t } = useI18n();
+  const { session, email, localMode, signOut } = useAuth();
 
   useEffect(() => {
     const saved = typeof window !== 'undefined' ? localStorage.getItem('theme') : null;
@@ -40,11 +42,18 @@ export default function Navigation() {
     applyTheme(next);
   };
 
-  const navItems = [
+  const navItems = !session && !localMode ? [] : [
     { href: '/', label: t('nav.goals', 'Sparziele'), icon: Target },
     { href: '/analyse', label: t('nav.analysis', 'Analyse'), icon: BarChart3 },
     { href: '/verlauf', label: t('nav.history', 'Verlauf'), icon: History },
     { href: '/eingabe', label: t('nav.input', 'Eingabe'), icon: PlusSquare },
+    { href: '/pruefen', label: t('nav.review', 'Prüfen'), icon: ClipboardCheck },
+    { href: '/reklassifizieren', label: t('nav.reclassify', 'Neu einordnen'), icon: RefreshCw },
+    { href: '/regeln', label: t('nav.rules', 'Regeln'), icon: ListFilter },
+    { href: '/abos', label: t('nav.subscriptions', 'Abos'), icon: Repeat },
+    { href: '/haendler', label: t('nav.merchants', 'Händler'), icon: Store },
+    { href: '/kategorien', label: t('nav.categories', 'Kategorien'), icon: Tags },
+    { href: '/konten', label: t('nav.accounts', 'Konten'), icon: Wallet },
   ];
 
   const renderLink = (item: (typeof navItems)[number], variant: 'desktop' | 'mobile') => {
@@ -97,6 +106,17 @@ export default function Navigation() {
               >
                 {theme === 'dark' ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
               </button>
+              {session && (
+                <button
+                  onClick={signOut}
+                  className="inline-flex items-center justify-center rounded-lg p-2 text-gray-600 hover:bg-gray-50 hover:text-gray-900 dark:text-gray-200 dark:hover:bg-gray-800"
+                  aria-label={t('nav.signOut', 'Abmelden')}
+                  title={email ?? undefined}
+                  type="button"
+                >
+                  <LogOut className="w-5 h-5" />
+                </button>
+              )}
             </div>
 
             <button
@@ -131,6 +151,16 @@ export default function Navigation() {
             >
               {theme === 'dark' ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
             </button>
+            {session && (
+              <button
+                onClick={signOut}
+                className="inline-flex items-center justify-center rounded-lg p-2 text-gray-600 hover:bg-gray-50 hover:text-gray-900 dark:text-gray-200 dark:hover:bg-gray-800"
+                aria-label={t('nav.signOut', 'Abmelden')}
+                type="button"
+              >
+                <LogOut className="w-5 h-5" />
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,206 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Loader2, QrCode, CheckCircle2, AlertCircle, ImageIcon } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import type { Transaction } from '@/lib/types';
+import { useI18n } from '@/hooks/useI18n';
+
+// Browser-native QR decoding (Chromium, Safari); not part of the TS DOM lib yet
+type BarcodeDetectorLike = { detect: (image: ImageBitmap) => Promise<{ rawValue: string }[]> };
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+interface QrBillCardProps {
+  onCreated?: (transaction: Transaction) => void;
+}
+
+export default function QrBillCard({ onCreated }: QrBillCardProps) {
+  const { t } = useI18n();
+  const [payload, setPayload] = useState('');
+  const [amount, setAmount] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [needsAmount, setNeedsAmount] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const [error, setError] = useState('');
+  const [created, setCreated] = useState<Transaction | null>(null);
+  const imageInputRef = useRef<HTMLInputElement | null>(null);
+  const [Detector, setDetector] = useState<BarcodeDetectorConstructor | undefined>();
+
+  // Resolved after mount so server and client render the same markup
+  useEffect(() => {
+    const detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    if (detector) setDetector(() => detector);
+  }, []);
+
+  const handleImage = async (file: File) => {
+    if (!Detector) return;
+    setScanning(true);
+    setError('');
+    try {
+      const codes = await new Detector({ formats: ['qr_code'] }).detect(await createImageBitmap(file));
+      const bill = codes.find((code) => code.rawValue.startsWith('SPC'));
+      if (bill) {
+        setPayload(bill.rawValue);
+      } else {
+        setError(t('eingabe.qr.noCode', 'Kein Swiss QR-Code im Bild gefunden.'));
+      }
+    } catch (err) {
+      console.error('Error decoding QR image:', err);
+      setError(t('eingabe.qr.noCode', 'Kein Swiss QR-Code im Bild gefunden.'));
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError('');
+    setCreated(null);
+
+    try {
+      const res = await fetch('/api/transactions/qr-bill', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          payload,
+          amount: amount ? parseFloat(amount) : undefined,
+          dueDate: dueDate || undefined,
+        }),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        setCreated(data.transaction);
+        setPayload('');
+        setAmount('');
+        setDueDate('');
+        setNeedsAmount(false);
+        onCreated?.(data.transaction);
+      } else {
+        // Bills without a printed amount need the amount from the user
+        if (data.bill && data.bill.amount === undefined) setNeedsAmount(true);
+        setError(data.error || t('eingabe.qr.error', 'QR-Rechnung konnte nicht erfasst werden.'));
+      }
+    } catch (err) {
+      console.error('Error submitting QR-bill:', err);
+      setError(t('eingabe.qr.error', 'QR-Rechnung konnte nicht erfasst werden.'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-gray-900 dark:text-gray-100">
+          <QrCode className="w-5 h-5 text-blue-600" />
+          <span>{t('eingabe.qr.title', 'QR-Rechnung erfassen')}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            {t(
+              'eingabe.qr.hint',
+              'Inhalt des QR-Codes einfügen oder ein Foto der Rechnung wählen. Die Rechnung wird als offene Zahlung zum Fälligkeitsdatum verbucht.'
+            )}
+          </p>
+
+          <div>
+            <Label htmlFor="qr-payload">{t('eingabe.qr.payload', 'QR-Code-Inhalt')}</Label>
+            <Textarea
+              id="qr-payload"
+              value={payload}
+              onChange={(e) => setPayload(e.target.value)}
+              placeholder={'SPC\n0200\n1\nCH44 3199 9123 0008 8901 2\n...'}
+              rows={5}
+              className="font-mono text-xs"
+              required
+            />
+          </div>
+
+          {Detector && (
+            <div>
+              <input
+                ref={imageInputRef}
+                type="file"
+                accept="image/*"
+                capture="environment"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImage(file);
+                  e.target.value = '';
+                }}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => imageInputRef.current?.click()}
+                disabled={scanning}
+              >
+                {scanning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ImageIcon className="w-4 h-4 mr-2" />}
+                {t('eingabe.qr.scan', 'Foto auswählen')}
+              </Button>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="qr-dueDate">{t('eingabe.qr.dueDate', 'Fällig am (optional)')}</Label>
+              <Input id="qr-dueDate" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+            </div>
+            {needsAmount && (
+              <div>
+                <Label htmlFor="qr-amount">{t('eingabe.form.amount', 'Betrag (CHF) *')}</Label>
+                <Input
+                  id="qr-amount"
+                  type="number"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  required
+                />
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <div className="flex items-center space-x-2 text-sm text-red-700">
+              <AlertCircle className="w-4 h-4" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {created && (
+            <div className="flex items-center space-x-2 p-3 bg-green-50 border border-green-200 rounded text-sm text-green-800">
+              <CheckCircle2 className="w-4 h-4" />
+              <span>
+                {created.merchant}: {created.amount.toFixed(2)} CHF, {t('eingabe.qr.due', 'fällig')}{' '}
+                {new Date(created.date).toLocaleDateString('de-CH')} ({created.category})
+              </span>
+            </div>
+          )}
+
+          <Button type="submit" disabled={submitting || !payload.trim()} className="w-full">
+            {submitting ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                {t('eingabe.form.loading', 'Analysiere...')}
+              </>
+            ) : (
+              t('eingabe.qr.submit', 'Rechnung erfassen')
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,307 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import type { Transaction } from '@/lib/types';
+import { useI18n } from '@/hooks/useI18n';
+import { useAccounts } from '@/hooks/useAccounts';
+
+interface TransactionEditDrawerProps {
+  transaction: Transaction | null;
+  onClose: () => void;
+  onSaved: (transaction: Transaction) => void;
+  onDeleted: (id: string) => void;
+}
+
+const toFormState = (transaction: Transaction | null) => ({
+  date: transaction?.date ?? '',
+  merchant: transaction?.merchant ?? '',
+  amount: transaction ? String(transaction.amount) : '',
+  rawCategory: transaction?.rawCategory ?? '',
+  justification: transaction?.justification ?? '',
+  status: transaction?.status ?? 'booked',
+  accountId: transaction?.accountId ?? '',
+  transferAccountId: transaction?.transferAccountId ?? '',
+});
+
+export default function TransactionEditDrawer({ transaction, onClose, onSaved, onDeleted }: TransactionEditDrawerProps) {
+  const { t } = useI18n();
+  const { accounts } = useAccounts();
+  const [formData, setFormData] = useState(toFormState(transaction));
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setFormData(toFormState(transaction));
+    setError('');
+  }, [transaction]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!transaction) return;
+    setSaving(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/transactions', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: transaction.id,
+          ...formData,
+          amount: parseFloat(formData.amount),
+        }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        onSaved(data.transaction);
+        onClose();
+      } else {
+        setError(t('verlauf.edit.error', 'Fehler beim Speichern der Transaktion'));
+      }
+    } catch (err) {
+      console.error('Error updating transaction:', err);
+      setError(t('verlauf.edit.error', 'Fehler beim Speichern der Transaktion'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!transaction) return;
+    setDeleting(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/transactions', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: transaction.id }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        onDeleted(transaction.id);
+        setConfirmDelete(false);
+        onClose();
+      } else {
+        setError(t('verlauf.edit.deleteError', 'Fehler beim Löschen der Transaktion'));
+      }
+    } catch (err) {
+      console.error('Error deleting transaction:', err);
+      setError(t('verlauf.edit.deleteError', 'Fehler beim Löschen der Transaktion'));
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <>
+      <Sheet open={Boolean(transaction)} onOpenChange={(open) => !open && onClose()}>
+        <SheetContent className="overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>{t('verlauf.edit.title', 'Transaktion bearbeiten')}</SheetTitle>
+            <SheetDescription>
+              {t(
+                'verlauf.edit.description',
+                'Ein geänderter Händler löst eine neue KI-Klassifizierung aus; beim Betrag wird nur die Impuls-Einschätzung neu bewertet, die Kategorie bleibt.'
+              )}
+            </SheetDescription>
+          </SheetHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4 py-4">
+            <div>
+              <Label htmlFor="edit-date">{t('eingabe.form.date', 'Datum')}</Label>
+              <Input
+                id="edit-date"
+                type="date"
+                value={formData.date}
+                onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                required
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="edit-merchant">{t('eingabe.form.merchant', 'Händler / Geschäft *')}</Label>
+              <Input
+                id="edit-merchant"
+                type="text"
+                value={formData.merchant}
+                onChange={(e) => setFormData({ ...formData, merchant: e.target.value })}
+                required
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="edit-amount">{t('eingabe.form.amount', 'Betrag (CHF) *')}</Label>
+              <Input
+                id="edit-amount"
+                type="number"
+                step="0.01"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                required
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="edit-rawCategory">{t('eingabe.form.rawCategory', 'Kategorie (optional)')}</Label>
+              <Input
+                id="edit-rawCategory"
+                type="text"
+                value={formData.rawCategory}
+                onChange={(e) => setFormData({ ...formData, rawCategory: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="edit-justification">{t('eingabe.form.justification', 'Begründung (optional)')}</Label>
+              <Textarea
+                id="edit-justification"
+                value={formData.justification}
+                onChange={(e) => setFormData({ ...formData, justification: e.target.value })}
+                rows={3}
+              />
+            </div>
+
+            {accounts.length > 0 && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="edit-account">{t('verlauf.edit.account', 'Konto')}</Label>
+                  <select
+                    id="edit-account"
+                    className="border rounded px-2 py-2 text-sm w-full bg-white dark:bg-gray-900 dark:text-gray-100 border-gray-300 dark:border-gray-700"
+                    value={formData.accountId}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        accountId: e.target.value,
+                        transferAccountId: e.target.value ? formData.transferAccountId : '',
+                      })
+                    }
+                  >
+                    <option value="">{t('verlauf.edit.noAccount', 'Kein Konto')}</option>
+                    {accounts.map((account) => (
+                      <option key={account.id} value={account.id}>
+                        {account.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <Label htmlFor="edit-transfer">{t('verlauf.edit.transferTo', 'Umbuchung auf Konto')}</Label>
+                  <select
+                    id="edit-transfer"
+                    className="border rounded px-2 py-2 text-sm w-full bg-white dark:bg-gray-900 dark:text-gray-100 border-gray-300 dark:border-gray-700"
+                    value={formData.transferAccountId}
+                    disabled={!formData.accountId}
+                    onChange={(e) => setFormData({ ...formData, transferAccountId: e.target.value })}
+                  >
+                    <option value="">{t('verlauf.edit.noTransfer', 'Keine Umbuchung')}</option>
+                    {accounts
+                      .filter((account) => account.id !== formData.accountId)
+                      .map((account) => (
+                        <option key={account.id} value={account.id}>
+                          {account.name}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+              </div>
+            )}
+
+            {transaction?.status === 'pending' && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="edit-paid"
+                  checked={formData.status === 'booked'}
+                  onCheckedChange={(checked) =>
+                    setFormData({ ...formData, status: checked === true ? 'booked' : 'pending' })
+                  }
+                />
+                <Label htmlFor="edit-paid">{t('verlauf.edit.paid', 'Rechnung bezahlt')}</Label>
+              </div>
+            )}
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <SheetFooter className="gap-2 pt-2">
+              <Button
+                type="button"
+                variant="destructive"
+                onClick={() => setConfirmDelete(true)}
+                disabled={saving || deleting}
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                {t('verlauf.edit.delete', 'Löschen')}
+              </Button>
+              <Button type="submit" disabled={saving || deleting}>
+                {saving ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    {t('verlauf.table.saving', 'Speichere...')}
+                  </>
+                ) : (
+                  t('verlauf.save', 'Speichern')
+                )}
+              </Button>
+            </SheetFooter>
+          </form>
+        </SheetContent>
+      </Sheet>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('verlauf.edit.confirmTitle', 'Transaktion löschen?')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t(
+                'verlauf.edit.confirmDescription',
+                'Die Transaktion wird endgültig entfernt und fliesst nicht mehr in Budget und Analyse ein.'
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleting}>{t('verlauf.cancel', 'Abbrechen')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                // Keep the dialog open until the request has finished
+                e.preventDefault();
+                handleDelete();
+              }}
+              disabled={deleting}
+            >
+              {deleting ? <Loader2 className="w-4 h-4 animate-spin" /> : t('verlauf.edit.delete', 'Löschen')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { AccountBalance } from '@/lib/types';
+
+/**
+ * Loads the user's accounts with their balances. Empty until the request returns (or when it
+ * fails); account selects are only shown once the user has accounts.
+ */
+export function useAccounts() {
+  const [accounts, setAccounts] = useState<AccountBalance[]>([]);
+  const [totals, setTotals] = useState({ balance: 0, spending: 0 });
+  const [loaded, setLoaded] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await fetch('/api/accounts');
+      const data = await res.json();
+      if (data.success) {
+        setAccounts(data.accounts);
+        setTotals(data.totals);
+      }
+    } catch (err) {
+      console.error('Error fetching accounts:', err);
+    } finally {
+      setLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  /** Account name for an id, undefined for unknown or missing ids */
+  const accountName = useCallback(
+    (id: string | null | undefined) => (id ? accounts.find((account) => account.id === id)?.name : undefined),
+    [accounts]
+  );
+
+  return { accounts, totals, loaded, accountName, refresh };
+}
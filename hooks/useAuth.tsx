@@ -0,0 +1,95 @@
+'use client';
+
+import { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import type { Session } from '@supabase/supabase-js';
+import { localMode, supabaseBrowser } from '@/lib/supabase-browser';
+
+// Read by the server-side session resolver in lib/auth.ts
+const ACCESS_TOKEN_COOKIE = 'sb-access-token';
+const PUBLIC_PATHS = ['/login'];
+
+type AuthContextValue = {
+  session: Session | null;
+  email: string | null;
+  /** No Supabase client configured: single local user, no sign-in required */
+  localMode: boolean;
+  signOut: () => Promise<void>;
+};
+
+/**
+ * Mirrors the Supabase access token into a cookie so plain `fetch('/api/...')`
+ * calls are authenticated without attaching headers everywhere.
+ */
+function syncAccessTokenCookie(session: Session | null) {
+  if (typeof document === 'undefined') return;
+  if (!session) {
+    document.cookie = `${ACCESS_TOKEN_COOKIE}=; path=/; max-age=0; SameSite=Lax`;
+    return;
+  }
+  const secure = window.location.protocol === 'https:' ? '; Secure' : '';
+  document.cookie = `${ACCESS_TOKEN_COOKIE}=${session.access_token}; path=/; max-age=${session.expires_in}; SameSite=Lax${secure}`;
+}
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [session, setSession] = useState<Session | null>(null);
+  const [ready, setReady] = useState(false);
+  const isPublicPath = PUBLIC_PATHS.includes(pathname);
+
+  useEffect(() => {
+    if (!supabaseBrowser) {
+      setReady(true);
+      return;
+    }
+
+    supabaseBrowser.auth.getSession().then(({ data }) => {
+      syncAccessTokenCookie(data.session);
+      setSession(data.session);
+      setReady(true);
+    });
+
+    // Token refreshes and sign-in/out all flow through this listener
+    const { data: listener } = supabaseBrowser.auth.onAuthStateChange((_event, next) => {
+      syncAccessTokenCookie(next);
+      setSession(next);
+    });
+
+    return () => listener.subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (ready && !localMode && !session && !isPublicPath) {
+      router.replace('/login');
+    }
+  }, [ready, session, isPublicPath, router]);
+
+  const value = useMemo(
+    () => ({
+      session,
+      email: session?.user.email ?? null,
+      localMode,
+      signOut: async () => {
+        if (!supabaseBrowser) return;
+        await supabaseBrowser.auth.signOut();
+        syncAccessTokenCookie(null);
+        router.replace('/login');
+      },
+    }),
+    [session, router]
+  );
+
+  // Pages fetch their data on mount, so only render them once the cookie is in place
+  const canRender = isPublicPath || (ready && (localMode || Boolean(session)));
+
+  return <AuthContext.Provider value={value}>{canRender ? children : null}</AuthContext.Provider>;
+}
+
+export function useAuth() {
+  const ctx = useContext(AuthContext);
+  if (!ctx) throw new Error('useAuth must be used within AuthProvider');
+  return ctx;
+}
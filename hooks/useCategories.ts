@@ -0,0 +1,50 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  categoryLabel,
+  DEFAULT_TAXONOMY,
+  findCategory,
+  flattenCategoryTree,
+  rootCategory,
+} from '@/lib/categories';
+import type { Category } from '@/lib/types';
+import { useI18n } from './useI18n';
+
+/**
+ * Loads the user's category taxonomy. Until the request returns (or when it fails) the
+ * default taxonomy is used, so labels and colours are available on first render.
+ */
+export function useCategories() {
+  const { lang } = useI18n();
+  const [categories, setCategories] = useState<Category[]>(DEFAULT_TAXONOMY);
+  const [loaded, setLoaded] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await fetch('/api/categories');
+      const data = await res.json();
+      if (data.success) setCategories(data.categories);
+    } catch (err) {
+      console.error('Error fetching categories:', err);
+    } finally {
+      setLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const options = useMemo(() => flattenCategoryTree(categories), [categories]);
+
+  const label = useCallback((name: string) => categoryLabel(categories, name, lang), [categories, lang]);
+
+  /** Category record, falling back to the parent's colour/icon for unknown names */
+  const lookup = useCallback(
+    (name: string): Category | undefined => findCategory(categories, name) ?? rootCategory(categories, name),
+    [categories]
+  );
+
+  return { categories, options, loaded, label, lookup, refresh };
+}
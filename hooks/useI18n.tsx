@@ -16,7 +16,26 @@ const translations: Record<Lang, Record<string, string>> = {
     'nav.analysis': 'Analyse',
     'nav.history': 'Verlauf',
     'nav.input': 'Eingabe',
+    'nav.rules': 'Regeln',
+    'nav.merchants': 'Händler',
+    'nav.categories': 'Kategorien',
+    'nav.accounts': 'Konten',
+    'nav.review': 'Prüfen',
+    'nav.reclassify': 'Neu einordnen',
+    'nav.subscriptions': 'Abos',
     'nav.switchLang': 'Sprache',
+    'nav.signOut': 'Abmelden',
+    'login.title': 'Anmelden',
+    'login.signUpTitle': 'Konto erstellen',
+    'login.email': 'E-Mail',
+    'login.password': 'Passwort',
+    'login.submit': 'Anmelden',
+    'login.signUpSubmit': 'Registrieren',
+    'login.switchToSignUp': 'Noch kein Konto? Registrieren',
+    'login.switchToSignIn': 'Bereits registriert? Anmelden',
+    'login.confirmEmail': 'Bitte bestätige deine E-Mail-Adresse und melde dich danach an.',
+    'login.error': 'Anmeldung fehlgeschlagen.',
+    'login.notConfigured': 'Anmeldung ist nicht konfiguriert (Supabase-Variablen fehlen).',
     'meta.title': 'SmartBudgetAI - Dein persönlicher Finanzcoach',
     'meta.desc':
       'Intelligente Ausgabenanalyse mit KI-gestützter Impulserkennung und Sparzielen',
@@ -46,6 +65,15 @@ const translations: Record<Lang, Record<string, string>> = {
     'analyse.from': 'Von',
     'analyse.to': 'Bis',
     'analyse.range.invalid': 'Bitte gültigen Zeitraum wählen.',
+    'analyse.report.button': 'PDF-Bericht',
+    'analyse.report.title': 'Budgetbericht als PDF',
+    'analyse.report.month': 'Monat',
+    'analyse.report.range': 'Zeitraum',
+    'analyse.report.language': 'Sprache',
+    'analyse.report.hint': 'Enthält Budget, Ausgaben nach Kategorie, Muster, Impulskäufe und Sparziele.',
+    'analyse.report.download': 'Herunterladen',
+    'analyse.report.generating': 'Erstelle Bericht...',
+    'analyse.report.error': 'Bericht konnte nicht erstellt werden.',
     'analyse.applyRange': 'Zeitraum anwenden',
     'analyse.budgetMode': 'Budget-Berechnung',
     'analyse.budgetMode.auto': 'Automatisch (Lohnhistorie)',
@@ -73,6 +101,8 @@ const translations: Record<Lang, Record<string, string>> = {
     'analyse.target': 'Ziel',
     'analyse.rules': 'Verhaltensregeln:',
     'analyse.byCategory': 'Ausgaben nach Kategorie',
+    'analyse.envelopes': 'Budgets nach Kategorie',
+    'analyse.envelope.carriedOver': 'Übertrag',
     'analyse.save': 'Speichern',
     'analyse.cancel': 'Abbrechen',
     'analyse.delete': 'Löschen',
@@ -81,14 +111,66 @@ const translations: Record<Lang, Record<string, string>> = {
       'Einzelne Transaktionen manuell oder mehrere per CSV hochladen und automatisch klassifizieren lassen.',
     'eingabe.csv': 'CSV Upload',
     'eingabe.csv.drop': 'Datei hier ablegen oder klicken, um auszuwählen',
-    'eingabe.csv.hint': 'Unterstützt CSV mit Kopfzeile. Maximale Größe 5 MB.',
+    'eingabe.csv.hint': 'camt.053/054-Kontoauszüge (XML), OFX, QIF, MT940 oder CSV-Exporte von PostFinance, UBS, ZKB, Raiffeisen, Revolut bzw. mit Spalten date, merchant, amount.',
     'eingabe.csv.selected': 'Ausgewählte Datei',
     'eingabe.csv.uploading': 'Lade hoch...',
     'eingabe.csv.result': 'Import-Ergebnis',
     'eingabe.csv.success': 'Erfolgreich',
     'eingabe.csv.failed': 'Fehlgeschlagen',
+    'eingabe.csv.duplicatesSkipped': 'Duplikate übersprungen',
     'eingabe.csv.processed': 'Verarbeitet',
     'eingabe.csv.example': 'Beispiel CSV',
+    'eingabe.import.preview': 'Vorschau',
+    'eingabe.import.rows': 'Zeilen erkannt',
+    'eingabe.import.duplicates': 'mögliche Duplikate (nicht ausgewählt)',
+    'eingabe.import.selectAll': 'Alle auswählen',
+    'eingabe.import.merchant': 'Händler',
+    'eingabe.import.status': 'Status',
+    'eingabe.import.line': 'Zeile',
+    'eingabe.import.duplicate': 'Duplikat',
+    'eingabe.import.billPaid': 'Bezahlt offene Rechnung',
+    'eingabe.import.billPaid.hint': 'Beim Import wird die offene Rechnung als bezahlt verbucht.',
+    'eingabe.import.commit': 'Importieren',
+    'eingabe.import.committing': 'Importiere...',
+    'eingabe.import.recent': 'Letzte Importe',
+    'eingabe.import.transactions': 'Transaktionen',
+    'eingabe.import.rolledBack': 'Rückgängig gemacht',
+    'eingabe.import.undo': 'Import rückgängig machen',
+    'eingabe.import.undoShort': 'Rückgängig',
+    'eingabe.qr.title': 'QR-Rechnung erfassen',
+    'eingabe.qr.hint': 'Inhalt des QR-Codes einfügen oder ein Foto der Rechnung wählen. Die Rechnung wird als offene Zahlung zum Fälligkeitsdatum verbucht.',
+    'eingabe.qr.payload': 'QR-Code-Inhalt',
+    'eingabe.qr.scan': 'Foto auswählen',
+    'eingabe.qr.noCode': 'Kein Swiss QR-Code im Bild gefunden.',
+    'eingabe.qr.dueDate': 'Fällig am (optional)',
+    'eingabe.qr.due': 'fällig',
+    'eingabe.qr.submit': 'Rechnung erfassen',
+    'eingabe.qr.error': 'QR-Rechnung konnte nicht erfasst werden.',
+    'eingabe.import.undoConfirm': 'Alle Transaktionen dieses Imports löschen?',
+    'eingabe.mapping.preset': 'Bank / Format',
+    'eingabe.mapping.autoDetect': 'Automatisch erkennen',
+    'eingabe.mapping.custom': 'Eigene Spaltenzuordnung',
+    'eingabe.mapping.reparse': 'Datei mit dieser Einstellung neu einlesen',
+    'eingabe.mapping.hint': 'Spaltennamen wie in der Kopfzeile deiner Datei. Entweder eine Betragsspalte oder Belastung/Gutschrift angeben.',
+    'eingabe.mapping.date': 'Datum',
+    'eingabe.mapping.merchant': 'Händler / Text *',
+    'eingabe.mapping.amount': 'Betrag (eine Spalte)',
+    'eingabe.mapping.debit': 'Belastung',
+    'eingabe.mapping.credit': 'Gutschrift',
+    'eingabe.mapping.rawCategory': 'Kategorie',
+    'eingabe.mapping.justification': 'Notiz',
+    'eingabe.mapping.delimiter': 'Trennzeichen',
+    'eingabe.mapping.dateFormat': 'Datumsformat',
+    'eingabe.mapping.auto': 'Automatisch',
+    'eingabe.mapping.signed': 'Betragsspalte mit Vorzeichen (negativ = Ausgabe)',
+    'eingabe.mapping.save': 'Zuordnung im Profil speichern',
+    'eingabe.import.format': 'Erkanntes Format',
+    'eingabe.progress.classify': 'Klassifiziere',
+    'eingabe.progress.store': 'Speichere',
+    'eingabe.live.title': 'Verarbeitete Zeilen',
+    'eingabe.live.classified': 'Klassifiziert',
+    'eingabe.live.created': 'Gespeichert',
+    'eingabe.live.error': 'Fehler',
     'eingabe.manual.saved': 'Manuelle Erfassung gespeichert.',
     'eingabe.form.title': 'Neue Transaktion',
     'eingabe.form.subtitle': 'Erfasse manuell oder nutze den CSV-Upload auf dieser Seite.',
@@ -154,15 +236,284 @@ const translations: Record<Lang, Record<string, string>> = {
     'verlauf.amount': 'Betrag',
     'verlauf.basis': 'Basis',
     'verlauf.manual': 'manuell',
-    'verlauf.salary': 'Lohn (60%)',
+    'verlauf.salary': 'Lohn (Budgetmodell)',
     'verlauf.auto': 'Auto (Lohnbasis)',
+    'budgetProfile.income': 'Nettoeinkommen',
+    'budgetProfile.model': 'Budgetmodell',
+    'budgetProfile.model.percentage': 'Prozent vom Einkommen',
+    'budgetProfile.model.percentage.hint': 'Ein fester Anteil des Nettoeinkommens steht für flexible Ausgaben zur Verfügung.',
+    'budgetProfile.model.zeroBased': 'Nullbasiert',
+    'budgetProfile.model.zeroBased.hint': 'Jeder Franken wird verplant: Einkommen minus Fixkosten minus Sparziel ergibt das flexible Budget.',
+    'budgetProfile.model.fiftyThirtyTwenty': '50/30/20',
+    'budgetProfile.model.fiftyThirtyTwenty.hint': '50 % Fixkosten, 30 % flexible Ausgaben, mindestens 20 % Sparen. Fixkosten über 50 % verkleinern das flexible Budget.',
+    'budgetProfile.fixedCosts': 'Fixkosten',
+    'budgetProfile.savingsTarget': 'Sparziel',
+    'budgetProfile.flexibleShare': 'Anteil flexibel (%)',
+    'budgetProfile.savings': 'Sparen',
+    'budgetProfile.flexible': 'Flexibles Budget',
+    'budgetProfile.unassigned': 'Nicht verplant',
+    'budgetProfile.overplanned': 'Mehr verplant als Einkommen',
+    'budgetProfile.error': 'Budgetprofil konnte nicht gespeichert werden.',
+    'budgetProfile.period': 'Budgetperiode',
+    'budgetProfile.period.calendar': 'Kalendermonat (ab 1.)',
+    'budgetProfile.period.fixed': 'Fester Tag',
+    'budgetProfile.period.salary': 'Ab Lohneingang (erkannt)',
+    'budgetProfile.period.day': 'Starttag (1–28)',
+    'budgetProfile.period.fallbackDay': 'Starttag ohne Lohneingang',
+    'budgetProfile.period.detected': 'Erkannter Zahltag',
+    'budgetProfile.period.notDetected': 'Noch kein Lohneingang erkannt – es gilt der Starttag.',
+    'verlauf.budget.period': 'Periode',
+    'forecast.title': 'Cashflow-Prognose',
+    'forecast.basis': 'Lohn, Abos, offene Rechnungen und durchschnittliche Ausgaben',
+    'forecast.balance': 'Kontostand',
+    'forecast.startBalance': 'Aktueller Kontostand (CHF)',
+    'forecast.startBalance.auto': 'aus Buchungen',
+    'forecast.apply': 'Übernehmen',
+    'forecast.negative': 'Der Kontostand fällt voraussichtlich unter 0 CHF am',
+    'forecast.lowest': 'Tiefster Stand',
+    'forecast.on': 'am',
+    'forecast.today': 'Heute',
+    'forecast.periodEnd': 'Ende Budgetperiode',
+    'forecast.upcoming': 'Erwartete Zahlungen',
+    'forecast.event.salary': 'Lohn',
+    'forecast.event.subscription': 'Abo',
+    'forecast.event.bill': 'Rechnung',
+    'konten.title': 'Konten',
+    'konten.subtitle': 'Salden deiner Konten. Umbuchungen zwischen Konten (z.B. aufs Sparkonto) zählen nicht als Ausgabe.',
+    'konten.add': 'Konto hinzufügen',
+    'konten.loading': 'Lade Konten...',
+    'konten.empty': 'Noch keine Konten. Lege dein Bankkonto, Karten, Bargeld und Sparkonten an.',
+    'konten.total': 'Gesamtsaldo',
+    'konten.spending': 'Verfügbar (Bank, Karte, Bargeld)',
+    'konten.list': 'Deine Konten',
+    'konten.opening': 'Anfangssaldo',
+    'konten.bookings': 'Buchungen',
+    'konten.edit': 'Bearbeiten',
+    'konten.delete': 'Löschen',
+    'konten.deleteConfirm': 'Konto löschen?',
+    'konten.editTitle': 'Konto bearbeiten',
+    'konten.name': 'Name',
+    'konten.type': 'Kontoart',
+    'konten.type.bank': 'Bankkonto',
+    'konten.type.card': 'Kreditkarte',
+    'konten.type.cash': 'Bargeld',
+    'konten.type.savings': 'Sparkonto',
+    'konten.type.pillar3a': 'Säule 3a',
+    'konten.openingBalance': 'Anfangssaldo (CHF)',
+    'konten.openingBalance.hint': 'Saldo vor der ersten erfassten Buchung auf diesem Konto.',
+    'konten.cancel': 'Abbrechen',
+    'konten.save': 'Speichern',
+    'konten.error.save': 'Speichern fehlgeschlagen.',
+    'konten.error.delete': 'Löschen fehlgeschlagen.',
+    'verlauf.transfer': 'Umbuchung',
+    'verlauf.edit.account': 'Konto',
+    'verlauf.edit.noAccount': 'Kein Konto',
+    'verlauf.edit.transferTo': 'Umbuchung auf Konto',
+    'verlauf.edit.noTransfer': 'Keine Umbuchung',
+    'eingabe.import.account': 'Konto',
+    'eingabe.import.noAccount': 'Kein Konto zuordnen',
+    'verlauf.edit.open': 'Bearbeiten',
+    'verlauf.edit.title': 'Transaktion bearbeiten',
+    'verlauf.edit.description': 'Ein geänderter Händler löst eine neue KI-Klassifizierung aus; beim Betrag wird nur die Impuls-Einschätzung neu bewertet, die Kategorie bleibt.',
+    'verlauf.edit.delete': 'Löschen',
+    'verlauf.edit.confirmTitle': 'Transaktion löschen?',
+    'verlauf.edit.confirmDescription': 'Die Transaktion wird endgültig entfernt und fliesst nicht mehr in Budget und Analyse ein.',
+    'verlauf.edit.error': 'Fehler beim Speichern der Transaktion',
+    'verlauf.edit.deleteError': 'Fehler beim Löschen der Transaktion',
+    'verlauf.edit.paid': 'Rechnung bezahlt',
+    'verlauf.pendingBill': 'Offene Rechnung',
+    'verlauf.rule': 'Regel',
+    'verlauf.rule.hint': 'Per Regel eingeordnet, ohne KI',
+    'haendler.aliases': 'Aliasse (kommagetrennt)',
+    'haendler.bookings': 'Buchungen',
+    'haendler.cancel': 'Abbrechen',
+    'haendler.defaultCategory': 'Standardkategorie (optional)',
+    'haendler.delete': 'Löschen',
+    'haendler.deleteConfirm': 'Händler aus dem Verzeichnis entfernen? Buchungen bleiben unverändert.',
+    'haendler.directory': 'Händlerverzeichnis',
+    'haendler.directory.empty': 'Noch keine Einträge. Wähle links Händler aus und führe sie zusammen.',
+    'haendler.edit': 'Bearbeiten',
+    'haendler.editTitle': 'Händler bearbeiten',
+    'haendler.error.delete': 'Löschen fehlgeschlagen.',
+    'haendler.error.merge': 'Zusammenführen fehlgeschlagen.',
+    'haendler.error.save': 'Speichern fehlgeschlagen.',
+    'haendler.inDirectory': 'Verzeichnis',
+    'haendler.loading': 'Lade Händler...',
+    'haendler.merge': 'Zusammenführen',
+    'haendler.merge.hint': 'Alle Buchungen der ausgewählten Namen werden umbenannt; künftige Importe werden automatisch zugeordnet.',
+    'haendler.merge.name': 'Kanonischer Name',
+    'haendler.merge.title': 'Händler zusammenführen',
+    'haendler.names': 'Händler im Verlauf',
+    'haendler.names.empty': 'Keine Händler gefunden.',
+    'haendler.noCategory': 'Keine',
+    'haendler.save': 'Speichern',
+    'haendler.search': 'Händler suchen...',
+    'haendler.subtitle': 'Fasse Schreibweisen wie «COOP-1234 ZUERICH» und «Coop» zu einem Händler zusammen.',
+    'haendler.title': 'Händler',
+    'kategorien.cancel': 'Abbrechen',
+    'kategorien.color': 'Farbe',
+    'kategorien.delete': 'Löschen',
+    'kategorien.deleteConfirm': 'Kategorie löschen? Buchungen, Regeln und Händler wandern in die Oberkategorie bzw. nach «Allgemeines».',
+    'kategorien.edit': 'Bearbeiten',
+    'kategorien.editTitle': 'Kategorie bearbeiten',
+    'kategorien.empty': 'Keine Kategorien vorhanden.',
+    'kategorien.error.delete': 'Kategorie konnte nicht gelöscht werden.',
+    'kategorien.error.save': 'Kategorie konnte nicht gespeichert werden.',
+    'kategorien.icon': 'Icon',
+    'kategorien.kind': 'Art',
+    'kategorien.kind.expense': 'Ausgabe',
+    'kategorien.kind.income': 'Einnahme',
+    'kategorien.labelDe': 'Bezeichnung (DE)',
+    'kategorien.labelEn': 'Bezeichnung (EN)',
+    'kategorien.loading': 'Lade Kategorien...',
+    'kategorien.name': 'Name',
+    'kategorien.name.hint': 'Umbenennen übernimmt alle Buchungen, Regeln und Händler dieser Kategorie.',
+    'kategorien.new': 'Neue Kategorie',
+    'kategorien.parent': 'Oberkategorie',
+    'kategorien.parent.none': 'Keine (Hauptkategorie)',
+    'kategorien.preview': 'Vorschau',
+    'kategorien.save': 'Speichern',
+    'kategorien.saving': 'Speichere...',
+    'kategorien.sortOrder': 'Reihenfolge',
+    'kategorien.budget': 'Monatsbudget (CHF)',
+    'kategorien.budget.none': 'Kein Budget',
+    'kategorien.budget.month': 'Monat',
+    'kategorien.budget.rollover': 'Rest/Überzug in den Folgemonat übertragen',
+    'kategorien.budget.rollover.short': 'Übertrag',
+    'kategorien.subtitle': 'Die Kategorien steuern KI-Einordnung, Filter im Verlauf und die Auswertungen in der Analyse.',
+    'kategorien.title': 'Kategorien',
+    'pruefen.category': 'Kategorie',
+    'pruefen.confidence': 'Konfidenz',
+    'pruefen.confirm': 'Bestätigen',
+    'pruefen.confirmAll': 'Alle bestätigen',
+    'pruefen.confirmAll.confirm': 'Alle angezeigten Kategorien unverändert bestätigen?',
+    'pruefen.correct': 'Korrigieren',
+    'pruefen.empty': 'Alles geprüft – keine unsicheren Einordnungen.',
+    'pruefen.error': 'Speichern fehlgeschlagen.',
+    'pruefen.loading': 'Lade Transaktionen...',
+    'pruefen.source.fallback': 'Stichwort-Fallback',
+    'pruefen.source.llm': 'KI',
+    'pruefen.source.local': 'Lokales Modell',
+    'pruefen.source.rule': 'Regel',
+    'pruefen.source.user': 'Von dir',
+    'pruefen.subtitle': 'Unsichere Einordnungen bestätigen oder korrigieren – das lokale Modell lernt daraus.',
+    'pruefen.threshold': 'Konfidenz unter',
+    'pruefen.title': 'Prüfen',
+    'pruefen.toHistory': 'Zum Verlauf',
+    'reklassifizieren.after': 'Neu',
+    'reklassifizieren.allCategories': 'Alle Kategorien',
+    'reklassifizieren.applied': 'Transaktionen neu eingeordnet.',
+    'reklassifizieren.apply': 'Änderungen übernehmen',
+    'reklassifizieren.applying': 'Übernehme...',
+    'reklassifizieren.before': 'Bisher',
+    'reklassifizieren.changes': 'vorgeschlagene Änderungen',
+    'reklassifizieren.error': 'Neu-Einordnung fehlgeschlagen.',
+    'reklassifizieren.failed': 'Änderungen konnten nicht gespeichert werden.',
+    'reklassifizieren.from': 'Von',
+    'reklassifizieren.includeOverrides': 'Auch manuell gesetzte Kategorien neu einordnen',
+    'reklassifizieren.none': 'Keine Änderungen – alle Einordnungen sind aktuell.',
+    'reklassifizieren.preview': 'Änderungen berechnen',
+    'reklassifizieren.running': 'Klassifiziere...',
+    'reklassifizieren.scanned': 'Transaktionen geprüft',
+    'reklassifizieren.skipped': 'mit manueller Kategorie übersprungen',
+    'reklassifizieren.subtitle': 'Bestehende Transaktionen mit den aktuellen Regeln und Kategorien neu klassifizieren und die Änderungen vor dem Übernehmen prüfen.',
+    'reklassifizieren.title': 'Neu einordnen',
+    'reklassifizieren.to': 'Bis',
+    'abos.active': 'Aktive Abos',
+    'abos.annual': 'Pro Jahr',
+    'abos.charges': 'Belastungen',
+    'abos.chargedAfterCancel': 'Belastung nach Kündigung',
+    'abos.empty': 'Noch keine wiederkehrenden Zahlungen erkannt.',
+    'abos.error': 'Status konnte nicht gespeichert werden.',
+    'abos.last': 'Zuletzt',
+    'abos.loading': 'Lade Abos...',
+    'abos.markCancelled': 'Gekündigt',
+    'abos.markExpected': 'Als erwartet markieren',
+    'abos.missed': 'Belastung(en) ausgeblieben',
+    'abos.monthly': 'Pro Monat',
+    'abos.next': 'Nächste erwartet',
+    'abos.perMonth': 'pro Monat',
+    'abos.perYear': 'pro Jahr',
+    'abos.period.monthly': 'Monatlich',
+    'abos.period.weekly': 'Wöchentlich',
+    'abos.period.yearly': 'Jährlich',
+    'abos.priceChange': 'Preisänderung',
+    'abos.reset': 'Zurücksetzen',
+    'abos.status.cancelled': 'Gekündigt',
+    'abos.status.ended': 'Beendet',
+    'abos.status.expected': 'Erwartet',
+    'abos.subtitle': 'Wiederkehrende Zahlungen aus deinem Verlauf – mit nächster Belastung, Preisänderungen und Ausreissern.',
+    'abos.title': 'Abos',
+    'regeln.actions': 'Ergebnis',
+    'regeln.cancel': 'Abbrechen',
+    'regeln.category': 'Kategorie',
+    'regeln.category.choose': 'Kategorie wählen',
+    'regeln.conditions': 'Bedingungen',
+    'regeln.contains': 'enthält',
+    'regeln.decision': 'Bewertung',
+    'regeln.delete': 'Löschen',
+    'regeln.deleteConfirm': 'Regel wirklich löschen?',
+    'regeln.disable': 'Deaktivieren',
+    'regeln.disabled': 'Deaktiviert',
+    'regeln.edit': 'Bearbeiten',
+    'regeln.editTitle': 'Regel bearbeiten',
+    'regeln.empty': 'Noch keine Regeln. Lege z.B. eine Regel für Miete oder Krankenkasse an.',
+    'regeln.enable': 'Aktivieren',
+    'regeln.enabled': 'Aktiv',
+    'regeln.error.delete': 'Regel konnte nicht gelöscht werden.',
+    'regeln.error.save': 'Regel konnte nicht gespeichert werden.',
+    'regeln.impulse': 'Impulskauf',
+    'regeln.loading': 'Lade Regeln...',
+    'regeln.match.contains': 'Händler enthält',
+    'regeln.match.regex': 'Händler (Regex)',
+    'regeln.maxAmount': 'Betrag bis (CHF)',
+    'regeln.merchant': 'Händler',
+    'regeln.minAmount': 'Betrag ab (CHF)',
+    'regeln.name': 'Name',
+    'regeln.name.placeholder': 'z.B. Miete',
+    'regeln.new': 'Neue Regel',
+    'regeln.priority': 'Priorität (kleiner zuerst)',
+    'regeln.rawCategory': 'Kategorie-Text',
+    'regeln.rawCategory.label': 'Kategorie-Text enthält (optional)',
+    'regeln.save': 'Speichern',
+    'regeln.saving': 'Speichere...',
+    'regeln.subtitle': 'Regeln greifen vor der KI – wiederkehrende Zahlungen werden immer gleich eingeordnet.',
+    'regeln.title': 'Kategorisierungsregeln',
+    'regeln.unnecessary': 'Eher unnötig',
+    'regeln.useful': 'Sinnvoll',
+    'verlauf.export': 'Exportieren',
+    'verlauf.rawMerchant': 'Buchungstext',
+    'verlauf.review': 'Zu prüfen',
+    'verlauf.review.hint': 'Unsichere Einordnung – auf der Prüfen-Seite bestätigen oder korrigieren',
+    'verlauf.export.filtered': 'Gefilterte Liste',
+    'verlauf.export.account': 'Ganzes Konto (JSON)',
+    'verlauf.export.error': 'Export fehlgeschlagen.',
   },
   en: {
     'nav.goals': 'Goals',
     'nav.analysis': 'Analysis',
     'nav.history': 'History',
     'nav.input': 'Input',
+    'nav.rules': 'Rules',
+    'nav.merchants': 'Merchants',
+    'nav.categories': 'Categories',
+    'nav.accounts': 'Accounts',
+    'nav.review': 'Review',
+    'nav.reclassify': 'Re-classify',
+    'nav.subscriptions': 'Subscriptions',
     'nav.switchLang': 'Language',
+    'nav.signOut': 'Sign out',
+    'login.title': 'Sign in',
+    'login.signUpTitle': 'Create account',
+    'login.email': 'Email',
+    'login.password': 'Password',
+    'login.submit': 'Sign in',
+    'login.signUpSubmit': 'Sign up',
+    'login.switchToSignUp': 'No account yet? Sign up',
+    'login.switchToSignIn': 'Already registered? Sign in',
+    'login.confirmEmail': 'Please confirm your email address, then sign in.',
+    'login.error': 'Sign-in failed.',
+    'login.notConfigured': 'Sign-in is not configured (Supabase variables missing).',
     'meta.title': 'SmartBudgetAI - Your personal finance coach',
     'meta.desc': 'Intelligent spend analysis with AI impulse detection and savings goals',
     'page.home.title': 'Finance Coach Chat',
@@ -191,6 +542,15 @@ const translations: Record<Lang, Record<string, string>> = {
     'analyse.from': 'From',
     'analyse.to': 'To',
     'analyse.range.invalid': 'Please choose a valid range.',
+    'analyse.report.button': 'PDF report',
+    'analyse.report.title': 'Budget report as PDF',
+    'analyse.report.month': 'Month',
+    'analyse.report.range': 'Range',
+    'analyse.report.language': 'Language',
+    'analyse.report.hint': 'Includes budget, spending by category, patterns, impulse purchases and savings goals.',
+    'analyse.report.download': 'Download',
+    'analyse.report.generating': 'Generating report...',
+    'analyse.report.error': 'The report could not be created.',
     'analyse.applyRange': 'Apply range',
     'analyse.budgetMode': 'Budget calculation',
     'analyse.budgetMode.auto': 'Automatic (salary history)',
@@ -218,6 +578,8 @@ const translations: Record<Lang, Record<string, string>> = {
     'analyse.target': 'Target',
     'analyse.rules': 'Rules:',
     'analyse.byCategory': 'Spending by category',
+    'analyse.envelopes': 'Budgets by category',
+    'analyse.envelope.carriedOver': 'Carried over',
     'analyse.save': 'Save',
     'analyse.cancel': 'Cancel',
     'analyse.delete': 'Delete',
@@ -226,14 +588,66 @@ const translations: Record<Lang, Record<string, string>> = {
       'Enter single transactions manually or upload multiple via CSV and let the AI classify them.',
     'eingabe.csv': 'CSV upload',
     'eingabe.csv.drop': 'Drop file here or click to select',
-    'eingabe.csv.hint': 'Supports CSV with header row. Max size 5 MB.',
+    'eingabe.csv.hint': 'camt.053/054 statements (XML), OFX, QIF, MT940 or CSV exports from PostFinance, UBS, ZKB, Raiffeisen, Revolut or with columns date, merchant, amount.',
     'eingabe.csv.selected': 'Selected file',
     'eingabe.csv.uploading': 'Uploading...',
     'eingabe.csv.result': 'Import result',
     'eingabe.csv.success': 'Succeeded',
     'eingabe.csv.failed': 'Failed',
+    'eingabe.csv.duplicatesSkipped': 'duplicates skipped',
     'eingabe.csv.processed': 'Processed',
     'eingabe.csv.example': 'CSV example',
+    'eingabe.import.preview': 'Preview',
+    'eingabe.import.rows': 'rows detected',
+    'eingabe.import.duplicates': 'possible duplicates (not selected)',
+    'eingabe.import.selectAll': 'Select all',
+    'eingabe.import.merchant': 'Merchant',
+    'eingabe.import.status': 'Status',
+    'eingabe.import.line': 'Line',
+    'eingabe.import.duplicate': 'Duplicate',
+    'eingabe.import.billPaid': 'Pays open bill',
+    'eingabe.import.billPaid.hint': 'Importing books the open bill as paid.',
+    'eingabe.import.commit': 'Import',
+    'eingabe.import.committing': 'Importing...',
+    'eingabe.import.recent': 'Recent imports',
+    'eingabe.import.transactions': 'transactions',
+    'eingabe.import.rolledBack': 'Rolled back',
+    'eingabe.import.undo': 'Undo import',
+    'eingabe.import.undoShort': 'Undo',
+    'eingabe.qr.title': 'Add QR-bill',
+    'eingabe.qr.hint': 'Paste the QR code content or pick a photo of the bill. The bill is booked as an open payment on its due date.',
+    'eingabe.qr.payload': 'QR code content',
+    'eingabe.qr.scan': 'Choose photo',
+    'eingabe.qr.noCode': 'No Swiss QR code found in the image.',
+    'eingabe.qr.dueDate': 'Due on (optional)',
+    'eingabe.qr.due': 'due',
+    'eingabe.qr.submit': 'Add bill',
+    'eingabe.qr.error': 'The QR-bill could not be added.',
+    'eingabe.import.undoConfirm': 'Delete all transactions of this import?',
+    'eingabe.mapping.preset': 'Bank / format',
+    'eingabe.mapping.autoDetect': 'Detect automatically',
+    'eingabe.mapping.custom': 'Custom column mapping',
+    'eingabe.mapping.reparse': 'Re-read file with these settings',
+    'eingabe.mapping.hint': 'Column names as in the header row of your file. Set either one amount column or debit/credit.',
+    'eingabe.mapping.date': 'Date',
+    'eingabe.mapping.merchant': 'Merchant / text *',
+    'eingabe.mapping.amount': 'Amount (single column)',
+    'eingabe.mapping.debit': 'Debit',
+    'eingabe.mapping.credit': 'Credit',
+    'eingabe.mapping.rawCategory': 'Category',
+    'eingabe.mapping.justification': 'Note',
+    'eingabe.mapping.delimiter': 'Delimiter',
+    'eingabe.mapping.dateFormat': 'Date format',
+    'eingabe.mapping.auto': 'Automatic',
+    'eingabe.mapping.signed': 'Amount column is signed (negative = expense)',
+    'eingabe.mapping.save': 'Save mapping to my profile',
+    'eingabe.import.format': 'Detected format',
+    'eingabe.progress.classify': 'Classifying',
+    'eingabe.progress.store': 'Saving',
+    'eingabe.live.title': 'Processed rows',
+    'eingabe.live.classified': 'Classified',
+    'eingabe.live.created': 'Saved',
+    'eingabe.live.error': 'Error',
     'eingabe.manual.saved': 'Manual entry saved.',
     'eingabe.form.title': 'New transaction',
     'eingabe.form.subtitle': 'Enter manually or use the CSV upload on this page.',
@@ -299,8 +713,258 @@ const translations: Record<Lang, Record<string, string>> = {
     'verlauf.amount': 'Amount',
     'verlauf.basis': 'Basis',
     'verlauf.manual': 'manual',
-    'verlauf.salary': 'Salary (60%)',
+    'verlauf.salary': 'Salary (budget model)',
     'verlauf.auto': 'Auto (salary based)',
+    'budgetProfile.income': 'Net income',
+    'budgetProfile.model': 'Budget model',
+    'budgetProfile.model.percentage': 'Share of income',
+    'budgetProfile.model.percentage.hint': 'A fixed share of your net income is available for flexible spending.',
+    'budgetProfile.model.zeroBased': 'Zero-based',
+    'budgetProfile.model.zeroBased.hint': 'Every franc gets a job: income minus fixed costs minus savings target is your flexible budget.',
+    'budgetProfile.model.fiftyThirtyTwenty': '50/30/20',
+    'budgetProfile.model.fiftyThirtyTwenty.hint': '50 % fixed costs, 30 % flexible spending, at least 20 % savings. Fixed costs above 50 % shrink the flexible budget.',
+    'budgetProfile.fixedCosts': 'Fixed costs',
+    'budgetProfile.savingsTarget': 'Savings target',
+    'budgetProfile.flexibleShare': 'Flexible share (%)',
+    'budgetProfile.savings': 'Savings',
+    'budgetProfile.flexible': 'Flexible budget',
+    'budgetProfile.unassigned': 'Unassigned',
+    'budgetProfile.overplanned': 'Planned beyond income',
+    'budgetProfile.error': 'Budget profile could not be saved.',
+    'budgetProfile.period': 'Budget period',
+    'budgetProfile.period.calendar': 'Calendar month (from the 1st)',
+    'budgetProfile.period.fixed': 'Fixed day',
+    'budgetProfile.period.salary': 'From payday (detected)',
+    'budgetProfile.period.day': 'Start day (1–28)',
+    'budgetProfile.period.fallbackDay': 'Start day without salary',
+    'budgetProfile.period.detected': 'Detected payday',
+    'budgetProfile.period.notDetected': 'No salary detected yet – the start day applies.',
+    'verlauf.budget.period': 'Period',
+    'forecast.title': 'Cash-flow forecast',
+    'forecast.basis': 'Salary, subscriptions, open bills and average spending',
+    'forecast.balance': 'Balance',
+    'forecast.startBalance': 'Current balance (CHF)',
+    'forecast.startBalance.auto': 'from bookings',
+    'forecast.apply': 'Apply',
+    'forecast.negative': 'Your balance is expected to drop below 0 CHF on',
+    'forecast.lowest': 'Lowest balance',
+    'forecast.on': 'on',
+    'forecast.today': 'Today',
+    'forecast.periodEnd': 'End of budget period',
+    'forecast.upcoming': 'Expected payments',
+    'forecast.event.salary': 'Salary',
+    'forecast.event.subscription': 'Subscription',
+    'forecast.event.bill': 'Bill',
+    'konten.title': 'Accounts',
+    'konten.subtitle': 'Balances of your accounts. Transfers between accounts (e.g. to savings) do not count as spending.',
+    'konten.add': 'Add account',
+    'konten.loading': 'Loading accounts...',
+    'konten.empty': 'No accounts yet. Add your bank account, cards, cash and savings accounts.',
+    'konten.total': 'Total balance',
+    'konten.spending': 'Available (bank, card, cash)',
+    'konten.list': 'Your accounts',
+    'konten.opening': 'Opening balance',
+    'konten.bookings': 'bookings',
+    'konten.edit': 'Edit',
+    'konten.delete': 'Delete',
+    'konten.deleteConfirm': 'Delete account?',
+    'konten.editTitle': 'Edit account',
+    'konten.name': 'Name',
+    'konten.type': 'Account type',
+    'konten.type.bank': 'Bank account',
+    'konten.type.card': 'Credit card',
+    'konten.type.cash': 'Cash',
+    'konten.type.savings': 'Savings account',
+    'konten.type.pillar3a': 'Pillar 3a',
+    'konten.openingBalance': 'Opening balance (CHF)',
+    'konten.openingBalance.hint': 'Balance before the first recorded booking on this account.',
+    'konten.cancel': 'Cancel',
+    'konten.save': 'Save',
+    'konten.error.save': 'Saving failed.',
+    'konten.error.delete': 'Deleting failed.',
+    'verlauf.transfer': 'Transfer',
+    'verlauf.edit.account': 'Account',
+    'verlauf.edit.noAccount': 'No account',
+    'verlauf.edit.transferTo': 'Transfer to account',
+    'verlauf.edit.noTransfer': 'No transfer',
+    'eingabe.import.account': 'Account',
+    'eingabe.import.noAccount': 'Do not assign an account',
+    'verlauf.edit.open': 'Edit',
+    'verlauf.edit.title': 'Edit transaction',
+    'verlauf.edit.description': 'Changing the merchant triggers a new AI classification; a changed amount only re-evaluates the impulse verdict, the category stays.',
+    'verlauf.edit.delete': 'Delete',
+    'verlauf.edit.confirmTitle': 'Delete transaction?',
+    'verlauf.edit.confirmDescription': 'The transaction is removed permanently and no longer counts towards budget and analysis.',
+    'verlauf.edit.error': 'Failed to save the transaction',
+    'verlauf.edit.deleteError': 'Failed to delete the transaction',
+    'verlauf.edit.paid': 'Bill paid',
+    'verlauf.pendingBill': 'Open bill',
+    'verlauf.rule': 'Rule',
+    'verlauf.rule.hint': 'Filed by a rule, without AI',
+    'haendler.aliases': 'Aliases (comma-separated)',
+    'haendler.bookings': 'bookings',
+    'haendler.cancel': 'Cancel',
+    'haendler.defaultCategory': 'Default category (optional)',
+    'haendler.delete': 'Delete',
+    'haendler.deleteConfirm': 'Remove this merchant from the directory? Transactions stay unchanged.',
+    'haendler.directory': 'Merchant directory',
+    'haendler.directory.empty': 'No entries yet. Select merchants on the left and merge them.',
+    'haendler.edit': 'Edit',
+    'haendler.editTitle': 'Edit merchant',
+    'haendler.error.delete': 'Delete failed.',
+    'haendler.error.merge': 'Merge failed.',
+    'haendler.error.save': 'Saving failed.',
+    'haendler.inDirectory': 'Directory',
+    'haendler.loading': 'Loading merchants...',
+    'haendler.merge': 'Merge',
+    'haendler.merge.hint': 'All transactions of the selected names are renamed; future imports are matched automatically.',
+    'haendler.merge.name': 'Canonical name',
+    'haendler.merge.title': 'Merge merchants',
+    'haendler.names': 'Merchants in history',
+    'haendler.names.empty': 'No merchants found.',
+    'haendler.noCategory': 'None',
+    'haendler.save': 'Save',
+    'haendler.search': 'Search merchants...',
+    'haendler.subtitle': 'Merge spellings such as “COOP-1234 ZUERICH” and “Coop” into one merchant.',
+    'haendler.title': 'Merchants',
+    'kategorien.cancel': 'Cancel',
+    'kategorien.color': 'Colour',
+    'kategorien.delete': 'Delete',
+    'kategorien.deleteConfirm': 'Delete this category? Transactions, rules and merchants move to the parent category or to “General”.',
+    'kategorien.edit': 'Edit',
+    'kategorien.editTitle': 'Edit category',
+    'kategorien.empty': 'No categories yet.',
+    'kategorien.error.delete': 'The category could not be deleted.',
+    'kategorien.error.save': 'The category could not be saved.',
+    'kategorien.icon': 'Icon',
+    'kategorien.kind': 'Type',
+    'kategorien.kind.expense': 'Expense',
+    'kategorien.kind.income': 'Income',
+    'kategorien.labelDe': 'Label (DE)',
+    'kategorien.labelEn': 'Label (EN)',
+    'kategorien.loading': 'Loading categories...',
+    'kategorien.name': 'Name',
+    'kategorien.name.hint': 'Renaming carries over all transactions, rules and merchants of this category.',
+    'kategorien.new': 'New category',
+    'kategorien.parent': 'Parent category',
+    'kategorien.parent.none': 'None (top level)',
+    'kategorien.preview': 'Preview',
+    'kategorien.save': 'Save',
+    'kategorien.saving': 'Saving...',
+    'kategorien.sortOrder': 'Order',
+    'kategorien.budget': 'Monthly budget (CHF)',
+    'kategorien.budget.none': 'No budget',
+    'kategorien.budget.month': 'month',
+    'kategorien.budget.rollover': 'Carry remainder/overspend into next month',
+    'kategorien.budget.rollover.short': 'rollover',
+    'kategorien.subtitle': 'Categories drive the AI classification, the history filters and the charts in the analysis.',
+    'kategorien.title': 'Categories',
+    'pruefen.category': 'Category',
+    'pruefen.confidence': 'Confidence',
+    'pruefen.confirm': 'Confirm',
+    'pruefen.confirmAll': 'Confirm all',
+    'pruefen.confirmAll.confirm': 'Confirm all listed categories as they are?',
+    'pruefen.correct': 'Correct',
+    'pruefen.empty': 'All reviewed – no uncertain classifications.',
+    'pruefen.error': 'Saving failed.',
+    'pruefen.loading': 'Loading transactions...',
+    'pruefen.source.fallback': 'Keyword fallback',
+    'pruefen.source.llm': 'AI',
+    'pruefen.source.local': 'Local model',
+    'pruefen.source.rule': 'Rule',
+    'pruefen.source.user': 'By you',
+    'pruefen.subtitle': 'Confirm or correct uncertain classifications – the local model learns from them.',
+    'pruefen.threshold': 'confidence below',
+    'pruefen.title': 'Review',
+    'pruefen.toHistory': 'Go to history',
+    'reklassifizieren.after': 'New',
+    'reklassifizieren.allCategories': 'All categories',
+    'reklassifizieren.applied': 'transactions re-classified.',
+    'reklassifizieren.apply': 'Apply changes',
+    'reklassifizieren.applying': 'Applying...',
+    'reklassifizieren.before': 'Before',
+    'reklassifizieren.changes': 'proposed changes',
+    'reklassifizieren.error': 'Re-classification failed.',
+    'reklassifizieren.failed': 'changes could not be saved.',
+    'reklassifizieren.from': 'From',
+    'reklassifizieren.includeOverrides': 'Also re-classify categories you set by hand',
+    'reklassifizieren.none': 'No changes – all classifications are up to date.',
+    'reklassifizieren.preview': 'Compute changes',
+    'reklassifizieren.running': 'Classifying...',
+    'reklassifizieren.scanned': 'transactions checked',
+    'reklassifizieren.skipped': 'with a manual category skipped',
+    'reklassifizieren.subtitle': 'Re-classify existing transactions with the current rules and categories and review the changes before applying them.',
+    'reklassifizieren.title': 'Re-classify',
+    'reklassifizieren.to': 'To',
+    'abos.active': 'Active subscriptions',
+    'abos.annual': 'Per year',
+    'abos.charges': 'charges',
+    'abos.chargedAfterCancel': 'Charged after cancellation',
+    'abos.empty': 'No recurring payments detected yet.',
+    'abos.error': 'Could not save the status.',
+    'abos.last': 'Last',
+    'abos.loading': 'Loading subscriptions...',
+    'abos.markCancelled': 'Cancelled',
+    'abos.markExpected': 'Mark as expected',
+    'abos.missed': 'charge(s) missed',
+    'abos.monthly': 'Per month',
+    'abos.next': 'Next expected',
+    'abos.perMonth': 'per month',
+    'abos.perYear': 'per year',
+    'abos.period.monthly': 'Monthly',
+    'abos.period.weekly': 'Weekly',
+    'abos.period.yearly': 'Yearly',
+    'abos.priceChange': 'Price change',
+    'abos.reset': 'Reset',
+    'abos.status.cancelled': 'Cancelled',
+    'abos.status.ended': 'Ended',
+    'abos.status.expected': 'Expected',
+    'abos.subtitle': 'Recurring payments from your history – with next charge, price changes and outliers.',
+    'abos.title': 'Subscriptions',
+    'regeln.actions': 'Result',
+    'regeln.cancel': 'Cancel',
+    'regeln.category': 'Category',
+    'regeln.category.choose': 'Choose a category',
+    'regeln.conditions': 'Conditions',
+    'regeln.contains': 'contains',
+    'regeln.decision': 'Assessment',
+    'regeln.delete': 'Delete',
+    'regeln.deleteConfirm': 'Really delete this rule?',
+    'regeln.disable': 'Disable',
+    'regeln.disabled': 'Disabled',
+    'regeln.edit': 'Edit',
+    'regeln.editTitle': 'Edit rule',
+    'regeln.empty': 'No rules yet. Create one for your rent or health insurance, for example.',
+    'regeln.enable': 'Enable',
+    'regeln.enabled': 'Active',
+    'regeln.error.delete': 'The rule could not be deleted.',
+    'regeln.error.save': 'The rule could not be saved.',
+    'regeln.impulse': 'Impulse buy',
+    'regeln.loading': 'Loading rules...',
+    'regeln.match.contains': 'Merchant contains',
+    'regeln.match.regex': 'Merchant (regex)',
+    'regeln.maxAmount': 'Amount up to (CHF)',
+    'regeln.merchant': 'Merchant',
+    'regeln.minAmount': 'Amount from (CHF)',
+    'regeln.name': 'Name',
+    'regeln.name.placeholder': 'e.g. Rent',
+    'regeln.new': 'New rule',
+    'regeln.priority': 'Priority (lower first)',
+    'regeln.rawCategory': 'Category text',
+    'regeln.rawCategory.label': 'Category text contains (optional)',
+    'regeln.save': 'Save',
+    'regeln.saving': 'Saving...',
+    'regeln.subtitle': 'Rules run before the AI – recurring payments are always filed the same way.',
+    'regeln.title': 'Categorisation rules',
+    'regeln.unnecessary': 'Rather unnecessary',
+    'regeln.useful': 'Useful',
+    'verlauf.export': 'Export',
+    'verlauf.rawMerchant': 'Bank text',
+    'verlauf.review': 'To review',
+    'verlauf.review.hint': 'Uncertain classification – confirm or correct it on the review page',
+    'verlauf.export.filtered': 'Filtered list',
+    'verlauf.export.account': 'Whole account (JSON)',
+    'verlauf.export.error': 'Export failed.',
   },
 };
 
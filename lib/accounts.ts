@@ -0,0 +1,121 @@
+/**
+ * Accounts
+ * Balances per account (opening balance plus booked income, expenses and transfers) and
+ * validation of account payloads and of the account references on transactions.
+ * A transfer moves its amount from `accountId` to `transferAccountId`; it is neither income
+ * nor expense (see isTransferTransaction).
+ * Client-safe: the accounts page and the edit drawer use the type list.
+ */
+
+import { isIncomeTransaction } from './transactionFilters';
+import type { Account, AccountBalance, AccountType, Category, Transaction } from './types';
+
+export const ACCOUNT_TYPES: AccountType[] = ['bank', 'card', 'cash', 'savings', 'pillar3a'];
+
+// Accounts day-to-day spending is paid from; savings and pillar 3a are not
+export const SPENDING_ACCOUNT_TYPES: AccountType[] = ['bank', 'card', 'cash'];
+
+/** Fields a client may set when creating or editing an account */
+export type AccountInput = Omit<Account, 'id' | 'userId' | 'createdAt'>;
+
+/** Account references of a transaction; null = none */
+export interface AccountRefs {
+  accountId: string | null;
+  transferAccountId: string | null;
+}
+
+export class AccountValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccountValidationError';
+  }
+}
+
+const roundChf = (value: number) => Math.round(value * 100) / 100;
+
+/** Current balance of every account, in the given order */
+export function accountBalances(
+  accounts: Account[],
+  transactions: Transaction[],
+  categories?: Category[]
+): AccountBalance[] {
+  const balances = new Map<string, number>();
+  const counts = new Map<string, number>();
+  const book = (accountId: string, amount: number) => {
+    balances.set(accountId, (balances.get(accountId) ?? 0) + amount);
+    counts.set(accountId, (counts.get(accountId) ?? 0) + 1);
+  };
+
+  transactions
+    .filter((t) => t.status !== 'pending' && t.accountId)
+    .forEach((t) => {
+      const amount = Math.abs(t.amount);
+      if (t.transferAccountId) {
+        book(t.accountId as string, -amount);
+        book(t.transferAccountId, amount);
+      } else {
+        book(t.accountId as string, isIncomeTransaction(t, categories) ? amount : -amount);
+      }
+    });
+
+  return accounts.map((account) => ({
+    ...account,
+    balance: roundChf(account.openingBalance + (balances.get(account.id) ?? 0)),
+    transactionCount: counts.get(account.id) ?? 0,
+  }));
+}
+
+/** Sum of the balances of the accounts spending is paid from (bank, card, cash) */
+export function spendingBalance(balances: AccountBalance[]): number {
+  return roundChf(
+    balances
+      .filter((account) => SPENDING_ACCOUNT_TYPES.includes(account.type))
+      .reduce((sum, account) => sum + account.balance, 0)
+  );
+}
+
+/**
+ * Validates an account payload against the user's accounts. With `existing`, missing fields
+ * keep their stored value (partial edit).
+ */
+export function parseAccountInput(body: any, accounts: Account[], existing?: Account): AccountInput {
+  const pick = (key: keyof AccountInput) => (body[key] !== undefined ? body[key] : existing?.[key]);
+
+  const name = String(pick('name') ?? '').trim();
+  if (!name) throw new AccountValidationError('Name ist erforderlich');
+  if (accounts.some((account) => account.id !== existing?.id && account.name.toLowerCase() === name.toLowerCase())) {
+    throw new AccountValidationError('Konto existiert bereits');
+  }
+
+  const type = pick('type') ?? 'bank';
+  if (!ACCOUNT_TYPES.includes(type)) {
+    throw new AccountValidationError(`type muss ${ACCOUNT_TYPES.join(', ')} sein`);
+  }
+
+  const openingBalance = Number(pick('openingBalance') ?? 0);
+  if (!Number.isFinite(openingBalance)) throw new AccountValidationError('openingBalance muss ein Betrag sein');
+
+  return { name, type, openingBalance };
+}
+
+/**
+ * Validates `accountId` and `transferAccountId` of a transaction payload. Missing fields keep
+ * the value of `existing`, null or an empty string removes the reference.
+ */
+export function parseAccountRefs(body: any, accounts: Account[], existing?: Transaction): AccountRefs {
+  const pick = (key: keyof AccountRefs): string | null =>
+    body[key] !== undefined ? body[key] || null : existing?.[key] ?? null;
+  const accountId = pick('accountId');
+  const transferAccountId = pick('transferAccountId');
+  const known = (id: string) => accounts.some((account) => account.id === id);
+
+  if (accountId && !known(accountId)) throw new AccountValidationError('Konto nicht gefunden');
+  if (transferAccountId && !known(transferAccountId)) throw new AccountValidationError('Zielkonto nicht gefunden');
+  if (transferAccountId && !accountId) {
+    throw new AccountValidationError('Eine Umbuchung braucht ein Ausgangskonto');
+  }
+  if (transferAccountId && transferAccountId === accountId) {
+    throw new AccountValidationError('Ausgangs- und Zielkonto müssen verschieden sein');
+  }
+  return { accountId, transferAccountId };
+}
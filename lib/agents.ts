@@ -3,9 +3,9 @@
  *
  * This module implements the four core agents that power the AI analysis:
  * 1. DataExtractionAgent - Parses raw input into structured transactions
- * 2. ImpulseClassificationAgent - Classifies transactions with AI
+ * 2. ImpulseClassificationAgent - Classifies transactions with AI (one at a time or batched for imports)
  * 3. SavingsGoalAgent - Extracts savings goals from natural language
- * 4. BudgetPlannerAgent - Generates budget summaries and behavioral insights
+ * 4. BudgetPlannerAgent - Generates budget summaries, category envelopes and behavioral insights
  *
  * Each agent has clear input/output types and can be easily replaced or extended.
  * In a future Strapi backend, these could become Strapi plugins or services.
@@ -14,34 +14,54 @@
 import { randomUUID } from 'crypto';
 import { callOpenAI } from './openai';
 import { getKaggleFewShots } from './kaggleData';
+import { DEFAULT_TAXONOMY, FALLBACK_CATEGORY, flattenCategoryTree, resolveCategoryName } from './categories';
+import { budgetPeriods, DEFAULT_BUDGET_PERIOD } from './budgetPeriod';
+import { deriveBudget } from './budgetProfile';
+import { computeEnvelopes } from './envelopes';
+import { resolveMerchant } from './merchants';
+import { getMerchants } from './repository';
+import { isBookedExpense, isSalaryTransaction, isTransferTransaction } from './transactionFilters';
 import type {
   DataExtractionInput,
   Transaction,
   ImpulseClassificationInput,
   ImpulseClassificationOutput,
+  BatchImpulseClassificationInput,
   SavingsGoalInput,
   SavingsGoalOutput,
   BudgetPlannerInput,
   BudgetPlannerOutput,
+  BudgetPeriod,
+  BudgetPeriodSetting,
   CategorySpending,
+  Category,
+  ClassificationHistory,
+  Merchant,
 } from './types';
 
 /**
  * AGENT 1: DataExtractionAgent
  * Converts raw form input into a structured Transaction object
- * This is currently simple mapping but could be extended with NLP parsing
+ * Merchant names are normalised and mapped onto the user's merchant directory; the original
+ * text is kept as rawMerchant. Pass `merchants` when extracting many rows at once.
  */
 export async function dataExtractionAgent(
   input: DataExtractionInput,
-  userId: string
+  userId: string,
+  merchants?: Merchant[]
 ): Promise<Omit<Transaction, 'category' | 'isImpulse' | 'decisionLabel' | 'decisionExplanation'>> {
+  const rawMerchant = input.merchant.trim();
+  const resolved = resolveMerchant(merchants ?? (await getMerchants(userId)), rawMerchant);
+  const rawCategory = input.rawCategory?.trim() || resolved.merchant?.defaultCategory;
+
   const transaction = {
     id: randomUUID(),
     userId,
     date: input.date || new Date().toISOString().split('T')[0],
-    merchant: input.merchant.trim(),
+    merchant: resolved.name,
+    rawMerchant: resolved.name !== rawMerchant ? rawMerchant : undefined,
     amount: Number(input.amount),
-    rawCategory: input.rawCategory?.trim(),
+    rawCategory,
     justification: input.justification?.trim(),
   };
 
@@ -56,7 +76,9 @@ export async function dataExtractionAgent(
 export async function impulseClassificationAgent(
   input: ImpulseClassificationInput
 ): Promise<ImpulseClassificationOutput> {
-  const { transaction } = input;
+  const { transaction, history } = input;
+  const categories = input.categories ?? DEFAULT_TAXONOMY;
+  const categoryList = categoryPromptList(categories);
 
   // Get few-shot examples from Kaggle dataset
   const fewShots = await getKaggleFewShots();
@@ -68,7 +90,7 @@ export async function impulseClassificationAgent(
         `Beispiel:
 Händler: ${shot.merchant}
 Betrag: ${shot.amount} CHF
-Kategorie: ${shot.category}
+Kategorie: ${resolveCategoryName(categories, shot.category) ?? shot.category}
 Impulskauf: ${shot.isImpulse ? 'Ja' : 'Nein'}
 Entscheidung: ${shot.decisionLabel === 'useful' ? 'Sinnvoll' : 'Unnötig'}
 Erklärung: ${shot.decisionExplanation}`
@@ -78,11 +100,16 @@ Erklärung: ${shot.decisionExplanation}`
   const systemPrompt = `Du bist ein KI-Experte für persönliche Finanzen. Deine Aufgabe ist es, Transaktionen zu analysieren und zu kategorisieren.
 
 Analysiere die Transaktion und gib eine JSON-Antwort mit folgenden Feldern zurück:
-- category: Nutze bevorzugt eine der folgenden Kategorien: "Lohn", "Weitere Einnahmen", "Zahlungen", "Mobilität - Öffentlicher Verkehr", "Mobilität - Auto", "Shopping", "Lebensmittel", "Gastronomie", "Unterhaltung", "Persönliches", "Reisen", "Bargeldbezug", "Gesundheit", "Sparen & Anlegen", "Wohnen", "Steuern", "Allgemeines", "Abos", "Bildung". Falls keine passt, erfinde eine kurze, prägnante Kategorie. Wichtig: Alle Lohneingänge (auch Nebenjob, Werkstudent, 450€-Job, Teilzeit) bitte als "Lohn" kategorisieren, nur unregelmäßige sonstige Einnahmen als "Weitere Einnahmen".
+- category: Nutze genau eine der folgenden Kategorien (Unterkategorien sind eingerückt, nimm die spezifischste passende):
+${categoryList}
+  Falls keine passt, nutze "${FALLBACK_CATEGORY}". Wichtig: Alle Lohneingänge (auch Nebenjob, Werkstudent, 450€-Job, Teilzeit) bitte als "Lohn" kategorisieren, nur unregelmäßige sonstige Einnahmen als "Weitere Einnahmen".
 - isImpulse: true wenn es ein Impulskauf war (spontan, emotional, ungeplant), sonst false
 - decisionLabel: "useful" wenn der Kauf sinnvoll/notwendig war, "unnecessary" wenn unnötig
 - decisionExplanation: Eine kurze Erklärung auf Deutsch (1-2 Sätze), die dem Nutzer hilft, sein Kaufverhalten zu reflektieren
-- Sei vorsichtig mit "unnecessary": Markiere Ausgaben nur dann als eher unnötig, wenn sie klar nicht ins Budget passen (z.B. sehr hoher Betrag) oder wenn sich gleichartige Ausgaben in kurzer Zeit häufen (z.B. mehrere Restaurantbesuche im gleichen Monat). Ohne Verlaufskontext entscheide milde und gib eher "useful" mit Hinweis auf bewussten Konsum.
+- confidence: Zahl zwischen 0 und 1, wie sicher du bei der Kategorie bist (z.B. 0.95 bei eindeutigen Händlern wie "Migros", 0.4 wenn du raten musst)
+- Sei vorsichtig mit "unnecessary": Markiere Ausgaben nur dann als eher unnötig, wenn sie klar nicht ins Budget passen (z.B. sehr hoher Betrag) oder wenn sich gleichartige Ausgaben in kurzer Zeit häufen (z.B. mehrere Restaurantbesuche im gleichen Monat).
+- Nutze den Verlaufskontext, falls vorhanden: Häufen sich ähnliche Käufe in den letzten 7/30 Tagen, ist das Monatsbudget bereits weitgehend ausgeschöpft oder fällt der Kauf spätabends/nachts an, spricht das für einen Impulskauf. Ein einzelner, seltener Kauf bei genug Budget eher nicht. Begründe mit den konkreten Zahlen.
+- Ohne Verlaufskontext entscheide milde und gib eher "useful" mit Hinweis auf bewussten Konsum.
 - Wenn ein Kauf Sparziele konterkariert (z.B. hoher Betrag in Shopping, während gespart werden soll), erwähne das als Denkanstoß.
 
 Hier sind einige Beispiele zur Orientierung:
@@ -95,7 +122,8 @@ Antworte NUR mit einem gültigen JSON-Objekt, ohne zusätzlichen Text.`;
 Händler: ${transaction.merchant}
 Betrag: ${transaction.amount} CHF
 ${transaction.rawCategory ? `Kategorie (vom Nutzer): ${transaction.rawCategory}` : ''}
-${transaction.justification ? `Begründung: ${transaction.justification}` : ''}`;
+${transaction.justification ? `Begründung: ${transaction.justification}` : ''}
+${history ? formatClassificationHistory(history) : ''}`;
 
   try {
     const response = await callOpenAI(systemPrompt, userPrompt, 0.3);
@@ -103,31 +131,193 @@ ${transaction.justification ? `Begründung: ${transaction.justification}` : ''}`
     // Parse JSON response
     const jsonMatch = response.match(/\{[\s\S]*\}/);
     if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-      return {
-        category: parsed.category || 'Allgemeines',
-        isImpulse: Boolean(parsed.isImpulse),
-        decisionLabel: parsed.decisionLabel === 'unnecessary' ? 'unnecessary' : 'useful',
-        decisionExplanation: parsed.decisionExplanation || 'Keine Erklärung verfügbar.',
-      };
+      return parseClassification(JSON.parse(jsonMatch[0]), categories);
     }
   } catch (error) {
     console.error('Error in impulseClassificationAgent:', error);
   }
 
   // Fallback classification
-  return fallbackClassification(transaction);
+  return fallbackClassification(transaction, categories, history);
+}
+
+/**
+ * ImpulseClassificationAgent for bulk imports: classifies many transactions with one prompt
+ * and a JSON array answer (German and English explanation, no few-shots to keep the prompt
+ * short). Entries the model skips or garbles get the keyword fallback.
+ */
+export async function batchImpulseClassificationAgent(
+  input: BatchImpulseClassificationInput
+): Promise<ImpulseClassificationOutput[]> {
+  const { items } = input;
+  const categories = input.categories ?? DEFAULT_TAXONOMY;
+  if (items.length === 0) return [];
+
+  const systemPrompt = `Du bist ein KI-Experte für persönliche Finanzen. Deine Aufgabe ist es, eine nummerierte Liste von Transaktionen zu analysieren und zu kategorisieren.
+
+Gib für jede Transaktion ein Objekt mit folgenden Feldern zurück:
+- index: Nummer der Transaktion aus der Liste
+- category: Nutze genau eine der folgenden Kategorien (Unterkategorien sind eingerückt, nimm die spezifischste passende):
+${categoryPromptList(categories)}
+  Falls keine passt, nutze "${FALLBACK_CATEGORY}". Lohneingänge als "Lohn", sonstige Einnahmen als "Weitere Einnahmen".
+- isImpulse: true wenn es ein Impulskauf war (spontan, emotional, ungeplant), sonst false
+- decisionLabel: "useful" wenn der Kauf sinnvoll/notwendig war, "unnecessary" wenn unnötig
+- decisionExplanation: kurze Erklärung auf Deutsch (1 Satz)
+- decisionExplanationEn: dieselbe Erklärung auf Englisch
+- confidence: Zahl zwischen 0 und 1, wie sicher du bei der Kategorie bist
+
+Markiere Ausgaben nur als "unnecessary", wenn sie klar nicht ins Budget passen oder sich gleichartige Käufe häufen. Nutze dafür den Verlauf je Zeile und die übrigen Zeilen der Liste (gleiche Händler in kurzer Zeit). Ohne Hinweise entscheide milde.
+
+Antworte NUR mit einem gültigen JSON-Array (ein Objekt pro Transaktion, gleiche Reihenfolge), ohne zusätzlichen Text.`;
+
+  const goals = items.find((item) => item.history)?.history?.savingsGoals ?? [];
+  const lines = items.map(({ transaction, history }, i) =>
+    [
+      `[${i + 1}] ${transaction.date.slice(0, 10)}`,
+      transaction.merchant,
+      `${transaction.amount} CHF`,
+      transaction.rawCategory ? `Kategorie (vom Nutzer): ${transaction.rawCategory}` : '',
+      transaction.justification ? `Begründung: ${transaction.justification}` : '',
+      history ? `Verlauf: ${formatHistoryShort(history)}` : '',
+    ]
+      .filter(Boolean)
+      .join(' | ')
+  );
+  const userPrompt = `${
+    goals.length > 0
+      ? `Aktive Sparziele: ${goals.map((goal) => `"${goal.title}" (${goal.requiredPerMonth.toFixed(0)} CHF/Monat)`).join('; ')}\n\n`
+      : ''
+  }Transaktionen:
+${lines.join('\n')}`;
+
+  let parsed: any[] = [];
+  try {
+    const response = await callOpenAI(systemPrompt, userPrompt, 0.3, 250 * items.length + 200);
+    const jsonMatch = response.match(/\[[\s\S]*\]/);
+    if (jsonMatch) parsed = JSON.parse(jsonMatch[0]);
+  } catch (error) {
+    console.error('Error in batchImpulseClassificationAgent:', error);
+  }
+
+  return items.map(({ transaction, history }, i) => {
+    const entry = Array.isArray(parsed)
+      ? parsed.find((candidate) => Number(candidate?.index) === i + 1) ?? parsed[i]
+      : undefined;
+    if (entry && typeof entry === 'object' && entry.category) {
+      return parseClassification(entry, categories);
+    }
+    return fallbackClassification(transaction, categories, history);
+  });
+}
+
+/**
+ * Taxonomy as indented prompt list
+ */
+function categoryPromptList(categories: Category[]): string {
+  return flattenCategoryTree(categories)
+    .map(({ category, depth }) => `${'  '.repeat(depth + 1)}- "${category.name}" (${category.kind === 'income' ? 'Einnahme' : 'Ausgabe'})`)
+    .join('\n');
+}
+
+/**
+ * Validates one classification answer of the model against the taxonomy
+ */
+function parseClassification(parsed: any, categories: Category[]): ImpulseClassificationOutput {
+  return {
+    category: resolveCategoryName(categories, parsed.category) ?? fallbackCategory(categories),
+    isImpulse: Boolean(parsed.isImpulse),
+    decisionLabel: parsed.decisionLabel === 'unnecessary' ? 'unnecessary' : 'useful',
+    decisionExplanation: parsed.decisionExplanation || 'Keine Erklärung verfügbar.',
+    decisionExplanationEn:
+      typeof parsed.decisionExplanationEn === 'string' && parsed.decisionExplanationEn.trim()
+        ? parsed.decisionExplanationEn.trim()
+        : undefined,
+    confidence: parseConfidence(parsed.confidence),
+    source: 'llm',
+  };
+}
+
+/**
+ * Verlaufskontext als Kurzform für eine Zeile im Batch-Prompt
+ */
+function formatHistoryShort(history: ClassificationHistory): string {
+  const parts = [
+    history.monthlyBudget
+      ? `Monat ${history.monthSpent.toFixed(0)}/${history.monthlyBudget.toFixed(0)} CHF`
+      : `Monat ${history.monthSpent.toFixed(0)} CHF`,
+  ];
+  if (history.likelyCategory && history.categoryMonthSpent !== undefined) {
+    parts.push(`"${history.likelyCategory}" bisher ${history.categoryMonthSpent.toFixed(0)} CHF`);
+  }
+  parts.push(`ähnliche Käufe 7T: ${history.similarLast7Days}, 30T: ${history.similarLast30Days}`);
+  if (history.hourOfDay !== undefined) parts.push(`${String(history.hourOfDay).padStart(2, '0')} Uhr`);
+  return parts.join(', ');
+}
+
+/**
+ * Verlaufskontext als Textblock für den Prompt
+ */
+function formatClassificationHistory(history: ClassificationHistory): string {
+  const lines = [`Verlaufskontext (${history.month}):`];
+  lines.push(
+    history.monthlyBudget
+      ? `- Ausgaben diesen Monat: ${history.monthSpent.toFixed(2)} CHF von ${history.monthlyBudget.toFixed(2)} CHF Budget (${Math.round((history.monthSpent / history.monthlyBudget) * 100)} %)`
+      : `- Ausgaben diesen Monat: ${history.monthSpent.toFixed(2)} CHF (kein Budget bekannt)`
+  );
+  if (history.likelyCategory && history.categoryMonthSpent !== undefined) {
+    lines.push(`- Bisher in "${history.likelyCategory}" diesen Monat: ${history.categoryMonthSpent.toFixed(2)} CHF`);
+  }
+  lines.push(
+    `- Ähnliche Käufe (gleicher Händler${history.likelyCategory ? ' oder gleiche Kategorie' : ''}): ${history.similarLast7Days} in den letzten 7 Tagen, ${history.similarLast30Days} in den letzten 30 Tagen`
+  );
+  if (history.savingsGoals.length > 0) {
+    const goals = history.savingsGoals
+      .map((goal) => `"${goal.title}" (noch ${goal.remaining.toFixed(0)} CHF, ${goal.requiredPerMonth.toFixed(0)} CHF/Monat für ${goal.monthsLeft} Monate)`)
+      .join('; ');
+    lines.push(`- Aktive Sparziele: ${goals}`);
+  } else {
+    lines.push('- Keine aktiven Sparziele');
+  }
+  if (history.hourOfDay !== undefined) {
+    lines.push(`- Uhrzeit: ${String(history.hourOfDay).padStart(2, '0')} Uhr`);
+  }
+  return lines.join('\n');
 }
 
+/**
+ * Confidence reported by the model, clamped to 0-1; a missing value counts as moderately sure
+ */
+function parseConfidence(value: unknown): number {
+  const confidence = Number(value);
+  if (value === undefined || value === null || Number.isNaN(confidence)) return 0.7;
+  return Math.min(1, Math.max(0, confidence));
+}
+
+/**
+ * "Allgemeines", or the first expense category when the user removed it
+ */
+function fallbackCategory(categories: Category[]): string {
+  return (
+    resolveCategoryName(categories, FALLBACK_CATEGORY) ??
+    categories.find((category) => category.kind === 'expense')?.name ??
+    FALLBACK_CATEGORY
+  );
+}
+
+// Verzichtbare Ausgaben, bei denen eine Häufung auf Impulskäufe hindeutet
+const DISCRETIONARY_CATEGORIES = ['Gastronomie', 'Shopping', 'Unterhaltung'];
+
 /**
  * Fallback classification when AI is not available
  */
 function fallbackClassification(
-  transaction: Omit<Transaction, 'category' | 'isImpulse' | 'decisionLabel' | 'decisionExplanation'>
+  transaction: Omit<Transaction, 'category' | 'isImpulse' | 'decisionLabel' | 'decisionExplanation'>,
+  categories: Category[],
+  history?: ClassificationHistory
 ): ImpulseClassificationOutput {
   const merchant = transaction.merchant.toLowerCase();
 
-  let category = 'Allgemeines';
+  let category = FALLBACK_CATEGORY;
   let isImpulse = false;
   let decisionLabel: 'useful' | 'unnecessary' = 'useful';
 
@@ -181,11 +371,29 @@ function fallbackClassification(
     category = 'Bildung';
   }
 
-  const decisionExplanation = isImpulse
+  // Häufung verzichtbarer Käufe (ab dem dritten ähnlichen Kauf innert 7 Tagen) gilt als Impuls
+  const recentSimilar = history?.similarLast7Days ?? 0;
+  const repeated = recentSimilar >= 2 && DISCRETIONARY_CATEGORIES.includes(category);
+  if (repeated) {
+    isImpulse = true;
+    decisionLabel = 'unnecessary';
+  }
+
+  const decisionExplanation = repeated
+    ? `Bereits ${recentSimilar} ähnliche Käufe in den letzten 7 Tagen. Überlege, ob dieser zusätzliche Kauf bei ${transaction.merchant} nötig war.`
+    : isImpulse
     ? `Spontaner Kauf bei ${transaction.merchant}. Überlege beim nächsten Mal, ob du das wirklich brauchst.`
     : `Regulärer Kauf bei ${transaction.merchant}. Scheint geplant und sinnvoll zu sein.`;
 
-  return { category, isImpulse, decisionLabel, decisionExplanation };
+  return {
+    category: resolveCategoryName(categories, category) ?? fallbackCategory(categories),
+    isImpulse,
+    decisionLabel,
+    decisionExplanation,
+    // A keyword hit is a plausible guess, the default category is none
+    confidence: category === FALLBACK_CATEGORY ? 0.2 : 0.5,
+    source: 'fallback',
+  };
 }
 
 /**
@@ -263,17 +471,26 @@ Antworte NUR mit einem gültigen JSON-Objekt mit den Feldern: goalTitle, targetA
 export async function budgetPlannerAgent(input: BudgetPlannerInput): Promise<BudgetPlannerOutput> {
   const {
     monthlyNetIncome,
-    transactions,
+    budgetProfile,
+    monthlyFlexibleBudget,
+    transactions: allTransactions,
     month,
     timeframe = 'month',
     budgetMode = 'auto',
     startDate,
     endDate,
+    categories = DEFAULT_TAXONOMY,
+    budgetPeriod,
   } = input;
 
-  // Relevante Transaktionen nach Zeitraum filtern (Monat oder ganzes Jahr)
-  const scopedTransactions = filterTransactionsByScope(transactions, month, timeframe, startDate, endDate);
-  const expenseTransactions = scopedTransactions.filter((t) => !isIncomeTransaction(t));
+  // Umbuchungen zwischen eigenen Konten (z.B. aufs Sparkonto) sind weder Einnahme noch Ausgabe
+  const transactions = allTransactions.filter((t) => !isTransferTransaction(t));
+
+  // Relevante Transaktionen nach Zeitraum filtern (Budgetperiode, ganzes Jahr oder Custom)
+  const period = resolveScope(timeframe, month, transactions, startDate, endDate, budgetPeriod);
+  const scopedTransactions = filterTransactionsByScope(transactions, period);
+  // Gleicher Filter wie bei den Envelopes: nur gebuchte Ausgaben, offene Rechnungen zählen erst bezahlt
+  const expenseTransactions = scopedTransactions.filter((t) => isBookedExpense(t, categories));
   const salaryTransactions = scopedTransactions.filter(isSalaryTransaction);
 
   // Lohnhistorie auswerten und Durchschnitt berechnen (max. letzte 12 Monate, nur Lohn)
@@ -281,10 +498,11 @@ export async function budgetPlannerAgent(input: BudgetPlannerInput): Promise<Bud
   const inferredSalary = inferMonthlySalaryFromHistory(transactions, referenceMonth);
   const salarySumInScope = salaryTransactions.reduce((sum, t) => sum + Math.abs(t.amount), 0);
 
-  // Manuelle Vorgabe bevorzugen, falls der Nutzer das Budget angepasst hat
-  const manualBudget = budgetMode === 'manual' && monthlyNetIncome > 0 ? monthlyNetIncome * 0.6 : undefined;
+  // Manuelle Vorgabe bevorzugen: gespeichertes flexibles Budget aus dem Budgetprofil
+  const storedBudget = monthlyFlexibleBudget ?? deriveBudget(monthlyNetIncome, budgetProfile).flexibleBudget;
+  const manualBudget = budgetMode === 'manual' && storedBudget > 0 ? storedBudget : undefined;
 
-  // Budget: bevorzugt tatsächliche Lohnsumme im Zeitraum; Fallback manuell oder 60%-Schätzwert
+  // Budget: bevorzugt tatsächliche Lohnsumme im Zeitraum; Fallback manuell oder Budgetmodell auf den Lohn angewendet
   const monthsInScope = calculateMonthsInScope(timeframe, month, startDate, endDate);
   const manualScopedBudget = manualBudget !== undefined ? manualBudget * monthsInScope : undefined;
 
@@ -294,8 +512,8 @@ export async function budgetPlannerAgent(input: BudgetPlannerInput): Promise<Bud
       : salarySumInScope > 0
       ? salarySumInScope
       : inferredSalary > 0
-      ? inferredSalary * 0.6 * monthsInScope
-      : monthlyNetIncome * 0.6 * monthsInScope;
+      ? deriveBudget(inferredSalary, budgetProfile).flexibleBudget * monthsInScope
+      : deriveBudget(monthlyNetIncome, budgetProfile).flexibleBudget * monthsInScope;
 
   // Calculate total spent (nur Ausgaben)
   const usedBudget = expenseTransactions.reduce((sum, t) => sum + Math.abs(t.amount), 0);
@@ -311,21 +529,27 @@ export async function budgetPlannerAgent(input: BudgetPlannerInput): Promise<Bud
     .map(([category, amount]) => ({ category, amount }))
     .sort((a, b) => b.amount - a.amount);
 
+  // Budget vs. Ist je Kategorie (Envelopes), Übertrag aus den Perioden vor dem Zeitraum
+  const envelopes = computeEnvelopes(categories, transactions, {
+    start: period.start,
+    months: monthsInScope,
+    transactions: scopedTransactions,
+  });
+
   // Detect patterns and generate nudges (nur Ausgaben, zeitraumabhängig)
   const patterns = detectPatterns({
     transactions: expenseTransactions,
-    timeframe,
     budget: scopedBudget,
     usedBudget,
-    startDate,
-    endDate,
-    month,
+    period,
   });
 
   return {
     monthlyBudget: scopedBudget,
     usedBudget,
     byCategory,
+    envelopes,
+    period,
     patterns,
     timeframe,
   };
@@ -336,16 +560,13 @@ export async function budgetPlannerAgent(input: BudgetPlannerInput): Promise<Bud
  */
 type PatternInput = {
   transactions: Transaction[];
-  timeframe: 'month' | 'year' | 'custom';
   budget?: number;
   usedBudget?: number;
-  startDate?: string;
-  endDate?: string;
-  month?: string;
+  period: BudgetPeriod;
 };
 
 function detectPatterns(input: PatternInput): string[] {
-  const { transactions, timeframe, budget, usedBudget, startDate, endDate, month } = input;
+  const { transactions, budget, usedBudget, period } = input;
   const patterns: string[] = [];
 
   if (transactions.length === 0) {
@@ -355,22 +576,9 @@ function detectPatterns(input: PatternInput): string[] {
   const absAmount = (t: Transaction) => Math.abs(t.amount);
   const totalSpent = transactions.reduce((sum, t) => sum + absAmount(t), 0);
 
-  // Scope dates for rate/prognosis
-  const scopeStart = (() => {
-    if (timeframe === 'custom' && startDate) return new Date(startDate);
-    if (timeframe === 'year' && month) return new Date(`${month.slice(0, 4)}-01-01`);
-    if (month) return new Date(`${month}-01`);
-    return new Date(transactions[0].date);
-  })();
-  const scopeEnd = (() => {
-    if (timeframe === 'custom' && endDate) return new Date(endDate);
-    if (timeframe === 'year' && month) return new Date(`${month.slice(0, 4)}-12-31`);
-    if (month) {
-      const d = new Date(`${month}-01`);
-      return new Date(d.getFullYear(), d.getMonth() + 1, 0);
-    }
-    return new Date(transactions[transactions.length - 1].date);
-  })();
+  // Scope dates for rate/prognosis (budget period, year or custom range)
+  const scopeStart = new Date(period.start);
+  const scopeEnd = new Date(period.end);
   const totalDays = Math.max(1, Math.ceil((scopeEnd.getTime() - scopeStart.getTime()) / (1000 * 60 * 60 * 24)) + 1);
   const now = new Date();
   const elapsedDays = Math.min(
@@ -470,45 +678,36 @@ function detectPatterns(input: PatternInput): string[] {
 }
 
 /**
- * Hilfsfunktion: erkennt Einnahmen anhand Kategorie und Textfeldern
- */
-function isIncomeTransaction(t: Transaction): boolean {
-  const incomeKeywords = ['lohn', 'salaer', 'salär', 'gehalt', 'salary', 'payroll', 'einkommen', 'bonus', 'wage', 'nebenjob', 'werkstudent'];
-  const text = [t.merchant, t.rawCategory || '', t.justification || '']
-    .join(' ')
-    .toLowerCase();
-  return incomeKeywords.some((kw) => text.includes(kw)) || t.category === 'Einnahmen' || t.category === 'Lohn' || t.category === 'Weitere Einnahmen';
-}
-
-/**
- * Hilfsfunktion: erkennt explizit Lohn (ohne weitere Einnahmen)
- */
-function isSalaryTransaction(t: Transaction): boolean {
-  const salaryKeywords = ['lohn', 'salaer', 'salär', 'gehalt', 'salary', 'payroll', 'wage', 'nebenjob', 'werkstudent'];
-  const text = [t.merchant, t.rawCategory || '', t.justification || '', t.category]
-    .join(' ')
-    .toLowerCase();
-  return salaryKeywords.some((kw) => text.includes(kw)) || t.category === 'Lohn';
-}
-
-/**
- * Filtert Transaktionen basierend auf Monat oder gesamtem Jahr
+ * Ermittelt den Betrachtungszeitraum als Datumsbereich: ganzes Jahr, Custom-Bereich oder die
+ * Budgetperiode (Kalendermonat oder ab Zahltag). Im laufenden Monat gilt die Periode, in der
+ * heute liegt, sonst die im Referenzmonat beginnende.
  */
-function filterTransactionsByScope(
-  transactions: Transaction[],
-  month: string,
+function resolveScope(
   timeframe: 'month' | 'year' | 'custom',
+  month: string,
+  transactions: Transaction[],
   startDate?: string,
-  endDate?: string
-): Transaction[] {
+  endDate?: string,
+  budgetPeriod: BudgetPeriodSetting = DEFAULT_BUDGET_PERIOD
+): BudgetPeriod {
   if (timeframe === 'year') {
-    const yearPrefix = month.slice(0, 4);
-    return transactions.filter((t) => t.date.startsWith(yearPrefix));
+    const year = month.slice(0, 4);
+    return { start: `${year}-01-01`, end: `${year}-12-31` };
   }
   if (timeframe === 'custom' && startDate && endDate) {
-    return transactions.filter((t) => t.date >= startDate && t.date <= endDate);
+    return { start: startDate, end: endDate };
   }
-  return transactions.filter((t) => t.date.startsWith(month));
+  const periods = budgetPeriods(budgetPeriod, transactions);
+  const now = new Date();
+  const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+  return today.startsWith(month) ? periods.containing(today) : periods.startingIn(month);
+}
+
+/**
+ * Filtert Transaktionen auf den Betrachtungszeitraum (Grenzen inklusive)
+ */
+function filterTransactionsByScope(transactions: Transaction[], period: BudgetPeriod): Transaction[] {
+  return transactions.filter((t) => t.date.slice(0, 10) >= period.start && t.date.slice(0, 10) <= period.end);
 }
 
 /**
@@ -535,7 +734,7 @@ function calculateMonthsInScope(
 /**
  * Leitet das durchschnittliche monatliche Nettoeinkommen aus vergangenen Lohnzahlungen ab
  */
-function inferMonthlySalaryFromHistory(transactions: Transaction[], referenceMonth: string): number {
+export function inferMonthlySalaryFromHistory(transactions: Transaction[], referenceMonth: string): number {
   const salaryTransactions = transactions.filter(isSalaryTransaction);
   if (salaryTransactions.length === 0) return 0;
 
@@ -0,0 +1,62 @@
+/**
+ * Session resolver (server-only)
+ * Derives the signed-in user for API routes from the Supabase access token.
+ * The browser mirrors its session token into a cookie (see hooks/useAuth.tsx);
+ * API clients can send the same token as `Authorization: Bearer <token>`.
+ * With the in-memory storage backend (only with STORAGE_BACKEND=memory) there is no auth
+ * service: every request acts as the single local user (LOCAL_USER_ID, default `localUser`).
+ */
+
+import 'server-only';
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseClient } from './supabase';
+import { getStorageBackend, getUser, createUser } from './repository';
+
+// Must match the cookie name written by hooks/useAuth.tsx
+const ACCESS_TOKEN_COOKIE = 'sb-access-token';
+
+function readAccessToken(request: NextRequest): string | null {
+  const header = request.headers.get('authorization');
+  if (header && header.toLowerCase().startsWith('bearer ')) {
+    const token = header.slice(7).trim();
+    if (token) return token;
+  }
+  return request.cookies.get(ACCESS_TOKEN_COOKIE)?.value || null;
+}
+
+/**
+ * Returns the id of the authenticated user or null if the request carries no valid session.
+ * On the first request of a new account the matching `users` profile row is created.
+ */
+export async function getSessionUserId(request: NextRequest): Promise<string | null> {
+  if (getStorageBackend() === 'memory') {
+    const localUserId = process.env.LOCAL_USER_ID || 'localUser';
+    await ensureUserProfile(localUserId, 'Local User');
+    return localUserId;
+  }
+
+  const token = readAccessToken(request);
+  if (!token) return null;
+
+  const { data, error } = await getSupabaseClient().auth.getUser(token);
+  if (error || !data.user) return null;
+
+  const authUser = data.user;
+  await ensureUserProfile(authUser.id, authUser.user_metadata?.name || authUser.email?.split('@')[0] || 'Nutzer');
+
+  return authUser.id;
+}
+
+async function ensureUserProfile(userId: string, name: string) {
+  const existing = await getUser(userId);
+  if (!existing) {
+    await createUser({ id: userId, name, monthlyNetIncome: 0 });
+  }
+}
+
+/**
+ * Standard 401 response for routes that require a session
+ */
+export function unauthorizedResponse() {
+  return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 });
+}
@@ -0,0 +1,119 @@
+/**
+ * Budget periods
+ * A budget "month" can start on a fixed day or on payday instead of the 1st, so spending right
+ * before the salary arrives does not count against the new month's budget. In salary mode the
+ * usual payday is detected from the history, and a salary paid a few days early (weekend,
+ * holiday) opens the new period on the day it arrived.
+ * Client-safe: the budget dialog shows the detected day.
+ */
+
+import { BudgetProfileValidationError } from './budgetProfile';
+import { addPeriods } from './subscriptions';
+import { isSalaryTransaction } from './transactionFilters';
+import type { BudgetPeriod, BudgetPeriodSetting, Transaction, User } from './types';
+
+export const BUDGET_PERIOD_MODES: BudgetPeriodSetting['mode'][] = ['calendar', 'fixed', 'salary'];
+
+export const DEFAULT_BUDGET_PERIOD: BudgetPeriodSetting = { mode: 'calendar', day: 1 };
+
+// Later start days would not exist in February
+const MAX_START_DAY = 28;
+// A salary paid up to this many days before the usual day still starts the new period
+const SALARY_SNAP_DAYS = 5;
+// Latest paydays used to detect the usual day
+const SALARY_SAMPLE = 6;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function shiftDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+const shiftMonth = (month: string, count: number) => addPeriods(`${month}-01`, 'monthly', count).slice(0, 7);
+
+export function budgetPeriodOf(user: User | null | undefined): BudgetPeriodSetting {
+  return user?.budgetPeriod ?? DEFAULT_BUDGET_PERIOD;
+}
+
+/** First booked salary payment of each month, oldest first */
+function paydays(transactions: Transaction[]): string[] {
+  const byMonth = new Map<string, string>();
+  transactions
+    .filter((t) => t.status !== 'pending' && isSalaryTransaction(t))
+    .forEach((t) => {
+      const day = t.date.slice(0, 10);
+      const first = byMonth.get(day.slice(0, 7));
+      if (!first || day < first) byMonth.set(day.slice(0, 7), day);
+    });
+  return Array.from(byMonth.values()).sort();
+}
+
+/**
+ * Usual day of month the salary arrives (median of the latest paydays), null without salary
+ */
+export function detectSalaryDay(transactions: Transaction[]): number | null {
+  const days = paydays(transactions)
+    .slice(-SALARY_SAMPLE)
+    .map((date) => Number(date.slice(8, 10)))
+    .sort((a, b) => a - b);
+  if (days.length === 0) return null;
+  const mid = Math.floor(days.length / 2);
+  const median = days.length % 2 ? days[mid] : Math.round((days[mid - 1] + days[mid]) / 2);
+  return Math.min(MAX_START_DAY, median);
+}
+
+/** Day of month the budget periods start on */
+function periodStartDay(setting: BudgetPeriodSetting, transactions: Transaction[]): number {
+  if (setting.mode === 'calendar') return 1;
+  if (setting.mode === 'salary') return detectSalaryDay(transactions) ?? setting.day;
+  return setting.day;
+}
+
+/**
+ * Resolves the setting against the history once; the returned functions give the period
+ * containing a date and the period starting in a month (YYYY-MM)
+ */
+export function budgetPeriods(setting: BudgetPeriodSetting, transactions: Transaction[]) {
+  const day = periodStartDay(setting, transactions);
+  const salaryDates = setting.mode === 'salary' ? paydays(transactions) : [];
+
+  const boundary = (month: string) => {
+    const nominal = `${month}-${pad(day)}`;
+    const earliest = shiftDays(nominal, -SALARY_SNAP_DAYS);
+    return salaryDates.find((date) => date >= earliest && date < nominal) ?? nominal;
+  };
+
+  const startingIn = (month: string): BudgetPeriod => ({
+    start: boundary(month),
+    end: shiftDays(boundary(shiftMonth(month, 1)), -1),
+  });
+
+  const containing = (date: string): BudgetPeriod => {
+    const target = date.slice(0, 10);
+    const month = target.slice(0, 7);
+    // An early salary can open next month's period before the month ends
+    const following = startingIn(shiftMonth(month, 1));
+    if (target >= following.start) return following;
+    const current = startingIn(month);
+    return target >= current.start ? current : startingIn(shiftMonth(month, -1));
+  };
+
+  return { startingIn, containing };
+}
+
+/**
+ * Validates the period fields of a settings payload (`periodMode`, `periodDay`); missing
+ * fields keep the value of `current`
+ */
+export function parseBudgetPeriod(body: any, current: BudgetPeriodSetting = DEFAULT_BUDGET_PERIOD): BudgetPeriodSetting {
+  const mode = body.periodMode ?? current.mode;
+  if (!BUDGET_PERIOD_MODES.includes(mode)) {
+    throw new BudgetProfileValidationError(`periodMode muss ${BUDGET_PERIOD_MODES.join(', ')} sein`);
+  }
+  const day = Number(body.periodDay ?? current.day);
+  if (!Number.isInteger(day) || day < 1 || day > MAX_START_DAY) {
+    throw new BudgetProfileValidationError(`periodDay muss zwischen 1 und ${MAX_START_DAY} liegen`);
+  }
+  return { mode, day };
+}
@@ -0,0 +1,104 @@
+/**
+ * Budget profile
+ * Derives the flexible monthly budget (what is left for day-to-day spending) from the net
+ * income, the fixed costs and the savings target according to the chosen budget model.
+ * Client-safe: the settings dialog uses the same derivation for its live preview.
+ */
+
+import type { BudgetBreakdown, BudgetModel, BudgetProfile, User } from './types';
+
+export const BUDGET_MODELS: BudgetModel[] = ['percentage', 'zero-based', '50-30-20'];
+
+// Without a stored profile the app keeps its original rule: 60 % of the net income
+export const DEFAULT_BUDGET_PROFILE: BudgetProfile = {
+  model: 'percentage',
+  fixedCosts: 0,
+  savingsTarget: 0,
+  flexibleShare: 0.6,
+};
+
+// 50/30/20 rule: needs, wants (= flexible budget), savings
+const WANTS_SHARE = 0.3;
+const SAVINGS_SHARE = 0.2;
+
+const roundChf = (value: number) => Math.round(value * 100) / 100;
+
+export class BudgetProfileValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetProfileValidationError';
+  }
+}
+
+export function budgetProfileOf(user: User | null | undefined): BudgetProfile {
+  return user?.budgetProfile ?? DEFAULT_BUDGET_PROFILE;
+}
+
+/**
+ * Splits the income into fixed costs, savings and the flexible budget:
+ * - percentage: flexible = income × share, savings = target
+ * - zero-based: every franc is assigned, flexible = income − fixed costs − savings target
+ * - 50-30-20: savings at least 20 % of the income, flexible up to 30 %; fixed costs above
+ *   50 % reduce the flexible part
+ */
+export function deriveBudget(netIncome: number, profile: BudgetProfile = DEFAULT_BUDGET_PROFILE): BudgetBreakdown {
+  const income = Math.max(0, netIncome);
+  const { fixedCosts } = profile;
+  let savings = profile.savingsTarget;
+  let flexibleBudget: number;
+
+  if (profile.model === 'zero-based') {
+    flexibleBudget = Math.max(0, income - fixedCosts - savings);
+  } else if (profile.model === '50-30-20') {
+    savings = Math.max(savings, income * SAVINGS_SHARE);
+    flexibleBudget = Math.max(0, Math.min(income * WANTS_SHARE, income - fixedCosts - savings));
+  } else {
+    flexibleBudget = income * profile.flexibleShare;
+  }
+
+  return {
+    model: profile.model,
+    netIncome: roundChf(income),
+    fixedCosts: roundChf(fixedCosts),
+    savings: roundChf(savings),
+    flexibleBudget: roundChf(flexibleBudget),
+    unassigned: roundChf(income - fixedCosts - savings - flexibleBudget),
+  };
+}
+
+/** Stored flexible budget of the user, derived from income and profile when none is stored yet */
+export function flexibleBudgetOf(user: User): number {
+  return user.monthlyFlexibleBudget ?? deriveBudget(user.monthlyNetIncome, budgetProfileOf(user)).flexibleBudget;
+}
+
+function parseAmount(value: unknown, field: string): number {
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new BudgetProfileValidationError(`${field} muss ein Betrag ab 0 sein`);
+  }
+  return amount;
+}
+
+/**
+ * Validates a profile payload; missing fields keep the value of `current`.
+ * `flexibleShare` is accepted as fraction (0.6) or percent (60).
+ */
+export function parseBudgetProfile(body: any, current: BudgetProfile = DEFAULT_BUDGET_PROFILE): BudgetProfile {
+  const model = body.model ?? current.model;
+  if (!BUDGET_MODELS.includes(model)) {
+    throw new BudgetProfileValidationError(`model muss ${BUDGET_MODELS.join(', ')} sein`);
+  }
+
+  let flexibleShare = body.flexibleShare !== undefined ? Number(body.flexibleShare) : current.flexibleShare;
+  if (flexibleShare > 1) flexibleShare /= 100;
+  if (!Number.isFinite(flexibleShare) || flexibleShare < 0 || flexibleShare > 1) {
+    throw new BudgetProfileValidationError('flexibleShare muss zwischen 0 und 100 % liegen');
+  }
+
+  return {
+    model,
+    fixedCosts: parseAmount(body.fixedCosts ?? current.fixedCosts, 'fixedCosts'),
+    savingsTarget: parseAmount(body.savingsTarget ?? current.savingsTarget, 'savingsTarget'),
+    flexibleShare,
+  };
+}
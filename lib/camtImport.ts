@@ -0,0 +1,147 @@
+/**
+ * ISO 20022 camt.053 (account statement) / camt.054 (debit/credit notification) parser
+ * Every booked entry becomes one import row; batch bookings with several transaction details
+ * are split into one row per detail. Counterparty names become the merchant, remittance
+ * information and references the justification. Credits get the `Einnahmen` hint like in
+ * lib/csvImport.ts.
+ */
+
+import { child, childText, children, descendants, parseXml, XmlParseError, type XmlNode } from './xml';
+import type { ImportError, ImportRow } from './imports';
+
+export type CamtFormat = 'camt.053' | 'camt.054';
+
+export interface CamtParseResult {
+  rows: ImportRow[];
+  errors: ImportError[];
+  format: CamtFormat;
+}
+
+/**
+ * Cheap sniffing on the raw text, used by the upload route before parsing
+ */
+export function isCamtDocument(text: string): boolean {
+  const head = text.slice(0, 2000);
+  return /<(\w+:)?Document[\s>]/.test(head) && /camt\.05[34]|BkToCstmr(Stmt|DbtCdtNtfctn)/.test(text.slice(0, 5000));
+}
+
+export function parseCamt(text: string): CamtParseResult {
+  let document: XmlNode;
+  try {
+    document = parseXml(text);
+  } catch (error) {
+    const line = error instanceof XmlParseError ? error.line : 1;
+    const format: CamtFormat = text.includes('BkToCstmrDbtCdtNtfctn') ? 'camt.054' : 'camt.053';
+    return { rows: [], errors: [{ line, message: `Ungültiges XML: ${(error as Error).message}` }], format };
+  }
+
+  const root = child(document, 'Document');
+  const notification = child(root, 'BkToCstmrDbtCdtNtfctn');
+  const format: CamtFormat = notification ? 'camt.054' : 'camt.053';
+  const container = notification ?? child(root, 'BkToCstmrStmt');
+
+  if (!container) {
+    return {
+      rows: [],
+      errors: [{ line: root?.line ?? 1, message: 'Kein camt.053/camt.054 Dokument (BkToCstmrStmt fehlt).' }],
+      format,
+    };
+  }
+
+  const rows: ImportRow[] = [];
+  const errors: ImportError[] = [];
+
+  descendants(container, 'Ntry').forEach((entry) => {
+    // Pending entries (PDNG/INFO) are booked later and would otherwise be imported twice
+    const status = childText(entry, 'Sts', 'Cd') ?? childText(entry, 'Sts');
+    if (status && status !== 'BOOK') return;
+
+    const indicator = childText(entry, 'CdtDbtInd');
+    if (indicator !== 'CRDT' && indicator !== 'DBIT') {
+      errors.push({ line: entry.line, message: 'CdtDbtInd fehlt oder ist ungültig.' });
+      return;
+    }
+    // A reversal flips the direction of the original booking
+    const isCredit = (indicator === 'CRDT') !== (childText(entry, 'RvslInd') === 'true');
+
+    const dateValue =
+      childText(entry, 'BookgDt', 'Dt') ??
+      childText(entry, 'BookgDt', 'DtTm') ??
+      childText(entry, 'ValDt', 'Dt') ??
+      childText(entry, 'ValDt', 'DtTm');
+    const date = dateValue?.slice(0, 10);
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      errors.push({ line: entry.line, message: 'Buchungsdatum fehlt.' });
+      return;
+    }
+
+    const details = children(child(entry, 'NtryDtls'), 'TxDtls');
+    const detailAmounts = details.map(transactionAmount);
+    // Split batch bookings only when every detail carries its own amount
+    const splitDetails = details.length > 1 && detailAmounts.every((amount) => amount !== undefined);
+    const parts = splitDetails
+      ? details.map((detail, idx) => ({ detail, amount: detailAmounts[idx] }))
+      : [{ detail: details[0], amount: parseCamtAmount(childText(entry, 'Amt')) }];
+
+    parts.forEach(({ detail, amount }) => {
+      const line = detail?.line ?? entry.line;
+      if (amount === undefined) {
+        errors.push({ line, message: 'Betrag fehlt oder ist ungültig.' });
+        return;
+      }
+
+      const merchant = counterpartyName(detail, isCredit) ?? childText(detail, 'AddtlTxInf') ?? childText(entry, 'AddtlNtryInf');
+      if (!merchant) {
+        errors.push({ line, message: 'Gegenpartei fehlt.' });
+        return;
+      }
+
+      rows.push({
+        __line: line,
+        date,
+        merchant: merchant.replace(/\s+/g, ' ').trim(),
+        amount: Math.abs(amount),
+        rawCategory: isCredit ? 'Einnahmen' : undefined,
+        justification: remittanceInfo(detail),
+      });
+    });
+  });
+
+  return { rows, errors, format };
+}
+
+function parseCamtAmount(value?: string): number | undefined {
+  if (!value) return undefined;
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+function transactionAmount(detail: XmlNode): number | undefined {
+  return parseCamtAmount(childText(detail, 'Amt') ?? childText(detail, 'AmtDtls', 'TxAmt', 'Amt'));
+}
+
+/**
+ * Debits are paid to the creditor, credits come from the debtor.
+ * camt.053.001.08+ nests the party one level deeper (`Cdtr/Pty/Nm`).
+ */
+function counterpartyName(detail: XmlNode | undefined, isCredit: boolean): string | undefined {
+  const parties = child(detail, 'RltdPties');
+  const role = isCredit ? ['Dbtr', 'UltmtDbtr'] : ['Cdtr', 'UltmtCdtr'];
+  for (const name of role) {
+    const party = child(parties, name);
+    const partyName = childText(party, 'Nm') ?? childText(party, 'Pty', 'Nm');
+    if (partyName) return partyName;
+  }
+  return undefined;
+}
+
+function remittanceInfo(detail: XmlNode | undefined): string | undefined {
+  const remittance = child(detail, 'RmtInf');
+  const unstructured = children(remittance, 'Ustrd')
+    .map((node) => node.text)
+    .filter(Boolean);
+  if (unstructured.length > 0) return unstructured.join(' ');
+
+  const reference = childText(remittance, 'Strd', 'CdtrRefInf', 'Ref');
+  return reference ? `Referenz ${reference}` : undefined;
+}
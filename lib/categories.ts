@@ -0,0 +1,273 @@
+/**
+ * Category taxonomy
+ * Default categories (parent/child, income vs expense, colour, icon, DE/EN labels), the
+ * mapping of legacy names (`Transport`, `Food Delivery`, ...) and lookup helpers shared by
+ * the classifier, filters, charts and the categories page. Client-safe.
+ */
+
+import type { Category } from './types';
+
+type CategoryDefinition = Pick<Category, 'name' | 'kind' | 'color' | 'icon' | 'labelDe' | 'labelEn'> & {
+  parent?: string;
+};
+
+export const DEFAULT_CATEGORIES: CategoryDefinition[] = [
+  { name: 'Einnahmen', kind: 'income', color: '#16a34a', icon: 'wallet', labelDe: 'Einnahmen', labelEn: 'Income' },
+  { name: 'Lohn', parent: 'Einnahmen', kind: 'income', color: '#15803d', icon: 'banknote', labelDe: 'Lohn', labelEn: 'Salary' },
+  {
+    name: 'Weitere Einnahmen',
+    parent: 'Einnahmen',
+    kind: 'income',
+    color: '#22c55e',
+    icon: 'hand-coins',
+    labelDe: 'Weitere Einnahmen',
+    labelEn: 'Other income',
+  },
+  { name: 'Wohnen', kind: 'expense', color: '#0ea5e9', icon: 'home', labelDe: 'Wohnen', labelEn: 'Housing' },
+  { name: 'Lebensmittel', kind: 'expense', color: '#65a30d', icon: 'shopping-cart', labelDe: 'Lebensmittel', labelEn: 'Groceries' },
+  { name: 'Gastronomie', kind: 'expense', color: '#f97316', icon: 'utensils', labelDe: 'Gastronomie', labelEn: 'Dining' },
+  { name: 'Mobilität', kind: 'expense', color: '#6366f1', icon: 'bus', labelDe: 'Mobilität', labelEn: 'Transport' },
+  {
+    name: 'Mobilität - Öffentlicher Verkehr',
+    parent: 'Mobilität',
+    kind: 'expense',
+    color: '#4f46e5',
+    icon: 'train',
+    labelDe: 'Mobilität - Öffentlicher Verkehr',
+    labelEn: 'Transport - Public',
+  },
+  {
+    name: 'Mobilität - Auto',
+    parent: 'Mobilität',
+    kind: 'expense',
+    color: '#818cf8',
+    icon: 'car',
+    labelDe: 'Mobilität - Auto',
+    labelEn: 'Transport - Car',
+  },
+  { name: 'Shopping', kind: 'expense', color: '#ec4899', icon: 'shopping-bag', labelDe: 'Shopping', labelEn: 'Shopping' },
+  { name: 'Unterhaltung', kind: 'expense', color: '#a855f7', icon: 'tv', labelDe: 'Unterhaltung', labelEn: 'Entertainment' },
+  { name: 'Abos', kind: 'expense', color: '#8b5cf6', icon: 'repeat', labelDe: 'Abos', labelEn: 'Subscriptions' },
+  { name: 'Gesundheit', kind: 'expense', color: '#ef4444', icon: 'heart-pulse', labelDe: 'Gesundheit', labelEn: 'Health' },
+  { name: 'Persönliches', kind: 'expense', color: '#f43f5e', icon: 'user', labelDe: 'Persönliches', labelEn: 'Personal' },
+  { name: 'Reisen', kind: 'expense', color: '#06b6d4', icon: 'plane', labelDe: 'Reisen', labelEn: 'Travel' },
+  { name: 'Bildung', kind: 'expense', color: '#0d9488', icon: 'graduation-cap', labelDe: 'Bildung', labelEn: 'Education' },
+  { name: 'Steuern', kind: 'expense', color: '#64748b', icon: 'landmark', labelDe: 'Steuern', labelEn: 'Taxes' },
+  { name: 'Zahlungen', kind: 'expense', color: '#475569', icon: 'receipt', labelDe: 'Zahlungen', labelEn: 'Payments' },
+  { name: 'Bargeldbezug', kind: 'expense', color: '#78716c', icon: 'coins', labelDe: 'Bargeldbezug', labelEn: 'Cash withdrawal' },
+  {
+    name: 'Sparen & Anlegen',
+    kind: 'expense',
+    color: '#14b8a6',
+    icon: 'piggy-bank',
+    labelDe: 'Sparen & Anlegen',
+    labelEn: 'Saving & Investing',
+  },
+  { name: 'Allgemeines', kind: 'expense', color: '#9ca3af', icon: 'package', labelDe: 'Allgemeines', labelEn: 'General' },
+];
+
+/** Category every unknown or deleted category falls back to */
+export const FALLBACK_CATEGORY = 'Allgemeines';
+
+/**
+ * Names used by the seed data, the Kaggle few-shots and earlier app versions.
+ * Keep in sync with supabase/migrations/20260121090000_category_taxonomy.sql.
+ */
+export const LEGACY_CATEGORY_NAMES: Record<string, string> = {
+  Transport: 'Mobilität - Öffentlicher Verkehr',
+  'Food Delivery': 'Gastronomie',
+  Sonstiges: 'Allgemeines',
+  Sparen: 'Sparen & Anlegen',
+};
+
+/**
+ * Default taxonomy as Category records; `createId` is called once per category so the
+ * server can use UUIDs while the client can use the name as stand-in id.
+ */
+export function buildDefaultCategories(
+  userId: string,
+  createId: (name: string) => string,
+  createdAt = new Date().toISOString()
+): Category[] {
+  const ids = new Map(DEFAULT_CATEGORIES.map((definition) => [definition.name, createId(definition.name)]));
+  return DEFAULT_CATEGORIES.map(({ parent, ...definition }, index) => ({
+    ...definition,
+    id: ids.get(definition.name)!,
+    userId,
+    parentId: parent ? ids.get(parent) : undefined,
+    sortOrder: (index + 1) * 10,
+    createdAt,
+  }));
+}
+
+/** Default taxonomy with names as ids, used until the user's categories are loaded */
+export const DEFAULT_TAXONOMY: Category[] = buildDefaultCategories('', (name) => name, '');
+
+export function findCategory(categories: Category[], name: string | undefined | null): Category | undefined {
+  if (!name) return undefined;
+  return categories.find((category) => category.name === name);
+}
+
+/**
+ * Maps free text (AI answer, import column, legacy name) onto a category name of the
+ * taxonomy: exact name, then case-insensitive name or label, then the legacy mapping.
+ * Returns null when nothing matches.
+ */
+export function resolveCategoryName(categories: Category[], value: string | undefined | null): string | null {
+  const text = value?.trim();
+  if (!text) return null;
+  if (findCategory(categories, text)) return text;
+
+  const lower = text.toLowerCase();
+  const match = categories.find(
+    (category) =>
+      category.name.toLowerCase() === lower ||
+      category.labelDe.toLowerCase() === lower ||
+      category.labelEn.toLowerCase() === lower
+  );
+  if (match) return match.name;
+
+  const legacy = LEGACY_CATEGORY_NAMES[text];
+  return legacy && findCategory(categories, legacy) ? legacy : null;
+}
+
+export function categoryLabel(categories: Category[], name: string, lang: 'de' | 'en'): string {
+  const category = findCategory(categories, resolveCategoryName(categories, name) ?? name);
+  if (!category) return name;
+  return lang === 'en' ? category.labelEn : category.labelDe;
+}
+
+export function isIncomeCategory(categories: Category[], name: string): boolean {
+  return findCategory(categories, resolveCategoryName(categories, name))?.kind === 'income';
+}
+
+/**
+ * The category's name plus the names of all its descendants, e.g. for a parent filter
+ */
+export function categoryWithDescendants(categories: Category[], name: string): string[] {
+  const root = findCategory(categories, name);
+  if (!root) return [name];
+  const names = [root.name];
+  const queue = [root.id];
+  while (queue.length > 0) {
+    const parentId = queue.shift();
+    categories
+      .filter((category) => category.parentId === parentId && !names.includes(category.name))
+      .forEach((child) => {
+        names.push(child.name);
+        queue.push(child.id);
+      });
+  }
+  return names;
+}
+
+/**
+ * Top-level ancestor of a category (the category itself when it has no parent)
+ */
+export function rootCategory(categories: Category[], name: string): Category | undefined {
+  let category = findCategory(categories, resolveCategoryName(categories, name));
+  const seen = new Set<string>();
+  while (category?.parentId && !seen.has(category.id)) {
+    seen.add(category.id);
+    const parent = categories.find((candidate) => candidate.id === category!.parentId);
+    if (!parent) break;
+    category = parent;
+  }
+  return category;
+}
+
+/**
+ * Depth-first order (parents followed by their children, each level by sortOrder) for
+ * selects and the categories page
+ */
+export function flattenCategoryTree(categories: Category[]): { category: Category; depth: number }[] {
+  const bySortOrder = (a: Category, b: Category) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name, 'de');
+  const ids = new Set(categories.map((category) => category.id));
+  const result: { category: Category; depth: number }[] = [];
+
+  const visit = (parentId: string | undefined, depth: number) => {
+    categories
+      .filter((category) =>
+        parentId ? category.parentId === parentId : !category.parentId || !ids.has(category.parentId)
+      )
+      .sort(bySortOrder)
+      .forEach((category) => {
+        if (result.some((entry) => entry.category.id === category.id)) return;
+        result.push({ category, depth });
+        visit(category.id, depth + 1);
+      });
+  };
+  visit(undefined, 0);
+
+  return result;
+}
+
+/** Fields a client may set when creating or editing a category */
+export type CategoryInput = Omit<Category, 'id' | 'userId' | 'createdAt'>;
+
+export class CategoryValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CategoryValidationError';
+  }
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Validates a category payload against the user's taxonomy. With `existing`, missing
+ * fields keep their stored value (partial edit). A child always takes its parent's kind.
+ */
+export function parseCategoryInput(body: any, categories: Category[], existing?: Category): CategoryInput {
+  const pick = (key: keyof CategoryInput) => (body[key] !== undefined ? body[key] : existing?.[key]);
+
+  const name = String(pick('name') ?? '').trim();
+  if (!name) throw new CategoryValidationError('Name ist erforderlich');
+  const lower = name.toLowerCase();
+  if (categories.some((category) => category.id !== existing?.id && category.name.toLowerCase() === lower)) {
+    throw new CategoryValidationError('Kategorie existiert bereits');
+  }
+
+  const parentId = pick('parentId') || undefined;
+  const parent = parentId ? categories.find((category) => category.id === parentId) : undefined;
+  if (parentId && !parent) throw new CategoryValidationError('Oberkategorie nicht gefunden');
+  if (parent && existing && categoryWithDescendants(categories, existing.name).includes(parent.name)) {
+    throw new CategoryValidationError('Eine Kategorie kann nicht unter sich selbst eingeordnet werden');
+  }
+
+  const kind = parent?.kind ?? pick('kind') ?? 'expense';
+  if (kind !== 'income' && kind !== 'expense') {
+    throw new CategoryValidationError('kind muss income oder expense sein');
+  }
+
+  const color = String(pick('color') ?? parent?.color ?? '#9ca3af');
+  if (!HEX_COLOR.test(color)) throw new CategoryValidationError('Farbe muss im Format #rrggbb angegeben werden');
+
+  const sortOrder = Number(
+    pick('sortOrder') ?? Math.max(0, ...categories.map((category) => category.sortOrder)) + 10
+  );
+  if (!Number.isInteger(sortOrder)) throw new CategoryValidationError('sortOrder muss eine ganze Zahl sein');
+
+  // null or an empty field removes the envelope
+  const limitValue = pick('budgetLimit');
+  const budgetLimit = limitValue === null || limitValue === '' || limitValue === undefined ? undefined : Number(limitValue);
+  if (budgetLimit !== undefined && !(Number.isFinite(budgetLimit) && budgetLimit >= 0)) {
+    throw new CategoryValidationError('budgetLimit muss ein Betrag ab 0 sein');
+  }
+  if (budgetLimit !== undefined && kind === 'income') {
+    throw new CategoryValidationError('Budgets gibt es nur für Ausgaben-Kategorien');
+  }
+
+  return {
+    name,
+    parentId,
+    kind,
+    color,
+    icon: String(pick('icon') || parent?.icon || 'tag'),
+    labelDe: String(pick('labelDe') ?? '').trim() || name,
+    labelEn: String(pick('labelEn') ?? '').trim() || name,
+    sortOrder,
+    budgetLimit,
+    budgetRollover: budgetLimit !== undefined && pick('budgetRollover') === true,
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Category taxonomy maintenance (server-only)
+ * Creates the default taxonomy on first access and keeps transactions, categorisation rules
+ * and merchant defaults consistent when a category is renamed or deleted (they reference
+ * categories by name).
+ */
+
+import 'server-only';
+import { randomUUID } from 'crypto';
+import {
+  createCategories,
+  deleteCategory,
+  getCategories,
+  getCategorizationRules,
+  getMerchants,
+  renameTransactionCategory,
+  updateCategorizationRule,
+  updateCategory,
+  updateMerchant,
+} from './repository';
+import { buildDefaultCategories, CategoryValidationError, FALLBACK_CATEGORY, findCategory } from './categories';
+import type { Category } from './types';
+
+// Parallel first requests (page load + classification) must not seed the defaults twice
+const seeding = new Map<string, Promise<Category[]>>();
+
+/**
+ * The user's categories; the default taxonomy is stored on first access
+ */
+export async function getCategoryTaxonomy(userId: string): Promise<Category[]> {
+  const categories = await getCategories(userId);
+  if (categories.length > 0) return categories;
+
+  let pending = seeding.get(userId);
+  if (!pending) {
+    pending = createCategories(buildDefaultCategories(userId, () => randomUUID()))
+      .catch(async (error) => {
+        // Another instance seeded first (unique name index): use its rows
+        const existing = await getCategories(userId);
+        if (existing.length > 0) return existing;
+        throw error;
+      })
+      .finally(() => seeding.delete(userId));
+    seeding.set(userId, pending);
+  }
+  return pending;
+}
+
+/** Points transactions, rules and merchant defaults from one category name to another */
+async function moveCategoryReferences(userId: string, from: string, to: string): Promise<number> {
+  const [rules, merchants] = await Promise.all([getCategorizationRules(userId), getMerchants(userId)]);
+  for (const rule of rules.filter((r) => r.category === from)) {
+    await updateCategorizationRule(userId, rule.id, { category: to });
+  }
+  for (const merchant of merchants.filter((m) => m.defaultCategory === from)) {
+    await updateMerchant(userId, merchant.id, { defaultCategory: to });
+  }
+  return renameTransactionCategory(userId, [from], to);
+}
+
+/**
+ * Renames a category and everything that references it; returns the number of moved transactions
+ */
+export async function renameCategory(userId: string, category: Category, name: string): Promise<number> {
+  if (category.name === name) return 0;
+  await updateCategory(userId, category.id, { name });
+  return moveCategoryReferences(userId, category.name, name);
+}
+
+/**
+ * Deletes a category. Its transactions, rules and merchant defaults move to `replacement`
+ * (default: the parent, else "Allgemeines"); child categories move to the top level.
+ */
+export async function deleteCategoryAndReassign(
+  userId: string,
+  categories: Category[],
+  category: Category,
+  replacement?: string
+): Promise<{ replacement: string; moved: number }> {
+  const parent = categories.find((c) => c.id === category.parentId);
+  const target = replacement ?? parent?.name ?? FALLBACK_CATEGORY;
+  if (target === category.name || !findCategory(categories, target)) {
+    throw new CategoryValidationError('Ungültige Ersatzkategorie');
+  }
+
+  const moved = await moveCategoryReferences(userId, category.name, target);
+  await deleteCategory(userId, category.id);
+  return { replacement: target, moved };
+}
@@ -0,0 +1,321 @@
+/**
+ * Transaction classification pipeline (server-only)
+ * Shared by manual entry, edits and bulk imports: applies the user's categorisation rules,
+ * otherwise asks the local classifier trained from the user's corrections and only falls back
+ * to the ImpulseClassificationAgent (with the user's category taxonomy and a summary of their
+ * recent spending) when it is unsure. Stores an English explanation and books income-like rows
+ * as Lohn or Weitere Einnahmen.
+ */
+
+import 'server-only';
+import { batchImpulseClassificationAgent, impulseClassificationAgent, inferMonthlySalaryFromHistory } from './agents';
+import { budgetProfileOf, deriveBudget, flexibleBudgetOf } from './budgetProfile';
+import { isIncomeCategory, resolveCategoryName } from './categories';
+import { getCategoryTaxonomy } from './categoryTaxonomy';
+import { buildClassificationHistory } from './classificationHistory';
+import {
+  localClassifierMinConfidence,
+  predictCategory,
+  trainLocalClassifier,
+  type LocalClassifierModel,
+} from './localClassifier';
+import { merchantKey } from './merchants';
+import { isOpenAIMocked } from './openai';
+import { getCategorizationRules, getSavingsGoals, getTransactions, getUser } from './repository';
+import { findMatchingRule } from './rules';
+import { translateToEnglish } from './translate';
+import type {
+  CategorizationRule,
+  Category,
+  ClassificationHistory,
+  ImpulseClassificationInput,
+  SavingsGoal,
+  Transaction,
+  User,
+} from './types';
+
+type ExtractedTransaction = ImpulseClassificationInput['transaction'];
+
+/** Preloaded user data; whatever is missing is loaded for the transaction's user */
+export interface ClassificationContext {
+  rules?: CategorizationRule[];
+  categories?: Category[];
+  localModel?: LocalClassifierModel;
+  transactions?: Transaction[]; // stored transactions: training data and spending history
+  savingsGoals?: SavingsGoal[];
+  user?: User | null;
+}
+
+/**
+ * Flexible monthly budget as used across the app: the one stored with the user's budget
+ * profile, or the profile's model applied to the salary inferred from the history when no
+ * income is set
+ */
+export function flexibleMonthlyBudget(user: User | null, transactions: Transaction[], month: string): number {
+  if (user && user.monthlyNetIncome > 0) return flexibleBudgetOf(user);
+  return deriveBudget(inferMonthlySalaryFromHistory(transactions, month), budgetProfileOf(user)).flexibleBudget;
+}
+
+/**
+ * Applies the first matching user rule, or the local classifier when it is confident enough
+ * (any prediction in OpenAI mock mode), or runs the ImpulseClassificationAgent and translates
+ * the explanation; then applies the income override. Use classifyTransactions for many rows.
+ */
+export async function classifyTransaction(
+  extracted: ExtractedTransaction,
+  context: ClassificationContext = {}
+): Promise<Transaction> {
+  const rule = findMatchingRule(context.rules ?? (await getCategorizationRules(extracted.userId)), extracted);
+  if (rule) return classifyByRule(extracted, rule);
+
+  const categories = context.categories ?? (await getCategoryTaxonomy(extracted.userId));
+  const transactions = context.transactions ?? (await getTransactions(extracted.userId));
+  const localModel = context.localModel ?? trainLocalClassifier(transactions, categories);
+  const finalTransaction =
+    classifyLocally(extracted, localModel) ??
+    (await classifyWithAgent(extracted, categories, await loadHistory(extracted, transactions, categories, context)));
+
+  return applyIncomeOverride(finalTransaction, categories);
+}
+
+// Transactions per LLM prompt and prompts in flight during bulk classification
+const BATCH_SIZE = 20;
+const BATCH_CONCURRENCY = 3;
+
+/**
+ * Bulk variant of classifyTransaction (same order as the input). Rules and the local model
+ * run first; the remaining rows go to the LLM in batches of BATCH_SIZE with at most
+ * BATCH_CONCURRENCY prompts in flight, and rows of the same merchant share one answer.
+ * `onClassified` is called once per row as soon as it is decided (rule and local rows first,
+ * LLM rows whenever their batch answers), so callers can report progress.
+ */
+export async function classifyTransactions(
+  extracted: ExtractedTransaction[],
+  context: ClassificationContext = {},
+  onClassified?: (index: number, transaction: Transaction) => void
+): Promise<Transaction[]> {
+  if (extracted.length === 0) return [];
+  const userId = extracted[0].userId;
+
+  const [rules, categories, transactions, savingsGoals, user] = await Promise.all([
+    context.rules ?? getCategorizationRules(userId),
+    context.categories ?? getCategoryTaxonomy(userId),
+    context.transactions ?? getTransactions(userId),
+    context.savingsGoals ?? getSavingsGoals(userId),
+    context.user !== undefined ? context.user : getUser(userId),
+  ]);
+  const localModel = context.localModel ?? trainLocalClassifier(transactions, categories);
+
+  const results: (Transaction | null)[] = extracted.map(() => null);
+  const settle = (index: number, row: Transaction) => {
+    const final = row.classificationSource === 'rule' ? row : applyIncomeOverride(row, categories);
+    results[index] = final;
+    onClassified?.(index, final);
+  };
+
+  extracted.forEach((row, index) => {
+    const rule = findMatchingRule(rules, row);
+    const decided = rule ? classifyByRule(row, rule) : classifyLocally(row, localModel);
+    if (decided) settle(index, decided);
+  });
+
+  // One LLM answer per merchant; the first row of each merchant is sent
+  const groups = new Map<string, number[]>();
+  extracted.forEach((row, index) => {
+    if (results[index]) return;
+    const key = merchantKey(row.merchant) || row.merchant;
+    groups.set(key, [...(groups.get(key) ?? []), index]);
+  });
+
+  if (groups.size > 0) {
+    // Rows already decided by rules or the local model count as history for the rest
+    const history = [...transactions, ...results.filter((row): row is Transaction => row !== null)];
+    const groupIndexes = Array.from(groups.values());
+    const items = groupIndexes.map((indexes) => {
+      const row = extracted[indexes[0]];
+      return {
+        transaction: row,
+        history: buildClassificationHistory({
+          transaction: row,
+          transactions: history,
+          savingsGoals,
+          monthlyBudget: flexibleMonthlyBudget(user, history, row.date.slice(0, 7)),
+          categories,
+        }),
+      };
+    });
+
+    const batchStarts: number[] = [];
+    for (let i = 0; i < items.length; i += BATCH_SIZE) batchStarts.push(i);
+    await mapWithConcurrency(batchStarts, BATCH_CONCURRENCY, async (start) => {
+      const answers = await batchImpulseClassificationAgent({ items: items.slice(start, start + BATCH_SIZE), categories });
+      answers.forEach((classification, offset) => {
+        groupIndexes[start + offset].forEach((index) =>
+          settle(index, {
+            ...extracted[index],
+            category: classification.category,
+            isImpulse: classification.isImpulse,
+            decisionLabel: classification.decisionLabel,
+            decisionExplanation: classification.decisionExplanation,
+            decisionExplanationEn: classification.decisionExplanationEn,
+            ruleId: null,
+            ruleName: null,
+            classificationSource: classification.source,
+            confidence: classification.confidence,
+          })
+        );
+      });
+    });
+  }
+
+  // Every row is classified at this point
+  return results as Transaction[];
+}
+
+/**
+ * Runs `task` for every item with at most `limit` tasks in flight; results keep the input order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+function classifyByRule(extracted: ExtractedTransaction, rule: CategorizationRule): Transaction {
+  // The user decided explicitly, so neither the LLM nor the income override runs
+  return {
+    ...extracted,
+    category: rule.category,
+    isImpulse: rule.isImpulse,
+    decisionLabel: rule.decisionLabel,
+    decisionExplanation: `Regel «${rule.name}» angewendet.`,
+    decisionExplanationEn: `Rule “${rule.name}” applied.`,
+    ruleId: rule.id,
+    ruleName: rule.name,
+    classificationSource: 'rule',
+    confidence: 1,
+  };
+}
+
+/**
+ * Override for income-like transactions: book under an income category (positive inflow)
+ */
+function applyIncomeOverride(transaction: Transaction, categories: Category[]): Transaction {
+  if (!isIncomeTransaction(transaction)) return transaction;
+  return {
+    ...transaction,
+    category: isIncomeCategory(categories, transaction.category)
+      ? transaction.category
+      : resolveCategoryName(categories, isSalaryText(transaction) ? 'Lohn' : 'Weitere Einnahmen') ??
+        categories.find((category) => category.kind === 'income')?.name ??
+        'Weitere Einnahmen',
+    isImpulse: false,
+    decisionLabel: 'useful',
+    decisionExplanation: 'Einnahme verbucht (z.B. Lohn/Salär).',
+    decisionExplanationEn: 'Income recorded (e.g., salary).',
+  };
+}
+
+/**
+ * Spending history around the transaction for the LLM prompt
+ */
+async function loadHistory(
+  extracted: ExtractedTransaction,
+  transactions: Transaction[],
+  categories: Category[],
+  context: ClassificationContext
+): Promise<ClassificationHistory> {
+  const [savingsGoals, user] = await Promise.all([
+    context.savingsGoals ?? getSavingsGoals(extracted.userId),
+    context.user !== undefined ? context.user : getUser(extracted.userId),
+  ]);
+  return buildClassificationHistory({
+    transaction: extracted,
+    transactions,
+    savingsGoals,
+    monthlyBudget: flexibleMonthlyBudget(user, transactions, extracted.date.slice(0, 7)),
+    categories,
+  });
+}
+
+function classifyLocally(
+  extracted: ExtractedTransaction,
+  model: LocalClassifierModel
+): Transaction | null {
+  const prediction = predictCategory(model, extracted);
+  if (!prediction) return null;
+  // Mock answers carry no information, so any local prediction beats them
+  if (!isOpenAIMocked() && prediction.confidence < localClassifierMinConfidence()) return null;
+
+  const percent = Math.round(prediction.confidence * 100);
+  return {
+    ...extracted,
+    category: prediction.category,
+    isImpulse: prediction.isImpulse,
+    decisionLabel: prediction.decisionLabel,
+    decisionExplanation: `Lokal klassifiziert anhand von ${prediction.examples} korrigierten Buchungen (Konfidenz ${percent} %).`,
+    decisionExplanationEn: `Classified locally from ${prediction.examples} corrected transactions (confidence ${percent}%).`,
+    ruleId: null,
+    ruleName: null,
+    classificationSource: 'local',
+    confidence: prediction.confidence,
+  };
+}
+
+async function classifyWithAgent(
+  extracted: ExtractedTransaction,
+  categories: Category[],
+  history: ClassificationHistory
+): Promise<Transaction> {
+  const classification = await impulseClassificationAgent({
+    transaction: extracted,
+    categories,
+    history,
+  });
+
+  let decisionExplanationEn = classification.decisionExplanationEn;
+  if (!decisionExplanationEn) {
+    try {
+      decisionExplanationEn = await translateToEnglish(classification.decisionExplanation);
+    } catch (err) {
+      console.error('Translation failed for decision explanation:', err);
+    }
+  }
+
+  return {
+    ...extracted,
+    category: classification.category,
+    isImpulse: classification.isImpulse,
+    decisionLabel: classification.decisionLabel,
+    decisionExplanation: classification.decisionExplanation,
+    decisionExplanationEn,
+    ruleId: null,
+    ruleName: null,
+    classificationSource: classification.source,
+    confidence: classification.confidence,
+  };
+}
+
+function incomeText(transaction: Transaction): string {
+  return [transaction.merchant, transaction.rawCategory || '', transaction.justification || ''].join(' ').toLowerCase();
+}
+
+function isSalaryText(transaction: Transaction): boolean {
+  const text = incomeText(transaction);
+  return ['lohn', 'salär', 'gehalt', 'salary', 'payroll', 'wage'].some((kw) => text.includes(kw));
+}
+
+function isIncomeTransaction(transaction: Transaction): boolean {
+  const fields = incomeText(transaction);
+
+  const incomeKeywords = ['lohn', 'salär', 'gehalt', 'salary', 'payroll', 'einkommen', 'einnahme', 'bonus', 'wage'];
+
+  return incomeKeywords.some((kw) => fields.includes(kw));
+}
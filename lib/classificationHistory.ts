@@ -0,0 +1,100 @@
+/**
+ * History context for the impulse classification
+ * Summarises how the user actually spends around a transaction — month-to-date spend vs.
+ * budget, similar purchases in the last 7/30 days, open savings goals and the time of day —
+ * so impulse flags reflect behaviour instead of just the merchant name.
+ */
+
+import { categoryWithDescendants, resolveCategoryName } from './categories';
+import { merchantKey } from './merchants';
+import { isIncomeTransaction, isTransferTransaction } from './transactionFilters';
+import type { Category, ClassificationHistory, SavingsGoal, SavingsGoalPressure, Transaction } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type HistoryTransaction = Pick<Transaction, 'date' | 'merchant' | 'amount' | 'rawCategory'> & { id?: string };
+
+export interface ClassificationHistoryInput {
+  transaction: HistoryTransaction;
+  transactions: Transaction[]; // the user's stored transactions
+  savingsGoals: SavingsGoal[];
+  monthlyBudget?: number;
+  categories: Category[];
+}
+
+function dayNumber(date: string): number {
+  return Math.floor(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / DAY_MS);
+}
+
+/** Hour from an ISO timestamp ("2026-01-05T21:30"); plain dates carry no time */
+function hourOfDay(date: string): number | undefined {
+  const match = date.match(/T(\d{2}):\d{2}/);
+  return match ? Number(match[1]) : undefined;
+}
+
+/** Most frequent category among earlier purchases at the same merchant */
+function merchantCategory(expenses: Transaction[], key: string): string | undefined {
+  const counts = new Map<string, number>();
+  expenses
+    .filter((t) => merchantKey(t.merchant) === key)
+    .forEach((t) => counts.set(t.category, (counts.get(t.category) ?? 0) + 1));
+  let best: string | undefined;
+  counts.forEach((count, category) => {
+    if (!best || count > (counts.get(best) ?? 0)) best = category;
+  });
+  return best;
+}
+
+function goalPressure(goals: SavingsGoal[], date: string): SavingsGoalPressure[] {
+  const [year, month] = date.slice(0, 7).split('-').map(Number);
+  return goals
+    .filter((goal) => goal.currentSavedAmount < goal.targetAmount && goal.targetDate.slice(0, 10) >= date.slice(0, 10))
+    .map((goal) => {
+      const [targetYear, targetMonth] = goal.targetDate.slice(0, 7).split('-').map(Number);
+      const monthsLeft = Math.max(1, (targetYear - year) * 12 + (targetMonth - month));
+      const remaining = goal.targetAmount - goal.currentSavedAmount;
+      return { title: goal.title, remaining, monthsLeft, requiredPerMonth: remaining / monthsLeft };
+    });
+}
+
+/**
+ * Computes the context from the transactions booked up to the transaction date
+ * (open bills, transfers and the transaction itself are left out)
+ */
+export function buildClassificationHistory(input: ClassificationHistoryInput): ClassificationHistory {
+  const { transaction, categories } = input;
+  const day = dayNumber(transaction.date);
+  const month = transaction.date.slice(0, 7);
+  const key = merchantKey(transaction.merchant);
+
+  const expenses = input.transactions.filter(
+    (t) =>
+      t.id !== transaction.id &&
+      t.status !== 'pending' &&
+      dayNumber(t.date) <= day &&
+      !isTransferTransaction(t) &&
+      !isIncomeTransaction(t, categories)
+  );
+
+  const likelyCategory = resolveCategoryName(categories, transaction.rawCategory) ?? merchantCategory(expenses, key);
+  const categoryNames = likelyCategory ? categoryWithDescendants(categories, likelyCategory) : [];
+  const isSimilar = (t: Transaction) => merchantKey(t.merchant) === key || categoryNames.includes(t.category);
+  const countSince = (days: number) => expenses.filter((t) => day - dayNumber(t.date) < days && isSimilar(t)).length;
+
+  const monthExpenses = expenses.filter((t) => t.date.startsWith(month));
+  const sum = (list: Transaction[]) => list.reduce((total, t) => total + Math.abs(t.amount), 0);
+
+  return {
+    month,
+    monthlyBudget: input.monthlyBudget && input.monthlyBudget > 0 ? input.monthlyBudget : undefined,
+    monthSpent: sum(monthExpenses),
+    likelyCategory: likelyCategory ?? undefined,
+    categoryMonthSpent: likelyCategory
+      ? sum(monthExpenses.filter((t) => categoryNames.includes(t.category)))
+      : undefined,
+    similarLast7Days: countSince(7),
+    similarLast30Days: countSince(30),
+    savingsGoals: goalPressure(input.savingsGoals, transaction.date),
+    hourOfDay: hourOfDay(transaction.date),
+  };
+}
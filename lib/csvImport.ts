@@ -0,0 +1,493 @@
+/**
+ * CSV statement parser
+ * Decodes bank exports (UTF-8, UTF-16 or Windows-1252), detects the delimiter and maps
+ * columns to import rows via built-in Swiss bank presets or a user-defined mapping.
+ * Amounts are stored positive like manual entries; credits get the `Einnahmen` hint so the
+ * classification books them as income.
+ */
+
+import type { CsvColumnMapping } from './types';
+import type { ImportError, ImportRow } from './imports';
+
+export type CsvDelimiter = NonNullable<CsvColumnMapping['delimiter']>;
+
+export interface CsvBankPreset {
+  id: string;
+  label: string;
+  /** Header variants the bank has used over time (language, old/new e-banking) */
+  variants: CsvColumnMapping[];
+}
+
+export interface CsvParseResult {
+  rows: ImportRow[];
+  errors: ImportError[];
+  /** Preset id, `custom` for a user mapping or null when no mapping matched */
+  preset: string | null;
+  delimiter: CsvDelimiter;
+  encoding: string;
+  /** Cells of the first row, shown in the UI to build a custom mapping */
+  headers: string[];
+}
+
+export const CSV_BANK_PRESETS: CsvBankPreset[] = [
+  {
+    id: 'generic',
+    label: 'SmartBudget (date, merchant, amount)',
+    variants: [
+      {
+        dateColumn: 'date',
+        merchantColumns: ['merchant'],
+        amountColumn: 'amount',
+        rawCategoryColumn: 'rawCategory',
+        justificationColumn: 'justification',
+      },
+      {
+        // Without a date column every row is booked today
+        merchantColumns: ['merchant'],
+        amountColumn: 'amount',
+        rawCategoryColumn: 'rawCategory',
+        justificationColumn: 'justification',
+      },
+    ],
+  },
+  {
+    id: 'postfinance',
+    label: 'PostFinance',
+    variants: [
+      {
+        dateColumn: 'Buchungsdatum',
+        merchantColumns: ['Avisierungstext'],
+        creditColumn: 'Gutschrift in CHF',
+        debitColumn: 'Lastschrift in CHF',
+        dateFormat: 'dmy',
+      },
+      {
+        dateColumn: 'Datum',
+        merchantColumns: ['Avisierungstext'],
+        creditColumn: 'Gutschrift in CHF',
+        debitColumn: 'Lastschrift in CHF',
+        rawCategoryColumn: 'Kategorie',
+        dateFormat: 'dmy',
+      },
+    ],
+  },
+  {
+    id: 'ubs',
+    label: 'UBS',
+    variants: [
+      {
+        dateColumn: 'Abschlussdatum',
+        merchantColumns: ['Beschreibung1', 'Beschreibung2'],
+        debitColumn: 'Belastung',
+        creditColumn: 'Gutschrift',
+        dateFormat: 'dmy',
+      },
+      {
+        dateColumn: 'Trade date',
+        merchantColumns: ['Description1', 'Description2'],
+        debitColumn: 'Debit',
+        creditColumn: 'Credit',
+      },
+    ],
+  },
+  {
+    id: 'zkb',
+    label: 'Zürcher Kantonalbank',
+    variants: [
+      {
+        dateColumn: 'Datum',
+        merchantColumns: ['Buchungstext'],
+        debitColumn: 'Belastung CHF',
+        creditColumn: 'Gutschrift CHF',
+        justificationColumn: 'Zahlungszweck',
+        dateFormat: 'dmy',
+      },
+    ],
+  },
+  {
+    id: 'raiffeisen',
+    label: 'Raiffeisen',
+    variants: [
+      {
+        dateColumn: 'Booked At',
+        merchantColumns: ['Text'],
+        amountColumn: 'Credit/Debit Amount',
+        signedAmounts: true,
+      },
+      {
+        dateColumn: 'Buchungsdatum',
+        merchantColumns: ['Buchungstext'],
+        amountColumn: 'Betrag',
+        signedAmounts: true,
+        dateFormat: 'dmy',
+      },
+    ],
+  },
+  {
+    id: 'revolut',
+    label: 'Revolut',
+    variants: [
+      {
+        dateColumn: 'Completed Date',
+        merchantColumns: ['Description'],
+        amountColumn: 'Amount',
+        signedAmounts: true,
+      },
+      {
+        dateColumn: 'Abschlussdatum',
+        merchantColumns: ['Beschreibung'],
+        amountColumn: 'Betrag',
+        signedAmounts: true,
+      },
+    ],
+  },
+];
+
+const LEGACY_COLUMN_ORDER: CsvColumnMapping = CSV_BANK_PRESETS[0].variants[0];
+const DELIMITERS: CsvDelimiter[] = [';', ',', '\t'];
+// Bank exports put account info above the table; search this many rows for the header
+const HEADER_SEARCH_ROWS = 20;
+
+/**
+ * Minimal shape check for mappings coming from the client
+ */
+export function isValidCsvMapping(mapping: any): mapping is CsvColumnMapping {
+  const hasAmount = mapping?.amountColumn || mapping?.debitColumn || mapping?.creditColumn;
+  return (
+    Array.isArray(mapping?.merchantColumns) &&
+    mapping.merchantColumns.length > 0 &&
+    mapping.merchantColumns.every((column: unknown) => typeof column === 'string' && column.trim()) &&
+    Boolean(hasAmount) &&
+    (mapping.delimiter === undefined || DELIMITERS.includes(mapping.delimiter))
+  );
+}
+
+/**
+ * Decodes the uploaded bytes. Bank exports are UTF-8 (often with BOM), UTF-16 or Windows-1252.
+ */
+export function decodeCsv(buffer: ArrayBuffer): { text: string; encoding: string } {
+  const bytes = new Uint8Array(buffer);
+
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'utf-16le' };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'utf-16be' };
+  }
+
+  try {
+    // fatal: invalid UTF-8 (e.g. a Latin-1 "ä") throws instead of producing U+FFFD
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return { text: text.replace(/^\uFEFF/, ''), encoding: 'utf-8' };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'windows-1252' };
+  }
+}
+
+/**
+ * Picks the delimiter that splits the most lines into the most columns
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim().length > 0).slice(0, HEADER_SEARCH_ROWS);
+
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+  DELIMITERS.forEach((delimiter) => {
+    const score = lines.reduce((sum, line) => sum + countOutsideQuotes(line, delimiter), 0);
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+
+  return best;
+}
+
+function countOutsideQuotes(line: string, delimiter: string): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count += 1;
+  }
+  return count;
+}
+
+/**
+ * Splits CSV text into records.
+ * Behandelt auch Zeilenumbrüche innerhalb von Anführungszeichen.
+ */
+export function tokenizeCsv(text: string, delimiter: CsvDelimiter): { fields: string[]; line: number }[] {
+  const rowsRaw: { fields: string[]; line: number }[] = [];
+
+  let field = '';
+  let row: string[] = [];
+  let inQuotes = false;
+  let lineNumber = 1;
+  let rowStartLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const nextChar = text[i + 1];
+
+    if (char === '"') {
+      // Escape doppeltes Anführungszeichen
+      if (inQuotes && nextChar === '"') {
+        field += '"';
+        i++; // skip next
+        continue;
+      }
+      inQuotes = !inQuotes;
+      continue;
+    }
+
+    if (char === delimiter && !inQuotes) {
+      row.push(field);
+      field = '';
+      continue;
+    }
+
+    if ((char === '\n' || char === '\r') && !inQuotes) {
+      // Zeilenende
+      if (char === '\r' && nextChar === '\n') {
+        i++; // skip LF in CRLF
+      }
+      row.push(field);
+      if (row.some((cell) => cell.trim().length > 0)) {
+        rowsRaw.push({ fields: row, line: rowStartLine });
+      }
+      field = '';
+      row = [];
+      lineNumber += 1;
+      rowStartLine = lineNumber;
+      continue;
+    }
+
+    field += char;
+    if (char === '\n') {
+      lineNumber += 1;
+    }
+  }
+
+  // Reste hinzufügen
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    if (row.some((cell) => cell.trim().length > 0)) {
+      rowsRaw.push({ fields: row, line: rowStartLine });
+    }
+  }
+
+  return rowsRaw;
+}
+
+/**
+ * Parses Swiss and international number formats:
+ * `1'234.50`, `1’234.50`, `1 234,50`, `1.234,50`, `-45.20`, `CHF 12.00`
+ */
+export function parseAmount(value: string): number | undefined {
+  const cleaned = value.replace(/[^\d.,+-]/g, '');
+  if (!/\d/.test(cleaned)) return undefined;
+
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  let normalized = cleaned;
+
+  if (lastComma > -1 && lastDot > -1) {
+    // The separator that comes last is the decimal separator
+    normalized =
+      lastComma > lastDot ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned.replace(/,/g, '');
+  } else if (lastComma > -1) {
+    // A single comma followed by 1-2 digits is a decimal comma, otherwise a thousands separator
+    const decimals = cleaned.length - lastComma - 1;
+    const commaCount = cleaned.split(',').length - 1;
+    normalized =
+      commaCount === 1 && decimals > 0 && decimals <= 2 ? cleaned.replace(',', '.') : cleaned.replace(/,/g, '');
+  }
+
+  const parsed = Number(normalized);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Normalises `dd.mm.yyyy`, `dd.mm.yy`, `dd/mm/yyyy`, `mm/dd/yyyy` and ISO dates (with time) to YYYY-MM-DD
+ */
+export function parseDate(value: string, format: CsvColumnMapping['dateFormat'] = 'auto'): string | undefined {
+  const trimmed = value.trim();
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso && format !== 'dmy' && format !== 'mdy') {
+    return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+
+  const parts = trimmed.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{2}|\d{4})\b/);
+  if (!parts) return undefined;
+
+  const year = parts[3].length === 2 ? 2000 + Number(parts[3]) : Number(parts[3]);
+  // Swiss exports are day-first; only an explicit mdy mapping swaps the order
+  return format === 'mdy'
+    ? toIsoDate(year, Number(parts[1]), Number(parts[2]))
+    : toIsoDate(year, Number(parts[2]), Number(parts[1]));
+}
+
+function toIsoDate(year: number, month: number, day: number): string | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  return date.toISOString().split('T')[0];
+}
+
+const normalizeHeader = (header: string) => header.replace(/^\uFEFF/, '').trim().toLowerCase();
+
+/**
+ * Returns the column index per mapped field, or null when a required column is missing
+ */
+function resolveColumns(headers: string[], mapping: CsvColumnMapping) {
+  const normalized = headers.map(normalizeHeader);
+  const indexOf = (column?: string) => (column ? normalized.indexOf(normalizeHeader(column)) : -1);
+
+  const merchant = mapping.merchantColumns.map(indexOf);
+  const amount = indexOf(mapping.amountColumn);
+  const debit = indexOf(mapping.debitColumn);
+  const credit = indexOf(mapping.creditColumn);
+  const date = indexOf(mapping.dateColumn);
+
+  if (merchant.length === 0 || merchant[0] === -1) return null;
+  if (amount === -1 && debit === -1 && credit === -1) return null;
+  if (mapping.dateColumn && date === -1) return null;
+
+  return {
+    date,
+    merchant: merchant.filter((idx) => idx !== -1),
+    amount,
+    debit,
+    credit,
+    rawCategory: indexOf(mapping.rawCategoryColumn),
+    justification: indexOf(mapping.justificationColumn),
+  };
+}
+
+/**
+ * Parses a decoded CSV statement.
+ * Mapping priority: explicit mapping > chosen preset > auto-detected preset > saved profile mapping.
+ * Files without a recognised header fall back to the legacy order date, merchant, amount, rawCategory, justification.
+ */
+export function parseCsvStatement(
+  text: string,
+  options: { mapping?: CsvColumnMapping; preset?: string; savedMapping?: CsvColumnMapping | null; encoding?: string } = {}
+): CsvParseResult {
+  const delimiter = options.mapping?.delimiter || detectDelimiter(text);
+  const records = tokenizeCsv(text, delimiter);
+  const result: CsvParseResult = {
+    rows: [],
+    errors: [],
+    preset: null,
+    delimiter,
+    encoding: options.encoding || 'utf-8',
+    headers: records[0]?.fields.map((h) => h.trim()) || [],
+  };
+  if (records.length === 0) return result;
+
+  const candidates: { id: string; mapping: CsvColumnMapping }[] = [];
+  if (options.mapping) {
+    candidates.push({ id: 'custom', mapping: options.mapping });
+  } else {
+    const presets = options.preset
+      ? CSV_BANK_PRESETS.filter((preset) => preset.id === options.preset)
+      : CSV_BANK_PRESETS;
+    presets.forEach((preset) => preset.variants.forEach((mapping) => candidates.push({ id: preset.id, mapping })));
+    if (!options.preset && options.savedMapping) {
+      candidates.push({ id: 'custom', mapping: options.savedMapping });
+    }
+  }
+
+  for (const candidate of candidates) {
+    for (let headerIdx = 0; headerIdx < Math.min(records.length, HEADER_SEARCH_ROWS); headerIdx++) {
+      const columns = resolveColumns(records[headerIdx].fields, candidate.mapping);
+      if (!columns) continue;
+
+      result.preset = candidate.id;
+      result.headers = records[headerIdx].fields.map((h) => h.trim());
+      mapRecords(records.slice(headerIdx + 1), columns, candidate.mapping, result);
+      return result;
+    }
+  }
+
+  // No header found: only the legacy header-less layout is still accepted
+  if (!options.mapping && !options.preset && !looksLikeHeader(records[0].fields)) {
+    const legacyColumns = { date: 0, merchant: [1], amount: 2, debit: -1, credit: -1, rawCategory: 3, justification: 4 };
+    result.preset = 'generic';
+    mapRecords(records, legacyColumns, LEGACY_COLUMN_ORDER, result);
+    return result;
+  }
+
+  result.errors.push({
+    line: records[0].line,
+    message: `Spalten nicht erkannt (${result.headers.filter(Boolean).join(', ')}). Bitte Bank-Vorlage oder eigene Zuordnung wählen.`,
+  });
+  return result;
+}
+
+// A header row has no parseable amount in it
+function looksLikeHeader(fields: string[]): boolean {
+  return fields.every((field) => parseAmount(field) === undefined || parseDate(field) !== undefined);
+}
+
+function mapRecords(
+  records: { fields: string[]; line: number }[],
+  columns: NonNullable<ReturnType<typeof resolveColumns>>,
+  mapping: CsvColumnMapping,
+  result: CsvParseResult
+) {
+  const cell = (fields: string[], idx: number) => (idx >= 0 && fields[idx] ? fields[idx].trim() : '');
+
+  records.forEach(({ fields, line }) => {
+    const merchant = columns.merchant
+      .map((idx) => cell(fields, idx))
+      .filter(Boolean)
+      .join(' ');
+    const amountCell = cell(fields, columns.amount);
+    const debitCell = cell(fields, columns.debit);
+    const creditCell = cell(fields, columns.credit);
+
+    // Footer and summary lines (e.g. PostFinance disclaimer) have neither merchant nor amount
+    if (!merchant && !amountCell && !debitCell && !creditCell) return;
+
+    const row: ImportRow = { __line: line, merchant: merchant || undefined };
+    let isCredit = false;
+
+    if (debitCell || creditCell) {
+      const debit = debitCell ? parseAmount(debitCell) : undefined;
+      const credit = creditCell ? parseAmount(creditCell) : undefined;
+      isCredit = !debit && Boolean(credit);
+      row.amount = isCredit ? Math.abs(credit as number) : debit !== undefined ? Math.abs(debit) : undefined;
+    } else if (amountCell) {
+      const amount = parseAmount(amountCell);
+      if (amount !== undefined && mapping.signedAmounts) {
+        isCredit = amount > 0;
+        row.amount = Math.abs(amount);
+      } else {
+        row.amount = amount;
+      }
+    }
+
+    if ((amountCell || debitCell || creditCell) && row.amount === undefined) {
+      result.errors.push({ line, message: `Ungültiger Betrag: ${amountCell || debitCell || creditCell}` });
+      return;
+    }
+
+    const dateCell = cell(fields, columns.date);
+    if (dateCell) {
+      const date = parseDate(dateCell, mapping.dateFormat);
+      if (!date) {
+        result.errors.push({ line, message: `Ungültiges Datum: ${dateCell}` });
+        return;
+      }
+      row.date = date;
+    }
+
+    row.rawCategory = cell(fields, columns.rawCategory) || (isCredit ? 'Einnahmen' : undefined);
+    row.justification = cell(fields, columns.justification) || undefined;
+    result.rows.push(row);
+  });
+}
@@ -0,0 +1,72 @@
+/**
+ * Category envelopes
+ * Compares the monthly budget limit of each category with the booked expenses of the category
+ * and its subcategories. With rollover, the unused (or overspent) amount of the months before
+ * the analysed period is carried into it; those months start on the same day as the period,
+ * so payday-aligned periods roll over period by period.
+ */
+
+import { categoryWithDescendants } from './categories';
+import { addPeriods } from './subscriptions';
+import { isBookedExpense } from './transactionFilters';
+import type { Category, CategoryEnvelope, Transaction } from './types';
+
+// Carry-over looks back at most this many months before the period
+const MAX_ROLLOVER_MONTHS = 12;
+
+export interface EnvelopeScope {
+  start: string; // YYYY-MM-DD, first day of the analysed period
+  months: number; // months in the period (at least 1)
+  transactions: Transaction[]; // transactions of the period
+}
+
+/**
+ * Envelopes of all expense categories with a budget limit, in taxonomy order.
+ * `history` holds all of the user's transactions and feeds the carry-over.
+ */
+export function computeEnvelopes(
+  categories: Category[],
+  history: Transaction[],
+  scope: EnvelopeScope
+): CategoryEnvelope[] {
+  const expenses = scope.transactions.filter((t) => isBookedExpense(t, categories));
+  const pastExpenses = history.filter((t) => isBookedExpense(t, categories) && t.date.slice(0, 10) < scope.start);
+
+  // Unused budget only accrues from the first month the user tracked expenses
+  const firstTracked = pastExpenses.reduce<string | null>(
+    (first, t) => (first === null || t.date.slice(0, 10) < first ? t.date.slice(0, 10) : first),
+    null
+  );
+  const earlierMonths: [string, string][] = [];
+  for (let back = MAX_ROLLOVER_MONTHS; back >= 1; back -= 1) {
+    const from = addPeriods(scope.start, 'monthly', -back);
+    const to = addPeriods(scope.start, 'monthly', 1 - back);
+    if (firstTracked && to > firstTracked) earlierMonths.push([from, to]);
+  }
+
+  return categories
+    .filter((category) => category.kind === 'expense' && category.budgetLimit !== undefined)
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name))
+    .map((category) => {
+      const names = categoryWithDescendants(categories, category.name);
+      const monthlyLimit = category.budgetLimit ?? 0;
+      const spent = expenses
+        .filter((t) => names.includes(t.category))
+        .reduce((sum, t) => sum + Math.abs(t.amount), 0);
+
+      let carriedOver = 0;
+      if (category.budgetRollover) {
+        const categoryExpenses = pastExpenses.filter((t) => names.includes(t.category));
+        earlierMonths.forEach(([from, to]) => {
+          const spentThen = categoryExpenses
+            .filter((t) => t.date.slice(0, 10) >= from && t.date.slice(0, 10) < to)
+            .reduce((sum, t) => sum + Math.abs(t.amount), 0);
+          carriedOver += monthlyLimit - spentThen;
+        });
+      }
+
+      const limit = monthlyLimit * scope.months;
+      const available = limit + carriedOver;
+      return { category: category.name, limit, carriedOver, available, spent, remaining: available - spent };
+    });
+}
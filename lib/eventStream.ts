@@ -0,0 +1,96 @@
+/**
+ * Server-Sent Events over fetch
+ * Long-running API routes (bulk imports) stream their progress as `text/event-stream`; the
+ * page reads the body with fetch, since EventSource cannot POST a file.
+ */
+
+export type EventSender = (event: string, data: unknown) => void;
+
+/**
+ * Streams whatever `run` sends as SSE events. An exception ends the stream with an
+ * `error` event ({ error }) instead of a broken connection.
+ * When the client disconnects, further events are dropped and `run` still finishes, so an
+ * import is not cut off halfway.
+ */
+export function eventStreamResponse(run: (send: EventSender) => Promise<void>, errorMessage: string): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: EventSender = (event, data) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch {
+          closed = true;
+        }
+      };
+      try {
+        await run(send);
+      } catch (error) {
+        console.error('Event stream error:', error);
+        send('error', { error: errorMessage });
+      } finally {
+        if (!closed) {
+          closed = true;
+          try {
+            controller.close();
+          } catch {
+            // already closed by the client
+          }
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+export function isEventStream(response: Response): boolean {
+  return (response.headers.get('Content-Type') ?? '').startsWith('text/event-stream');
+}
+
+/**
+ * Reads an SSE response body and calls `onEvent` for every event with its parsed data
+ */
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: string, data: any) => void
+): Promise<void> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    let event = 'message';
+    const data: string[] = [];
+    block.split('\n').forEach((line) => {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+    });
+    if (data.length > 0) onEvent(event, JSON.parse(data.join('\n')));
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+  if (buffer.trim()) dispatch(buffer);
+}
@@ -0,0 +1,154 @@
+/**
+ * Data export (server-only)
+ * Serialises transaction lists as CSV, JSON or XLSX and builds the full-account JSON export
+ * (profile, transactions, savings goals with rules, import batches, categorisation rules,
+ * merchant directory, category taxonomy, accounts).
+ */
+
+import 'server-only';
+import {
+  getAccounts,
+  getCategorizationRules,
+  getImportBatches,
+  getMerchants,
+  getSavingsGoals,
+  getTransactions,
+  getUser,
+} from './repository';
+import { DEFAULT_TAXONOMY } from './categories';
+import { getCategoryTaxonomy } from './categoryTaxonomy';
+import { isIncomeTransaction, isTransferTransaction } from './transactionFilters';
+import { buildXlsx, type XlsxCell } from './xlsx';
+import type {
+  Account,
+  CategorizationRule,
+  Category,
+  ImportBatch,
+  Merchant,
+  SavingsGoal,
+  Transaction,
+  User,
+} from './types';
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export interface AccountExport {
+  version: 1;
+  exportedAt: string; // ISO timestamp
+  user: User | null;
+  transactions: Transaction[];
+  savingsGoals: SavingsGoal[];
+  importBatches: ImportBatch[];
+  categorizationRules: CategorizationRule[];
+  merchants: Merchant[];
+  categories: Category[];
+  accounts: Account[];
+}
+
+// The first five columns match the CSV import template, so exports can be re-imported
+const TRANSACTION_COLUMNS = [
+  'date',
+  'merchant',
+  'amount',
+  'rawCategory',
+  'justification',
+  'category',
+  'type',
+  'isImpulse',
+  'decisionLabel',
+  'decisionExplanation',
+  'status',
+  'classificationSource',
+  'confidence',
+];
+
+function transactionRow(t: Transaction, categories: Category[]): XlsxCell[] {
+  return [
+    t.date,
+    t.merchant,
+    t.amount,
+    t.rawCategory,
+    t.justification,
+    t.category,
+    isTransferTransaction(t) ? 'transfer' : isIncomeTransaction(t, categories) ? 'income' : 'expense',
+    t.isImpulse,
+    t.decisionLabel,
+    t.decisionExplanation,
+    t.status ?? 'booked',
+    t.classificationSource,
+    t.confidence,
+  ];
+}
+
+const csvField = (value: XlsxCell) => {
+  if (value === null || value === undefined) return '';
+  // Text cells starting like a formula (e.g. a merchant "=HYPERLINK(...)") are kept as text in
+  // spreadsheets; numbers stay as they are so negative amounts remain numeric
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function transactionsToCsv(transactions: Transaction[], categories: Category[] = DEFAULT_TAXONOMY): string {
+  const lines = [TRANSACTION_COLUMNS, ...transactions.map((t) => transactionRow(t, categories))].map((row) => row.map(csvField).join(','));
+  // BOM so Excel opens umlauts correctly
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * Workbook with the transactions and a per-category summary of the same rows
+ */
+export function transactionsToXlsx(transactions: Transaction[], categories: Category[] = DEFAULT_TAXONOMY): Buffer {
+  const byCategory = new Map<string, { count: number; expenses: number; income: number }>();
+  transactions.forEach((t) => {
+    const entry = byCategory.get(t.category) ?? { count: 0, expenses: 0, income: 0 };
+    entry.count += 1;
+    // Transfers between the user's accounts are counted but are neither income nor expense
+    if (!isTransferTransaction(t)) {
+      if (isIncomeTransaction(t, categories)) entry.income += Math.abs(t.amount);
+      else entry.expenses += Math.abs(t.amount);
+    }
+    byCategory.set(t.category, entry);
+  });
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return buildXlsx([
+    { name: 'Transaktionen', rows: [TRANSACTION_COLUMNS, ...transactions.map((t) => transactionRow(t, categories))] },
+    {
+      name: 'Kategorien',
+      rows: [
+        ['category', 'count', 'expenses', 'income'],
+        ...Array.from(byCategory.entries())
+          .sort((a, b) => b[1].expenses - a[1].expenses)
+          .map(([category, entry]) => [category, entry.count, round(entry.expenses), round(entry.income)]),
+      ],
+    },
+  ]);
+}
+
+export async function buildAccountExport(userId: string): Promise<AccountExport> {
+  const [user, transactions, savingsGoals, importBatches, categorizationRules, merchants, categories, accounts] =
+    await Promise.all([
+      getUser(userId),
+      getTransactions(userId),
+      getSavingsGoals(userId),
+      getImportBatches(userId),
+      getCategorizationRules(userId),
+      getMerchants(userId),
+      getCategoryTaxonomy(userId),
+      getAccounts(userId),
+    ]);
+
+  return {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    user,
+    transactions,
+    savingsGoals,
+    importBatches,
+    categorizationRules,
+    merchants,
+    categories,
+    accounts,
+  };
+}
@@ -0,0 +1,214 @@
+/**
+ * Cash-flow forecast
+ * Projects the balance day by day for the rest of the current budget period and the following
+ * periods. Expected inflows and outflows are the salary (detected payday and usual amount),
+ * the next charges of the recurring payments, open bills (pending transactions) and, on every
+ * day, the average variable spending per category of the last 90 days.
+ */
+
+import { budgetPeriods, detectSalaryDay } from './budgetPeriod';
+import { merchantKey } from './merchants';
+import { addPeriods, isActiveSubscription } from './subscriptions';
+import { isIncomeTransaction, isSalaryTransaction, isTransferTransaction } from './transactionFilters';
+import type {
+  BudgetPeriodSetting,
+  CashFlowDay,
+  CashFlowEvent,
+  CashFlowForecast,
+  Category,
+  Subscription,
+  Transaction,
+  VariableSpend,
+} from './types';
+
+// Days of history the variable spending averages are taken from
+const VARIABLE_SPEND_WINDOW = 90;
+// Salary months the usual amount is taken from
+const SALARY_SAMPLE = 3;
+
+export interface ForecastInput {
+  transactions: Transaction[]; // all of the user's transactions
+  categories: Category[];
+  subscriptions: Subscription[]; // detected recurring payments (see lib/subscriptions.ts)
+  budgetPeriod: BudgetPeriodSetting;
+  monthlyNetIncome: number; // expected salary while none was booked yet
+  startBalance?: number; // current balance; default: booked income minus booked expenses (transfers cancel out)
+  periodsAhead?: number; // budget periods after the current one (default 3)
+  today?: string; // YYYY-MM-DD
+}
+
+const roundChf = (value: number) => Math.round(value * 100) / 100;
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function shiftDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Salary on the detected payday of every month without a booked salary yet */
+function salaryEvents(input: ForecastInput, booked: Transaction[], firstDay: string, end: string): CashFlowEvent[] {
+  const salaryByMonth = new Map<string, number>();
+  booked.filter(isSalaryTransaction).forEach((t) => {
+    const month = t.date.slice(0, 7);
+    salaryByMonth.set(month, (salaryByMonth.get(month) ?? 0) + Math.abs(t.amount));
+  });
+  const recentMonths = Array.from(salaryByMonth.keys()).sort().slice(-SALARY_SAMPLE);
+  const amount = recentMonths.length
+    ? median(recentMonths.map((month) => salaryByMonth.get(month) ?? 0))
+    : input.monthlyNetIncome;
+  if (amount <= 0) return [];
+
+  // Without salary history the income is expected when a budget period starts
+  const day = detectSalaryDay(booked);
+  const periods = budgetPeriods(input.budgetPeriod, booked);
+  const events: CashFlowEvent[] = [];
+  let month = firstDay.slice(0, 7);
+  while (month <= end.slice(0, 7)) {
+    const date = day !== null ? `${month}-${pad(day)}` : periods.startingIn(month).start;
+    if (!salaryByMonth.has(month) && date >= firstDay && date <= end) {
+      events.push({ date, kind: 'salary', label: 'Lohn', amount: roundChf(amount) });
+    }
+    month = addPeriods(`${month}-01`, 'monthly', 1).slice(0, 7);
+  }
+  return events;
+}
+
+/**
+ * Next charges of the active recurring payments. A payment with missed charges is left out (it
+ * may have stopped); a charge still within its grace period is due once on `firstDay`.
+ */
+function subscriptionEvents(subscriptions: Subscription[], firstDay: string, end: string): CashFlowEvent[] {
+  const events: CashFlowEvent[] = [];
+  subscriptions
+    .filter((subscription) => isActiveSubscription(subscription) && subscription.missedCharges === 0)
+    .forEach((subscription) => {
+      const next = subscription.nextCharge;
+      if (!next) return;
+      const charge = (date: string): CashFlowEvent => ({
+        date,
+        kind: 'subscription',
+        label: subscription.merchant,
+        amount: -roundChf(subscription.amount),
+      });
+
+      let step = 0;
+      if (next < firstDay) {
+        events.push(charge(firstDay));
+        while (addPeriods(next, subscription.period, step) < firstDay) step += 1;
+      }
+      for (let date = addPeriods(next, subscription.period, step); date <= end; ) {
+        events.push(charge(date));
+        step += 1;
+        date = addPeriods(next, subscription.period, step);
+      }
+    });
+  return events;
+}
+
+/** Open bills on their due date; overdue ones are due on `firstDay` */
+function billEvents(transactions: Transaction[], categories: Category[], firstDay: string, end: string): CashFlowEvent[] {
+  return transactions
+    .filter((t) => t.status === 'pending' && t.date.slice(0, 10) <= end)
+    .map((t) => ({
+      date: t.date.slice(0, 10) < firstDay ? firstDay : t.date.slice(0, 10),
+      kind: 'bill' as const,
+      label: t.merchant,
+      amount: roundChf(isIncomeTransaction(t, categories) ? Math.abs(t.amount) : -Math.abs(t.amount)),
+    }));
+}
+
+/**
+ * Average daily spending per category over the last 90 days (or since the first booked expense),
+ * without recurring payments and paid QR-bills, which are forecast on their own dates
+ */
+function variableSpending(
+  expenses: Transaction[],
+  subscriptions: Subscription[],
+  today: string
+): VariableSpend[] {
+  const recurring = new Set(subscriptions.map((subscription) => subscription.merchantKey));
+  const firstExpense = expenses.reduce<string | null>(
+    (first, t) => (first === null || t.date.slice(0, 10) < first ? t.date.slice(0, 10) : first),
+    null
+  );
+  if (!firstExpense) return [];
+  const windowStart = shiftDays(today, 1 - VARIABLE_SPEND_WINDOW);
+  const from = firstExpense > windowStart ? firstExpense : windowStart;
+  const days = daysBetween(from, today) + 1;
+
+  const byCategory = new Map<string, number>();
+  expenses
+    .filter((t) => t.date.slice(0, 10) >= from && !t.paymentReference && !recurring.has(merchantKey(t.merchant)))
+    .forEach((t) => byCategory.set(t.category, (byCategory.get(t.category) ?? 0) + Math.abs(t.amount)));
+
+  return Array.from(byCategory.entries())
+    .map(([category, total]) => ({ category, dailyAverage: roundChf(total / days) }))
+    .filter((spend) => spend.dailyAverage > 0)
+    .sort((a, b) => b.dailyAverage - a.dailyAverage);
+}
+
+/**
+ * Day-by-day balance from today to the end of the `periodsAhead`-th budget period after the
+ * current one
+ */
+export function forecastCashFlow(input: ForecastInput): CashFlowForecast {
+  const today = input.today ?? new Date().toISOString().slice(0, 10);
+  const transactions = input.transactions.filter((t) => !isTransferTransaction(t));
+  const booked = transactions.filter((t) => t.status !== 'pending' && t.date.slice(0, 10) <= today);
+  const expenses = booked.filter((t) => !isIncomeTransaction(t, input.categories));
+
+  const periods = budgetPeriods(input.budgetPeriod, booked);
+  const periodEnd = periods.containing(today).end;
+  let end = periodEnd;
+  for (let i = 0; i < (input.periodsAhead ?? 3); i += 1) {
+    end = periods.containing(shiftDays(end, 1)).end;
+  }
+
+  const startBalance =
+    input.startBalance ??
+    booked.reduce((sum, t) => sum + (isIncomeTransaction(t, input.categories) ? 1 : -1) * Math.abs(t.amount), 0);
+
+  const firstDay = shiftDays(today, 1);
+  const events = [
+    ...salaryEvents(input, booked, firstDay, end),
+    ...subscriptionEvents(input.subscriptions, firstDay, end),
+    ...billEvents(transactions, input.categories, firstDay, end),
+  ].sort((a, b) => a.date.localeCompare(b.date) || a.amount - b.amount);
+  const variableSpend = variableSpending(expenses, input.subscriptions, today);
+  const dailyVariable = variableSpend.reduce((sum, spend) => sum + spend.dailyAverage, 0);
+
+  const days: CashFlowDay[] = [{ date: today, inflow: 0, outflow: 0, balance: roundChf(startBalance) }];
+  let balance = startBalance;
+  for (let date = firstDay; date <= end; date = shiftDays(date, 1)) {
+    const dayEvents = events.filter((event) => event.date === date);
+    const inflow = dayEvents.filter((event) => event.amount > 0).reduce((sum, event) => sum + event.amount, 0);
+    const outflow =
+      dailyVariable - dayEvents.filter((event) => event.amount < 0).reduce((sum, event) => sum + event.amount, 0);
+    balance += inflow - outflow;
+    days.push({ date, inflow: roundChf(inflow), outflow: roundChf(outflow), balance: roundChf(balance) });
+  }
+
+  const lowest = days.reduce((low, day) => (day.balance < low.balance ? day : low), days[0]);
+  return {
+    today,
+    startBalance: roundChf(startBalance),
+    periodEnd,
+    end,
+    days,
+    events,
+    variableSpend,
+    periodEndBalance: days.find((day) => day.date === periodEnd)?.balance ?? roundChf(startBalance),
+    lowestBalance: { date: lowest.date, balance: lowest.balance },
+    firstNegativeDate: days.find((day) => day.balance < 0)?.date ?? null,
+  };
+}
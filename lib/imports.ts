@@ -0,0 +1,337 @@
+/**
+ * Bulk import pipeline (server-only)
+ * Turns parsed file rows into classified transactions, flags rows that are already stored
+ * and writes accepted rows as one import batch so a whole upload can be rolled back.
+ * Bank bookings of open QR-bills mark the bill as paid instead of adding a second expense.
+ */
+
+import 'server-only';
+import { randomUUID } from 'crypto';
+import { dataExtractionAgent } from './agents';
+import { classifyTransactions } from './classification';
+import { getCategoryTaxonomy } from './categoryTaxonomy';
+import { FALLBACK_CATEGORY, resolveCategoryName } from './categories';
+import { findMatchingRule } from './rules';
+import {
+  getTransactions,
+  getCategorizationRules,
+  getMerchants,
+  getSavingsGoals,
+  getUser,
+  createTransaction,
+  updateTransaction,
+  createImportBatch,
+  updateImportBatch,
+  deleteTransactionsByImportBatch,
+} from './repository';
+import type {
+  DataExtractionInput,
+  ImpulseClassificationInput,
+  ImportBatch,
+  ImportPreviewRow,
+  ImportProgress,
+  ImportRowResult,
+  ClassificationSource,
+  Transaction,
+} from './types';
+
+export type ImportRow = Partial<DataExtractionInput> & { __line: number };
+
+export type ImportError = { line: number; message: string };
+
+/** Called once per row while an import runs (server-sent to the import page) */
+export type ImportProgressListener = (progress: ImportProgress) => void;
+
+function rowResult(line: number, status: ImportRowResult['status'], transaction: Transaction): ImportRowResult {
+  return { line, status, merchant: transaction.merchant, amount: transaction.amount, category: transaction.category };
+}
+
+/**
+ * Rows count as duplicates when date, amount and merchant match (sign and case ignored)
+ */
+export function duplicateKey(transaction: Pick<Transaction, 'date' | 'amount' | 'merchant'>): string {
+  return [
+    transaction.date,
+    Math.abs(transaction.amount).toFixed(2),
+    transaction.merchant.trim().toLowerCase(),
+  ].join('|');
+}
+
+/**
+ * Stored transactions by duplicate key; rows stored before a merchant was normalised or merged
+ * also match their bank text
+ */
+function storedByKey(transactions: Transaction[]): Map<string, Transaction> {
+  const stored = new Map<string, Transaction>();
+  transactions.forEach((t) => {
+    stored.set(duplicateKey(t), t);
+    if (t.rawMerchant) stored.set(duplicateKey({ ...t, merchant: t.rawMerchant }), t);
+  });
+  return stored;
+}
+
+/**
+ * Bank booking of an open QR-bill: same amount and either the bill reference or the creditor
+ * name shows up in the statement row (the booking date usually differs from the due date)
+ */
+function matchesPendingBill(
+  row: Pick<Transaction, 'amount' | 'merchant' | 'rawMerchant' | 'justification'>,
+  bill: Transaction
+): boolean {
+  if (Math.abs(row.amount).toFixed(2) !== Math.abs(bill.amount).toFixed(2)) return false;
+  const text = `${row.merchant} ${row.rawMerchant ?? ''} ${row.justification ?? ''}`.toLowerCase().replace(/\s+/g, '');
+  if (bill.paymentReference && text.includes(bill.paymentReference.toLowerCase())) return true;
+  const creditor = bill.merchant.toLowerCase().split(/\s+/)[0];
+  return creditor.length >= 3 && text.includes(creditor);
+}
+
+/**
+ * Dry run: extracts and classifies every row without storing anything.
+ * Duplicates reuse the classification of the stored twin instead of calling the LLM again
+ * (a row repeated within the file is classified, but flagged as duplicate of the first one);
+ * payments of open QR-bills take over the bill's classification and point to it (`paysBill`).
+ * All other rows are classified together (batched LLM prompts, see classifyTransactions).
+ * `onProgress` receives every row once it is classified, flagged as duplicate or rejected.
+ */
+export async function buildImportPreview(
+  rows: ImportRow[],
+  userId: string,
+  onProgress?: ImportProgressListener
+): Promise<{ rows: ImportPreviewRow[]; errors: ImportError[] }> {
+  const existing = await getTransactions(userId);
+  const stored = storedByKey(existing);
+  // Earlier rows of the same file, so a row listed twice is flagged too
+  const inFile = new Map<string, string>();
+  const inFileDuplicates = new Map<number, string>();
+  const pendingBills = existing.filter((t) => t.status === 'pending');
+  const [rules, merchants, categories, savingsGoals, user] = await Promise.all([
+    getCategorizationRules(userId),
+    getMerchants(userId),
+    getCategoryTaxonomy(userId),
+    getSavingsGoals(userId),
+    getUser(userId),
+  ]);
+
+  const previews: ImportPreviewRow[] = [];
+  const errors: ImportError[] = [];
+  const toClassify: { line: number; transaction: ImpulseClassificationInput['transaction'] }[] = [];
+  let done = 0;
+  const report = (row: ImportRowResult) => onProgress?.({ phase: 'classify', done: ++done, total: rows.length, row });
+  const reject = (error: ImportError) => {
+    errors.push(error);
+    report({ line: error.line, status: 'error', merchant: rows.find((row) => row.__line === error.line)?.merchant, message: error.message });
+  };
+
+  for (const row of rows) {
+    if (!row.merchant || row.amount === undefined || Number.isNaN(row.amount)) {
+      reject({ line: row.__line, message: 'merchant und amount sind Pflichtfelder.' });
+      continue;
+    }
+
+    try {
+      const extracted = await dataExtractionAgent(
+        {
+          date: row.date,
+          merchant: row.merchant,
+          amount: row.amount,
+          rawCategory: row.rawCategory,
+          justification: row.justification,
+        },
+        userId,
+        merchants
+      );
+
+      const twin =
+        stored.get(duplicateKey(extracted)) ??
+        (extracted.rawMerchant ? stored.get(duplicateKey({ ...extracted, merchant: extracted.rawMerchant })) : undefined);
+      const bill = twin ? undefined : pendingBills.find((pending) => matchesPendingBill(extracted, pending));
+      const source = twin ?? bill;
+      if (source) {
+        // A bill is paid by one booking only
+        if (bill) pendingBills.splice(pendingBills.indexOf(bill), 1);
+        previews.push({
+          line: row.__line,
+          transaction: {
+            ...extracted,
+            category: source.category,
+            isImpulse: source.isImpulse,
+            decisionLabel: source.decisionLabel,
+            decisionExplanation: source.decisionExplanation,
+            decisionExplanationEn: source.decisionExplanationEn,
+            ruleId: source.ruleId,
+            ruleName: source.ruleName,
+            classificationSource: source.classificationSource,
+            confidence: source.confidence,
+          },
+          ...(twin ? { duplicateOf: twin.id } : { paysBill: source.id }),
+        });
+        report(rowResult(row.__line, twin ? 'duplicate' : 'billPaid', previews[previews.length - 1].transaction));
+        continue;
+      }
+
+      const earlier = inFile.get(duplicateKey(extracted));
+      if (earlier) inFileDuplicates.set(row.__line, earlier);
+      else inFile.set(duplicateKey(extracted), extracted.id);
+      toClassify.push({ line: row.__line, transaction: extracted });
+    } catch (error: any) {
+      console.error('Import row error:', error);
+      reject({ line: row.__line, message: error?.message || 'Unbekannter Fehler.' });
+    }
+  }
+
+  const classified = await classifyTransactions(
+    toClassify.map((entry) => entry.transaction),
+    { rules, categories, transactions: existing, savingsGoals, user },
+    (index, transaction) => report(rowResult(toClassify[index].line, 'classified', transaction))
+  );
+  toClassify.forEach((entry, index) => {
+    const duplicateOf = inFileDuplicates.get(entry.line);
+    previews.push({ line: entry.line, transaction: classified[index], ...(duplicateOf ? { duplicateOf } : {}) });
+  });
+
+  return { rows: previews.sort((a, b) => a.line - b.line), errors };
+}
+
+const PREVIEW_SOURCES: ClassificationSource[] = ['llm', 'local', 'fallback'];
+
+/**
+ * The preview round-trips through the client, so its classification is checked before storing:
+ * a matching rule is applied again, the category must exist in the taxonomy (else fallback),
+ * only classifier sources are kept (never `user`) and rows are stored as booked under a new id.
+ */
+export async function verifyPreviewRows(userId: string, rows: ImportPreviewRow[]): Promise<ImportPreviewRow[]> {
+  const [rules, categories] = await Promise.all([getCategorizationRules(userId), getCategoryTaxonomy(userId)]);
+
+  return rows.map((row) => {
+    const t = row.transaction;
+    const base: Transaction = { ...t, id: randomUUID(), status: 'booked', paymentReference: undefined };
+    const rule = findMatchingRule(rules, t);
+    if (rule) {
+      return {
+        ...row,
+        transaction: {
+          ...base,
+          category: resolveCategoryName(categories, rule.category) ?? rule.category,
+          isImpulse: rule.isImpulse,
+          decisionLabel: rule.decisionLabel,
+          decisionExplanation: `Regel «${rule.name}» angewendet.`,
+          decisionExplanationEn: `Rule “${rule.name}” applied.`,
+          ruleId: rule.id,
+          ruleName: rule.name,
+          classificationSource: 'rule',
+          confidence: 1,
+        },
+      };
+    }
+
+    const category = resolveCategoryName(categories, t.category);
+    const source = t.classificationSource && PREVIEW_SOURCES.includes(t.classificationSource) ? t.classificationSource : 'llm';
+    const confidence = Number(t.confidence);
+    return {
+      ...row,
+      transaction: {
+        ...base,
+        category: category ?? resolveCategoryName(categories, FALLBACK_CATEGORY) ?? FALLBACK_CATEGORY,
+        ruleId: null,
+        ruleName: null,
+        classificationSource: category ? source : 'fallback',
+        // Unknown confidences end up in the review queue
+        confidence: category && Number.isFinite(confidence) ? Math.min(Math.max(confidence, 0), 1) : 0.2,
+      },
+    };
+  });
+}
+
+/**
+ * Stores the given preview rows under a new import batch.
+ * A row that pays an open QR-bill books the bill on the bank date instead of adding a new
+ * transaction (rolling the batch back leaves the bill booked); when the bill no longer exists
+ * the row is stored as usual. A row that matches a stored transaction or an earlier row is
+ * skipped as duplicate, unless the preview already flagged it and the user picked it anyway
+ * (committing the same preview twice stores nothing twice). The batch is only created with the
+ * first new transaction, so no batch is returned when there was nothing to store.
+ * `onProgress` receives every stored or failed row.
+ */
+export async function commitImportRows(
+  userId: string,
+  fileName: string,
+  rows: ImportPreviewRow[],
+  onProgress?: ImportProgressListener
+): Promise<{ batch: ImportBatch | null; succeeded: number; duplicates: number; errors: ImportError[] }> {
+  if (rows.length === 0) return { batch: null, succeeded: 0, duplicates: 0, errors: [] };
+
+  let batch: ImportBatch | null = null;
+  let succeeded = 0;
+  let created = 0;
+  let duplicates = 0;
+  const errors: ImportError[] = [];
+  const existing = await getTransactions(userId);
+  const bills = new Map(existing.map((t) => [t.id, t]));
+  const stored = storedByKey(existing);
+
+  try {
+    for (let index = 0; index < rows.length; index++) {
+      const row = rows[index];
+      let result: ImportRowResult;
+      const key = duplicateKey(row.transaction);
+      if (!row.duplicateOf && !row.paysBill && stored.has(key)) {
+        duplicates += 1;
+        onProgress?.({ phase: 'store', done: index + 1, total: rows.length, row: rowResult(row.line, 'duplicate', row.transaction) });
+        continue;
+      }
+      try {
+        // The preview round-trips through the client: only a matching bill is booked
+        const linked = row.paysBill ? bills.get(row.paysBill) : undefined;
+        const bill = linked && matchesPendingBill(row.transaction, linked) ? linked : undefined;
+        if (bill && bill.status !== 'pending') {
+          throw new Error('Rechnung ist bereits bezahlt.');
+        }
+        if (bill) {
+          await updateTransaction(userId, bill.id, {
+            status: 'booked',
+            date: row.transaction.date,
+            ...(row.transaction.accountId ? { accountId: row.transaction.accountId } : {}),
+          });
+          bills.set(bill.id, { ...bill, status: 'booked' });
+          result = rowResult(row.line, 'billPaid', row.transaction);
+        } else {
+          if (!batch) {
+            batch = await createImportBatch({
+              id: randomUUID(),
+              userId,
+              fileName,
+              createdAt: new Date().toISOString(),
+              transactionCount: 0,
+              status: 'committed',
+            });
+          }
+          const transaction = await createTransaction({ ...row.transaction, userId, importBatchId: batch.id });
+          stored.set(key, transaction);
+          created += 1;
+          result = rowResult(row.line, 'created', row.transaction);
+        }
+        succeeded += 1;
+      } catch (error: any) {
+        console.error('Import commit error:', error);
+        const message = error?.message || 'Unbekannter Fehler.';
+        errors.push({ line: row.line, message });
+        result = { ...rowResult(row.line, 'error', row.transaction), message };
+      }
+      onProgress?.({ phase: 'store', done: index + 1, total: rows.length, row: result });
+    }
+  } finally {
+    // Also when the import stops partway, so the batch lists the rows it did store
+    if (batch) batch = await updateImportBatch(userId, batch.id, { transactionCount: created });
+  }
+
+  return { batch, succeeded, duplicates, errors };
+}
+
+/**
+ * Undo: removes all transactions of the batch and keeps the batch record as rolled back
+ */
+export async function rollbackImportBatch(userId: string, batchId: string): Promise<number> {
+  const deleted = await deleteTransactionsByImportBatch(userId, batchId);
+  await updateImportBatch(userId, batchId, { status: 'rolled_back' });
+  return deleted;
+}
@@ -78,12 +78,12 @@ export async function loadKaggleData(): Promise<KaggleTransaction[]> {
       decisionLabel: 'useful',
       decisionExplanation: 'Geplanter Kauf von notwendigen Kleidungsstücken.',
     },
-    // Food Delivery - mixed
+    // Gastronomie (food delivery) - mixed
     {
       date: '2024-01-22',
       merchant: 'Uber Eats',
       amount: 42.5,
-      category: 'Food Delivery',
+      category: 'Gastronomie',
       isImpulse: true,
       decisionLabel: 'unnecessary',
       decisionExplanation: 'Späte Essensbestellung aus Bequemlichkeit, obwohl Lebensmittel zu Hause waren.',
@@ -92,7 +92,7 @@ export async function loadKaggleData(): Promise<KaggleTransaction[]> {
       date: '2024-02-05',
       merchant: 'Just Eat',
       amount: 38.9,
-      category: 'Food Delivery',
+      category: 'Gastronomie',
       isImpulse: true,
       decisionLabel: 'unnecessary',
       decisionExplanation: 'Spontane Bestellung ohne echten Bedarf. Hätte selbst kochen können.',
@@ -101,26 +101,27 @@ export async function loadKaggleData(): Promise<KaggleTransaction[]> {
       date: '2024-02-14',
       merchant: 'Pizza Kurier',
       amount: 65.0,
-      category: 'Food Delivery',
+      category: 'Gastronomie',
       isImpulse: false,
       decisionLabel: 'useful',
       decisionExplanation: 'Geplantes Abendessen mit Freunden. Soziales Event.',
     },
-    // Transport - usually useful
+    // Mobilität - Öffentlicher Verkehr (public transport) - usually useful
     {
       date: '2024-01-16',
       merchant: 'SBB',
       amount: 85.0,
-      category: 'Transport',
+      category: 'Mobilität - Öffentlicher Verkehr',
       isImpulse: false,
       decisionLabel: 'useful',
       decisionExplanation: 'Monatliches Bahnabo für den Arbeitsweg. Notwendige Ausgabe.',
     },
+    // Mobilität - Auto (taxi, car sharing) - usually useful
     {
       date: '2024-01-25',
       merchant: 'Uber',
       amount: 28.5,
-      category: 'Transport',
+      category: 'Mobilität - Auto',
       isImpulse: false,
       decisionLabel: 'useful',
       decisionExplanation: 'Taxifahrt nach verpasstem letztem Zug. Notwendig.',
@@ -129,7 +130,7 @@ export async function loadKaggleData(): Promise<KaggleTransaction[]> {
       date: '2024-02-08',
       merchant: 'Mobility',
       amount: 45.0,
-      category: 'Transport',
+      category: 'Mobilität - Auto',
       isImpulse: false,
       decisionLabel: 'useful',
       decisionExplanation: 'Carsharing für Wochenendeinkauf. Sinnvolle Nutzung.',
@@ -197,7 +198,7 @@ export async function getKaggleFewShots(count: number = 5): Promise<KaggleTransa
   const examples: KaggleTransaction[] = [];
 
   // Add one from each major category
-  const categories = ['Lebensmittel', 'Shopping', 'Food Delivery', 'Transport', 'Unterhaltung'];
+  const categories = ['Lebensmittel', 'Shopping', 'Gastronomie', 'Mobilität - Öffentlicher Verkehr', 'Unterhaltung'];
 
   for (const category of categories) {
     const categoryExample = data.find((t) => t.category === category);
@@ -0,0 +1,156 @@
+/**
+ * Local offline classifier
+ * A multinomial naive Bayes model trained from the categories the user chose themselves
+ * (PATCH /api/transactions stores the override as `rawCategory`). Features are the merchant
+ * words, the whole merchant, an amount bucket and the weekday. The classification pipeline
+ * uses it as a fast first pass and only asks the LLM when the model is unsure.
+ */
+
+import { findCategory } from './categories';
+import { merchantKey } from './merchants';
+import type { Category, Transaction } from './types';
+
+type TrainingTransaction = Pick<
+  Transaction,
+  'date' | 'merchant' | 'amount' | 'rawCategory' | 'category' | 'isImpulse' | 'status' | 'ruleId' | 'classificationSource'
+>;
+type PredictableTransaction = Pick<Transaction, 'date' | 'merchant' | 'amount'>;
+
+interface ClassStats {
+  examples: number;
+  impulse: number;
+  tokens: Map<string, number>;
+  tokenTotal: number;
+}
+
+export interface LocalClassifierModel {
+  examples: number;
+  vocabulary: Set<string>;
+  classes: Map<string, ClassStats>;
+}
+
+export interface LocalPrediction {
+  category: string;
+  confidence: number; // posterior probability of the winning category (0-1)
+  examples: number; // corrected transactions of that category the model learned from
+  isImpulse: boolean;
+  decisionLabel: 'useful' | 'unnecessary';
+}
+
+// Below this many corrections the model only memorises single merchants
+const MIN_TRAINING_EXAMPLES = 5;
+const MIN_CATEGORY_EXAMPLES = 2;
+
+// Upper bounds in CHF; one bucket per range keeps "coffee" and "rent" apart
+const AMOUNT_BUCKETS = [10, 25, 50, 100, 250, 500, 1000, 2500];
+
+/** Default confidence above which the LLM is skipped; override with LOCAL_CLASSIFIER_MIN_CONFIDENCE */
+export const DEFAULT_MIN_CONFIDENCE = 0.8;
+
+/**
+ * True for transactions whose category the user set (or confirmed) themselves. Rows stored
+ * before the classification source existed count when the category equals the stored override.
+ * Rule results and open bills are not corrections.
+ */
+export function isUserCorrection(transaction: TrainingTransaction): boolean {
+  if (transaction.status === 'pending') return false;
+  if (transaction.classificationSource) return transaction.classificationSource === 'user';
+  return !transaction.ruleId && !!transaction.rawCategory && transaction.rawCategory === transaction.category;
+}
+
+function weekday(date: string): number | null {
+  const parsed = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  return Number.isNaN(parsed.getTime()) ? null : parsed.getUTCDay();
+}
+
+/** Feature tokens of a transaction */
+export function transactionFeatures(transaction: PredictableTransaction): string[] {
+  const words = transaction.merchant
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length >= 2 && !/^\d+$/.test(word));
+
+  const amount = Math.abs(transaction.amount);
+  const bucket = AMOUNT_BUCKETS.findIndex((limit) => amount < limit);
+  const day = weekday(transaction.date);
+
+  const features = Array.from(new Set(words)).map((word) => `w:${word}`);
+  const key = merchantKey(transaction.merchant);
+  if (key) features.push(`m:${key}`);
+  features.push(`a:${bucket === -1 ? AMOUNT_BUCKETS.length : bucket}`);
+  if (day !== null) features.push(`d:${day}`);
+  return features;
+}
+
+/**
+ * Trains the model from the user's corrected transactions. Corrections to categories that
+ * no longer exist in the taxonomy are ignored.
+ */
+export function trainLocalClassifier(transactions: TrainingTransaction[], categories: Category[]): LocalClassifierModel {
+  const model: LocalClassifierModel = { examples: 0, vocabulary: new Set(), classes: new Map() };
+
+  for (const transaction of transactions) {
+    if (!isUserCorrection(transaction) || !findCategory(categories, transaction.category)) continue;
+
+    let stats = model.classes.get(transaction.category);
+    if (!stats) {
+      stats = { examples: 0, impulse: 0, tokens: new Map(), tokenTotal: 0 };
+      model.classes.set(transaction.category, stats);
+    }
+    stats.examples += 1;
+    if (transaction.isImpulse) stats.impulse += 1;
+    for (const feature of transactionFeatures(transaction)) {
+      stats.tokens.set(feature, (stats.tokens.get(feature) ?? 0) + 1);
+      stats.tokenTotal += 1;
+      model.vocabulary.add(feature);
+    }
+    model.examples += 1;
+  }
+
+  return model;
+}
+
+/**
+ * Most likely category with its posterior probability, or null while the model has too few
+ * corrections or the transaction shares no feature with them.
+ */
+export function predictCategory(model: LocalClassifierModel, transaction: PredictableTransaction): LocalPrediction | null {
+  if (model.examples < MIN_TRAINING_EXAMPLES || model.classes.size === 0) return null;
+
+  const features = transactionFeatures(transaction);
+  // Amount and weekday alone say too little; require a known merchant word
+  if (!features.some((feature) => !feature.startsWith('a:') && !feature.startsWith('d:') && model.vocabulary.has(feature))) {
+    return null;
+  }
+
+  const vocabularySize = model.vocabulary.size;
+  const scores = Array.from(model.classes.entries()).map(([category, stats]) => {
+    // Laplace smoothing so unseen features do not zero out a category
+    let score = Math.log(stats.examples / model.examples);
+    for (const feature of features) {
+      score += Math.log(((stats.tokens.get(feature) ?? 0) + 1) / (stats.tokenTotal + vocabularySize));
+    }
+    return { category, stats, score };
+  });
+
+  const best = scores.reduce((top, entry) => (entry.score > top.score ? entry : top));
+  if (best.stats.examples < MIN_CATEGORY_EXAMPLES) return null;
+  const total = scores.reduce((sum, entry) => sum + Math.exp(entry.score - best.score), 0);
+  const isImpulse = best.stats.impulse * 2 > best.stats.examples;
+
+  return {
+    category: best.category,
+    confidence: 1 / total,
+    examples: best.stats.examples,
+    isImpulse,
+    decisionLabel: isImpulse ? 'unnecessary' : 'useful',
+  };
+}
+
+/** Confidence threshold from LOCAL_CLASSIFIER_MIN_CONFIDENCE (0-1), default 0.8 */
+export function localClassifierMinConfidence(): number {
+  const configured = Number(process.env.LOCAL_CLASSIFIER_MIN_CONFIDENCE);
+  return configured > 0 && configured <= 1 ? configured : DEFAULT_MIN_CONFIDENCE;
+}
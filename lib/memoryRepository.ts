@@ -0,0 +1,564 @@
+/**
+ * In-memory storage adapter (server-only)
+ * Implements BudgetRepository without any external service so the app and its agents
+ * can run fully offline (STORAGE_BACKEND=memory). Data lives for the lifetime of the
+ * Node process; the store is pinned on globalThis to survive Next.js hot reloads.
+ */
+
+import 'server-only';
+import type {
+  AccountUpdate,
+  BudgetRepository,
+  CategorizationRuleUpdate,
+  CategoryUpdate,
+  ImportBatchUpdate,
+  MerchantUpdate,
+  SavingsGoalUpdate,
+  TransactionCategoryUpdate,
+  TransactionUpdate,
+  UserBudgetUpdate,
+} from './repository';
+import type {
+  Account,
+  User,
+  Transaction,
+  SavingsGoal,
+  ImportBatch,
+  CsvColumnMapping,
+  CategorizationRule,
+  Category,
+  Merchant,
+  SubscriptionMark,
+} from './types';
+
+// createdAt mirrors the `created_at` column used for ordering in the Supabase adapter
+type Stored<T> = { value: T; createdAt: number };
+
+type MemoryStore = {
+  users: Map<string, User>;
+  transactions: Map<string, Stored<Transaction>>;
+  goals: Map<string, Stored<SavingsGoal>>;
+  importBatches: Map<string, ImportBatch>;
+  rules: Map<string, CategorizationRule>;
+  categories: Map<string, Category>;
+  merchants: Map<string, Merchant>;
+  accounts: Map<string, Account>;
+  subscriptionMarks: Map<string, SubscriptionMark>;
+  sequence: number;
+};
+
+const globalForStore = globalThis as typeof globalThis & { __smartBudgetMemoryStore?: MemoryStore };
+
+function getStore(): MemoryStore {
+  if (!globalForStore.__smartBudgetMemoryStore) {
+    globalForStore.__smartBudgetMemoryStore = {
+      users: new Map(),
+      transactions: new Map(),
+      goals: new Map(),
+      importBatches: new Map(),
+      rules: new Map(),
+      categories: new Map(),
+      merchants: new Map(),
+      accounts: new Map(),
+      subscriptionMarks: new Map(),
+      sequence: 0,
+    };
+  }
+  return globalForStore.__smartBudgetMemoryStore;
+}
+
+/**
+ * Monotonic timestamp so records inserted within the same millisecond keep their order
+ */
+function nextCreatedAt(): number {
+  const store = getStore();
+  store.sequence = Math.max(store.sequence + 1, Date.now());
+  return store.sequence;
+}
+
+// Copies keep callers from mutating stored records by reference
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function notFound(entity: string, id: string): Error {
+  return new Error(`${entity} ${id} not found`);
+}
+
+// Users
+async function getUser(userId: string): Promise<User | null> {
+  const user = getStore().users.get(userId);
+  return user ? clone(user) : null;
+}
+
+async function createUser(user: User): Promise<User> {
+  const store = getStore();
+  if (store.users.has(user.id)) {
+    throw new Error(`User ${user.id} already exists`);
+  }
+  store.users.set(user.id, clone(user));
+  return clone(user);
+}
+
+async function updateUserBudget(userId: string, budget: UserBudgetUpdate): Promise<User> {
+  const user = getStore().users.get(userId);
+  if (!user) throw notFound('User', userId);
+  user.monthlyNetIncome = budget.monthlyNetIncome;
+  user.budgetProfile = clone(budget.budgetProfile);
+  user.monthlyFlexibleBudget = budget.monthlyFlexibleBudget;
+  user.budgetPeriod = clone(budget.budgetPeriod);
+  return clone(user);
+}
+
+async function updateUserCsvMapping(userId: string, csvMapping: CsvColumnMapping | null): Promise<User> {
+  const user = getStore().users.get(userId);
+  if (!user) throw notFound('User', userId);
+  user.csvMapping = csvMapping ? clone(csvMapping) : null;
+  return clone(user);
+}
+
+// Transactions
+async function getTransactions(userId: string): Promise<Transaction[]> {
+  return Array.from(getStore().transactions.values())
+    .map((entry) => entry.value)
+    .filter((t) => t.userId === userId)
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .map(clone);
+}
+
+async function getTransaction(userId: string, transactionId: string): Promise<Transaction | null> {
+  const entry = getStore().transactions.get(transactionId);
+  return entry && entry.value.userId === userId ? clone(entry.value) : null;
+}
+
+async function createTransaction(transaction: Transaction): Promise<Transaction> {
+  const store = getStore();
+  if (store.transactions.has(transaction.id)) {
+    throw new Error(`Transaction ${transaction.id} already exists`);
+  }
+  store.transactions.set(transaction.id, { value: clone(transaction), createdAt: nextCreatedAt() });
+  return clone(transaction);
+}
+
+async function updateTransactionCategory(params: TransactionCategoryUpdate): Promise<Transaction> {
+  const {
+    userId,
+    transactionId,
+    category,
+    decisionLabel,
+    decisionExplanation,
+    decisionExplanationEn,
+    isImpulse,
+    rawCategory,
+    classificationSource,
+    confidence,
+  } = params;
+  const entry = getStore().transactions.get(transactionId);
+  if (!entry || entry.value.userId !== userId) throw notFound('Transaction', transactionId);
+
+  // Same semantics as the Supabase update: undefined leaves the stored value untouched
+  const tx = entry.value;
+  tx.category = category;
+  if (decisionLabel !== undefined) tx.decisionLabel = decisionLabel;
+  if (decisionExplanation !== undefined) tx.decisionExplanation = decisionExplanation;
+  if (decisionExplanationEn !== undefined) tx.decisionExplanationEn = decisionExplanationEn;
+  if (isImpulse !== undefined) tx.isImpulse = isImpulse;
+  if (rawCategory !== undefined) tx.rawCategory = rawCategory;
+  if (classificationSource !== undefined) tx.classificationSource = classificationSource;
+  if (confidence !== undefined) tx.confidence = confidence;
+  return clone(tx);
+}
+
+async function updateTransaction(
+  userId: string,
+  transactionId: string,
+  patch: TransactionUpdate
+): Promise<Transaction> {
+  const entry = getStore().transactions.get(transactionId);
+  if (!entry || entry.value.userId !== userId) throw notFound('Transaction', transactionId);
+
+  const defined = Object.fromEntries(Object.entries(patch).filter(([, value]) => value !== undefined));
+  entry.value = { ...entry.value, ...clone(defined) };
+  return clone(entry.value);
+}
+
+async function deleteTransaction(userId: string, transactionId: string): Promise<void> {
+  const store = getStore();
+  const entry = store.transactions.get(transactionId);
+  if (entry && entry.value.userId === userId) {
+    store.transactions.delete(transactionId);
+  }
+}
+
+async function getMerchantCategoryHint(userId: string, merchant: string): Promise<string | null> {
+  const recent = Array.from(getStore().transactions.values())
+    .filter((entry) => entry.value.userId === userId && entry.value.merchant === merchant)
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(0, 10);
+  if (recent.length === 0) return null;
+
+  // mode of categories
+  const counts = new Map<string, number>();
+  recent.forEach(({ value }) => counts.set(value.category, (counts.get(value.category) || 0) + 1));
+
+  let topCategory: string | null = null;
+  let topCount = 0;
+  counts.forEach((count, cat) => {
+    if (count > topCount) {
+      topCategory = cat;
+      topCount = count;
+    }
+  });
+
+  return topCategory;
+}
+
+async function renameTransactionMerchant(userId: string, from: string[], to: string): Promise<number> {
+  let renamed = 0;
+  getStore().transactions.forEach(({ value }) => {
+    if (value.userId !== userId || !from.includes(value.merchant)) return;
+    if (!value.rawMerchant) value.rawMerchant = value.merchant;
+    value.merchant = to;
+    renamed += 1;
+  });
+  return renamed;
+}
+
+async function renameTransactionCategory(userId: string, from: string[], to: string): Promise<number> {
+  let renamed = 0;
+  getStore().transactions.forEach(({ value }) => {
+    if (value.userId !== userId || !from.includes(value.category)) return;
+    value.category = to;
+    renamed += 1;
+  });
+  return renamed;
+}
+
+// Import batches
+async function getImportBatches(userId: string): Promise<ImportBatch[]> {
+  return Array.from(getStore().importBatches.values())
+    .filter((batch) => batch.userId === userId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(clone);
+}
+
+async function getImportBatch(userId: string, batchId: string): Promise<ImportBatch | null> {
+  const batch = getStore().importBatches.get(batchId);
+  return batch && batch.userId === userId ? clone(batch) : null;
+}
+
+async function createImportBatch(batch: ImportBatch): Promise<ImportBatch> {
+  const store = getStore();
+  if (store.importBatches.has(batch.id)) {
+    throw new Error(`Import batch ${batch.id} already exists`);
+  }
+  store.importBatches.set(batch.id, clone(batch));
+  return clone(batch);
+}
+
+async function updateImportBatch(userId: string, batchId: string, patch: ImportBatchUpdate): Promise<ImportBatch> {
+  const batch = getStore().importBatches.get(batchId);
+  if (!batch || batch.userId !== userId) throw notFound('Import batch', batchId);
+  if (patch.transactionCount !== undefined) batch.transactionCount = patch.transactionCount;
+  if (patch.status !== undefined) batch.status = patch.status;
+  return clone(batch);
+}
+
+async function deleteTransactionsByImportBatch(userId: string, batchId: string): Promise<number> {
+  const store = getStore();
+  let deleted = 0;
+  store.transactions.forEach((entry, id) => {
+    if (entry.value.userId === userId && entry.value.importBatchId === batchId) {
+      store.transactions.delete(id);
+      deleted += 1;
+    }
+  });
+  return deleted;
+}
+
+// Category taxonomy
+async function getCategories(userId: string): Promise<Category[]> {
+  return Array.from(getStore().categories.values())
+    .filter((category) => category.userId === userId)
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name))
+    .map(clone);
+}
+
+async function createCategories(categories: Category[]): Promise<Category[]> {
+  const store = getStore();
+  const duplicate = categories.find((category) => store.categories.has(category.id));
+  if (duplicate) {
+    throw new Error(`Category ${duplicate.id} already exists`);
+  }
+  categories.forEach((category) => store.categories.set(category.id, clone(category)));
+  return categories.map(clone);
+}
+
+async function updateCategory(userId: string, categoryId: string, patch: CategoryUpdate): Promise<Category> {
+  const store = getStore();
+  const category = store.categories.get(categoryId);
+  if (!category || category.userId !== userId) throw notFound('Category', categoryId);
+
+  const next: any = { ...category };
+  Object.entries(patch).forEach(([key, value]) => {
+    if (value === null) delete next[key];
+    else if (value !== undefined) next[key] = value;
+  });
+  store.categories.set(categoryId, next);
+  return clone(next);
+}
+
+async function deleteCategory(userId: string, categoryId: string): Promise<void> {
+  const store = getStore();
+  const category = store.categories.get(categoryId);
+  if (!category || category.userId !== userId) return;
+  store.categories.delete(categoryId);
+  // Mirrors ON DELETE SET NULL on categories.parent_id
+  store.categories.forEach((child) => {
+    if (child.parentId === categoryId) delete child.parentId;
+  });
+}
+
+// Merchant directory
+async function getMerchants(userId: string): Promise<Merchant[]> {
+  return Array.from(getStore().merchants.values())
+    .filter((merchant) => merchant.userId === userId)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(clone);
+}
+
+async function createMerchant(merchant: Merchant): Promise<Merchant> {
+  const store = getStore();
+  if (store.merchants.has(merchant.id)) {
+    throw new Error(`Merchant ${merchant.id} already exists`);
+  }
+  store.merchants.set(merchant.id, clone(merchant));
+  return clone(merchant);
+}
+
+async function updateMerchant(userId: string, merchantId: string, patch: MerchantUpdate): Promise<Merchant> {
+  const merchant = getStore().merchants.get(merchantId);
+  if (!merchant || merchant.userId !== userId) throw notFound('Merchant', merchantId);
+  if (patch.name !== undefined) merchant.name = patch.name;
+  if (patch.aliases !== undefined) merchant.aliases = [...patch.aliases];
+  if (patch.defaultCategory === null) delete merchant.defaultCategory;
+  else if (patch.defaultCategory !== undefined) merchant.defaultCategory = patch.defaultCategory;
+  return clone(merchant);
+}
+
+async function deleteMerchant(userId: string, merchantId: string): Promise<void> {
+  const store = getStore();
+  const merchant = store.merchants.get(merchantId);
+  if (merchant && merchant.userId === userId) {
+    store.merchants.delete(merchantId);
+  }
+}
+
+// Accounts
+async function getAccounts(userId: string): Promise<Account[]> {
+  return Array.from(getStore().accounts.values())
+    .filter((account) => account.userId === userId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map(clone);
+}
+
+async function createAccount(account: Account): Promise<Account> {
+  const store = getStore();
+  if (store.accounts.has(account.id)) {
+    throw new Error(`Account ${account.id} already exists`);
+  }
+  store.accounts.set(account.id, clone(account));
+  return clone(account);
+}
+
+async function updateAccount(userId: string, accountId: string, patch: AccountUpdate): Promise<Account> {
+  const account = getStore().accounts.get(accountId);
+  if (!account || account.userId !== userId) throw notFound('Account', accountId);
+  if (patch.name !== undefined) account.name = patch.name;
+  if (patch.type !== undefined) account.type = patch.type;
+  if (patch.openingBalance !== undefined) account.openingBalance = patch.openingBalance;
+  return clone(account);
+}
+
+async function deleteAccount(userId: string, accountId: string): Promise<void> {
+  const store = getStore();
+  const account = store.accounts.get(accountId);
+  if (account && account.userId === userId) {
+    store.accounts.delete(accountId);
+  }
+}
+
+// Categorisation rules
+async function getCategorizationRules(userId: string): Promise<CategorizationRule[]> {
+  return Array.from(getStore().rules.values())
+    .filter((rule) => rule.userId === userId)
+    .sort((a, b) => a.priority - b.priority || a.createdAt.localeCompare(b.createdAt))
+    .map(clone);
+}
+
+async function createCategorizationRule(rule: CategorizationRule): Promise<CategorizationRule> {
+  const store = getStore();
+  if (store.rules.has(rule.id)) {
+    throw new Error(`Categorization rule ${rule.id} already exists`);
+  }
+  store.rules.set(rule.id, clone(rule));
+  return clone(rule);
+}
+
+async function updateCategorizationRule(
+  userId: string,
+  ruleId: string,
+  patch: CategorizationRuleUpdate
+): Promise<CategorizationRule> {
+  const store = getStore();
+  const rule = store.rules.get(ruleId);
+  if (!rule || rule.userId !== userId) throw notFound('Categorization rule', ruleId);
+
+  const next: any = { ...rule };
+  Object.entries(patch).forEach(([key, value]) => {
+    if (value === null) delete next[key];
+    else if (value !== undefined) next[key] = value;
+  });
+  store.rules.set(ruleId, next);
+  return clone(next);
+}
+
+async function deleteCategorizationRule(userId: string, ruleId: string): Promise<void> {
+  const store = getStore();
+  const rule = store.rules.get(ruleId);
+  if (rule && rule.userId === userId) {
+    store.rules.delete(ruleId);
+    // Mirrors ON DELETE SET NULL on transactions.rule_id
+    store.transactions.forEach(({ value }) => {
+      if (value.ruleId === ruleId) value.ruleId = null;
+    });
+  }
+}
+
+// Subscription marks
+async function getSubscriptionMarks(userId: string): Promise<SubscriptionMark[]> {
+  return Array.from(getStore().subscriptionMarks.values())
+    .filter((mark) => mark.userId === userId)
+    .map(clone);
+}
+
+async function saveSubscriptionMark(mark: SubscriptionMark): Promise<SubscriptionMark> {
+  const store = getStore();
+  // Mirrors the upsert on (user_id, merchant_key): the existing row keeps its id
+  const existing = Array.from(store.subscriptionMarks.values()).find(
+    (entry) => entry.userId === mark.userId && entry.merchantKey === mark.merchantKey
+  );
+  const saved = { ...clone(mark), id: existing?.id ?? mark.id };
+  store.subscriptionMarks.set(saved.id, saved);
+  return clone(saved);
+}
+
+async function deleteSubscriptionMark(userId: string, merchantKey: string): Promise<void> {
+  const store = getStore();
+  store.subscriptionMarks.forEach((mark, id) => {
+    if (mark.userId === userId && mark.merchantKey === merchantKey) store.subscriptionMarks.delete(id);
+  });
+}
+
+// Savings Goals
+function getStoredGoal(goalId: string): SavingsGoal {
+  const entry = getStore().goals.get(goalId);
+  if (!entry) throw notFound('Savings goal', goalId);
+  return entry.value;
+}
+
+async function getSavingsGoals(userId: string): Promise<SavingsGoal[]> {
+  return Array.from(getStore().goals.values())
+    .filter((entry) => entry.value.userId === userId)
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map((entry) => clone(entry.value));
+}
+
+async function createSavingsGoal(goal: SavingsGoal): Promise<SavingsGoal> {
+  const store = getStore();
+  if (store.goals.has(goal.id)) {
+    throw new Error(`Savings goal ${goal.id} already exists`);
+  }
+  store.goals.set(goal.id, { value: clone(goal), createdAt: nextCreatedAt() });
+  return clone(goal);
+}
+
+async function deleteSavingsGoal(goalId: string): Promise<void> {
+  getStore().goals.delete(goalId);
+}
+
+async function updateSavingsGoalAmount(goalId: string, newAmount: number): Promise<SavingsGoal> {
+  const goal = getStoredGoal(goalId);
+  goal.currentSavedAmount = newAmount;
+  return clone(goal);
+}
+
+async function updateSavingsGoalRules(goalId: string, rules: string[], rulesEn?: string[]): Promise<SavingsGoal> {
+  const goal = getStoredGoal(goalId);
+  goal.rules = [...rules];
+  goal.rulesEn = rulesEn ? [...rulesEn] : undefined;
+  return clone(goal);
+}
+
+async function markSavingsGoalComplete(goalId: string): Promise<SavingsGoal> {
+  const goal = getStoredGoal(goalId);
+  goal.currentSavedAmount = goal.targetAmount;
+  return clone(goal);
+}
+
+async function updateSavingsGoal(goalId: string, payload: SavingsGoalUpdate): Promise<SavingsGoal> {
+  const goal = getStoredGoal(goalId);
+  if (payload.title !== undefined) goal.title = payload.title;
+  if (payload.targetAmount !== undefined) goal.targetAmount = payload.targetAmount;
+  if (payload.targetDate !== undefined) goal.targetDate = payload.targetDate;
+  if (payload.rules !== undefined) goal.rules = [...payload.rules];
+  if (payload.rulesEn !== undefined) goal.rulesEn = [...payload.rulesEn];
+  return clone(goal);
+}
+
+export const memoryRepository: BudgetRepository = {
+  getUser,
+  createUser,
+  updateUserBudget,
+  updateUserCsvMapping,
+  getTransactions,
+  getTransaction,
+  createTransaction,
+  updateTransaction,
+  updateTransactionCategory,
+  deleteTransaction,
+  getMerchantCategoryHint,
+  renameTransactionMerchant,
+  renameTransactionCategory,
+  getImportBatches,
+  getImportBatch,
+  createImportBatch,
+  updateImportBatch,
+  deleteTransactionsByImportBatch,
+  getCategories,
+  createCategories,
+  updateCategory,
+  deleteCategory,
+  getMerchants,
+  createMerchant,
+  updateMerchant,
+  deleteMerchant,
+  getAccounts,
+  createAccount,
+  updateAccount,
+  deleteAccount,
+  getCategorizationRules,
+  createCategorizationRule,
+  updateCategorizationRule,
+  deleteCategorizationRule,
+  getSubscriptionMarks,
+  saveSubscriptionMark,
+  deleteSubscriptionMark,
+  getSavingsGoals,
+  createSavingsGoal,
+  deleteSavingsGoal,
+  updateSavingsGoalAmount,
+  updateSavingsGoalRules,
+  markSavingsGoalComplete,
+  updateSavingsGoal,
+};
@@ -0,0 +1,97 @@
+/**
+ * Merchant directory maintenance (server-only)
+ * Merging folds several merchant names (directory entries or plain names from transactions)
+ * into one canonical entry: their names become aliases and stored transactions are renamed,
+ * so hints, recurring-payment detection and per-merchant analytics see one merchant.
+ */
+
+import 'server-only';
+import { randomUUID } from 'crypto';
+import { createMerchant, deleteMerchant, getMerchants, renameTransactionMerchant, updateMerchant } from './repository';
+import { merchantKey } from './merchants';
+import type { Merchant } from './types';
+
+export interface MerchantNameUsage {
+  name: string; // merchant as stored on transactions
+  count: number;
+  merchantId?: string; // directory entry the name belongs to
+}
+
+/**
+ * Distinct merchant names on the user's transactions, most used first
+ */
+export function summarizeMerchantNames(
+  transactions: { merchant: string }[],
+  directory: Merchant[]
+): MerchantNameUsage[] {
+  const counts = new Map<string, number>();
+  transactions.forEach((t) => counts.set(t.merchant, (counts.get(t.merchant) ?? 0) + 1));
+
+  return Array.from(counts.entries())
+    .map(([name, count]) => {
+      const key = merchantKey(name);
+      const entry = directory.find((m) => [m.name, ...m.aliases].some((alias) => merchantKey(alias) === key));
+      return { name, count, merchantId: entry?.id };
+    })
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+/** Unique by comparison key, first spelling wins, without the canonical name itself */
+function uniqueAliases(name: string, aliases: string[]): string[] {
+  const seen = new Set([merchantKey(name)]);
+  return aliases
+    .map((alias) => alias.trim())
+    .filter((alias) => {
+      const key = merchantKey(alias);
+      if (!alias || !key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+export async function mergeMerchants(
+  userId: string,
+  name: string,
+  sources: string[],
+  defaultCategory?: string
+): Promise<{ merchant: Merchant; renamed: number }> {
+  const directory = await getMerchants(userId);
+  const targetKey = merchantKey(name);
+  const existingTarget = directory.find((m) => merchantKey(m.name) === targetKey);
+
+  // Directory entries named like a source are absorbed into the target
+  const absorbed = directory.filter(
+    (m) => m.id !== existingTarget?.id && sources.some((source) => merchantKey(source) === merchantKey(m.name))
+  );
+
+  const aliases = uniqueAliases(name, [
+    ...(existingTarget?.aliases ?? []),
+    ...(existingTarget && existingTarget.name !== name ? [existingTarget.name] : []),
+    ...absorbed.flatMap((m) => [m.name, ...m.aliases]),
+    ...sources,
+  ]);
+  const category =
+    defaultCategory?.trim() || existingTarget?.defaultCategory || absorbed.find((m) => m.defaultCategory)?.defaultCategory;
+
+  const merchant = existingTarget
+    ? await updateMerchant(userId, existingTarget.id, { name, aliases, defaultCategory: category ?? null })
+    : await createMerchant({
+        id: randomUUID(),
+        userId,
+        name,
+        aliases,
+        defaultCategory: category,
+        createdAt: new Date().toISOString(),
+      });
+
+  for (const entry of absorbed) {
+    await deleteMerchant(userId, entry.id);
+  }
+
+  const renamedFrom = Array.from(
+    new Set([...sources, ...absorbed.map((m) => m.name), ...(existingTarget ? [existingTarget.name] : [])])
+  ).filter((source) => source !== name);
+  const renamed = await renameTransactionMerchant(userId, renamedFrom, name);
+
+  return { merchant, renamed };
+}
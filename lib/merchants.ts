@@ -0,0 +1,94 @@
+/**
+ * Merchant name normalisation
+ * Bank exports decorate merchant names with payment providers, store numbers, card numbers
+ * and locations (`COOP-1234 ZUERICH HB`, `TWINT *MIGROS BASEL`). `normalizeMerchantName`
+ * strips that noise; `resolveMerchant` then maps the result onto the user's merchant
+ * directory (canonical name + aliases) so per-merchant analytics group correctly.
+ */
+
+import type { Merchant } from './types';
+
+// Payment providers that prefix the actual merchant, e.g. "TWINT *MIGROS" or "SQ *CAFE"
+const PROVIDER_PREFIX = /^(twint|sumup|sq|paypal|zettle|izettle|payrexx|stripe|google|apple pay|sp)\s*\*\s*/i;
+
+// Booking texts that precede the merchant in Swiss bank statements
+const BOOKING_TEXT =
+  /\b(kauf\/dienstleistung|kauf\/online-shopping|einkauf|kartenzahlung|debitkarte|maestro|visa|mastercard|twint-zahlung|zahlung an)\b(\s+vom)?/gi;
+
+const CARD_NUMBER = /\bkarten?\s*(nr\.?|nummer)?\s*[x*\d]{4,}\b/gi;
+const DATE = /\b\d{1,2}\.\d{1,2}\.(\d{4}|\d{2})\b/g;
+const TIME = /\b\d{1,2}:\d{2}(:\d{2})?\b/g;
+const STORE_NUMBER = /\s*[-#]\s*\d+\b/g;
+
+// Trailing location tokens; stripped from the end only, so "Bern" inside a name survives
+const LOCATION_TOKENS = new Set([
+  'ch', 'che', 'hb', 'bhf', 'bahnhof', 'flughafen', 'airport', 'zuerich', 'zurich', 'zürich', 'basel', 'bern',
+  'luzern', 'lucerne', 'genf', 'geneve', 'genève', 'geneva', 'lausanne', 'winterthur', 'st.gallen', 'gallen',
+  'st.', 'st', 'lugano', 'biel', 'bienne', 'thun', 'zug', 'aarau', 'olten', 'chur', 'fribourg', 'freiburg',
+  'neuchatel', 'neuchâtel', 'schaffhausen', 'baden', 'wil', 'uster', 'oerlikon', 'altstetten', 'sion',
+]);
+
+/** Comparison key: lower case, no accents, letters and digits only */
+export function merchantKey(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+function titleCase(word: string): string {
+  // Short all-caps words are usually acronyms (SBB, AG, H&M)
+  if (word.length <= 3) return word;
+  return word.charAt(0) + word.slice(1).toLowerCase();
+}
+
+/**
+ * Strips providers, booking texts, card/store numbers, dates and trailing locations.
+ * All-caps names are title-cased; returns the trimmed input when nothing meaningful is left.
+ */
+export function normalizeMerchantName(raw: string): string {
+  const original = raw.trim().replace(/\s+/g, ' ');
+  let name = original.replace(PROVIDER_PREFIX, '');
+  name = name
+    .replace(BOOKING_TEXT, ' ')
+    .replace(CARD_NUMBER, ' ')
+    .replace(DATE, ' ')
+    .replace(TIME, ' ')
+    .replace(STORE_NUMBER, ' ');
+  // A provider prefix can follow a removed booking text ("Kartenzahlung TWINT *Migros")
+  name = name.trim().replace(PROVIDER_PREFIX, '');
+
+  const tokens = name
+    .split(/\s+/)
+    .filter((token) => token && !/^\d{3,}$/.test(token) && !/^[x*]{2,}\d*$/i.test(token));
+  while (tokens.length > 1 && LOCATION_TOKENS.has(tokens[tokens.length - 1].toLowerCase())) {
+    tokens.pop();
+  }
+
+  name = tokens.join(' ').replace(/^[\s,.;:*/-]+|[\s,.;:*/-]+$/g, '');
+  if (!/[a-zA-ZÀ-ÿ]/.test(name)) return original;
+
+  const isAllCaps = name === name.toUpperCase() && name !== name.toLowerCase();
+  return isAllCaps ? name.split(' ').map(titleCase).join(' ') : name;
+}
+
+/**
+ * Directory entry whose canonical name or one of its aliases matches the raw or normalised name
+ */
+export function findMerchant(directory: Merchant[], raw: string): Merchant | null {
+  const keys = [merchantKey(raw), merchantKey(normalizeMerchantName(raw))].filter(Boolean);
+  return (
+    directory.find((merchant) =>
+      [merchant.name, ...merchant.aliases].some((alias) => keys.includes(merchantKey(alias)))
+    ) ?? null
+  );
+}
+
+/**
+ * Canonical merchant name for a raw bank string plus the matching directory entry, if any
+ */
+export function resolveMerchant(directory: Merchant[], raw: string): { name: string; merchant: Merchant | null } {
+  const merchant = findMerchant(directory, raw);
+  return { name: merchant ? merchant.name : normalizeMerchantName(raw), merchant };
+}
@@ -0,0 +1,146 @@
+/**
+ * SWIFT MT940 statement parser
+ * Each `:61:` statement line becomes one import row, enriched with the following `:86:` field.
+ * Structured `:86:` fields (`?20`–`?29` purpose, `?32`/`?33` name, as written by German and
+ * Swiss banks) are split up; free text is used as is. Errors point at the `:61:` line.
+ */
+
+import { parseDate } from './csvImport';
+import type { ImportError, ImportRow } from './imports';
+
+export interface Mt940ParseResult {
+  rows: ImportRow[];
+  errors: ImportError[];
+  format: 'MT940';
+}
+
+interface Mt940Field {
+  tag: string;
+  value: string; // continuation lines joined with \n
+  line: number;
+}
+
+interface Mt940Information {
+  name?: string;
+  purpose?: string;
+  text?: string; // booking text (?00)
+}
+
+export function isMt940Document(text: string): boolean {
+  const head = text.slice(0, 5000);
+  return /^:20:/m.test(head) && /^:(25|60F|60M):/m.test(head);
+}
+
+/**
+ * YYMMDD value date, optional MMDD entry date, (R)C/(R)D mark, optional funds code,
+ * amount with decimal comma, transaction type (e.g. NTRF) and references
+ */
+const STATEMENT_LINE = /^(\d{2})(\d{2})(\d{2})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d*)([A-Z][A-Z0-9]{3})?([^\n]*)(?:\n([\s\S]*))?$/;
+
+function splitFields(text: string): Mt940Field[] {
+  const fields: Mt940Field[] = [];
+  text.split(/\r?\n/).forEach((rawLine, idx) => {
+    const content = rawLine.replace(/\s+$/, '');
+    const tag = content.match(/^:(\d{2}[A-Z]?):/);
+    if (tag) {
+      fields.push({ tag: tag[1], value: content.slice(tag[0].length), line: idx + 1 });
+      return;
+    }
+    // `-` ends a message, `{1:...}` / `-}` are SWIFT envelope blocks
+    if (!content || content === '-' || content.startsWith('{') || content.startsWith('-}')) return;
+    const last = fields[fields.length - 1];
+    if (last) last.value += `\n${content}`;
+  });
+  return fields;
+}
+
+/**
+ * Splits a structured `:86:` field (`166?00GUTSCHRIFT?20text?32Name`) into its subfields
+ */
+function parseInformation(value: string): Mt940Information {
+  const joined = value.replace(/\n/g, '');
+  if (!/^\d{3}\?\d{2}/.test(joined)) {
+    const [first, ...rest] = value.split('\n').map((part) => part.trim()).filter(Boolean);
+    return { name: first, purpose: rest.join(' ') || undefined };
+  }
+
+  const subfields = new Map<string, string>();
+  joined
+    .split('?')
+    .slice(1)
+    .forEach((part) => {
+      const key = part.slice(0, 2);
+      subfields.set(key, (subfields.get(key) ?? '') + part.slice(2));
+    });
+  const collect = (keys: string[]) =>
+    keys
+      .map((key) => subfields.get(key)?.trim())
+      .filter(Boolean)
+      .join(' ') || undefined;
+
+  return {
+    name: collect(['32', '33']),
+    purpose: collect(['20', '21', '22', '23', '24', '25', '26', '27', '28', '29', '60', '61', '62', '63']),
+    text: subfields.get('00')?.trim() || undefined,
+  };
+}
+
+export function parseMt940(text: string): Mt940ParseResult {
+  const rows: ImportRow[] = [];
+  const errors: ImportError[] = [];
+  const fields = splitFields(text);
+
+  fields.forEach((field, idx) => {
+    if (field.tag !== '61') return;
+
+    const match = field.value.match(STATEMENT_LINE);
+    if (!match) {
+      errors.push({ line: field.line, message: 'Ungültige Umsatzzeile (:61:).' });
+      return;
+    }
+    const [, yy, mm, dd, entryDate, mark, , amountValue, , reference, details] = match;
+
+    const valueYear = 2000 + Number(yy);
+    let bookingDate = `${valueYear}-${mm}-${dd}`;
+    if (entryDate) {
+      // The entry date has no year; around New Year it can fall into the neighbouring year
+      const entryMonth = Number(entryDate.slice(0, 2));
+      const year =
+        entryMonth === 12 && Number(mm) === 1 ? valueYear - 1 : entryMonth === 1 && Number(mm) === 12 ? valueYear + 1 : valueYear;
+      bookingDate = `${year}-${entryDate.slice(0, 2)}-${entryDate.slice(2)}`;
+    }
+    const date = parseDate(bookingDate);
+    if (!date) {
+      errors.push({ line: field.line, message: 'Buchungsdatum ist ungültig.' });
+      return;
+    }
+
+    const amount = Number(amountValue.replace(',', '.'));
+    if (Number.isNaN(amount)) {
+      errors.push({ line: field.line, message: 'Betrag ist ungültig.' });
+      return;
+    }
+    // RC (reversal of a credit) is a debit, RD (reversal of a debit) a credit
+    const isCredit = mark === 'C' || mark === 'RD';
+
+    const next = fields[idx + 1];
+    const information: Mt940Information = next?.tag === '86' ? parseInformation(next.value) : {};
+    const merchant =
+      information.name || details?.replace(/\s+/g, ' ').trim() || information.text || reference.split('//')[0].trim();
+    if (!merchant || merchant === 'NONREF') {
+      errors.push({ line: field.line, message: 'Gegenpartei fehlt (:86:).' });
+      return;
+    }
+
+    rows.push({
+      __line: field.line,
+      date,
+      merchant: merchant.replace(/\s+/g, ' '),
+      amount,
+      rawCategory: isCredit ? 'Einnahmen' : undefined,
+      justification: information.purpose,
+    });
+  });
+
+  return { rows, errors, format: 'MT940' };
+}
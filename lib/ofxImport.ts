@@ -0,0 +1,102 @@
+/**
+ * OFX / QFX statement parser (bank and credit card statements)
+ * Handles both OFX 1.x (SGML, leaf elements without end tags) and OFX 2.x (XML).
+ * Every <STMTTRN> becomes one import row; errors point at the line of the offending element.
+ */
+
+import { parseAmount } from './csvImport';
+import type { ImportError, ImportRow } from './imports';
+
+export interface OfxParseResult {
+  rows: ImportRow[];
+  errors: ImportError[];
+  format: 'OFX';
+}
+
+export function isOfxDocument(text: string): boolean {
+  const head = text.slice(0, 2000);
+  return /^\s*OFXHEADER\s*:/m.test(head) || /<\?OFX\b/i.test(head) || /<OFX>/i.test(head);
+}
+
+const decodeOfxText = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export function parseOfx(text: string): OfxParseResult {
+  const rows: ImportRow[] = [];
+  const errors: ImportError[] = [];
+
+  // Line number for every offset, computed once instead of counting newlines per element
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) if (text[i] === '\n') lineStarts.push(i + 1);
+  const lineAt = (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  };
+
+  const blockPattern = /<STMTTRN>([\s\S]*?)(?:<\/STMTTRN>|(?=<STMTTRN>)|(?=<\/BANKTRANLIST>)|$)/gi;
+  let block: RegExpExecArray | null;
+
+  while ((block = blockPattern.exec(text))) {
+    const line = lineAt(block.index);
+    const bodyOffset = block.index + block[0].indexOf('>') + 1;
+
+    // Leaf elements: `<NAME>Migros` (SGML) or `<NAME>Migros</NAME>` (XML); first occurrence wins
+    const fields = new Map<string, { value: string; line: number }>();
+    const fieldPattern = /<([A-Z0-9.]+)>([^<\r\n]*)/gi;
+    let field: RegExpExecArray | null;
+    while ((field = fieldPattern.exec(block[1]))) {
+      const name = field[1].toUpperCase();
+      const value = decodeOfxText(field[2]);
+      if (value && !fields.has(name)) {
+        fields.set(name, { value, line: lineAt(bodyOffset + field.index) });
+      }
+    }
+
+    const posted = fields.get('DTPOSTED') ?? fields.get('DTUSER');
+    const dateMatch = posted?.value.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (!dateMatch) {
+      errors.push({ line: posted?.line ?? line, message: 'DTPOSTED fehlt oder ist ungültig.' });
+      continue;
+    }
+    const date = `${dateMatch[1]}-${dateMatch[2]}-${dateMatch[3]}`;
+
+    const amountField = fields.get('TRNAMT');
+    const amount = amountField ? parseAmount(amountField.value) : undefined;
+    if (amount === undefined) {
+      errors.push({ line: amountField?.line ?? line, message: 'TRNAMT fehlt oder ist ungültig.' });
+      continue;
+    }
+
+    const name = fields.get('NAME')?.value;
+    const memo = fields.get('MEMO')?.value;
+    const merchant = name ?? memo;
+    if (!merchant) {
+      errors.push({ line, message: 'NAME/MEMO fehlt.' });
+      continue;
+    }
+
+    rows.push({
+      __line: line,
+      date,
+      merchant,
+      amount: Math.abs(amount),
+      rawCategory: amount > 0 ? 'Einnahmen' : undefined,
+      justification: name && memo && memo !== name ? memo : undefined,
+    });
+  }
+
+  return { rows, errors, format: 'OFX' };
+}
@@ -6,22 +6,32 @@
 
 import type { ChatMessage } from './types';
 
+/**
+ * True when no real API key is configured and callOpenAI answers with mock responses
+ */
+export function isOpenAIMocked(): boolean {
+  const apiKey = process.env.OPENAI_API_KEY;
+  return !apiKey || apiKey === 'mock';
+}
+
 /**
  * Call OpenAI with a system prompt and user prompt
  * @param systemPrompt - Instructions for the AI model
  * @param userPrompt - The user's input or query
  * @param temperature - Controls randomness (0-1)
+ * @param maxTokens - Upper bound for the answer length (batch prompts need more)
  * @returns The AI's response text
  */
 export async function callOpenAI(
   systemPrompt: string,
   userPrompt: string,
-  temperature: number = 0.7
+  temperature: number = 0.7,
+  maxTokens: number = 1000
 ): Promise<string> {
   const apiKey = process.env.OPENAI_API_KEY;
 
   // For MVP demo: If no API key is provided, return mock responses
-  if (!apiKey || apiKey === 'mock' || apiKey === '') {
+  if (isOpenAIMocked()) {
     console.log('[OpenAI Mock] System:', systemPrompt.substring(0, 100));
     console.log('[OpenAI Mock] User:', userPrompt.substring(0, 100));
     return getMockResponse(systemPrompt, userPrompt);
@@ -41,7 +51,7 @@ export async function callOpenAI(
           { role: 'user', content: userPrompt },
         ],
         temperature,
-        max_tokens: 1000,
+        max_tokens: maxTokens,
       }),
     });
 
@@ -113,6 +123,22 @@ export async function callOpenAIChat(
  * Provides realistic responses based on the context
  */
 function getMockResponse(systemPrompt: string, userPrompt: string): string {
+  // Batch classification mock: one entry per numbered transaction line
+  if (systemPrompt.includes('JSON-Array')) {
+    const count = (userPrompt.match(/^\[\d+\]/gm) || []).length;
+    return JSON.stringify(
+      Array.from({ length: count }, (_, i) => ({
+        index: i + 1,
+        category: 'Shopping',
+        isImpulse: true,
+        decisionLabel: 'unnecessary',
+        decisionExplanation: 'Spontaner Online-Kauf ohne vorherige Planung. Möglicherweise emotional motiviert.',
+        decisionExplanationEn: 'Spontaneous online purchase without prior planning. Possibly emotionally driven.',
+        confidence: 0.6,
+      }))
+    );
+  }
+
   // Impulse classification mock
   if (systemPrompt.includes('classify') || systemPrompt.includes('kategorisieren')) {
     return JSON.stringify({
@@ -121,6 +147,7 @@ function getMockResponse(systemPrompt: string, userPrompt: string): string {
       decisionLabel: 'unnecessary',
       decisionExplanation:
         'Spontaner Online-Kauf ohne vorherige Planung. Möglicherweise emotional motiviert.',
+      confidence: 0.6,
     });
   }
 
@@ -0,0 +1,191 @@
+/**
+ * Minimal PDF writer (server-only)
+ * A4 pages with text in the standard Helvetica fonts (WinAnsi, so umlauts work without
+ * embedding fonts), filled rectangles and lines. Coordinates are in points from the top-left
+ * corner; the writer flips them to PDF's bottom-left origin.
+ */
+
+import 'server-only';
+import { deflateSync } from 'zlib';
+
+export type PdfColor = [number, number, number]; // RGB, 0..1
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  align?: 'left' | 'right' | 'center';
+}
+
+export interface PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  addPage(): void;
+  text(value: string, x: number, y: number, options?: PdfTextOptions): void;
+  rect(x: number, y: number, width: number, height: number, color: PdfColor): void;
+  line(x1: number, y1: number, x2: number, y2: number, color?: PdfColor, lineWidth?: number): void;
+  toBuffer(): Buffer;
+}
+
+const A4_WIDTH = 595.28;
+const A4_HEIGHT = 841.89;
+
+// Helvetica advance widths (1/1000 em) for ASCII 32..126, from the standard AFM metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding still covers
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '•': 0x95, '–': 0x96, '—': 0x97,
+  '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '‹': 0x8b, '›': 0x9b, 'Ø': 0xd8,
+};
+
+function charWidth(char: string): number {
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) return HELVETICA_WIDTHS[code - 32];
+  return 556;
+}
+
+/**
+ * Approximate rendered width in points; bold glyphs are ~5% wider on average
+ */
+export function textWidth(value: string, size: number, bold = false): number {
+  let units = 0;
+  for (const char of value) units += charWidth(char);
+  return ((units * size) / 1000) * (bold ? 1.05 : 1);
+}
+
+/**
+ * Greedy word wrap; words longer than a line are kept intact
+ */
+export function wrapText(value: string, maxWidth: number, size: number, bold = false): string[] {
+  const lines: string[] = [];
+  value.split('\n').forEach((paragraph) => {
+    let current = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach((word) => {
+      const candidate = current ? `${current} ${word}` : word;
+      if (current && textWidth(candidate, size, bold) > maxWidth) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    });
+    lines.push(current);
+  });
+  return lines;
+}
+
+function encodeText(value: string): string {
+  let encoded = '';
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    const byte = WIN_ANSI_EXTRA[char] ?? (code >= 32 && code <= 255 && (code < 127 || code >= 160) ? code : 63);
+    const ch = String.fromCharCode(byte);
+    encoded += ch === '(' || ch === ')' || ch === '\\' ? `\\${ch}` : ch;
+  }
+  return encoded;
+}
+
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+const rgb = ([r, g, b]: PdfColor) => `${num(r)} ${num(g)} ${num(b)}`;
+
+export function createPdfDocument(): PdfDocument {
+  const pages: string[][] = [];
+  const current = () => {
+    if (pages.length === 0) pages.push([]);
+    return pages[pages.length - 1];
+  };
+
+  return {
+    width: A4_WIDTH,
+    height: A4_HEIGHT,
+
+    addPage() {
+      pages.push([]);
+    },
+
+    text(value, x, y, options = {}) {
+      const size = options.size ?? 10;
+      const bold = options.bold ?? false;
+      const width = textWidth(value, size, bold);
+      const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+      // y is the top of the line box; the baseline sits ~80% of the font size below it
+      current().push(
+        `BT /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${rgb(options.color ?? [0, 0, 0])} rg ` +
+          `${num(left)} ${num(A4_HEIGHT - y - size * 0.8)} Td (${encodeText(value)}) Tj ET`
+      );
+    },
+
+    rect(x, y, width, height, color) {
+      current().push(`${rgb(color)} rg ${num(x)} ${num(A4_HEIGHT - y - height)} ${num(width)} ${num(height)} re f`);
+    },
+
+    line(x1, y1, x2, y2, color = [0.8, 0.8, 0.8], lineWidth = 0.5) {
+      current().push(
+        `${rgb(color)} RG ${num(lineWidth)} w ${num(x1)} ${num(A4_HEIGHT - y1)} m ${num(x2)} ${num(A4_HEIGHT - y2)} l S`
+      );
+    },
+
+    toBuffer() {
+      if (pages.length === 0) pages.push([]);
+      const objects: Buffer[] = [];
+      const add = (content: string | Buffer) => {
+        objects.push(typeof content === 'string' ? Buffer.from(content, 'latin1') : content);
+        return objects.length;
+      };
+
+      // Fixed object numbers: 1 catalog, 2 page tree, 3/4 fonts; pages and streams follow
+      add('<< /Type /Catalog /Pages 2 0 R >>');
+      add(''); // page tree, filled in once the page ids are known
+      add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+      add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+      const pageIds = pages.map((operations) => {
+        const stream = deflateSync(Buffer.from(operations.join('\n'), 'latin1'));
+        const contentId = add(
+          Buffer.concat([
+            Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+            stream,
+            Buffer.from('\nendstream', 'latin1'),
+          ])
+        );
+        return add(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_WIDTH} ${A4_HEIGHT}] ` +
+            `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`
+        );
+      });
+      objects[1] = Buffer.from(
+        `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+        'latin1'
+      );
+
+      const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+      const offsets: number[] = [];
+      let length = chunks[0].length;
+      objects.forEach((object, idx) => {
+        offsets.push(length);
+        const chunk = Buffer.concat([
+          Buffer.from(`${idx + 1} 0 obj\n`, 'latin1'),
+          object,
+          Buffer.from('\nendobj\n', 'latin1'),
+        ]);
+        chunks.push(chunk);
+        length += chunk.length;
+      });
+
+      const xref =
+        `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+        offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('') +
+        `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${length}\n%%EOF\n`;
+      chunks.push(Buffer.from(xref, 'latin1'));
+
+      return Buffer.concat(chunks);
+    },
+  };
+}
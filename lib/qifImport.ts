@@ -0,0 +1,120 @@
+/**
+ * QIF (Quicken Interchange Format) parser for bank, cash and credit card accounts
+ * Records consist of one-letter fields (D date, T/U amount, P payee, M memo, L category)
+ * and end with `^`. Errors point at the first line of the record.
+ */
+
+import { parseAmount, parseDate } from './csvImport';
+import type { ImportError, ImportRow } from './imports';
+
+export interface QifParseResult {
+  rows: ImportRow[];
+  errors: ImportError[];
+  format: 'QIF';
+}
+
+const SUPPORTED_TYPES = ['bank', 'cash', 'ccard', 'oth a', 'oth l'];
+
+export function isQifDocument(text: string): boolean {
+  return /^\s*!(Type|Account|Option)/i.test(text.replace(/^\uFEFF/, ''));
+}
+
+/**
+ * Quicken writes `1/15'24`, `01/15/2024` (US), `15.01.2024` (European versions) or ISO dates
+ */
+function parseQifDate(value: string): string | undefined {
+  const normalized = value.replace(/\s+/g, '').replace(/'/g, '/');
+  if (/^\d{4}-/.test(normalized)) return parseDate(normalized);
+  return parseDate(normalized, normalized.includes('.') ? 'dmy' : 'mdy');
+}
+
+export function parseQif(text: string): QifParseResult {
+  const rows: ImportRow[] = [];
+  const errors: ImportError[] = [];
+
+  let accountType: string | undefined;
+  let inAccountBlock = false;
+  let record: { line: number; fields: Map<string, string> } | null = null;
+
+  const finishRecord = () => {
+    if (!record) return;
+    const { line, fields } = record;
+    record = null;
+
+    // Account list entries and investment accounts carry no bank transactions
+    if (inAccountBlock || (accountType && !SUPPORTED_TYPES.includes(accountType))) return;
+
+    const date = fields.has('D') ? parseQifDate(fields.get('D') as string) : undefined;
+    if (!date) {
+      errors.push({ line, message: 'Datum (D) fehlt oder ist ungültig.' });
+      return;
+    }
+
+    const amountValue = fields.get('T') ?? fields.get('U');
+    const amount = amountValue ? parseAmount(amountValue) : undefined;
+    if (amount === undefined) {
+      errors.push({ line, message: 'Betrag (T) fehlt oder ist ungültig.' });
+      return;
+    }
+
+    const payee = fields.get('P');
+    const memo = fields.get('M');
+    const merchant = payee ?? memo;
+    if (!merchant) {
+      errors.push({ line, message: 'Empfänger (P) fehlt.' });
+      return;
+    }
+
+    // `[Konto]` marks a transfer between own accounts, not a category
+    const category = fields.get('L');
+    const rawCategory = category && !category.startsWith('[') ? category.split(':')[0] : undefined;
+
+    rows.push({
+      __line: line,
+      date,
+      merchant,
+      amount: Math.abs(amount),
+      rawCategory: amount > 0 ? 'Einnahmen' : rawCategory,
+      justification: payee && memo ? memo : undefined,
+    });
+  };
+
+  text
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .forEach((rawLine, idx) => {
+      const lineNumber = idx + 1;
+      const content = rawLine.trim();
+      if (!content) return;
+
+      if (content.startsWith('!')) {
+        finishRecord();
+        const header = content.slice(1).toLowerCase();
+        if (header.startsWith('type:')) {
+          accountType = header.slice(5).trim();
+          inAccountBlock = false;
+          if (!SUPPORTED_TYPES.includes(accountType)) {
+            errors.push({ line: lineNumber, message: `Kontotyp "${content.slice(6)}" wird nicht unterstützt.` });
+          }
+        } else if (header === 'account') {
+          inAccountBlock = true;
+        }
+        return;
+      }
+
+      if (content === '^') {
+        finishRecord();
+        return;
+      }
+
+      if (!record) record = { line: lineNumber, fields: new Map() };
+      const code = content[0].toUpperCase();
+      // Split lines (S/E/$) repeat per split; the first value of each field is the one we need
+      if (!record.fields.has(code)) record.fields.set(code, content.slice(1).trim());
+    });
+
+  // Files often omit the final `^`
+  finishRecord();
+
+  return { rows, errors, format: 'QIF' };
+}
@@ -0,0 +1,125 @@
+/**
+ * Swiss QR-bill payload parser (Swiss Payment Standards, `SPC` version 02xx)
+ * The QR code holds a newline-separated text payload with a fixed element order:
+ * header, creditor account and address, ultimate creditor (reserved), amount/currency,
+ * debtor, reference, unstructured message, trailer `EPD` and optional billing information.
+ */
+
+export interface QrBillAddress {
+  name: string;
+  addressLine1?: string; // street (S) or address line 1 (K)
+  addressLine2?: string; // building number (S) or address line 2 (K)
+  postalCode?: string;
+  town?: string;
+  country?: string;
+}
+
+export interface QrBill {
+  account: string; // IBAN / QR-IBAN without spaces
+  creditor: QrBillAddress;
+  amount?: number; // missing for bills where the payer fills in the amount
+  currency: 'CHF' | 'EUR';
+  debtor?: QrBillAddress;
+  referenceType: 'QRR' | 'SCOR' | 'NON';
+  reference?: string;
+  message?: string;
+  invoiceNumber?: string; // billing information /10/
+  invoiceDate?: string; // billing information /11/, ISO date
+  dueDate?: string; // invoice date plus the net payment term from /40/
+}
+
+export class QrBillError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QrBillError';
+  }
+}
+
+function readAddress(lines: string[], start: number): QrBillAddress | undefined {
+  const [type, name, line1, line2, postalCode, town, country] = lines.slice(start, start + 7);
+  if (!name) return undefined;
+  // Combined addresses (K) keep postal code and town in line 2
+  return {
+    name,
+    addressLine1: line1 || undefined,
+    addressLine2: line2 || undefined,
+    postalCode: type === 'S' ? postalCode || undefined : undefined,
+    town: type === 'S' ? town || undefined : undefined,
+    country: country || undefined,
+  };
+}
+
+function parseShortDate(value: string): string | undefined {
+  const match = value.match(/^(\d{2})(\d{2})(\d{2})$/);
+  if (!match) return undefined;
+  const date = new Date(Date.UTC(2000 + Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.getUTCMonth() === Number(match[2]) - 1 ? date.toISOString().split('T')[0] : undefined;
+}
+
+/**
+ * Swico S1 billing information: `//S1/10/<invoice no>/11/<YYMMDD>/.../40/<discount%>:<days>;...`
+ * A `0:<days>` condition is the net payment term.
+ */
+function parseBillingInformation(value: string): Pick<QrBill, 'invoiceNumber' | 'invoiceDate' | 'dueDate'> {
+  if (!value.startsWith('//S1/')) return {};
+  const fields = new Map<string, string>();
+  const parts = value.slice(5).split(/(?<!\\)\//);
+  for (let i = 0; i + 1 < parts.length; i += 2) fields.set(parts[i], parts[i + 1].replace(/\\\//g, '/'));
+
+  const invoiceDate = parseShortDate((fields.get('11') ?? '').slice(0, 6));
+  const netDays = (fields.get('40') ?? '')
+    .split(';')
+    .map((condition) => condition.split(':'))
+    .find(([discount]) => Number(discount) === 0)?.[1];
+
+  let dueDate: string | undefined;
+  if (invoiceDate && netDays && /^\d+$/.test(netDays)) {
+    const due = new Date(`${invoiceDate}T00:00:00Z`);
+    due.setUTCDate(due.getUTCDate() + Number(netDays));
+    dueDate = due.toISOString().split('T')[0];
+  }
+
+  return { invoiceNumber: fields.get('10'), invoiceDate, dueDate };
+}
+
+export function parseQrBillPayload(payload: string): QrBill {
+  const lines = payload.replace(/^\uFEFF/, '').split(/\r?\n|\r/).map((line) => line.trim());
+
+  if (lines[0] !== 'SPC') throw new QrBillError('Kein Swiss QR-Code (Kennung SPC fehlt).');
+  if (!/^02\d{2}$/.test(lines[1] ?? '')) throw new QrBillError(`Version ${lines[1] ?? '?'} wird nicht unterstützt.`);
+  if (lines.length < 31 || lines[30] !== 'EPD') {
+    throw new QrBillError('Unvollständiger QR-Code (Trailer EPD fehlt).');
+  }
+
+  const account = lines[3].replace(/\s+/g, '').toUpperCase();
+  if (!/^(CH|LI)\d{7}[A-Z0-9]{12}$/.test(account)) throw new QrBillError('Ungültige IBAN des Zahlungsempfängers.');
+
+  const creditor = readAddress(lines, 4);
+  if (!creditor) throw new QrBillError('Name des Zahlungsempfängers fehlt.');
+
+  let amount: number | undefined;
+  if (lines[18]) {
+    amount = Number(lines[18]);
+    if (Number.isNaN(amount) || amount <= 0) throw new QrBillError('Ungültiger Betrag.');
+  }
+
+  const currency = lines[19];
+  if (currency !== 'CHF' && currency !== 'EUR') throw new QrBillError('Währung muss CHF oder EUR sein.');
+
+  const referenceType = lines[27];
+  if (referenceType !== 'QRR' && referenceType !== 'SCOR' && referenceType !== 'NON') {
+    throw new QrBillError('Ungültiger Referenztyp.');
+  }
+
+  return {
+    account,
+    creditor,
+    amount,
+    currency,
+    debtor: readAddress(lines, 20),
+    referenceType,
+    reference: lines[28] || undefined,
+    message: lines[29] || undefined,
+    ...parseBillingInformation(lines[31] ?? ''),
+  };
+}
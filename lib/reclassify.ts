@@ -0,0 +1,117 @@
+/**
+ * Re-classification of stored transactions (server-only)
+ * Runs the current pipeline (rules, local model, LLM with the current taxonomy) over a date
+ * range or category again. The preview only returns the rows whose category or impulse
+ * verdict would change; the user picks which proposals to apply.
+ */
+
+import 'server-only';
+import { categoryWithDescendants, findCategory } from './categories';
+import { getCategoryTaxonomy } from './categoryTaxonomy';
+import { classifyTransactions } from './classification';
+import { getCategorizationRules, getSavingsGoals, getTransactions, getUser, updateTransaction } from './repository';
+import type { ReclassifyChange, ReclassifyProposal, Transaction } from './types';
+
+export interface ReclassifyOptions {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  category?: string; // includes its subcategories
+  includeOverrides?: boolean; // also re-run rows whose category the user set by hand
+}
+
+export interface ReclassifyPreview {
+  scanned: number; // rows in range that were classified again
+  skippedOverrides: number; // rows left alone because of a manual override
+  changes: ReclassifyChange[];
+}
+
+/**
+ * True when the user chose the category: set via the category editor (source `user`) or
+ * stored with a category hint (`rawCategory`) from manual entry or the import file
+ */
+export function hasManualOverride(transaction: Transaction): boolean {
+  return transaction.classificationSource === 'user' || !!transaction.rawCategory;
+}
+
+// Copies only the classification fields (also strips whatever else a client sent along)
+function proposalOf(source: ReclassifyProposal): ReclassifyProposal {
+  return {
+    category: source.category,
+    isImpulse: source.isImpulse,
+    decisionLabel: source.decisionLabel,
+    decisionExplanation: source.decisionExplanation,
+    decisionExplanationEn: source.decisionExplanationEn,
+    ruleId: source.ruleId ?? null,
+    ruleName: source.ruleName ?? null,
+    classificationSource: source.classificationSource,
+    confidence: source.confidence,
+  };
+}
+
+/**
+ * Dry run: classifies the selected booked transactions again and lists the differences.
+ * Nothing is written.
+ */
+export async function previewReclassification(userId: string, options: ReclassifyOptions): Promise<ReclassifyPreview> {
+  const [transactions, rules, categories, savingsGoals, user] = await Promise.all([
+    getTransactions(userId),
+    getCategorizationRules(userId),
+    getCategoryTaxonomy(userId),
+    getSavingsGoals(userId),
+    getUser(userId),
+  ]);
+
+  const categoryNames = options.category ? categoryWithDescendants(categories, options.category) : null;
+  const inScope = transactions.filter((t) => {
+    const day = t.date.slice(0, 10);
+    return (
+      t.status !== 'pending' &&
+      (!options.from || day >= options.from) &&
+      (!options.to || day <= options.to) &&
+      (!categoryNames || categoryNames.includes(t.category))
+    );
+  });
+  const selected = options.includeOverrides ? inScope : inScope.filter((t) => !hasManualOverride(t));
+
+  const classified = await classifyTransactions(selected, { rules, categories, transactions, savingsGoals, user });
+  const changes = selected
+    .map((transaction, index) => ({ transaction, proposed: proposalOf(classified[index]) }))
+    .filter(
+      ({ transaction, proposed }) =>
+        proposed.category !== transaction.category ||
+        proposed.isImpulse !== transaction.isImpulse ||
+        proposed.decisionLabel !== transaction.decisionLabel
+    )
+    .sort((a, b) => b.transaction.date.localeCompare(a.transaction.date));
+
+  return { scanned: selected.length, skippedOverrides: inScope.length - selected.length, changes };
+}
+
+/**
+ * Stores the accepted proposals. Proposals naming a category that is not in the taxonomy are
+ * rejected, since they round-trip through the client.
+ */
+export async function applyReclassification(
+  userId: string,
+  proposals: { id: string; proposed: ReclassifyProposal }[]
+): Promise<{ updated: number; errors: { id: string; message: string }[] }> {
+  const categories = await getCategoryTaxonomy(userId);
+  let updated = 0;
+  const errors: { id: string; message: string }[] = [];
+
+  for (const { id, proposed } of proposals) {
+    if (!findCategory(categories, proposed.category)) {
+      errors.push({ id, message: `Unbekannte Kategorie ${proposed.category}` });
+      continue;
+    }
+    try {
+      await updateTransaction(userId, id, proposalOf(proposed));
+      updated += 1;
+    } catch (error: any) {
+      console.error('Reclassify apply error:', error);
+      errors.push({ id, message: error?.message || 'Unbekannter Fehler.' });
+    }
+  }
+
+  return { updated, errors };
+}
@@ -0,0 +1,322 @@
+/**
+ * Budget report (server-only)
+ * Renders the BudgetPlannerAgent result for a month or custom range as a printable A4 PDF:
+ * budget vs. spending, spending by category, patterns, impulse purchases and savings goals.
+ */
+
+import 'server-only';
+import { budgetPlannerAgent } from './agents';
+import { categoryLabel, findCategory } from './categories';
+import { getCategoryTaxonomy } from './categoryTaxonomy';
+import { getSavingsGoals, getTransactions, getUser } from './repository';
+import { translateTexts } from './translate';
+import { createPdfDocument, wrapText, type PdfColor } from './pdf';
+
+export type ReportLanguage = 'de' | 'en';
+
+export interface BudgetReportOptions {
+  userId: string;
+  lang: ReportLanguage;
+  budgetMode: 'auto' | 'manual';
+  month?: string; // YYYY-MM
+  startDate?: string; // YYYY-MM-DD, together with endDate instead of month
+  endDate?: string;
+}
+
+const LABELS = {
+  de: {
+    title: 'Budgetbericht',
+    generated: 'Erstellt am',
+    summary: 'Übersicht',
+    budget: 'Budget',
+    spent: 'Ausgaben',
+    remaining: 'Verbleibend',
+    overrun: 'Überschreitung',
+    byCategory: 'Ausgaben nach Kategorie',
+    noExpenses: 'Keine Ausgaben in diesem Zeitraum.',
+    patterns: 'Muster & Hinweise',
+    impulses: 'Impulskäufe',
+    noImpulses: 'Keine Impulskäufe in diesem Zeitraum.',
+    impulseTotal: 'Total Impulskäufe',
+    goals: 'Sparziele',
+    noGoals: 'Keine Sparziele erfasst.',
+    targetDate: 'Ziel bis',
+    completed: 'erreicht',
+  },
+  en: {
+    title: 'Budget report',
+    generated: 'Generated on',
+    summary: 'Summary',
+    budget: 'Budget',
+    spent: 'Spending',
+    remaining: 'Remaining',
+    overrun: 'Over budget',
+    byCategory: 'Spending by category',
+    noExpenses: 'No spending in this period.',
+    patterns: 'Patterns & tips',
+    impulses: 'Impulse purchases',
+    noImpulses: 'No impulse purchases in this period.',
+    impulseTotal: 'Total impulse purchases',
+    goals: 'Savings goals',
+    noGoals: 'No savings goals yet.',
+    targetDate: 'Target date',
+    completed: 'reached',
+  },
+};
+
+const COLORS: Record<'text' | 'muted' | 'accent' | 'track' | 'danger' | 'success', PdfColor> = {
+  text: [0.12, 0.16, 0.22],
+  muted: [0.42, 0.45, 0.5],
+  accent: [0.15, 0.39, 0.92],
+  track: [0.9, 0.91, 0.93],
+  danger: [0.86, 0.15, 0.15],
+  success: [0.09, 0.64, 0.29],
+};
+
+const MARGIN = 50;
+
+const formatDay = (value: string, lang: BudgetReportOptions['lang']) =>
+  new Date(`${value}T00:00:00Z`).toLocaleDateString(lang === 'en' ? 'en-GB' : 'de-CH', { timeZone: 'UTC' });
+
+/**
+ * Period label and date range covered by the report
+ */
+function resolvePeriod(options: BudgetReportOptions) {
+  const locale = options.lang === 'en' ? 'en-GB' : 'de-CH';
+  if (options.startDate && options.endDate) {
+    return {
+      label: `${formatDay(options.startDate, options.lang)} – ${formatDay(options.endDate, options.lang)}`,
+      month: options.endDate.slice(0, 7),
+      startDate: options.startDate,
+      endDate: options.endDate,
+    };
+  }
+
+  const month = options.month ?? new Date().toISOString().slice(0, 7);
+  const [year, monthIndex] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return {
+    label: new Date(Date.UTC(year, monthIndex - 1, 1)).toLocaleDateString(locale, {
+      month: 'long',
+      year: 'numeric',
+      timeZone: 'UTC',
+    }),
+    month,
+    startDate: `${month}-01`,
+    endDate: `${month}-${String(lastDay).padStart(2, '0')}`,
+  };
+}
+
+const chf = (value: number) =>
+  `${value.toLocaleString('de-CH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} CHF`;
+
+export async function buildBudgetReport(options: BudgetReportOptions): Promise<Buffer> {
+  const labels = LABELS[options.lang];
+  const period = resolvePeriod(options);
+  const isCustom = Boolean(options.startDate && options.endDate);
+
+  const [user, transactions, goals, categories] = await Promise.all([
+    getUser(options.userId),
+    getTransactions(options.userId),
+    getSavingsGoals(options.userId),
+    getCategoryTaxonomy(options.userId),
+  ]);
+
+  const summary = await budgetPlannerAgent({
+    userId: options.userId,
+    monthlyNetIncome: user?.monthlyNetIncome ?? 0,
+    budgetProfile: user?.budgetProfile,
+    monthlyFlexibleBudget: user?.monthlyFlexibleBudget,
+    budgetPeriod: user?.budgetPeriod,
+    transactions,
+    month: period.month,
+    timeframe: isCustom ? 'custom' : 'month',
+    budgetMode: options.budgetMode,
+    startDate: isCustom ? period.startDate : undefined,
+    endDate: isCustom ? period.endDate : undefined,
+    categories,
+  });
+
+  const impulses = transactions
+    .filter((t) => t.isImpulse && t.date >= summary.period.start && t.date <= summary.period.end)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  // Patterns and stored texts are German; English reports translate them. Category names
+  // come from the taxonomy labels.
+  let patterns = summary.patterns;
+  if (options.lang === 'en' && patterns.length > 0) {
+    patterns = await translateTexts(patterns, 'EN');
+  }
+  const categoryColor = (name: string): PdfColor => {
+    const hex = findCategory(categories, name)?.color;
+    if (!hex || !/^#[0-9a-f]{6}$/i.test(hex)) return COLORS.accent;
+    return [1, 3, 5].map((offset) => parseInt(hex.slice(offset, offset + 2), 16) / 255) as PdfColor;
+  };
+  const impulseText = (t: (typeof impulses)[number]) =>
+    options.lang === 'en' ? t.decisionExplanationEn || t.decisionExplanation : t.decisionExplanation;
+  const goalRules = (goal: (typeof goals)[number]) =>
+    options.lang === 'en' && goal.rulesEn?.length ? goal.rulesEn : goal.rules;
+
+  const pdf = createPdfDocument();
+  const contentWidth = pdf.width - MARGIN * 2;
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pdf.height - MARGIN) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+  };
+  const heading = (text: string) => {
+    ensureSpace(40);
+    y += 12;
+    pdf.text(text, MARGIN, y, { size: 13, bold: true, color: COLORS.text });
+    y += 18;
+    pdf.line(MARGIN, y, MARGIN + contentWidth, y);
+    y += 8;
+  };
+  const paragraph = (text: string, options: { indent?: number; size?: number; color?: PdfColor } = {}) => {
+    const size = options.size ?? 10;
+    const indent = options.indent ?? 0;
+    wrapText(text, contentWidth - indent, size).forEach((line) => {
+      ensureSpace(size + 4);
+      pdf.text(line, MARGIN + indent, y, { size, color: options.color ?? COLORS.text });
+      y += size + 4;
+    });
+  };
+  const bar = (share: number, color: PdfColor, x = MARGIN, width = contentWidth) => {
+    pdf.rect(x, y, width, 6, COLORS.track);
+    pdf.rect(x, y, width * Math.max(0, Math.min(1, share)), 6, color);
+  };
+
+  // Title
+  pdf.text(labels.title, MARGIN, y, { size: 22, bold: true, color: COLORS.text });
+  y += 30;
+  // A budget period that does not start on the 1st shows its date range next to the month
+  const { start, end } = summary.period;
+  const periodLabel =
+    isCustom || (start === period.startDate && end === period.endDate)
+      ? period.label
+      : `${period.label} (${formatDay(start, options.lang)} – ${formatDay(end, options.lang)})`;
+  pdf.text(periodLabel, MARGIN, y, { size: 13, color: COLORS.accent });
+  y += 18;
+  pdf.text(
+    `${user?.name ? `${user.name} · ` : ''}${labels.generated} ${new Date().toLocaleDateString(
+      options.lang === 'en' ? 'en-GB' : 'de-CH'
+    )}`,
+    MARGIN,
+    y,
+    { size: 9, color: COLORS.muted }
+  );
+  y += 16;
+
+  // Summary
+  heading(labels.summary);
+  const overBudget = summary.monthlyBudget > 0 && summary.usedBudget > summary.monthlyBudget;
+  const rows: [string, string][] = [
+    [labels.budget, chf(summary.monthlyBudget)],
+    [labels.spent, chf(summary.usedBudget)],
+    overBudget
+      ? [labels.overrun, chf(summary.usedBudget - summary.monthlyBudget)]
+      : [labels.remaining, chf(Math.max(0, summary.monthlyBudget - summary.usedBudget))],
+  ];
+  rows.forEach(([label, value], idx) => {
+    const highlight = idx === 2 ? (overBudget ? COLORS.danger : COLORS.success) : COLORS.text;
+    pdf.text(label, MARGIN, y, { size: 11, color: COLORS.muted });
+    pdf.text(value, MARGIN + contentWidth, y, { size: 11, bold: idx === 2, color: highlight, align: 'right' });
+    y += 16;
+  });
+  y += 2;
+  bar(summary.monthlyBudget > 0 ? summary.usedBudget / summary.monthlyBudget : 0, overBudget ? COLORS.danger : COLORS.accent);
+  y += 14;
+
+  // Spending by category
+  heading(labels.byCategory);
+  if (summary.byCategory.length === 0) {
+    paragraph(labels.noExpenses, { color: COLORS.muted });
+  }
+  summary.byCategory.forEach((entry) => {
+    ensureSpace(30);
+    const share = summary.usedBudget > 0 ? entry.amount / summary.usedBudget : 0;
+    pdf.text(categoryLabel(categories, entry.category, options.lang), MARGIN, y, { size: 10, color: COLORS.text });
+    pdf.text(`${chf(entry.amount)}  (${Math.round(share * 100)}%)`, MARGIN + contentWidth, y, {
+      size: 10,
+      color: COLORS.text,
+      align: 'right',
+    });
+    y += 14;
+    bar(share, categoryColor(entry.category));
+    y += 12;
+  });
+
+  // Patterns
+  heading(labels.patterns);
+  patterns.forEach((pattern) => {
+    ensureSpace(14);
+    pdf.text('•', MARGIN, y, { size: 10, color: COLORS.accent });
+    paragraph(pattern, { indent: 12 });
+    y += 2;
+  });
+
+  // Impulse purchases
+  heading(labels.impulses);
+  if (impulses.length === 0) {
+    paragraph(labels.noImpulses, { color: COLORS.muted });
+  }
+  impulses.forEach((t) => {
+    ensureSpace(30);
+    const date = new Date(`${t.date}T00:00:00Z`).toLocaleDateString(options.lang === 'en' ? 'en-GB' : 'de-CH', {
+      timeZone: 'UTC',
+    });
+    pdf.text(date, MARGIN, y, { size: 10, color: COLORS.muted });
+    pdf.text(t.merchant, MARGIN + 70, y, { size: 10, bold: true, color: COLORS.text });
+    pdf.text(chf(Math.abs(t.amount)), MARGIN + contentWidth, y, { size: 10, color: COLORS.text, align: 'right' });
+    y += 14;
+    if (impulseText(t)) {
+      paragraph(impulseText(t), { indent: 70, size: 9, color: COLORS.muted });
+    }
+    y += 4;
+  });
+  if (impulses.length > 0) {
+    ensureSpace(16);
+    const total = impulses.reduce((sum, t) => sum + Math.abs(t.amount), 0);
+    pdf.text(labels.impulseTotal, MARGIN, y, { size: 10, bold: true, color: COLORS.text });
+    pdf.text(chf(total), MARGIN + contentWidth, y, { size: 10, bold: true, color: COLORS.danger, align: 'right' });
+    y += 16;
+  }
+
+  // Savings goals
+  heading(labels.goals);
+  if (goals.length === 0) {
+    paragraph(labels.noGoals, { color: COLORS.muted });
+  }
+  goals.forEach((goal) => {
+    ensureSpace(50);
+    const share = goal.targetAmount > 0 ? goal.currentSavedAmount / goal.targetAmount : 0;
+    pdf.text(goal.title, MARGIN, y, { size: 11, bold: true, color: COLORS.text });
+    pdf.text(
+      `${chf(goal.currentSavedAmount)} / ${chf(goal.targetAmount)}${share >= 1 ? ` · ${labels.completed}` : ''}`,
+      MARGIN + contentWidth,
+      y,
+      { size: 10, color: share >= 1 ? COLORS.success : COLORS.text, align: 'right' }
+    );
+    y += 15;
+    bar(share, share >= 1 ? COLORS.success : COLORS.accent);
+    y += 11;
+    pdf.text(
+      `${labels.targetDate} ${new Date(goal.targetDate).toLocaleDateString(options.lang === 'en' ? 'en-GB' : 'de-CH')}`,
+      MARGIN,
+      y,
+      { size: 9, color: COLORS.muted }
+    );
+    y += 13;
+    goalRules(goal).forEach((rule) => {
+      ensureSpace(13);
+      pdf.text('–', MARGIN + 4, y, { size: 9, color: COLORS.muted });
+      paragraph(rule, { indent: 14, size: 9 });
+    });
+    y += 8;
+  });
+
+  return pdf.toBuffer();
+}
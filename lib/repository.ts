@@ -0,0 +1,361 @@
+/**
+ * Storage repository (server-only)
+ * Defines the data access boundary used by API routes and agents. The concrete backend
+ * is chosen via STORAGE_BACKEND:
+ * - `supabase`: PostgreSQL via Supabase (lib/supabase.ts)
+ * - `memory`: process-local store for offline development and tests (lib/memoryRepository.ts)
+ * Supabase is the default; the in-memory store (single local user, no sign-in) is only used
+ * when STORAGE_BACKEND=memory is set explicitly, so a deploy with missing Supabase env vars
+ * fails instead of silently running without authentication.
+ * A future Strapi backend would be another implementation of BudgetRepository.
+ */
+
+import 'server-only';
+import { supabaseRepository } from './supabase';
+import { memoryRepository } from './memoryRepository';
+import type {
+  Account,
+  User,
+  BudgetPeriodSetting,
+  BudgetProfile,
+  Transaction,
+  SavingsGoal,
+  ImportBatch,
+  CsvColumnMapping,
+  CategorizationRule,
+  Category,
+  Merchant,
+  ClassificationSource,
+  SubscriptionMark,
+} from './types';
+
+export type StorageBackend = 'supabase' | 'memory';
+
+export interface TransactionCategoryUpdate {
+  userId: string;
+  transactionId: string;
+  category: string;
+  decisionLabel?: 'useful' | 'unnecessary';
+  decisionExplanation?: string;
+  decisionExplanationEn?: string;
+  isImpulse?: boolean;
+  rawCategory?: string;
+  classificationSource?: ClassificationSource;
+  confidence?: number;
+}
+
+/** Editable transaction fields; undefined leaves the stored value untouched */
+export type TransactionUpdate = Partial<Omit<Transaction, 'id' | 'userId'>>;
+
+export interface SavingsGoalUpdate {
+  title?: string;
+  targetAmount?: number;
+  targetDate?: string;
+  rules?: string[];
+  rulesEn?: string[];
+}
+
+export interface ImportBatchUpdate {
+  transactionCount?: number;
+  status?: ImportBatch['status'];
+}
+
+/** Editable rule fields; undefined leaves the stored value untouched, null clears optional conditions */
+export type CategorizationRuleUpdate = {
+  [K in keyof Omit<CategorizationRule, 'id' | 'userId' | 'createdAt'>]?: CategorizationRule[K] | null;
+};
+
+/** Editable category fields; parentId null moves the category to the top level, budgetLimit null removes the envelope */
+export type CategoryUpdate = {
+  [K in keyof Omit<Category, 'id' | 'userId' | 'createdAt' | 'parentId' | 'budgetLimit'>]?: Category[K];
+} & { parentId?: string | null; budgetLimit?: number | null };
+
+/** Income and budget profile; the flexible budget is derived from both (see lib/budgetProfile.ts) */
+export interface UserBudgetUpdate {
+  monthlyNetIncome: number;
+  budgetProfile: BudgetProfile;
+  monthlyFlexibleBudget: number;
+  budgetPeriod: BudgetPeriodSetting;
+}
+
+/** Editable account fields; undefined leaves the stored value untouched */
+export type AccountUpdate = Partial<Omit<Account, 'id' | 'userId' | 'createdAt'>>;
+
+export interface MerchantUpdate {
+  name?: string;
+  aliases?: string[];
+  defaultCategory?: string | null; // null removes the default category
+}
+
+export interface BudgetRepository {
+  // Users
+  getUser(userId: string): Promise<User | null>;
+  createUser(user: User): Promise<User>;
+  updateUserBudget(userId: string, budget: UserBudgetUpdate): Promise<User>;
+  updateUserCsvMapping(userId: string, csvMapping: CsvColumnMapping | null): Promise<User>;
+
+  // Transactions
+  getTransactions(userId: string): Promise<Transaction[]>;
+  getTransaction(userId: string, transactionId: string): Promise<Transaction | null>;
+  createTransaction(transaction: Transaction): Promise<Transaction>;
+  updateTransaction(userId: string, transactionId: string, patch: TransactionUpdate): Promise<Transaction>;
+  updateTransactionCategory(params: TransactionCategoryUpdate): Promise<Transaction>;
+  deleteTransaction(userId: string, transactionId: string): Promise<void>;
+  /** Most frequent category among the user's last 10 transactions at this merchant */
+  getMerchantCategoryHint(userId: string, merchant: string): Promise<string | null>;
+  /**
+   * Renames the merchant of every transaction booked under one of `from` to `to`; the previous
+   * name is kept as rawMerchant when none is stored yet. Returns the number of updated rows.
+   */
+  renameTransactionMerchant(userId: string, from: string[], to: string): Promise<number>;
+  /** Moves every transaction booked under one of `from` to category `to`; returns the number of updated rows */
+  renameTransactionCategory(userId: string, from: string[], to: string): Promise<number>;
+
+  // Import batches
+  getImportBatches(userId: string): Promise<ImportBatch[]>;
+  getImportBatch(userId: string, batchId: string): Promise<ImportBatch | null>;
+  createImportBatch(batch: ImportBatch): Promise<ImportBatch>;
+  updateImportBatch(userId: string, batchId: string, patch: ImportBatchUpdate): Promise<ImportBatch>;
+  /** Removes every transaction imported with the batch and returns how many were deleted */
+  deleteTransactionsByImportBatch(userId: string, batchId: string): Promise<number>;
+
+  // Category taxonomy
+  getCategories(userId: string): Promise<Category[]>;
+  createCategories(categories: Category[]): Promise<Category[]>;
+  updateCategory(userId: string, categoryId: string, patch: CategoryUpdate): Promise<Category>;
+  /** Deletes the category; its children move to the top level */
+  deleteCategory(userId: string, categoryId: string): Promise<void>;
+
+  // Merchant directory
+  getMerchants(userId: string): Promise<Merchant[]>;
+  createMerchant(merchant: Merchant): Promise<Merchant>;
+  updateMerchant(userId: string, merchantId: string, patch: MerchantUpdate): Promise<Merchant>;
+  deleteMerchant(userId: string, merchantId: string): Promise<void>;
+
+  // Accounts
+  getAccounts(userId: string): Promise<Account[]>;
+  createAccount(account: Account): Promise<Account>;
+  updateAccount(userId: string, accountId: string, patch: AccountUpdate): Promise<Account>;
+  /** Deletes the account; callers make sure no transaction references it */
+  deleteAccount(userId: string, accountId: string): Promise<void>;
+
+  // Categorisation rules
+  getCategorizationRules(userId: string): Promise<CategorizationRule[]>;
+  createCategorizationRule(rule: CategorizationRule): Promise<CategorizationRule>;
+  updateCategorizationRule(userId: string, ruleId: string, patch: CategorizationRuleUpdate): Promise<CategorizationRule>;
+  deleteCategorizationRule(userId: string, ruleId: string): Promise<void>;
+
+  // Subscription marks
+  getSubscriptionMarks(userId: string): Promise<SubscriptionMark[]>;
+  /** Creates or replaces the mark of the merchant (one per user and merchantKey) */
+  saveSubscriptionMark(mark: SubscriptionMark): Promise<SubscriptionMark>;
+  /** Removes the mark so the subscription is shown as detected again */
+  deleteSubscriptionMark(userId: string, merchantKey: string): Promise<void>;
+
+  // Savings goals
+  getSavingsGoals(userId: string): Promise<SavingsGoal[]>;
+  createSavingsGoal(goal: SavingsGoal): Promise<SavingsGoal>;
+  deleteSavingsGoal(goalId: string): Promise<void>;
+  updateSavingsGoalAmount(goalId: string, newAmount: number): Promise<SavingsGoal>;
+  updateSavingsGoalRules(goalId: string, rules: string[], rulesEn?: string[]): Promise<SavingsGoal>;
+  markSavingsGoalComplete(goalId: string): Promise<SavingsGoal>;
+  updateSavingsGoal(goalId: string, payload: SavingsGoalUpdate): Promise<SavingsGoal>;
+}
+
+export function getStorageBackend(): StorageBackend {
+  const configured = process.env.STORAGE_BACKEND?.toLowerCase();
+  if (configured === 'memory') return 'memory';
+  if (configured && configured !== 'supabase') {
+    throw new Error(`Unknown STORAGE_BACKEND "${process.env.STORAGE_BACKEND}" (expected supabase or memory)`);
+  }
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    throw new Error(
+      'Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY; set STORAGE_BACKEND=memory for local mode'
+    );
+  }
+  return 'supabase';
+}
+
+export function getRepository(): BudgetRepository {
+  return getStorageBackend() === 'memory' ? memoryRepository : supabaseRepository;
+}
+
+/**
+ * Convenience wrappers so callers don't need to resolve the repository themselves
+ */
+
+export function getUser(userId: string) {
+  return getRepository().getUser(userId);
+}
+
+export function createUser(user: User) {
+  return getRepository().createUser(user);
+}
+
+export function updateUserBudget(userId: string, budget: UserBudgetUpdate) {
+  return getRepository().updateUserBudget(userId, budget);
+}
+
+export function updateUserCsvMapping(userId: string, csvMapping: CsvColumnMapping | null) {
+  return getRepository().updateUserCsvMapping(userId, csvMapping);
+}
+
+export function getTransactions(userId: string) {
+  return getRepository().getTransactions(userId);
+}
+
+export function getTransaction(userId: string, transactionId: string) {
+  return getRepository().getTransaction(userId, transactionId);
+}
+
+export function createTransaction(transaction: Transaction) {
+  return getRepository().createTransaction(transaction);
+}
+
+export function updateTransaction(userId: string, transactionId: string, patch: TransactionUpdate) {
+  return getRepository().updateTransaction(userId, transactionId, patch);
+}
+
+export function updateTransactionCategory(params: TransactionCategoryUpdate) {
+  return getRepository().updateTransactionCategory(params);
+}
+
+export function deleteTransaction(userId: string, transactionId: string) {
+  return getRepository().deleteTransaction(userId, transactionId);
+}
+
+export function getMerchantCategoryHint(userId: string, merchant: string) {
+  return getRepository().getMerchantCategoryHint(userId, merchant);
+}
+
+export function renameTransactionMerchant(userId: string, from: string[], to: string) {
+  return getRepository().renameTransactionMerchant(userId, from, to);
+}
+
+export function getImportBatches(userId: string) {
+  return getRepository().getImportBatches(userId);
+}
+
+export function getImportBatch(userId: string, batchId: string) {
+  return getRepository().getImportBatch(userId, batchId);
+}
+
+export function createImportBatch(batch: ImportBatch) {
+  return getRepository().createImportBatch(batch);
+}
+
+export function updateImportBatch(userId: string, batchId: string, patch: ImportBatchUpdate) {
+  return getRepository().updateImportBatch(userId, batchId, patch);
+}
+
+export function deleteTransactionsByImportBatch(userId: string, batchId: string) {
+  return getRepository().deleteTransactionsByImportBatch(userId, batchId);
+}
+
+export function renameTransactionCategory(userId: string, from: string[], to: string) {
+  return getRepository().renameTransactionCategory(userId, from, to);
+}
+
+export function getCategories(userId: string) {
+  return getRepository().getCategories(userId);
+}
+
+export function createCategories(categories: Category[]) {
+  return getRepository().createCategories(categories);
+}
+
+export function updateCategory(userId: string, categoryId: string, patch: CategoryUpdate) {
+  return getRepository().updateCategory(userId, categoryId, patch);
+}
+
+export function deleteCategory(userId: string, categoryId: string) {
+  return getRepository().deleteCategory(userId, categoryId);
+}
+
+export function getMerchants(userId: string) {
+  return getRepository().getMerchants(userId);
+}
+
+export function createMerchant(merchant: Merchant) {
+  return getRepository().createMerchant(merchant);
+}
+
+export function updateMerchant(userId: string, merchantId: string, patch: MerchantUpdate) {
+  return getRepository().updateMerchant(userId, merchantId, patch);
+}
+
+export function deleteMerchant(userId: string, merchantId: string) {
+  return getRepository().deleteMerchant(userId, merchantId);
+}
+
+export function getAccounts(userId: string) {
+  return getRepository().getAccounts(userId);
+}
+
+export function createAccount(account: Account) {
+  return getRepository().createAccount(account);
+}
+
+export function updateAccount(userId: string, accountId: string, patch: AccountUpdate) {
+  return getRepository().updateAccount(userId, accountId, patch);
+}
+
+export function deleteAccount(userId: string, accountId: string) {
+  return getRepository().deleteAccount(userId, accountId);
+}
+
+export function getCategorizationRules(userId: string) {
+  return getRepository().getCategorizationRules(userId);
+}
+
+export function createCategorizationRule(rule: CategorizationRule) {
+  return getRepository().createCategorizationRule(rule);
+}
+
+export function updateCategorizationRule(userId: string, ruleId: string, patch: CategorizationRuleUpdate) {
+  return getRepository().updateCategorizationRule(userId, ruleId, patch);
+}
+
+export function deleteCategorizationRule(userId: string, ruleId: string) {
+  return getRepository().deleteCategorizationRule(userId, ruleId);
+}
+
+export function getSubscriptionMarks(userId: string) {
+  return getRepository().getSubscriptionMarks(userId);
+}
+
+export function saveSubscriptionMark(mark: SubscriptionMark) {
+  return getRepository().saveSubscriptionMark(mark);
+}
+
+export function deleteSubscriptionMark(userId: string, merchantKey: string) {
+  return getRepository().deleteSubscriptionMark(userId, merchantKey);
+}
+
+export function getSavingsGoals(userId: string) {
+  return getRepository().getSavingsGoals(userId);
+}
+
+export function createSavingsGoal(goal: SavingsGoal) {
+  return getRepository().createSavingsGoal(goal);
+}
+
+export function deleteSavingsGoal(goalId: string) {
+  return getRepository().deleteSavingsGoal(goalId);
+}
+
+export function updateSavingsGoalAmount(goalId: string, newAmount: number) {
+  return getRepository().updateSavingsGoalAmount(goalId, newAmount);
+}
+
+export function updateSavingsGoalRules(goalId: string, rules: string[], rulesEn?: string[]) {
+  return getRepository().updateSavingsGoalRules(goalId, rules, rulesEn);
+}
+
+export function markSavingsGoalComplete(goalId: string) {
+  return getRepository().markSavingsGoalComplete(goalId);
+}
+
+export function updateSavingsGoal(goalId: string, payload: SavingsGoalUpdate) {
+  return getRepository().updateSavingsGoal(goalId, payload);
+}
@@ -0,0 +1,32 @@
+/**
+ * Review queue
+ * Transactions classified with low confidence (uncertain LLM answers, keyword fallbacks,
+ * weak local predictions) are listed on /pruefen until the user confirms or corrects them.
+ */
+
+import type { ClassificationSource, Transaction } from './types';
+
+/** Classifications below this confidence end up in the review queue */
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.7;
+
+// Decisions the user made directly (or via a rule) need no review
+const TRUSTED_SOURCES: ClassificationSource[] = ['user', 'rule'];
+
+/**
+ * True for booked transactions whose stored confidence is below the threshold.
+ * Rows classified before confidences were stored are not queued.
+ */
+export function needsReview(transaction: Transaction): boolean {
+  if (transaction.status === 'pending' || transaction.confidence === undefined) return false;
+  if (transaction.classificationSource && TRUSTED_SOURCES.includes(transaction.classificationSource)) return false;
+  return transaction.confidence < REVIEW_CONFIDENCE_THRESHOLD;
+}
+
+/**
+ * Transactions to review, least confident first (newest first on ties)
+ */
+export function reviewQueue(transactions: Transaction[]): Transaction[] {
+  return transactions
+    .filter(needsReview)
+    .sort((a, b) => (a.confidence ?? 0) - (b.confidence ?? 0) || b.date.localeCompare(a.date));
+}
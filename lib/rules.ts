@@ -0,0 +1,188 @@
+/**
+ * Categorisation rules
+ * Matches transactions against the user's rules (merchant contains/regex, amount range,
+ * raw category) and validates rule payloads from the API. The first enabled rule by
+ * ascending priority wins; a hit skips the AI classification entirely.
+ */
+
+import { resolveCategoryName } from './categories';
+import type { CategorizationRule, Category, Transaction } from './types';
+
+/** Fields a client may set when creating or editing a rule */
+export type CategorizationRuleInput = Omit<CategorizationRule, 'id' | 'userId' | 'createdAt'>;
+
+type MatchableTransaction = Pick<Transaction, 'merchant' | 'rawMerchant' | 'amount' | 'rawCategory'>;
+
+export class RuleValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RuleValidationError';
+  }
+}
+
+// Regex rules run against every imported row, so patterns stay short and free of backtracking traps
+const MAX_REGEX_LENGTH = 100;
+
+/**
+ * Why a regex pattern is refused, or null when it is safe to run: too long, a backreference,
+ * or a quantified group that itself contains a quantifier (e.g. `(a+)+`, catastrophic backtracking).
+ */
+function unsafeRegexReason(pattern: string): string | null {
+  if (pattern.length > MAX_REGEX_LENGTH) {
+    return `Regulärer Ausdruck darf höchstens ${MAX_REGEX_LENGTH} Zeichen lang sein`;
+  }
+  if (/\\([1-9]|k<)/.test(pattern)) return 'Rückverweise sind in regulären Ausdrücken nicht erlaubt';
+
+  // Per open group: does it contain a quantifier?
+  const groups: boolean[] = [];
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      // Character classes hold no quantifiers
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === '*' || char === '+' || char === '{') {
+      if (groups.length > 0) groups[groups.length - 1] = true;
+    } else if (char === ')') {
+      const quantified = groups.pop();
+      if (quantified && /[*+{]/.test(pattern[i + 1] ?? '')) {
+        return 'Verschachtelte Wiederholungen wie (a+)+ sind in regulären Ausdrücken nicht erlaubt';
+      }
+      if (quantified && groups.length > 0) groups[groups.length - 1] = true;
+    }
+  }
+  return null;
+}
+
+function merchantMatches(rule: CategorizationRule, merchant: string): boolean {
+  if (!rule.merchantPattern) return true;
+  if (rule.merchantMatch === 'regex') {
+    // Stored before validation existed or edited in the database: never match
+    if (unsafeRegexReason(rule.merchantPattern)) return false;
+    try {
+      return new RegExp(rule.merchantPattern, 'i').test(merchant);
+    } catch {
+      // Stored before validation existed or edited in the database: never match
+      return false;
+    }
+  }
+  return merchant.toLowerCase().includes(rule.merchantPattern.toLowerCase());
+}
+
+export function ruleMatches(rule: CategorizationRule, transaction: MatchableTransaction): boolean {
+  if (!rule.enabled) return false;
+  const amount = Math.abs(transaction.amount);
+  if (rule.minAmount !== undefined && amount < rule.minAmount) return false;
+  if (rule.maxAmount !== undefined && amount > rule.maxAmount) return false;
+  if (
+    rule.rawCategoryPattern &&
+    !(transaction.rawCategory ?? '').toLowerCase().includes(rule.rawCategoryPattern.toLowerCase())
+  ) {
+    return false;
+  }
+  // The bank text still matters after normalisation (e.g. a rule on "TWINT")
+  return (
+    merchantMatches(rule, transaction.merchant) ||
+    (transaction.rawMerchant !== undefined && merchantMatches(rule, transaction.rawMerchant))
+  );
+}
+
+/**
+ * Rules in evaluation order: ascending priority, older rules first on ties
+ */
+export function sortRules(rules: CategorizationRule[]): CategorizationRule[] {
+  return [...rules].sort((a, b) => a.priority - b.priority || a.createdAt.localeCompare(b.createdAt));
+}
+
+export function findMatchingRule(
+  rules: CategorizationRule[],
+  transaction: MatchableTransaction
+): CategorizationRule | null {
+  return sortRules(rules).find((rule) => ruleMatches(rule, transaction)) ?? null;
+}
+
+const optionalText = (value: unknown) => {
+  if (value === undefined || value === null) return undefined;
+  const text = String(value).trim();
+  return text || undefined;
+};
+
+const optionalAmount = (value: unknown, field: string) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new RuleValidationError(`${field} muss eine positive Zahl sein`);
+  }
+  return amount;
+};
+
+/**
+ * Validates a rule payload. With `existing`, missing fields keep their stored value (partial edit).
+ * With `categories`, the category must exist in the user's taxonomy.
+ */
+export function parseRuleInput(
+  body: any,
+  existing?: CategorizationRule,
+  categories?: Category[]
+): CategorizationRuleInput {
+  const pick = (key: keyof CategorizationRuleInput) => (body[key] !== undefined ? body[key] : existing?.[key]);
+
+  const name = optionalText(pick('name'));
+  const categoryText = optionalText(pick('category'));
+  if (!name) throw new RuleValidationError('Name ist erforderlich');
+  if (!categoryText) throw new RuleValidationError('Kategorie ist erforderlich');
+  const category = categories ? resolveCategoryName(categories, categoryText) : categoryText;
+  if (!category) throw new RuleValidationError('Unbekannte Kategorie');
+
+  const merchantMatch = pick('merchantMatch') ?? 'contains';
+  if (merchantMatch !== 'contains' && merchantMatch !== 'regex') {
+    throw new RuleValidationError('merchantMatch muss contains oder regex sein');
+  }
+  const merchantPattern = optionalText(pick('merchantPattern'));
+  if (merchantPattern && merchantMatch === 'regex') {
+    try {
+      new RegExp(merchantPattern, 'i');
+    } catch {
+      throw new RuleValidationError('Ungültiger regulärer Ausdruck');
+    }
+    const unsafe = unsafeRegexReason(merchantPattern);
+    if (unsafe) throw new RuleValidationError(unsafe);
+  }
+
+  const minAmount = optionalAmount(pick('minAmount'), 'minAmount');
+  const maxAmount = optionalAmount(pick('maxAmount'), 'maxAmount');
+  if (minAmount !== undefined && maxAmount !== undefined && minAmount > maxAmount) {
+    throw new RuleValidationError('minAmount darf nicht grösser als maxAmount sein');
+  }
+  const rawCategoryPattern = optionalText(pick('rawCategoryPattern'));
+
+  if (!merchantPattern && minAmount === undefined && maxAmount === undefined && !rawCategoryPattern) {
+    throw new RuleValidationError('Mindestens eine Bedingung (Händler, Betrag oder Kategorie) ist erforderlich');
+  }
+
+  const decisionLabel = pick('decisionLabel') ?? 'useful';
+  if (decisionLabel !== 'useful' && decisionLabel !== 'unnecessary') {
+    throw new RuleValidationError('decisionLabel muss useful oder unnecessary sein');
+  }
+  const priority = Number(pick('priority') ?? 100);
+  if (!Number.isInteger(priority)) throw new RuleValidationError('priority muss eine ganze Zahl sein');
+
+  return {
+    name,
+    merchantPattern,
+    merchantMatch,
+    minAmount,
+    maxAmount,
+    rawCategoryPattern,
+    category,
+    isImpulse: Boolean(pick('isImpulse')),
+    decisionLabel,
+    priority,
+    enabled: pick('enabled') === undefined ? true : Boolean(pick('enabled')),
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * Statement format detection for the bulk upload
+ * Structured bank formats are recognised by their content (not the file extension) and parsed
+ * by their own module; everything else is treated as CSV by lib/csvImport.ts.
+ */
+
+import { isCamtDocument, parseCamt } from './camtImport';
+import { isMt940Document, parseMt940 } from './mt940Import';
+import { isOfxDocument, parseOfx } from './ofxImport';
+import { isQifDocument, parseQif } from './qifImport';
+import type { ImportError, ImportRow } from './imports';
+
+export interface StatementParseResult {
+  rows: ImportRow[];
+  errors: ImportError[];
+  format: string;
+}
+
+const STATEMENT_FORMATS: { detect: (text: string) => boolean; parse: (text: string) => StatementParseResult }[] = [
+  { detect: isCamtDocument, parse: parseCamt },
+  { detect: isOfxDocument, parse: parseOfx },
+  { detect: isQifDocument, parse: parseQif },
+  { detect: isMt940Document, parse: parseMt940 },
+];
+
+/**
+ * Parses camt.053/054, OFX, QIF or MT940 files; returns null for anything else (CSV)
+ */
+export function parseStatementFile(text: string): StatementParseResult | null {
+  const format = STATEMENT_FORMATS.find((candidate) => candidate.detect(text));
+  return format ? format.parse(text) : null;
+}
@@ -0,0 +1,187 @@
+/**
+ * Subscription detection
+ * Finds merchants that charge a stable amount at a regular interval (weekly, monthly or yearly)
+ * and derives the next expected charge, price changes and charges that did not show up.
+ * Payments that stopped showing up count as ended. The user's marks (expected / cancelled)
+ * are applied on top.
+ */
+
+import { merchantKey } from './merchants';
+import { isBookedExpense } from './transactionFilters';
+import type { Category, Subscription, SubscriptionMark, SubscriptionPeriod, SubscriptionPriceChange, Transaction } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface PeriodSpec {
+  minCharges: number;
+  interval: [number, number]; // accepted days between two charges
+  grace: number; // days a charge may be late before it counts as missed
+  endedAfter: number; // missed charges in a row after which the payment counts as ended
+  perYear: number;
+}
+
+const PERIODS: Record<SubscriptionPeriod, PeriodSpec> = {
+  weekly: { minCharges: 4, interval: [5, 9], grace: 3, endedAfter: 3, perYear: 52 },
+  monthly: { minCharges: 3, interval: [25, 35], grace: 7, endedAfter: 2, perYear: 12 },
+  yearly: { minCharges: 2, interval: [350, 380], grace: 14, endedAfter: 1, perYear: 1 },
+};
+
+// Amounts within 5% count as the same price; bigger steps are price changes
+const PRICE_TOLERANCE = 0.05;
+// Highest charge at most this multiple of the lowest one
+const MAX_PRICE_SPREAD = 1.5;
+// Share of intervals that must match the period (a skipped month is tolerated)
+const MIN_REGULAR_SHARE = 0.75;
+function dayNumber(date: string): number {
+  return Math.floor(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / DAY_MS);
+}
+
+/**
+ * Date `count` periods after `date`. Monthly and yearly steps keep the day of month
+ * (clamped to the month's last day), so the 31st stays the 31st where possible.
+ */
+export function addPeriods(date: string, period: SubscriptionPeriod, count: number): string {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  if (period === 'weekly') {
+    return new Date(Date.UTC(year, month - 1, day + 7 * count)).toISOString().slice(0, 10);
+  }
+  const months = period === 'monthly' ? count : 12 * count;
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().slice(0, 10);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function detectPeriod(charges: Transaction[]): SubscriptionPeriod | null {
+  const intervals = charges.slice(1).map((t, i) => dayNumber(t.date) - dayNumber(charges[i].date));
+  if (intervals.length === 0) return null;
+  const typical = median(intervals);
+
+  const period = (Object.keys(PERIODS) as SubscriptionPeriod[]).find((key) => {
+    const [min, max] = PERIODS[key].interval;
+    return typical >= min && typical <= max;
+  });
+  if (!period || charges.length < PERIODS[period].minCharges) return null;
+
+  const [min, max] = PERIODS[period].interval;
+  const regular = intervals.filter((days) => days >= min && days <= max).length;
+  return regular >= intervals.length * MIN_REGULAR_SHARE ? period : null;
+}
+
+function priceChanges(charges: Transaction[]): SubscriptionPriceChange[] {
+  const changes: SubscriptionPriceChange[] = [];
+  charges.slice(1).forEach((t, i) => {
+    const from = Math.abs(charges[i].amount);
+    const to = Math.abs(t.amount);
+    if (Math.abs(to - from) > Math.max(from, to) * PRICE_TOLERANCE) {
+      changes.push({ date: t.date.slice(0, 10), from, to });
+    }
+  });
+  return changes;
+}
+
+function analyse(
+  key: string,
+  charges: Transaction[],
+  mark: SubscriptionMark | undefined,
+  today: string
+): Subscription | null {
+  const period = detectPeriod(charges);
+  if (!period) return null;
+
+  // Varying amounts (groceries, fuel) are not a subscription; a few price changes are
+  const amounts = charges.map((t) => Math.abs(t.amount));
+  if (Math.max(...amounts) > Math.min(...amounts) * MAX_PRICE_SPREAD) return null;
+  const changes = priceChanges(charges);
+  if (changes.length > Math.max(2, Math.floor((charges.length - 1) / 3))) return null;
+
+  const spec = PERIODS[period];
+  const last = charges[charges.length - 1];
+  const amount = Math.abs(last.amount);
+  const lastCharge = last.date.slice(0, 10);
+  const cancelledOn = mark?.status === 'cancelled' ? mark.updatedAt.slice(0, 10) : null;
+
+  let missedCharges = 0;
+  let nextCharge: string | null = null;
+  if (!cancelledOn) {
+    let step = 1;
+    nextCharge = addPeriods(lastCharge, period, step);
+    while (dayNumber(nextCharge) + spec.grace < dayNumber(today) && missedCharges < spec.endedAfter) {
+      missedCharges += 1;
+      step += 1;
+      nextCharge = addPeriods(lastCharge, period, step);
+    }
+  }
+  // No charge for several periods: the payment stopped, nothing further is expected
+  const ended = !cancelledOn && missedCharges >= spec.endedAfter;
+
+  return {
+    merchantKey: key,
+    merchant: last.merchant,
+    category: last.category,
+    period,
+    amount,
+    monthlyCost: (amount * spec.perYear) / 12,
+    annualCost: amount * spec.perYear,
+    chargeCount: charges.length,
+    firstCharge: charges[0].date.slice(0, 10),
+    lastCharge,
+    nextCharge: ended ? null : nextCharge,
+    priceChanges: changes,
+    missedCharges,
+    chargedAfterCancel: !!cancelledOn && lastCharge > cancelledOn,
+    status: ended ? 'ended' : mark?.status ?? 'detected',
+  };
+}
+
+/**
+ * Subscriptions among the booked expenses (transfers between own accounts left out), active
+ * ones first (by monthly cost)
+ */
+export function detectSubscriptions(
+  transactions: Transaction[],
+  categories: Category[],
+  marks: SubscriptionMark[],
+  today: string = new Date().toISOString().slice(0, 10)
+): Subscription[] {
+  const byMerchant = new Map<string, Transaction[]>();
+  transactions
+    .filter((t) => isBookedExpense(t, categories))
+    .forEach((t) => {
+      const key = merchantKey(t.merchant);
+      if (key) byMerchant.set(key, [...(byMerchant.get(key) ?? []), t]);
+    });
+
+  const subscriptions: Subscription[] = [];
+  byMerchant.forEach((charges, key) => {
+    const sorted = charges.sort((a, b) => a.date.localeCompare(b.date));
+    const subscription = analyse(key, sorted, marks.find((mark) => mark.merchantKey === key), today);
+    if (subscription) subscriptions.push(subscription);
+  });
+
+  return subscriptions.sort(
+    (a, b) => Number(!isActiveSubscription(a)) - Number(!isActiveSubscription(b)) || b.monthlyCost - a.monthlyCost
+  );
+}
+
+/** Subscriptions that still charge: neither cancelled by the user nor ended on their own */
+export function isActiveSubscription(subscription: Subscription): boolean {
+  return subscription.status !== 'cancelled' && subscription.status !== 'ended';
+}
+
+/** Monthly and annual cost of the active subscriptions */
+export function subscriptionTotals(subscriptions: Subscription[]): { monthly: number; annual: number } {
+  return subscriptions
+    .filter(isActiveSubscription)
+    .reduce(
+      (totals, subscription) => ({
+        monthly: totals.monthly + subscription.monthlyCost,
+        annual: totals.annual + subscription.annualCost,
+      }),
+      { monthly: 0, annual: 0 }
+    );
+}
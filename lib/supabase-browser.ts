@@ -1,16 +1,19 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error('Missing NEXT_PUBLIC_SUPABASE_URL or NEXT_PUBLIC_SUPABASE_ANON_KEY for client auth');
-}
+// Local mode (single local user, no sign-in) only with STORAGE_BACKEND=memory, same rule as the server
+export const localMode = process.env.NEXT_PUBLIC_STORAGE_BACKEND?.toLowerCase() === 'memory';
 
-// Singleton browser client for auth + client-side calls
-export const supabaseBrowser = createClient(supabaseUrl, supabaseAnonKey, {
-  // explizit fetch durchreichen, falls globalThis.fetch nicht verfügbar ist
-  global: {
-    fetch: (...args) => fetch(...(args as Parameters<typeof fetch>)),
-  },
-});
+// Singleton browser client for auth + client-side calls.
+// Null in local mode or without Supabase env vars (sign-in then fails with a configuration error).
+export const supabaseBrowser: SupabaseClient | null =
+  !localMode && supabaseUrl && supabaseAnonKey
+    ? createClient(supabaseUrl, supabaseAnonKey, {
+        // explizit fetch durchreichen, falls globalThis.fetch nicht verfügbar ist
+        global: {
+          fetch: (...args) => fetch(...(args as Parameters<typeof fetch>)),
+        },
+      })
+    : null;
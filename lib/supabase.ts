@@ -1,49 +1,218 @@
 /**
- * Supabase client configuration (server-only)
- * This module provides a singleton Supabase client for server-side operations.
- * In a future Strapi backend, this would be replaced by Strapi's database layer.
+ * Supabase storage adapter (server-only)
+ * Implements the BudgetRepository interface on top of a lazily created Supabase client.
+ * Selected by lib/repository.ts unless STORAGE_BACKEND=memory is set.
  */
 
 import 'server-only';
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type {
+  AccountUpdate,
+  BudgetRepository,
+  CategorizationRuleUpdate,
+  CategoryUpdate,
+  ImportBatchUpdate,
+  MerchantUpdate,
+  SavingsGoalUpdate,
+  TransactionCategoryUpdate,
+  TransactionUpdate,
+  UserBudgetUpdate,
+} from './repository';
+import type {
+  Account,
+  User,
+  BudgetPeriodSetting,
+  BudgetProfile,
+  Transaction,
+  SavingsGoal,
+  ImportBatch,
+  CsvColumnMapping,
+  CategorizationRule,
+  Category,
+  Merchant,
+  SubscriptionMark,
+} from './types';
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+let adminClient: SupabaseClient | null = null;
 
-if (!supabaseUrl) {
-  throw new Error('Missing env.NEXT_PUBLIC_SUPABASE_URL');
+/**
+ * Admin client used by the adapter and the session resolver. Uses the service role key
+ * to bypass RLS for server-side inserts/selects. This client must never be exposed to the
+ * browser, hence the server-only directive above. Created on first use so that the app can
+ * boot with another storage backend when the Supabase env vars are missing.
+ */
+export function getSupabaseClient(): SupabaseClient {
+  if (adminClient) return adminClient;
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl) {
+    throw new Error('Missing env.NEXT_PUBLIC_SUPABASE_URL');
+  }
+
+  if (!supabaseServiceRoleKey) {
+    /**
+     * Using the anon key here triggers RLS errors (code 42501) when inserting into
+     * `transactions` or `savings_goals`. Fail hard so the developer adds
+     * SUPABASE_SERVICE_ROLE_KEY to `.env.local`.
+     */
+    throw new Error(
+      'Missing SUPABASE_SERVICE_ROLE_KEY. Add the service role key to .env.local to bypass RLS for server-side writes.'
+    );
+  }
+
+  adminClient = createClient(supabaseUrl, supabaseServiceRoleKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+  return adminClient;
 }
 
-if (!supabaseServiceRoleKey) {
-  /**
-   * Using the anon key here triggers RLS errors (code 42501) when inserting into
-   * `transactions` or `savings_goals`. Force a hard error during startup so the
-   * developer adds SUPABASE_SERVICE_ROLE_KEY to `.env.local`.
-   */
-  throw new Error(
-    'Missing SUPABASE_SERVICE_ROLE_KEY. Add the service role key to .env.local to bypass RLS for server-side writes.'
-  );
+// Row mappers (snake_case columns -> domain types)
+function mapUserRow(row: any): User {
+  return {
+    id: row.id,
+    name: row.name,
+    monthlyNetIncome: parseFloat(row.monthly_net_income),
+    budgetProfile: row.budget_model
+      ? {
+          model: row.budget_model as BudgetProfile['model'],
+          fixedCosts: Number(row.fixed_costs ?? 0),
+          savingsTarget: Number(row.savings_target ?? 0),
+          flexibleShare: Number(row.flexible_share ?? 0.6),
+        }
+      : undefined,
+    monthlyFlexibleBudget: row.monthly_flexible_budget != null ? Number(row.monthly_flexible_budget) : undefined,
+    budgetPeriod: row.budget_period_mode
+      ? { mode: row.budget_period_mode as BudgetPeriodSetting['mode'], day: row.budget_period_day ?? 1 }
+      : undefined,
+    csvMapping: (row.csv_mapping as CsvColumnMapping | null) ?? null,
+  };
 }
 
-/**
- * Admin client used by API routes. Uses the service role key when available to bypass
- * RLS for server-side inserts/selects. This client must never be exposed to the browser,
- * hence the server-only directive above.
- */
-export const supabase = createClient(supabaseUrl, supabaseServiceRoleKey, {
-  auth: { autoRefreshToken: false, persistSession: false },
-});
+function mapTransactionRow(row: any): Transaction {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    date: row.date,
+    merchant: row.merchant,
+    rawMerchant: row.raw_merchant ?? undefined,
+    amount: parseFloat(row.amount),
+    rawCategory: row.raw_category,
+    category: row.category,
+    justification: row.justification,
+    isImpulse: row.is_impulse,
+    decisionLabel: row.decision_label as 'useful' | 'unnecessary',
+    decisionExplanation: row.decision_explanation,
+    decisionExplanationEn: row.decision_explanation_en,
+    importBatchId: row.import_batch_id ?? undefined,
+    status: row.status ?? 'booked',
+    paymentReference: row.payment_reference ?? undefined,
+    ruleId: row.rule_id ?? null,
+    ruleName: row.rule_name ?? null,
+    classificationSource: row.classification_source ?? undefined,
+    confidence: row.confidence !== null && row.confidence !== undefined ? parseFloat(row.confidence) : undefined,
+    accountId: row.account_id ?? undefined,
+    transferAccountId: row.transfer_account_id ?? undefined,
+  };
+}
 
-/**
- * Database helper functions
- * These abstract the data access layer for easy migration to Strapi later.
- */
+function mapImportBatchRow(row: any): ImportBatch {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    fileName: row.file_name,
+    createdAt: row.created_at,
+    transactionCount: row.transaction_count,
+    status: row.status as ImportBatch['status'],
+  };
+}
+
+function mapCategoryRow(row: any): Category {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    parentId: row.parent_id ?? undefined,
+    kind: row.kind as Category['kind'],
+    color: row.color,
+    icon: row.icon,
+    labelDe: row.label_de,
+    labelEn: row.label_en,
+    sortOrder: row.sort_order,
+    budgetLimit: row.budget_limit != null ? Number(row.budget_limit) : undefined,
+    budgetRollover: row.budget_rollover ?? false,
+    createdAt: row.created_at,
+  };
+}
+
+function mapMerchantRow(row: any): Merchant {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    aliases: (row.aliases as string[] | null) ?? [],
+    defaultCategory: row.default_category ?? undefined,
+    createdAt: row.created_at,
+  };
+}
 
-import type { User, Transaction, SavingsGoal } from './types';
+function mapAccountRow(row: any): Account {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    type: row.type as Account['type'],
+    openingBalance: parseFloat(row.opening_balance),
+    createdAt: row.created_at,
+  };
+}
+
+function mapSubscriptionMarkRow(row: any): SubscriptionMark {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    merchantKey: row.merchant_key,
+    status: row.status,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapRuleRow(row: any): CategorizationRule {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    merchantPattern: row.merchant_pattern ?? undefined,
+    merchantMatch: row.merchant_match as CategorizationRule['merchantMatch'],
+    minAmount: row.min_amount !== null ? parseFloat(row.min_amount) : undefined,
+    maxAmount: row.max_amount !== null ? parseFloat(row.max_amount) : undefined,
+    rawCategoryPattern: row.raw_category_pattern ?? undefined,
+    category: row.category,
+    isImpulse: row.is_impulse,
+    decisionLabel: row.decision_label as CategorizationRule['decisionLabel'],
+    priority: row.priority,
+    enabled: row.enabled,
+    createdAt: row.created_at,
+  };
+}
+
+function mapGoalRow(row: any): SavingsGoal {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    title: row.title,
+    targetAmount: parseFloat(row.target_amount),
+    targetDate: row.target_date,
+    currentSavedAmount: parseFloat(row.current_saved_amount),
+    rules: row.rules as string[],
+    rulesEn: row.rules_en as string[] | undefined,
+  };
+}
 
 // Users
-export async function getUser(userId: string): Promise<User | null> {
-  const { data, error } = await supabase
+async function getUser(userId: string): Promise<User | null> {
+  const { data, error } = await getSupabaseClient()
     .from('users')
     .select('*')
     .eq('id', userId)
@@ -52,15 +221,11 @@ export async function getUser(userId: string): Promise<User | null> {
   if (error) throw error;
   if (!data) return null;
 
-  return {
-    id: data.id,
-    name: data.name,
-    monthlyNetIncome: parseFloat(data.monthly_net_income),
-  };
+  return mapUserRow(data);
 }
 
-export async function createUser(user: User): Promise<User> {
-  const { data, error } = await supabase
+async function createUser(user: User): Promise<User> {
+  const { data, error } = await getSupabaseClient()
     .from('users')
     .insert({
       id: user.id,
@@ -72,16 +237,12 @@ export async function createUser(user: User): Promise<User> {
 
   if (error) throw error;
 
-  return {
-    id: data.id,
-    name: data.name,
-    monthlyNetIncome: parseFloat(data.monthly_net_income),
-  };
+  return mapUserRow(data);
 }
 
 // Transactions
-export async function getTransactions(userId: string): Promise<Transaction[]> {
-  const { data, error } = await supabase
+async function getTransactions(userId: string): Promise<Transaction[]> {
+  const { data, error } = await getSupabaseClient()
     .from('transactions')
     .select('*')
     .eq('user_id', userId)
@@ -89,30 +250,32 @@ export async function getTransactions(userId: string): Promise<Transaction[]> {
 
   if (error) throw error;
 
-  return (data || []).map((row) => ({
-    id: row.id,
-    userId: row.user_id,
-    date: row.date,
-    merchant: row.merchant,
-    amount: parseFloat(row.amount),
-    rawCategory: row.raw_category,
-    category: row.category,
-    justification: row.justification,
-    isImpulse: row.is_impulse,
-    decisionLabel: row.decision_label as 'useful' | 'unnecessary',
-    decisionExplanation: row.decision_explanation,
-    decisionExplanationEn: row.decision_explanation_en,
-  }));
+  return (data || []).map(mapTransactionRow);
 }
 
-export async function createTransaction(transaction: Transaction): Promise<Transaction> {
-  const { data, error } = await supabase
+async function getTransaction(userId: string, transactionId: string): Promise<Transaction | null> {
+  const { data, error } = await getSupabaseClient()
+    .from('transactions')
+    .select('*')
+    .eq('id', transactionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  return mapTransactionRow(data);
+}
+
+async function createTransaction(transaction: Transaction): Promise<Transaction> {
+  const { data, error } = await getSupabaseClient()
     .from('transactions')
     .insert({
       id: transaction.id,
       user_id: transaction.userId,
       date: transaction.date,
       merchant: transaction.merchant,
+      raw_merchant: transaction.rawMerchant,
       amount: transaction.amount,
       raw_category: transaction.rawCategory,
       category: transaction.category,
@@ -121,40 +284,39 @@ export async function createTransaction(transaction: Transaction): Promise<Trans
       decision_label: transaction.decisionLabel,
       decision_explanation: transaction.decisionExplanation,
       decision_explanation_en: transaction.decisionExplanationEn,
+      import_batch_id: transaction.importBatchId,
+      status: transaction.status ?? 'booked',
+      payment_reference: transaction.paymentReference,
+      rule_id: transaction.ruleId ?? null,
+      rule_name: transaction.ruleName ?? null,
+      classification_source: transaction.classificationSource,
+      confidence: transaction.confidence,
+      account_id: transaction.accountId ?? null,
+      transfer_account_id: transaction.transferAccountId ?? null,
     })
     .select()
     .single();
 
   if (error) throw error;
 
-  return {
-    id: data.id,
-    userId: data.user_id,
-    date: data.date,
-    merchant: data.merchant,
-    amount: parseFloat(data.amount),
-    rawCategory: data.raw_category,
-    category: data.category,
-    justification: data.justification,
-    isImpulse: data.is_impulse,
-    decisionLabel: data.decision_label as 'useful' | 'unnecessary',
-    decisionExplanation: data.decision_explanation,
-    decisionExplanationEn: data.decision_explanation_en,
-  };
+  return mapTransactionRow(data);
 }
 
-export async function updateTransactionCategory(params: {
-  transactionId: string;
-  category: string;
-  decisionLabel?: 'useful' | 'unnecessary';
-  decisionExplanation?: string;
-   decisionExplanationEn?: string;
-  isImpulse?: boolean;
-  rawCategory?: string;
-}): Promise<Transaction> {
-  const { transactionId, category, decisionLabel, decisionExplanation, decisionExplanationEn, isImpulse, rawCategory } = params;
+async function updateTransactionCategory(params: TransactionCategoryUpdate): Promise<Transaction> {
+  const {
+    userId,
+    transactionId,
+    category,
+    decisionLabel,
+    decisionExplanation,
+    decisionExplanationEn,
+    isImpulse,
+    rawCategory,
+    classificationSource,
+    confidence,
+  } = params;
 
-  const { data, error } = await supabase
+  const { data, error } = await getSupabaseClient()
     .from('transactions')
     .update({
       category,
@@ -163,31 +325,71 @@ export async function updateTransactionCategory(params: {
       decision_explanation_en: decisionExplanationEn,
       is_impulse: isImpulse,
       raw_category: rawCategory,
+      classification_source: classificationSource,
+      confidence,
     })
     .eq('id', transactionId)
+    .eq('user_id', userId)
     .select()
     .single();
 
   if (error) throw error;
 
-  return {
-    id: data.id,
-    userId: data.user_id,
-    date: data.date,
-    merchant: data.merchant,
-    amount: parseFloat(data.amount),
-    rawCategory: data.raw_category,
-    category: data.category,
-    justification: data.justification,
-    isImpulse: data.is_impulse,
-    decisionLabel: data.decision_label as 'useful' | 'unnecessary',
-    decisionExplanation: data.decision_explanation,
-    decisionExplanationEn: data.decision_explanation_en,
-  };
+  return mapTransactionRow(data);
 }
 
-export async function getMerchantCategoryHint(userId: string, merchant: string): Promise<string | null> {
-  const { data, error } = await supabase
+async function updateTransaction(
+  userId: string,
+  transactionId: string,
+  patch: TransactionUpdate
+): Promise<Transaction> {
+  // Build a sparse update object so we only touch provided fields
+  const updateData: any = {};
+  if (patch.date !== undefined) updateData.date = patch.date;
+  if (patch.merchant !== undefined) updateData.merchant = patch.merchant;
+  if (patch.rawMerchant !== undefined) updateData.raw_merchant = patch.rawMerchant;
+  if (patch.amount !== undefined) updateData.amount = patch.amount;
+  if (patch.rawCategory !== undefined) updateData.raw_category = patch.rawCategory;
+  if (patch.category !== undefined) updateData.category = patch.category;
+  if (patch.justification !== undefined) updateData.justification = patch.justification;
+  if (patch.isImpulse !== undefined) updateData.is_impulse = patch.isImpulse;
+  if (patch.decisionLabel !== undefined) updateData.decision_label = patch.decisionLabel;
+  if (patch.decisionExplanation !== undefined) updateData.decision_explanation = patch.decisionExplanation;
+  if (patch.decisionExplanationEn !== undefined) updateData.decision_explanation_en = patch.decisionExplanationEn;
+  if (patch.importBatchId !== undefined) updateData.import_batch_id = patch.importBatchId;
+  if (patch.status !== undefined) updateData.status = patch.status;
+  if (patch.paymentReference !== undefined) updateData.payment_reference = patch.paymentReference;
+  if (patch.ruleId !== undefined) updateData.rule_id = patch.ruleId;
+  if (patch.ruleName !== undefined) updateData.rule_name = patch.ruleName;
+  if (patch.classificationSource !== undefined) updateData.classification_source = patch.classificationSource;
+  if (patch.confidence !== undefined) updateData.confidence = patch.confidence;
+  if (patch.accountId !== undefined) updateData.account_id = patch.accountId;
+  if (patch.transferAccountId !== undefined) updateData.transfer_account_id = patch.transferAccountId;
+
+  const { data, error } = await getSupabaseClient()
+    .from('transactions')
+    .update(updateData)
+    .eq('id', transactionId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapTransactionRow(data);
+}
+
+async function deleteTransaction(userId: string, transactionId: string): Promise<void> {
+  const { error } = await getSupabaseClient()
+    .from('transactions')
+    .delete()
+    .eq('id', transactionId)
+    .eq('user_id', userId);
+  if (error) throw error;
+}
+
+async function getMerchantCategoryHint(userId: string, merchant: string): Promise<string | null> {
+  const { data, error } = await getSupabaseClient()
     .from('transactions')
     .select('category')
     .eq('user_id', userId)
@@ -217,9 +419,446 @@ export async function getMerchantCategoryHint(userId: string, merchant: string):
   return topCategory;
 }
 
+async function renameTransactionMerchant(userId: string, from: string[], to: string): Promise<number> {
+  if (from.length === 0) return 0;
+  const client = getSupabaseClient();
+
+  // Keep the previous name as raw_merchant first; a column can't be copied in a PostgREST update
+  for (const name of from) {
+    const { error } = await client
+      .from('transactions')
+      .update({ raw_merchant: name })
+      .eq('user_id', userId)
+      .eq('merchant', name)
+      .is('raw_merchant', null);
+    if (error) throw error;
+  }
+
+  const { data, error } = await client
+    .from('transactions')
+    .update({ merchant: to })
+    .eq('user_id', userId)
+    .in('merchant', from)
+    .select('id');
+
+  if (error) throw error;
+
+  return data?.length ?? 0;
+}
+
+async function renameTransactionCategory(userId: string, from: string[], to: string): Promise<number> {
+  if (from.length === 0) return 0;
+  const { data, error } = await getSupabaseClient()
+    .from('transactions')
+    .update({ category: to })
+    .eq('user_id', userId)
+    .in('category', from)
+    .select('id');
+
+  if (error) throw error;
+
+  return data?.length ?? 0;
+}
+
+// Import batches
+async function getImportBatches(userId: string): Promise<ImportBatch[]> {
+  const { data, error } = await getSupabaseClient()
+    .from('import_batches')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(mapImportBatchRow);
+}
+
+async function getImportBatch(userId: string, batchId: string): Promise<ImportBatch | null> {
+  const { data, error } = await getSupabaseClient()
+    .from('import_batches')
+    .select('*')
+    .eq('id', batchId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  return mapImportBatchRow(data);
+}
+
+async function createImportBatch(batch: ImportBatch): Promise<ImportBatch> {
+  const { data, error } = await getSupabaseClient()
+    .from('import_batches')
+    .insert({
+      id: batch.id,
+      user_id: batch.userId,
+      file_name: batch.fileName,
+      created_at: batch.createdAt,
+      transaction_count: batch.transactionCount,
+      status: batch.status,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapImportBatchRow(data);
+}
+
+async function updateImportBatch(userId: string, batchId: string, patch: ImportBatchUpdate): Promise<ImportBatch> {
+  // Build a sparse update object so we only touch provided fields
+  const updateData: any = {};
+  if (patch.transactionCount !== undefined) updateData.transaction_count = patch.transactionCount;
+  if (patch.status !== undefined) updateData.status = patch.status;
+
+  const { data, error } = await getSupabaseClient()
+    .from('import_batches')
+    .update(updateData)
+    .eq('id', batchId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapImportBatchRow(data);
+}
+
+async function deleteTransactionsByImportBatch(userId: string, batchId: string): Promise<number> {
+  const { data, error } = await getSupabaseClient()
+    .from('transactions')
+    .delete()
+    .eq('import_batch_id', batchId)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) throw error;
+
+  return (data || []).length;
+}
+
+// Category taxonomy
+async function getCategories(userId: string): Promise<Category[]> {
+  const { data, error } = await getSupabaseClient()
+    .from('categories')
+    .select('*')
+    .eq('user_id', userId)
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(mapCategoryRow);
+}
+
+async function createCategories(categories: Category[]): Promise<Category[]> {
+  if (categories.length === 0) return [];
+  const { data, error } = await getSupabaseClient()
+    .from('categories')
+    .insert(
+      categories.map((category) => ({
+        id: category.id,
+        user_id: category.userId,
+        name: category.name,
+        parent_id: category.parentId ?? null,
+        kind: category.kind,
+        color: category.color,
+        icon: category.icon,
+        label_de: category.labelDe,
+        label_en: category.labelEn,
+        sort_order: category.sortOrder,
+        budget_limit: category.budgetLimit ?? null,
+        budget_rollover: category.budgetRollover ?? false,
+        created_at: category.createdAt,
+      }))
+    )
+    .select();
+
+  if (error) throw error;
+
+  return (data || []).map(mapCategoryRow);
+}
+
+async function updateCategory(userId: string, categoryId: string, patch: CategoryUpdate): Promise<Category> {
+  const updateData: any = {};
+  if (patch.name !== undefined) updateData.name = patch.name;
+  if (patch.parentId !== undefined) updateData.parent_id = patch.parentId;
+  if (patch.kind !== undefined) updateData.kind = patch.kind;
+  if (patch.color !== undefined) updateData.color = patch.color;
+  if (patch.icon !== undefined) updateData.icon = patch.icon;
+  if (patch.labelDe !== undefined) updateData.label_de = patch.labelDe;
+  if (patch.labelEn !== undefined) updateData.label_en = patch.labelEn;
+  if (patch.sortOrder !== undefined) updateData.sort_order = patch.sortOrder;
+  if (patch.budgetLimit !== undefined) updateData.budget_limit = patch.budgetLimit;
+  if (patch.budgetRollover !== undefined) updateData.budget_rollover = patch.budgetRollover;
+
+  const { data, error } = await getSupabaseClient()
+    .from('categories')
+    .update(updateData)
+    .eq('id', categoryId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapCategoryRow(data);
+}
+
+async function deleteCategory(userId: string, categoryId: string): Promise<void> {
+  const { error } = await getSupabaseClient()
+    .from('categories')
+    .delete()
+    .eq('id', categoryId)
+    .eq('user_id', userId);
+  if (error) throw error;
+}
+
+// Merchant directory
+async function getMerchants(userId: string): Promise<Merchant[]> {
+  const { data, error } = await getSupabaseClient()
+    .from('merchants')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(mapMerchantRow);
+}
+
+async function createMerchant(merchant: Merchant): Promise<Merchant> {
+  const { data, error } = await getSupabaseClient()
+    .from('merchants')
+    .insert({
+      id: merchant.id,
+      user_id: merchant.userId,
+      name: merchant.name,
+      aliases: merchant.aliases,
+      default_category: merchant.defaultCategory,
+      created_at: merchant.createdAt,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapMerchantRow(data);
+}
+
+async function updateMerchant(userId: string, merchantId: string, patch: MerchantUpdate): Promise<Merchant> {
+  const updateData: any = {};
+  if (patch.name !== undefined) updateData.name = patch.name;
+  if (patch.aliases !== undefined) updateData.aliases = patch.aliases;
+  if (patch.defaultCategory !== undefined) updateData.default_category = patch.defaultCategory;
+
+  const { data, error } = await getSupabaseClient()
+    .from('merchants')
+    .update(updateData)
+    .eq('id', merchantId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapMerchantRow(data);
+}
+
+async function deleteMerchant(userId: string, merchantId: string): Promise<void> {
+  const { error } = await getSupabaseClient()
+    .from('merchants')
+    .delete()
+    .eq('id', merchantId)
+    .eq('user_id', userId);
+  if (error) throw error;
+}
+
+// Accounts
+async function getAccounts(userId: string): Promise<Account[]> {
+  const { data, error } = await getSupabaseClient()
+    .from('accounts')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(mapAccountRow);
+}
+
+async function createAccount(account: Account): Promise<Account> {
+  const { data, error } = await getSupabaseClient()
+    .from('accounts')
+    .insert({
+      id: account.id,
+      user_id: account.userId,
+      name: account.name,
+      type: account.type,
+      opening_balance: account.openingBalance,
+      created_at: account.createdAt,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapAccountRow(data);
+}
+
+async function updateAccount(userId: string, accountId: string, patch: AccountUpdate): Promise<Account> {
+  const updateData: any = {};
+  if (patch.name !== undefined) updateData.name = patch.name;
+  if (patch.type !== undefined) updateData.type = patch.type;
+  if (patch.openingBalance !== undefined) updateData.opening_balance = patch.openingBalance;
+
+  const { data, error } = await getSupabaseClient()
+    .from('accounts')
+    .update(updateData)
+    .eq('id', accountId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapAccountRow(data);
+}
+
+async function deleteAccount(userId: string, accountId: string): Promise<void> {
+  const { error } = await getSupabaseClient()
+    .from('accounts')
+    .delete()
+    .eq('id', accountId)
+    .eq('user_id', userId);
+  if (error) throw error;
+}
+
+// Categorisation rules
+async function getCategorizationRules(userId: string): Promise<CategorizationRule[]> {
+  const { data, error } = await getSupabaseClient()
+    .from('categorization_rules')
+    .select('*')
+    .eq('user_id', userId)
+    .order('priority', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(mapRuleRow);
+}
+
+async function createCategorizationRule(rule: CategorizationRule): Promise<CategorizationRule> {
+  const { data, error } = await getSupabaseClient()
+    .from('categorization_rules')
+    .insert({
+      id: rule.id,
+      user_id: rule.userId,
+      name: rule.name,
+      merchant_pattern: rule.merchantPattern,
+      merchant_match: rule.merchantMatch,
+      min_amount: rule.minAmount,
+      max_amount: rule.maxAmount,
+      raw_category_pattern: rule.rawCategoryPattern,
+      category: rule.category,
+      is_impulse: rule.isImpulse,
+      decision_label: rule.decisionLabel,
+      priority: rule.priority,
+      enabled: rule.enabled,
+      created_at: rule.createdAt,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapRuleRow(data);
+}
+
+async function updateCategorizationRule(
+  userId: string,
+  ruleId: string,
+  patch: CategorizationRuleUpdate
+): Promise<CategorizationRule> {
+  // Sparse update; null clears an optional condition
+  const updateData: any = {};
+  if (patch.name !== undefined) updateData.name = patch.name;
+  if (patch.merchantPattern !== undefined) updateData.merchant_pattern = patch.merchantPattern;
+  if (patch.merchantMatch !== undefined) updateData.merchant_match = patch.merchantMatch;
+  if (patch.minAmount !== undefined) updateData.min_amount = patch.minAmount;
+  if (patch.maxAmount !== undefined) updateData.max_amount = patch.maxAmount;
+  if (patch.rawCategoryPattern !== undefined) updateData.raw_category_pattern = patch.rawCategoryPattern;
+  if (patch.category !== undefined) updateData.category = patch.category;
+  if (patch.isImpulse !== undefined) updateData.is_impulse = patch.isImpulse;
+  if (patch.decisionLabel !== undefined) updateData.decision_label = patch.decisionLabel;
+  if (patch.priority !== undefined) updateData.priority = patch.priority;
+  if (patch.enabled !== undefined) updateData.enabled = patch.enabled;
+
+  const { data, error } = await getSupabaseClient()
+    .from('categorization_rules')
+    .update(updateData)
+    .eq('id', ruleId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapRuleRow(data);
+}
+
+async function deleteCategorizationRule(userId: string, ruleId: string): Promise<void> {
+  const { error } = await getSupabaseClient()
+    .from('categorization_rules')
+    .delete()
+    .eq('id', ruleId)
+    .eq('user_id', userId);
+  if (error) throw error;
+}
+
+// Subscription marks
+async function getSubscriptionMarks(userId: string): Promise<SubscriptionMark[]> {
+  const { data, error } = await getSupabaseClient().from('subscription_marks').select('*').eq('user_id', userId);
+
+  if (error) throw error;
+
+  return (data || []).map(mapSubscriptionMarkRow);
+}
+
+async function saveSubscriptionMark(mark: SubscriptionMark): Promise<SubscriptionMark> {
+  const { data, error } = await getSupabaseClient()
+    .from('subscription_marks')
+    .upsert(
+      {
+        // No id: a new row gets the column default, a replaced mark keeps its row
+        user_id: mark.userId,
+        merchant_key: mark.merchantKey,
+        status: mark.status,
+        updated_at: mark.updatedAt,
+      },
+      { onConflict: 'user_id,merchant_key' }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapSubscriptionMarkRow(data);
+}
+
+async function deleteSubscriptionMark(userId: string, merchantKey: string): Promise<void> {
+  const { error } = await getSupabaseClient()
+    .from('subscription_marks')
+    .delete()
+    .eq('user_id', userId)
+    .eq('merchant_key', merchantKey);
+  if (error) throw error;
+}
+
 // Savings Goals
-export async function getSavingsGoals(userId: string): Promise<SavingsGoal[]> {
-  const { data, error } = await supabase
+async function getSavingsGoals(userId: string): Promise<SavingsGoal[]> {
+  const { data, error } = await getSupabaseClient()
     .from('savings_goals')
     .select('*')
     .eq('user_id', userId)
@@ -227,20 +866,11 @@ export async function getSavingsGoals(userId: string): Promise<SavingsGoal[]> {
 
   if (error) throw error;
 
-  return (data || []).map((row) => ({
-    id: row.id,
-    userId: row.user_id,
-    title: row.title,
-    targetAmount: parseFloat(row.target_amount),
-    targetDate: row.target_date,
-    currentSavedAmount: parseFloat(row.current_saved_amount),
-    rules: row.rules as string[],
-    rulesEn: row.rules_en as string[] | undefined,
-  }));
+  return (data || []).map(mapGoalRow);
 }
 
-export async function createSavingsGoal(goal: SavingsGoal): Promise<SavingsGoal> {
-  const { data, error } = await supabase
+async function createSavingsGoal(goal: SavingsGoal): Promise<SavingsGoal> {
+  const { data, error } = await getSupabaseClient()
     .from('savings_goals')
     .insert({
       id: goal.id,
@@ -257,25 +887,16 @@ export async function createSavingsGoal(goal: SavingsGoal): Promise<SavingsGoal>
 
   if (error) throw error;
 
-  return {
-    id: data.id,
-    userId: data.user_id,
-    title: data.title,
-    targetAmount: parseFloat(data.target_amount),
-    targetDate: data.target_date,
-    currentSavedAmount: parseFloat(data.current_saved_amount),
-    rules: data.rules as string[],
-    rulesEn: data.rules_en as string[] | undefined,
-  };
+  return mapGoalRow(data);
 }
 
-export async function deleteSavingsGoal(goalId: string): Promise<void> {
-  const { error } = await supabase.from('savings_goals').delete().eq('id', goalId);
+async function deleteSavingsGoal(goalId: string): Promise<void> {
+  const { error } = await getSupabaseClient().from('savings_goals').delete().eq('id', goalId);
   if (error) throw error;
 }
 
-export async function updateSavingsGoalAmount(goalId: string, newAmount: number): Promise<SavingsGoal> {
-  const { data, error } = await supabase
+async function updateSavingsGoalAmount(goalId: string, newAmount: number): Promise<SavingsGoal> {
+  const { data, error } = await getSupabaseClient()
     .from('savings_goals')
     .update({ current_saved_amount: newAmount })
     .eq('id', goalId)
@@ -284,20 +905,11 @@ export async function updateSavingsGoalAmount(goalId: string, newAmount: number)
 
   if (error) throw error;
 
-  return {
-    id: data.id,
-    userId: data.user_id,
-    title: data.title,
-    targetAmount: parseFloat(data.target_amount),
-    targetDate: data.target_date,
-    currentSavedAmount: parseFloat(data.current_saved_amount),
-    rules: data.rules as string[],
-    rulesEn: data.rules_en as string[] | undefined,
-  };
+  return mapGoalRow(data);
 }
 
-export async function updateSavingsGoalRules(goalId: string, rules: string[], rulesEn?: string[]): Promise<SavingsGoal> {
-  const { data, error } = await supabase
+async function updateSavingsGoalRules(goalId: string, rules: string[], rulesEn?: string[]): Promise<SavingsGoal> {
+  const { data, error } = await getSupabaseClient()
     .from('savings_goals')
     .update({ rules, rules_en: rulesEn })
     .eq('id', goalId)
@@ -306,20 +918,11 @@ export async function updateSavingsGoalRules(goalId: string, rules: string[], ru
 
   if (error) throw error;
 
-  return {
-    id: data.id,
-    userId: data.user_id,
-    title: data.title,
-    targetAmount: parseFloat(data.target_amount),
-    targetDate: data.target_date,
-    currentSavedAmount: parseFloat(data.current_saved_amount),
-    rules: data.rules as string[],
-    rulesEn: data.rules_en as string[] | undefined,
-  };
+  return mapGoalRow(data);
 }
 
-export async function markSavingsGoalComplete(goalId: string): Promise<SavingsGoal> {
-  const { data, error } = await supabase
+async function markSavingsGoalComplete(goalId: string): Promise<SavingsGoal> {
+  const { data, error } = await getSupabaseClient()
     .from('savings_goals')
     .select('*')
     .eq('id', goalId)
@@ -327,7 +930,7 @@ export async function markSavingsGoalComplete(goalId: string): Promise<SavingsGo
 
   if (error) throw error;
 
-  const { data: updated, error: updateError } = await supabase
+  const { data: updated, error: updateError } = await getSupabaseClient()
     .from('savings_goals')
     .update({ current_saved_amount: data.target_amount })
     .eq('id', goalId)
@@ -336,28 +939,10 @@ export async function markSavingsGoalComplete(goalId: string): Promise<SavingsGo
 
   if (updateError) throw updateError;
 
-  return {
-    id: updated.id,
-    userId: updated.user_id,
-    title: updated.title,
-    targetAmount: parseFloat(updated.target_amount),
-    targetDate: updated.target_date,
-    currentSavedAmount: parseFloat(updated.current_saved_amount),
-    rules: updated.rules as string[],
-    rulesEn: updated.rules_en as string[] | undefined,
-  };
+  return mapGoalRow(updated);
 }
 
-export async function updateSavingsGoal(
-  goalId: string,
-  payload: {
-    title?: string;
-    targetAmount?: number;
-    targetDate?: string;
-    rules?: string[];
-    rulesEn?: string[];
-  }
-): Promise<SavingsGoal> {
+async function updateSavingsGoal(goalId: string, payload: SavingsGoalUpdate): Promise<SavingsGoal> {
   // Build a sparse update object so we only touch provided fields
   const updateData: any = {};
   if (payload.title !== undefined) updateData.title = payload.title;
@@ -366,7 +951,7 @@ export async function updateSavingsGoal(
   if (payload.rules !== undefined) updateData.rules = payload.rules;
   if (payload.rulesEn !== undefined) updateData.rules_en = payload.rulesEn;
 
-  const { data, error } = await supabase
+  const { data, error } = await getSupabaseClient()
     .from('savings_goals')
     .update(updateData)
     .eq('id', goalId)
@@ -375,31 +960,87 @@ export async function updateSavingsGoal(
 
   if (error) throw error;
 
-  return {
-    id: data.id,
-    userId: data.user_id,
-    title: data.title,
-    targetAmount: parseFloat(data.target_amount),
-    targetDate: data.target_date,
-    currentSavedAmount: parseFloat(data.current_saved_amount),
-    rules: data.rules as string[],
-    rulesEn: data.rules_en as string[] | undefined,
-  };
+  return mapGoalRow(data);
 }
 
-export async function updateUserIncome(userId: string, monthlyNetIncome: number): Promise<User> {
-  const { data, error } = await supabase
+async function updateUserBudget(userId: string, budget: UserBudgetUpdate): Promise<User> {
+  const { data, error } = await getSupabaseClient()
     .from('users')
-    .update({ monthly_net_income: monthlyNetIncome })
+    .update({
+      monthly_net_income: budget.monthlyNetIncome,
+      budget_model: budget.budgetProfile.model,
+      fixed_costs: budget.budgetProfile.fixedCosts,
+      savings_target: budget.budgetProfile.savingsTarget,
+      flexible_share: budget.budgetProfile.flexibleShare,
+      monthly_flexible_budget: budget.monthlyFlexibleBudget,
+      budget_period_mode: budget.budgetPeriod.mode,
+      budget_period_day: budget.budgetPeriod.day,
+    })
     .eq('id', userId)
     .select()
     .single();
 
   if (error) throw error;
 
-  return {
-    id: data.id,
-    name: data.name,
-    monthlyNetIncome: parseFloat(data.monthly_net_income),
-  };
+  return mapUserRow(data);
 }
+
+async function updateUserCsvMapping(userId: string, csvMapping: CsvColumnMapping | null): Promise<User> {
+  const { data, error } = await getSupabaseClient()
+    .from('users')
+    .update({ csv_mapping: csvMapping })
+    .eq('id', userId)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapUserRow(data);
+}
+
+export const supabaseRepository: BudgetRepository = {
+  getUser,
+  createUser,
+  updateUserBudget,
+  updateUserCsvMapping,
+  getTransactions,
+  getTransaction,
+  createTransaction,
+  updateTransaction,
+  updateTransactionCategory,
+  deleteTransaction,
+  getMerchantCategoryHint,
+  renameTransactionMerchant,
+  renameTransactionCategory,
+  getImportBatches,
+  getImportBatch,
+  createImportBatch,
+  updateImportBatch,
+  deleteTransactionsByImportBatch,
+  getCategories,
+  createCategories,
+  updateCategory,
+  deleteCategory,
+  getMerchants,
+  createMerchant,
+  updateMerchant,
+  deleteMerchant,
+  getAccounts,
+  createAccount,
+  updateAccount,
+  deleteAccount,
+  getCategorizationRules,
+  createCategorizationRule,
+  updateCategorizationRule,
+  deleteCategorizationRule,
+  getSubscriptionMarks,
+  saveSubscriptionMark,
+  deleteSubscriptionMark,
+  getSavingsGoals,
+  createSavingsGoal,
+  deleteSavingsGoal,
+  updateSavingsGoalAmount,
+  updateSavingsGoalRules,
+  markSavingsGoalComplete,
+  updateSavingsGoal,
+};
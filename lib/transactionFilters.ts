@@ -0,0 +1,99 @@
+/**
+ * Transaction list filters shared by the history page and the export endpoint,
+ * so a download contains exactly the rows the user is looking at.
+ */
+
+import { categoryWithDescendants, DEFAULT_TAXONOMY, isIncomeCategory } from './categories';
+import type { Category, Transaction } from './types';
+
+export type TransactionTypeFilter = 'all' | 'income' | 'expense';
+export type TransactionSort = 'date-desc' | 'date-asc' | 'amount-desc' | 'amount-asc';
+
+export interface TransactionFilters {
+  search?: string;
+  category?: string; // includes the category's subcategories
+  type?: TransactionTypeFilter;
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive
+  sortBy?: TransactionSort;
+}
+
+const INCOME_KEYWORDS = ['lohn', 'salär', 'salaer', 'gehalt', 'salary', 'payroll', 'einkommen', 'einnahme', 'bonus', 'wage'];
+
+export function isIncomeTransaction(transaction: Transaction, categories: Category[] = DEFAULT_TAXONOMY): boolean {
+  const text = `${transaction.merchant} ${transaction.rawCategory ?? ''} ${transaction.justification ?? ''} ${transaction.category}`.toLowerCase();
+  return INCOME_KEYWORDS.some((kw) => text.includes(kw)) || isIncomeCategory(categories, transaction.category);
+}
+
+/**
+ * Salary payments only (no other income); used for the inferred income and the payday-aligned budget period
+ */
+export function isSalaryTransaction(t: Transaction): boolean {
+  const salaryKeywords = ['lohn', 'salaer', 'salär', 'gehalt', 'salary', 'payroll', 'wage', 'nebenjob', 'werkstudent'];
+  const text = [t.merchant, t.rawCategory || '', t.justification || '', t.category]
+    .join(' ')
+    .toLowerCase();
+  return salaryKeywords.some((kw) => text.includes(kw)) || t.category === 'Lohn';
+}
+
+/**
+ * Transfer between two of the user's accounts (see lib/accounts.ts); counts neither as income
+ * nor as expense in budgets, analysis and exports
+ */
+export function isTransferTransaction(t: Transaction): boolean {
+  return Boolean(t.transferAccountId);
+}
+
+/**
+ * Spending as budgets count it: booked expenses only. Open bills (pending), transfers and
+ * income are left out, so the budget, the category totals and the envelopes agree.
+ */
+export function isBookedExpense(t: Transaction, categories: Category[] = DEFAULT_TAXONOMY): boolean {
+  return t.status !== 'pending' && !isTransferTransaction(t) && !isIncomeTransaction(t, categories);
+}
+
+/**
+ * Applies search, category, type and date range filters, then sorts (default: newest first).
+ * `categories` is the user's taxonomy (subcategories, income kind).
+ */
+export function filterTransactions(
+  transactions: Transaction[],
+  filters: TransactionFilters,
+  categories: Category[] = DEFAULT_TAXONOMY
+): Transaction[] {
+  const term = filters.search?.trim().toLowerCase();
+  const type = filters.type ?? 'all';
+  const categoryNames = filters.category ? categoryWithDescendants(categories, filters.category) : null;
+
+  const filtered = transactions.filter((transaction) => {
+    const matchesCategory = categoryNames ? categoryNames.includes(transaction.category) : true;
+    const incomeFlag = isIncomeTransaction(transaction, categories);
+    const matchesType =
+      type === 'all' ? true : isTransferTransaction(transaction) ? false : type === 'income' ? incomeFlag : !incomeFlag;
+    const matchesSearch = term
+      ? `${transaction.merchant} ${transaction.category} ${transaction.justification ?? ''}`
+          .toLowerCase()
+          .includes(term)
+      : true;
+    const matchesStart = filters.startDate ? transaction.date >= filters.startDate : true;
+    const matchesEnd = filters.endDate ? transaction.date <= filters.endDate : true;
+    return matchesCategory && matchesType && matchesSearch && matchesStart && matchesEnd;
+  });
+
+  return filtered.sort((a, b) => {
+    const amountA = Math.abs(a.amount);
+    const amountB = Math.abs(b.amount);
+    switch (filters.sortBy ?? 'date-desc') {
+      case 'date-asc':
+        return a.date.localeCompare(b.date);
+      case 'date-desc':
+        return b.date.localeCompare(a.date);
+      case 'amount-asc':
+        return amountA - amountB;
+      case 'amount-desc':
+        return amountB - amountA;
+      default:
+        return 0;
+    }
+  });
+}
@@ -8,23 +8,97 @@ export interface User {
   id: string;
   name: string;
   monthlyNetIncome: number;
+  budgetProfile?: BudgetProfile; // unset: percentage model with 60 % (see lib/budgetProfile.ts)
+  monthlyFlexibleBudget?: number; // derived from income and profile, stored when the profile is saved
+  budgetPeriod?: BudgetPeriodSetting; // unset: calendar months
+  csvMapping?: CsvColumnMapping | null; // Saved column mapping for CSV imports
+}
+
+/**
+ * How the flexible monthly budget is derived from the net income:
+ * percentage = fixed share of the income, zero-based = income minus fixed costs and savings,
+ * 50-30-20 = 30 % for wants (needs 50 %, savings 20 %)
+ */
+export type BudgetModel = 'percentage' | 'zero-based' | '50-30-20';
+
+export interface BudgetProfile {
+  model: BudgetModel;
+  fixedCosts: number; // monthly fixed costs in CHF (rent, insurance, leasing)
+  savingsTarget: number; // monthly savings target in CHF
+  flexibleShare: number; // share of the income for the percentage model, 0-1
+}
+
+/**
+ * Start of the budget period: calendar month, a fixed day of the month, or the day the salary
+ * usually arrives (detected from the history, `day` is the fallback)
+ */
+export interface BudgetPeriodSetting {
+  mode: 'calendar' | 'fixed' | 'salary';
+  day: number; // 1-28
+}
+
+/** One budget period, dates YYYY-MM-DD inclusive */
+export interface BudgetPeriod {
+  start: string;
+  end: string;
+}
+
+/** Transparent derivation of the flexible budget; unassigned is negative when the plan exceeds the income */
+export interface BudgetBreakdown {
+  model: BudgetModel;
+  netIncome: number;
+  fixedCosts: number;
+  savings: number;
+  flexibleBudget: number;
+  unassigned: number;
 }
 
 export interface Transaction {
   id: string;
   userId: string;
   date: string; // ISO date string
-  merchant: string;
+  merchant: string; // canonical merchant name (see lib/merchants.ts)
+  rawMerchant?: string; // merchant text as entered or exported by the bank, when it differs
   amount: number; // in CHF
   rawCategory?: string; // optional user-provided category
-  category: string; // AI-classified category
+  category: string; // category name from the user's taxonomy (AI-classified or set by rule/user)
   justification?: string; // optional user explanation
   isImpulse: boolean;
   decisionLabel: 'useful' | 'unnecessary';
   decisionExplanation: string; // AI-generated explanation in German
   decisionExplanationEn?: string; // Stored English explanation
+  importBatchId?: string; // Upload this transaction was imported with (bulk import only)
+  status?: 'booked' | 'pending'; // pending = open bill, `date` is the due date (missing = booked)
+  paymentReference?: string; // QR/SCOR reference of a scanned QR-bill
+  ruleId?: string | null; // Categorisation rule that classified the row (null/missing = AI classification)
+  ruleName?: string | null; // Name of that rule at classification time
+  classificationSource?: ClassificationSource; // Who decided the category (missing = classified before sources were stored)
+  confidence?: number; // 0-1, how sure that source was; user decisions are 1
+  accountId?: string | null; // Account the amount is booked on (missing = no account assigned)
+  transferAccountId?: string | null; // Transfer: account the amount moves to; neither income nor expense
+}
+
+export type AccountType = 'bank' | 'card' | 'cash' | 'savings' | 'pillar3a';
+
+/** Bank account, card, cash, savings or pillar 3a account of the user (see lib/accounts.ts) */
+export interface Account {
+  id: string;
+  userId: string;
+  name: string;
+  type: AccountType;
+  openingBalance: number; // CHF before the first transaction booked on the account
+  createdAt: string;
+}
+
+/** Account with its current balance (opening balance plus booked transactions and transfers) */
+export interface AccountBalance extends Account {
+  balance: number; // CHF
+  transactionCount: number;
 }
 
+/** rule = user rule, local = local classifier, llm = OpenAI, fallback = keyword guess, user = set or confirmed by the user */
+export type ClassificationSource = 'rule' | 'local' | 'llm' | 'fallback' | 'user';
+
 export interface SavingsGoal {
   id: string;
   userId: string;
@@ -36,12 +110,213 @@ export interface SavingsGoal {
   rulesEn?: string[]; // Stored English rules
 }
 
+/**
+ * Entry of the user's category taxonomy. Transactions, rules and merchants reference a
+ * category by `name`; a child category counts towards its parent in filters and charts.
+ */
+export interface Category {
+  id: string;
+  userId: string;
+  name: string; // stable German name stored on transactions
+  parentId?: string; // parent category, top level when unset
+  kind: 'income' | 'expense';
+  color: string; // hex colour used in charts and badges, e.g. "#2563eb"
+  icon: string; // icon key, see CATEGORY_ICONS in components/CategoryIcon.tsx
+  labelDe: string;
+  labelEn: string;
+  sortOrder: number;
+  budgetLimit?: number; // monthly envelope in CHF (covers subcategories), no envelope when unset
+  budgetRollover?: boolean; // carry unused or overspent amounts into the next month
+  createdAt: string; // ISO timestamp
+}
+
+/**
+ * Merchant directory entry. Imported and entered merchant names are mapped onto `name`
+ * when they match the name or one of the aliases (after normalisation).
+ */
+export interface Merchant {
+  id: string;
+  userId: string;
+  name: string; // canonical name stored on transactions
+  aliases: string[]; // raw bank strings or earlier names merged into this merchant
+  defaultCategory?: string; // used as category hint when the user gives none
+  createdAt: string; // ISO timestamp
+}
+
+export type SubscriptionPeriod = 'weekly' | 'monthly' | 'yearly';
+
+/**
+ * The user's decision about a detected subscription, keyed by merchant (see merchantKey).
+ * `expected` confirms the recurring charge, `cancelled` means no further charges are expected.
+ */
+export interface SubscriptionMark {
+  id: string;
+  userId: string;
+  merchantKey: string;
+  status: 'expected' | 'cancelled';
+  updatedAt: string; // ISO timestamp; for `cancelled` the date the user cancelled
+}
+
+export interface SubscriptionPriceChange {
+  date: string; // first charge with the new price
+  from: number; // CHF
+  to: number; // CHF
+}
+
+/** Recurring charge detected from the transaction history (see lib/subscriptions.ts) */
+export interface Subscription {
+  merchantKey: string;
+  merchant: string; // name of the latest charge
+  category: string;
+  period: SubscriptionPeriod;
+  amount: number; // latest charge in CHF
+  monthlyCost: number;
+  annualCost: number;
+  chargeCount: number;
+  firstCharge: string; // YYYY-MM-DD
+  lastCharge: string; // YYYY-MM-DD
+  nextCharge: string | null; // expected next charge; null once cancelled or ended
+  priceChanges: SubscriptionPriceChange[];
+  missedCharges: number; // expected charges that did not show up (past a grace period), up to the end
+  chargedAfterCancel: boolean; // a charge was booked after the user marked it cancelled
+  status: 'detected' | 'ended' | SubscriptionMark['status']; // ended: stopped charging without a cancel mark
+}
+
+/** Expected payment in the cash-flow forecast (see lib/forecast.ts) */
+export interface CashFlowEvent {
+  date: string; // YYYY-MM-DD
+  kind: 'salary' | 'subscription' | 'bill';
+  label: string; // merchant, bill payee or salary
+  amount: number; // CHF, positive = inflow, negative = outflow
+}
+
+export interface CashFlowDay {
+  date: string; // YYYY-MM-DD
+  inflow: number; // CHF
+  outflow: number; // CHF, expected payments plus average variable spending
+  balance: number; // projected balance at the end of the day
+}
+
+/** Average spending per day of a category, without recurring payments and bills */
+export interface VariableSpend {
+  category: string;
+  dailyAverage: number; // CHF
+}
+
+export interface CashFlowForecast {
+  today: string; // YYYY-MM-DD, first day of `days` (balance = startBalance)
+  startBalance: number; // CHF
+  periodEnd: string; // end of the current budget period
+  end: string; // last forecast day
+  days: CashFlowDay[];
+  events: CashFlowEvent[];
+  variableSpend: VariableSpend[];
+  periodEndBalance: number; // projected balance at `periodEnd`
+  lowestBalance: { date: string; balance: number };
+  firstNegativeDate: string | null; // first day the balance is projected below zero
+}
+
+/**
+ * User-defined categorisation rule, evaluated before the AI classification.
+ * All set conditions must match; rules run by ascending priority and the first match wins.
+ */
+export interface CategorizationRule {
+  id: string;
+  userId: string;
+  name: string;
+  merchantPattern?: string; // matched against the merchant, case-insensitive
+  merchantMatch: 'contains' | 'regex';
+  minAmount?: number; // CHF, inclusive, compared with the absolute amount
+  maxAmount?: number;
+  rawCategoryPattern?: string; // case-insensitive substring of the user/bank category
+  category: string;
+  isImpulse: boolean;
+  decisionLabel: 'useful' | 'unnecessary';
+  priority: number; // lower runs first
+  enabled: boolean;
+  createdAt: string; // ISO timestamp
+}
+
+/**
+ * Column mapping for CSV imports. Column names are matched against the header row (case-insensitive).
+ * Either `amountColumn` or `debitColumn`/`creditColumn` must be set.
+ */
+export interface CsvColumnMapping {
+  delimiter?: ',' | ';' | '\t'; // auto-detected when missing
+  dateColumn?: string; // rows without date are booked today
+  merchantColumns: string[]; // joined with a space, e.g. UBS Beschreibung1 + Beschreibung2
+  amountColumn?: string;
+  signedAmounts?: boolean; // amountColumn is negative for expenses, positive for credits
+  debitColumn?: string;
+  creditColumn?: string;
+  rawCategoryColumn?: string;
+  justificationColumn?: string;
+  dateFormat?: 'auto' | 'dmy' | 'mdy';
+}
+
+export interface ImportBatch {
+  id: string;
+  userId: string;
+  fileName: string;
+  createdAt: string; // ISO timestamp
+  transactionCount: number;
+  status: 'committed' | 'rolled_back';
+}
+
+export interface ImportPreviewRow {
+  line: number; // Line in the uploaded file
+  transaction: Transaction; // Classified, not yet stored
+  duplicateOf?: string; // Id of a stored transaction with same date, amount and merchant
+  paysBill?: string; // Id of the open QR-bill this bank booking pays; committing books the bill
+}
+
+/** Classification fields a re-classification run may change */
+export type ReclassifyProposal = Pick<
+  Transaction,
+  | 'category'
+  | 'isImpulse'
+  | 'decisionLabel'
+  | 'decisionExplanation'
+  | 'decisionExplanationEn'
+  | 'ruleId'
+  | 'ruleName'
+  | 'classificationSource'
+  | 'confidence'
+>;
+
+/** Stored transaction and what the current rules, taxonomy and prompt would make of it */
+export interface ReclassifyChange {
+  transaction: Transaction;
+  proposed: ReclassifyProposal;
+}
+
+/** Outcome of a single import row as streamed to the import page */
+export interface ImportRowResult {
+  line: number;
+  status: 'classified' | 'duplicate' | 'billPaid' | 'created' | 'error';
+  merchant?: string;
+  amount?: number;
+  category?: string;
+  message?: string; // Error message
+}
+
+/** Progress of a running import: `done` of `total` rows passed the current phase */
+export interface ImportProgress {
+  phase: 'classify' | 'store';
+  done: number;
+  total: number;
+  row: ImportRowResult;
+}
+
 export interface BudgetSummary {
   userId: string;
   month: string; // YYYY-MM format
   monthlyBudget: number; // Budget für den gewählten Zeitraum (Monat oder aufs Jahr hochgerechnet)
   usedBudget: number; // Amount already spent
   byCategory: CategorySpending[];
+  envelopes: CategoryEnvelope[];
+  periodStart: string; // YYYY-MM-DD, first day of the analysed period (budget period for timeframe month)
+  periodEnd: string; // YYYY-MM-DD, inclusive
   timeframe?: 'month' | 'year';
 }
 
@@ -50,6 +325,18 @@ export interface CategorySpending {
   amount: number;
 }
 
+/**
+ * Budget vs. actual of one category with a budget limit over the analysed period
+ */
+export interface CategoryEnvelope {
+  category: string;
+  limit: number; // monthly limit × months in the period
+  carriedOver: number; // unused (+) or overspent (−) amount rolled over from earlier months
+  available: number; // limit + carriedOver
+  spent: number; // booked expenses of the category and its subcategories
+  remaining: number; // available − spent, negative when overspent
+}
+
 // Agent input/output types
 
 export interface DataExtractionInput {
@@ -62,6 +349,38 @@ export interface DataExtractionInput {
 
 export interface ImpulseClassificationInput {
   transaction: Omit<Transaction, 'category' | 'isImpulse' | 'decisionLabel' | 'decisionExplanation'>;
+  categories?: Category[]; // taxonomy offered to the model; the default taxonomy when omitted
+  history?: ClassificationHistory; // spending behaviour around the transaction (see lib/classificationHistory.ts)
+}
+
+/** Many transactions classified with one prompt (bulk imports) */
+export interface BatchImpulseClassificationInput {
+  items: Omit<ImpulseClassificationInput, 'categories'>[];
+  categories?: Category[];
+}
+
+/** Savings goal that is still open at the transaction date */
+export interface SavingsGoalPressure {
+  title: string;
+  remaining: number; // CHF still to save
+  monthsLeft: number; // until the target date, at least 1
+  requiredPerMonth: number; // CHF
+}
+
+/**
+ * Behaviour context for the impulse classification, computed from the user's history
+ * up to the transaction date
+ */
+export interface ClassificationHistory {
+  month: string; // YYYY-MM of the transaction
+  monthlyBudget?: number; // flexible monthly budget in CHF, when known
+  monthSpent: number; // expenses booked in that month before this transaction
+  likelyCategory?: string; // category of earlier purchases at this merchant (or the user's raw category)
+  categoryMonthSpent?: number; // spend in likelyCategory (incl. subcategories) in that month
+  similarLast7Days: number; // purchases at the same merchant or in likelyCategory
+  similarLast30Days: number;
+  savingsGoals: SavingsGoalPressure[];
+  hourOfDay?: number; // only when the transaction carries a time
 }
 
 export interface ImpulseClassificationOutput {
@@ -69,6 +388,9 @@ export interface ImpulseClassificationOutput {
   isImpulse: boolean;
   decisionLabel: 'useful' | 'unnecessary';
   decisionExplanation: string;
+  decisionExplanationEn?: string; // batch answers come in both languages, saving a translation call
+  confidence: number; // 0-1
+  source: 'llm' | 'fallback';
 }
 
 export interface SavingsGoalInput {
@@ -86,18 +408,24 @@ export interface SavingsGoalOutput {
 export interface BudgetPlannerInput {
   userId: string;
   monthlyNetIncome: number;
+  budgetProfile?: BudgetProfile; // Budgetmodell des Nutzers, sonst 60 % des Einkommens
+  monthlyFlexibleBudget?: number; // gespeichertes flexibles Budget (Modus manual)
+  budgetPeriod?: BudgetPeriodSetting; // Periodenbeginn für timeframe month, sonst Kalendermonat
   transactions: Transaction[];
   month: string; // Referenzmonat im Format YYYY-MM
   timeframe?: 'month' | 'year' | 'custom'; // Steuerung des Betrachtungszeitraums
   startDate?: string; // YYYY-MM-DD bei Custom
   endDate?: string; // YYYY-MM-DD bei Custom
   budgetMode?: 'auto' | 'manual'; // auto = Lohnhistorie, manual = manuell gesetztes Budget bevorzugen
+  categories?: Category[]; // Taxonomie des Nutzers (Einnahmen-Kategorien), sonst Standard-Taxonomie
 }
 
 export interface BudgetPlannerOutput {
   monthlyBudget: number;
   usedBudget: number;
   byCategory: CategorySpending[];
+  envelopes: CategoryEnvelope[];
+  period: BudgetPeriod; // analysierter Zeitraum
   patterns: string[]; // Detected patterns and nudges in German
   timeframe?: 'month' | 'year' | 'custom';
 }
@@ -111,7 +439,7 @@ export interface ChatMessage {
 
 export interface ChatRequest {
   conversation: ChatMessage[];
-  userId: string;
+  lang?: 'de' | 'en';
 }
 
 export interface ChatResponse {
@@ -0,0 +1,142 @@
+/**
+ * Minimal XML reader for bank statements (camt.053/054)
+ * Builds an element tree with namespace prefixes stripped and the source line of every element,
+ * so import errors can point at the right place. DTDs and entities other than the XML
+ * built-ins are not supported (and not needed for ISO 20022 files).
+ */
+
+export interface XmlNode {
+  name: string; // local name without namespace prefix
+  attributes: Record<string, string>;
+  children: XmlNode[];
+  text: string;
+  line: number;
+}
+
+export class XmlParseError extends Error {
+  constructor(message: string, public line: number) {
+    super(message);
+    this.name = 'XmlParseError';
+  }
+}
+
+const localName = (name: string) => name.slice(name.indexOf(':') + 1);
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[entity] as string;
+  });
+}
+
+export function parseXml(source: string): XmlNode {
+  const root: XmlNode = { name: '#document', attributes: {}, children: [], text: '', line: 1 };
+  const stack: XmlNode[] = [root];
+  let pos = 0;
+  let line = 1;
+
+  const advance = (to: number) => {
+    for (let i = pos; i < to; i++) if (source[i] === '\n') line += 1;
+    pos = to;
+  };
+  const skipPast = (marker: string, what: string) => {
+    const end = source.indexOf(marker, pos);
+    if (end === -1) throw new XmlParseError(`Unvollständiges ${what}`, line);
+    const content = source.slice(pos, end);
+    advance(end + marker.length);
+    return content;
+  };
+
+  while (pos < source.length) {
+    const next = source.indexOf('<', pos);
+    const current = stack[stack.length - 1];
+
+    if (next === -1) {
+      advance(source.length);
+      break;
+    }
+    if (next > pos) {
+      current.text += decodeEntities(source.slice(pos, next));
+      advance(next);
+    }
+
+    if (source.startsWith('<!--', pos)) {
+      skipPast('-->', 'Kommentar');
+    } else if (source.startsWith('<![CDATA[', pos)) {
+      advance(pos + 9);
+      current.text += skipPast(']]>', 'CDATA');
+    } else if (source.startsWith('<?', pos)) {
+      skipPast('?>', 'Processing Instruction');
+    } else if (source.startsWith('<!', pos)) {
+      throw new XmlParseError('DTD-Deklarationen werden nicht unterstützt', line);
+    } else if (source.startsWith('</', pos)) {
+      const name = localName(skipPast('>', 'End-Tag').slice(2).trim());
+      if (stack.length === 1 || current.name !== name) {
+        throw new XmlParseError(`Unerwartetes End-Tag </${name}>`, line);
+      }
+      current.text = current.text.trim();
+      stack.pop();
+    } else {
+      const startLine = line;
+      const tag = skipPast('>', 'Tag').slice(1);
+      const selfClosing = tag.endsWith('/');
+      const body = selfClosing ? tag.slice(0, -1) : tag;
+      const nameMatch = body.match(/^[^\s/>]+/);
+      if (!nameMatch) throw new XmlParseError('Ungültiges Tag', startLine);
+
+      const node: XmlNode = { name: localName(nameMatch[0]), attributes: {}, children: [], text: '', line: startLine };
+      const attrPattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+      let attr: RegExpExecArray | null;
+      while ((attr = attrPattern.exec(body.slice(nameMatch[0].length)))) {
+        node.attributes[localName(attr[1])] = decodeEntities(attr[3] ?? attr[4] ?? '');
+      }
+
+      current.children.push(node);
+      if (!selfClosing) stack.push(node);
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new XmlParseError(`Element <${stack[stack.length - 1].name}> wird nicht geschlossen`, line);
+  }
+  return root;
+}
+
+/**
+ * First descendant following the given child path, e.g. `child(ntry, 'BookgDt', 'Dt')`
+ */
+export function child(node: XmlNode | undefined, ...path: string[]): XmlNode | undefined {
+  let current = node;
+  for (const name of path) {
+    current = current?.children.find((c) => c.name === name);
+    if (!current) return undefined;
+  }
+  return current;
+}
+
+export function children(node: XmlNode | undefined, name: string): XmlNode[] {
+  return node ? node.children.filter((c) => c.name === name) : [];
+}
+
+export function childText(node: XmlNode | undefined, ...path: string[]): string | undefined {
+  const text = child(node, ...path)?.text;
+  return text ? text : undefined;
+}
+
+/**
+ * All elements with the given name anywhere below the node (document order)
+ */
+export function descendants(node: XmlNode, name: string): XmlNode[] {
+  const found: XmlNode[] = [];
+  const walk = (current: XmlNode) => {
+    current.children.forEach((c) => {
+      if (c.name === name) found.push(c);
+      walk(c);
+    });
+  };
+  walk(node);
+  return found;
+}
@@ -6,6 +6,10 @@ const nextConfig = {
   // Disable SWC minify to avoid a Radix Progress minification bug that produces invalid JS
   swcMinify: false,
   images: { unoptimized: true },
+  // The browser needs the storage backend to know whether it runs in local mode (no sign-in)
+  env: {
+    NEXT_PUBLIC_STORAGE_BACKEND: process.env.STORAGE_BACKEND || '',
+  },
 };
 
 module.exports = nextConfig;
@@ -0,0 +1,37 @@
+/*
+  # Per-user row level security
+
+  1. Security
+    - Replace the permissive "Allow all access" policies with per-user policies.
+    - `users.id` and `*.user_id` hold the Supabase Auth user id (`auth.uid()`) as text.
+    - API routes resolve the session server-side and additionally scope every query
+      by user id, so the policies protect direct client access with the anon key.
+*/
+
+DROP POLICY IF EXISTS "Allow all access to users" ON users;
+DROP POLICY IF EXISTS "Allow all access to transactions" ON transactions;
+DROP POLICY IF EXISTS "Allow all access to savings_goals" ON savings_goals;
+
+-- users: each account may only see and edit its own profile row
+CREATE POLICY "Users can manage own profile"
+  ON users
+  FOR ALL
+  TO authenticated
+  USING (auth.uid()::text = id)
+  WITH CHECK (auth.uid()::text = id);
+
+-- transactions: owner only
+CREATE POLICY "Users can manage own transactions"
+  ON transactions
+  FOR ALL
+  TO authenticated
+  USING (auth.uid()::text = user_id)
+  WITH CHECK (auth.uid()::text = user_id);
+
+-- savings_goals: owner only
+CREATE POLICY "Users can manage own savings goals"
+  ON savings_goals
+  FOR ALL
+  TO authenticated
+  USING (auth.uid()::text = user_id)
+  WITH CHECK (auth.uid()::text = user_id);
@@ -0,0 +1,45 @@
+/*
+  # Import batches
+
+  1. New Tables
+    - `import_batches`
+      - `id` (uuid, primary key) - Batch identifier
+      - `user_id` (text, foreign key) - Reference to users table
+      - `file_name` (text) - Name of the uploaded file
+      - `transaction_count` (integer) - Number of transactions stored with the batch
+      - `status` (text) - "committed" or "rolled_back"
+      - `created_at` (timestamptz) - Upload timestamp
+
+  2. Changes
+    - `transactions.import_batch_id` (uuid, nullable) - Batch the row was imported with,
+      used to roll back a whole upload.
+
+  3. Security
+    - Enable RLS with an owner-only policy, same as the other tables.
+*/
+
+CREATE TABLE IF NOT EXISTS import_batches (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  file_name text NOT NULL DEFAULT ''::text,
+  transaction_count integer NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'committed'::text,
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT import_batches_pkey PRIMARY KEY (id),
+  CONSTRAINT import_batches_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id),
+  CONSTRAINT import_batches_status_check CHECK (status IN ('committed', 'rolled_back'))
+);
+
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own import batches"
+  ON import_batches
+  FOR ALL
+  TO authenticated
+  USING (auth.uid()::text = user_id)
+  WITH CHECK (auth.uid()::text = user_id);
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS import_batch_id uuid REFERENCES public.import_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS transactions_import_batch_id_idx ON transactions (import_batch_id);
@@ -0,0 +1,10 @@
+/*
+  # Saved CSV column mapping per profile
+
+  1. Changes
+    - `users.csv_mapping` (jsonb, nullable) - User-defined column mapping for bank CSV
+      exports that none of the built-in presets recognise (see lib/csvImport.ts).
+*/
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS csv_mapping jsonb;
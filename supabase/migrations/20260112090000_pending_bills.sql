@@ -0,0 +1,18 @@
+/*
+  # Pending transactions for scanned QR-bills
+
+  1. Changes
+    - `transactions.status` (text, default 'booked') - 'pending' marks an open bill whose
+      `date` is the due date; it becomes 'booked' once paid
+    - `transactions.payment_reference` (text, nullable) - QRR/SCOR reference of the QR-bill,
+      used to recognise the payment in bank statement imports
+*/
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'booked'
+    CHECK (status IN ('booked', 'pending')),
+  ADD COLUMN IF NOT EXISTS payment_reference text;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_pending
+  ON transactions(user_id, date)
+  WHERE status = 'pending';
@@ -0,0 +1,60 @@
+/*
+  # User-defined categorisation rules
+
+  1. New Tables
+    - `categorization_rules`
+      - `id` (uuid, primary key) - Rule identifier
+      - `user_id` (text, foreign key) - Reference to users table
+      - `name` (text) - Label shown in the UI and on classified transactions
+      - `merchant_pattern` (text, nullable) - Substring or regular expression for the merchant
+      - `merchant_match` (text) - "contains" or "regex"
+      - `min_amount` / `max_amount` (numeric, nullable) - Inclusive range on the absolute amount
+      - `raw_category_pattern` (text, nullable) - Substring of the user/bank category
+      - `category`, `is_impulse`, `decision_label` - Classification applied on a match
+      - `priority` (integer) - Evaluation order, lower first
+      - `enabled` (boolean) - Disabled rules are skipped
+      - `created_at` (timestamptz) - Creation timestamp, tie-breaker for equal priorities
+
+  2. Changes
+    - `transactions.rule_id` (uuid, nullable) - Rule that classified the row
+    - `transactions.rule_name` (text, nullable) - Rule name at classification time
+
+  3. Security
+    - Enable RLS with an owner-only policy, same as the other tables.
+*/
+
+CREATE TABLE IF NOT EXISTS categorization_rules (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  name text NOT NULL,
+  merchant_pattern text,
+  merchant_match text NOT NULL DEFAULT 'contains'::text,
+  min_amount numeric,
+  max_amount numeric,
+  raw_category_pattern text,
+  category text NOT NULL,
+  is_impulse boolean NOT NULL DEFAULT false,
+  decision_label text NOT NULL DEFAULT 'useful'::text,
+  priority integer NOT NULL DEFAULT 100,
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT categorization_rules_pkey PRIMARY KEY (id),
+  CONSTRAINT categorization_rules_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id),
+  CONSTRAINT categorization_rules_merchant_match_check CHECK (merchant_match IN ('contains', 'regex')),
+  CONSTRAINT categorization_rules_decision_label_check CHECK (decision_label IN ('useful', 'unnecessary'))
+);
+
+CREATE INDEX IF NOT EXISTS categorization_rules_user_id_idx ON categorization_rules (user_id, priority);
+
+ALTER TABLE categorization_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own categorization rules"
+  ON categorization_rules
+  FOR ALL
+  TO authenticated
+  USING (auth.uid()::text = user_id)
+  WITH CHECK (auth.uid()::text = user_id);
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS rule_id uuid REFERENCES public.categorization_rules(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS rule_name text;
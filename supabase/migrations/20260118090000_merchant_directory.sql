@@ -0,0 +1,44 @@
+/*
+  # Merchant directory
+
+  1. New Tables
+    - `merchants`
+      - `id` (uuid, primary key) - Merchant identifier
+      - `user_id` (text, foreign key) - Reference to users table
+      - `name` (text) - Canonical merchant name stored on transactions
+      - `aliases` (text[]) - Raw bank strings and earlier names mapped onto `name`
+      - `default_category` (text, nullable) - Category hint when the user gives none
+      - `created_at` (timestamptz) - Creation timestamp
+
+  2. Changes
+    - `transactions.raw_merchant` (text, nullable) - Merchant text as entered or exported by
+      the bank, kept when the stored merchant was normalised or merged
+
+  3. Security
+    - Enable RLS with an owner-only policy, same as the other tables.
+*/
+
+CREATE TABLE IF NOT EXISTS merchants (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  name text NOT NULL,
+  aliases text[] NOT NULL DEFAULT '{}'::text[],
+  default_category text,
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT merchants_pkey PRIMARY KEY (id),
+  CONSTRAINT merchants_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS merchants_user_name_idx ON merchants (user_id, lower(name));
+
+ALTER TABLE merchants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own merchants"
+  ON merchants
+  FOR ALL
+  TO authenticated
+  USING (auth.uid()::text = user_id)
+  WITH CHECK (auth.uid()::text = user_id);
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS raw_merchant text;
@@ -0,0 +1,97 @@
+/*
+  # Category taxonomy
+
+  1. New Tables
+    - `categories`
+      - `id` (uuid, primary key) - Category identifier
+      - `user_id` (text, foreign key) - Reference to users table
+      - `name` (text) - Stable name stored on transactions, rules and merchants
+      - `parent_id` (uuid, nullable) - Parent category; children roll up into it
+      - `kind` (text) - `income` or `expense`
+      - `color` (text) - Hex colour for charts and badges
+      - `icon` (text) - Icon key used by the UI
+      - `label_de` / `label_en` (text) - Display labels
+      - `sort_order` (integer) - Position among its siblings
+      - `created_at` (timestamptz) - Creation timestamp
+
+  2. Changes
+    - Legacy category names are mapped onto the taxonomy (see LEGACY_CATEGORY_NAMES in
+      lib/categories.ts) on transactions, categorisation rules and merchant defaults:
+      `Transport` -> `Mobilität - Öffentlicher Verkehr`, `Food Delivery` -> `Gastronomie`,
+      `Sonstiges` -> `Allgemeines`, `Sparen` -> `Sparen & Anlegen`.
+    - Salary rows booked under the generic `Einnahmen` move to its child `Lohn`.
+    - The default taxonomy itself is created per user by the app on first access.
+
+  3. Security
+    - Enable RLS with an owner-only policy, same as the other tables.
+*/
+
+CREATE TABLE IF NOT EXISTS categories (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  name text NOT NULL,
+  parent_id uuid,
+  kind text NOT NULL DEFAULT 'expense',
+  color text NOT NULL DEFAULT '#9ca3af',
+  icon text NOT NULL DEFAULT 'tag',
+  label_de text NOT NULL,
+  label_en text NOT NULL,
+  sort_order integer NOT NULL DEFAULT 100,
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT categories_pkey PRIMARY KEY (id),
+  CONSTRAINT categories_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id),
+  CONSTRAINT categories_parent_id_fkey FOREIGN KEY (parent_id) REFERENCES categories(id) ON DELETE SET NULL,
+  CONSTRAINT categories_kind_check CHECK (kind IN ('income', 'expense'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS categories_user_name_idx ON categories (user_id, name);
+
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own categories"
+  ON categories
+  FOR ALL
+  TO authenticated
+  USING (auth.uid()::text = user_id)
+  WITH CHECK (auth.uid()::text = user_id);
+
+WITH legacy(old_name, new_name) AS (
+  VALUES
+    ('Transport', 'Mobilität - Öffentlicher Verkehr'),
+    ('Food Delivery', 'Gastronomie'),
+    ('Sonstiges', 'Allgemeines'),
+    ('Sparen', 'Sparen & Anlegen')
+)
+UPDATE transactions t
+  SET category = legacy.new_name
+  FROM legacy
+  WHERE t.category = legacy.old_name;
+
+WITH legacy(old_name, new_name) AS (
+  VALUES
+    ('Transport', 'Mobilität - Öffentlicher Verkehr'),
+    ('Food Delivery', 'Gastronomie'),
+    ('Sonstiges', 'Allgemeines'),
+    ('Sparen', 'Sparen & Anlegen')
+)
+UPDATE categorization_rules r
+  SET category = legacy.new_name
+  FROM legacy
+  WHERE r.category = legacy.old_name;
+
+WITH legacy(old_name, new_name) AS (
+  VALUES
+    ('Transport', 'Mobilität - Öffentlicher Verkehr'),
+    ('Food Delivery', 'Gastronomie'),
+    ('Sonstiges', 'Allgemeines'),
+    ('Sparen', 'Sparen & Anlegen')
+)
+UPDATE merchants m
+  SET default_category = legacy.new_name
+  FROM legacy
+  WHERE m.default_category = legacy.old_name;
+
+UPDATE transactions
+  SET category = 'Lohn'
+  WHERE category = 'Einnahmen'
+    AND concat_ws(' ', merchant, raw_category, justification) ~* '(lohn|salär|salaer|gehalt|salary|payroll|wage)';
@@ -0,0 +1,19 @@
+/*
+  # Classification confidence and source
+
+  1. Changes
+    - `transactions.classification_source` (text, nullable) - Who decided the category:
+      rule, local (local classifier), llm, fallback (keyword guess) or user
+    - `transactions.confidence` (numeric, nullable) - 0-1, how sure that source was;
+      existing rows keep NULL and stay out of the review queue
+*/
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS classification_source text
+    CHECK (classification_source IN ('rule', 'local', 'llm', 'fallback', 'user')),
+  ADD COLUMN IF NOT EXISTS confidence numeric
+    CHECK (confidence >= 0 AND confidence <= 1);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_review
+  ON transactions(user_id, confidence)
+  WHERE classification_source IN ('llm', 'local', 'fallback');
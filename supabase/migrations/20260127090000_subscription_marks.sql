@@ -0,0 +1,37 @@
+/*
+  # Subscription marks
+
+  1. New Tables
+    - `subscription_marks`
+      - `id` (uuid, primary key) - Mark identifier
+      - `user_id` (text, foreign key) - Reference to users table
+      - `merchant_key` (text) - Normalised merchant the detected subscription belongs to
+      - `status` (text) - "expected" (confirmed recurring charge) or "cancelled"
+      - `updated_at` (timestamptz) - When the user set the status; for "cancelled" the
+        cancellation date, later charges are flagged
+
+  2. Security
+    - Enable RLS with an owner-only policy, same as the other tables.
+*/
+
+CREATE TABLE IF NOT EXISTS subscription_marks (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  merchant_key text NOT NULL,
+  status text NOT NULL,
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT subscription_marks_pkey PRIMARY KEY (id),
+  CONSTRAINT subscription_marks_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id),
+  CONSTRAINT subscription_marks_status_check CHECK (status IN ('expected', 'cancelled'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS subscription_marks_user_merchant_idx ON subscription_marks (user_id, merchant_key);
+
+ALTER TABLE subscription_marks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own subscription marks"
+  ON subscription_marks
+  FOR ALL
+  TO authenticated
+  USING (auth.uid()::text = user_id)
+  WITH CHECK (auth.uid()::text = user_id);
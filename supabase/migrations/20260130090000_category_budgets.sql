@@ -0,0 +1,14 @@
+/*
+  # Category budgets (envelopes)
+
+  1. Changes
+    - `categories.budget_limit` (numeric, nullable) - Monthly budget in CHF for the category
+      and its subcategories; NULL means no envelope
+    - `categories.budget_rollover` (boolean, default false) - Carry unused or overspent
+      amounts into the next month
+*/
+
+ALTER TABLE categories
+  ADD COLUMN IF NOT EXISTS budget_limit numeric
+    CHECK (budget_limit >= 0),
+  ADD COLUMN IF NOT EXISTS budget_rollover boolean NOT NULL DEFAULT false;
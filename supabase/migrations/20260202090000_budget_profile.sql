@@ -0,0 +1,24 @@
+/*
+  # Budget profile
+
+  1. Changes
+    - `users.budget_model` (text, nullable) - percentage, zero-based or 50-30-20;
+      NULL keeps the original rule (60 % of the net income)
+    - `users.fixed_costs` (numeric) - Monthly fixed costs in CHF
+    - `users.savings_target` (numeric) - Monthly savings target in CHF
+    - `users.flexible_share` (numeric) - Share of the income for the percentage model (0-1)
+    - `users.monthly_flexible_budget` (numeric, nullable) - Flexible budget derived from income
+      and profile, stored separately so the income is no longer rewritten from the budget
+*/
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS budget_model text
+    CHECK (budget_model IN ('percentage', 'zero-based', '50-30-20')),
+  ADD COLUMN IF NOT EXISTS fixed_costs numeric NOT NULL DEFAULT 0
+    CHECK (fixed_costs >= 0),
+  ADD COLUMN IF NOT EXISTS savings_target numeric NOT NULL DEFAULT 0
+    CHECK (savings_target >= 0),
+  ADD COLUMN IF NOT EXISTS flexible_share numeric NOT NULL DEFAULT 0.6
+    CHECK (flexible_share >= 0 AND flexible_share <= 1),
+  ADD COLUMN IF NOT EXISTS monthly_flexible_budget numeric
+    CHECK (monthly_flexible_budget >= 0);
@@ -0,0 +1,14 @@
+/*
+  # Payday-aligned budget periods
+
+  1. Changes
+    - `users.budget_period_mode` (text, nullable) - calendar, fixed (day of month) or salary
+      (day the salary usually arrives, detected from the history); NULL means calendar months
+    - `users.budget_period_day` (integer) - Start day for mode fixed, fallback for mode salary
+*/
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS budget_period_mode text
+    CHECK (budget_period_mode IN ('calendar', 'fixed', 'salary')),
+  ADD COLUMN IF NOT EXISTS budget_period_day integer NOT NULL DEFAULT 1
+    CHECK (budget_period_day BETWEEN 1 AND 28);
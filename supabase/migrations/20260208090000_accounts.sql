@@ -0,0 +1,53 @@
+/*
+  # Accounts and internal transfers
+
+  1. New Tables
+    - `accounts`
+      - `id` (uuid, primary key) - Account identifier
+      - `user_id` (text, foreign key) - Reference to users table
+      - `name` (text) - Display name, unique per user
+      - `type` (text) - bank, card, cash, savings or pillar3a
+      - `opening_balance` (numeric) - Balance in CHF before the first booked transaction
+      - `created_at` (timestamptz) - Creation timestamp
+
+  2. Changes
+    - `transactions.account_id` (uuid, nullable) - Account the amount is booked on
+    - `transactions.transfer_account_id` (uuid, nullable) - Set for transfers: account the
+      amount moves to. Transfers count neither as income nor as expense.
+    - Accounts referenced by transactions cannot be deleted (the API refuses first).
+
+  3. Security
+    - Enable RLS with an owner-only policy, same as the other tables.
+*/
+
+CREATE TABLE IF NOT EXISTS accounts (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  name text NOT NULL,
+  type text NOT NULL DEFAULT 'bank'
+    CHECK (type IN ('bank', 'card', 'cash', 'savings', 'pillar3a')),
+  opening_balance numeric NOT NULL DEFAULT 0,
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT accounts_pkey PRIMARY KEY (id),
+  CONSTRAINT accounts_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS accounts_user_name_idx ON accounts (user_id, lower(name));
+
+ALTER TABLE accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own accounts"
+  ON accounts
+  FOR ALL
+  TO authenticated
+  USING (auth.uid()::text = user_id)
+  WITH CHECK (auth.uid()::text = user_id);
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS account_id uuid REFERENCES accounts(id),
+  ADD COLUMN IF NOT EXISTS transfer_account_id uuid REFERENCES accounts(id),
+  ADD CONSTRAINT transactions_transfer_accounts_check
+    CHECK (transfer_account_id IS NULL OR (account_id IS NOT NULL AND account_id <> transfer_account_id));
+
+CREATE INDEX IF NOT EXISTS transactions_account_id_idx ON transactions (account_id);
+CREATE INDEX IF NOT EXISTS transactions_transfer_account_id_idx ON transactions (transfer_account_id);